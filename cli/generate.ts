@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { JSDOM } from "jsdom";
+import JSZip from "jszip";
+import { DEFAULT_PROVIDER_SETTINGS, ProviderId, ProviderSettings, createTextProvider, createImageProvider, providerModels } from "../services/aiProvider";
+import { buildGenerationRequest, generateSite, prepareSitePages } from "../services/sitePipeline";
+import { DEFAULT_EXPORT_OPTIONS, ExportFiles, buildExportFiles, zipExportFiles } from "../services/siteExport";
+import { toGenerationError } from "../services/generationErrors";
+import { DEFAULT_PRICE_TABLE, createUsageRun, trackUsage, summarizeUsage, estimateCost } from "../services/usageTracking";
+import { DEFAULT_SECURITY_POLICY, SecurityFinding, sanitizeHtml } from "../utils/security";
+import { planPages } from "../utils/sitePages";
+import { t } from "../utils/i18n";
+
+// Generates a website from a JSON spec without the editor, e.g. for a batch of client briefs:
+//
+//   npm run generate -- brief.json --out site/        writes the site folder
+//   npm run generate -- brief.json --out site.zip     writes the ZIP the editor exports
+//
+// stdout receives exactly one JSON object, { ok: true, ... } or { ok: false, error: { code, message, details } },
+// and the exit code is 0, 1 (generation or output failed) or 2 (bad arguments or spec). Progress goes to stderr.
+
+/** Contents of the spec file. Everything except the prompt defaults to the form's defaults. */
+interface SiteSpec {
+    prompt: string;
+    language: string;
+    pageType: string;
+    sections: string[];
+    imageCount: number;
+    /** Page names of a multi-page site, e.g. ["Home", "About", "Contact"]; a single page if missing. */
+    pages: string[] | null;
+}
+
+type CliErrorCode = 'usage' | 'invalid-spec' | 'output';
+
+class CliError extends Error {
+    constructor(readonly code: CliErrorCode, message: string, readonly details = '') {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+const USAGE = `Usage: npm run generate -- <spec.json> --out <folder | file.zip> [options]
+
+Options:
+  --out <path>       Target folder, or a .zip file
+  --provider <id>    gemini (default), openai or mock
+  --base-url <url>   Public URL of the site, for canonical URLs, sitemap.xml and social images
+  --minify           Minify HTML, CSS and JavaScript
+  --csp              Add a Content-Security-Policy meta tag to every page
+  --quiet            Don't log progress to stderr
+
+Environment: GEMINI_API_KEY for Gemini; OPENAI_BASE_URL and OPENAI_API_KEY for an OpenAI-compatible server.`;
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'mock'];
+
+const SPEC_DEFAULTS: Omit<SiteSpec, 'prompt'> = {
+    language: 'German',
+    pageType: 'Landing Page',
+    sections: ['Hero/Header', 'Services/Features', 'Contact Form', 'Footer'],
+    imageCount: 3,
+    pages: null,
+};
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+}
+
+/** Checks the parsed spec and fills in the defaults; all problems are reported at once. */
+function readSpec(value: unknown): SiteSpec {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new CliError('invalid-spec', "The spec must be a JSON object.");
+    }
+    const spec = { ...SPEC_DEFAULTS, ...value } as SiteSpec;
+    const problems: string[] = [];
+    if (typeof spec.prompt !== 'string' || spec.prompt.trim() === '') problems.push("prompt must be a non-empty string");
+    if (typeof spec.language !== 'string' || spec.language.trim() === '') problems.push("language must be a non-empty string");
+    if (typeof spec.pageType !== 'string' || spec.pageType.trim() === '') problems.push("pageType must be a non-empty string");
+    if (!isStringArray(spec.sections)) problems.push("sections must be an array of strings");
+    if (!Number.isInteger(spec.imageCount) || spec.imageCount < 1 || spec.imageCount > 10) problems.push("imageCount must be a whole number from 1 to 10");
+    if (spec.pages !== null && (!isStringArray(spec.pages) || spec.pages.length < 2)) problems.push("pages must be an array of at least two page names");
+    if (problems.length > 0) {
+        throw new CliError('invalid-spec', "The spec is invalid.", problems.join('\n'));
+    }
+    return { ...spec, prompt: spec.prompt.trim() };
+}
+
+function readProviderSettings(provider: string): ProviderSettings {
+    if (!PROVIDER_IDS.includes(provider as ProviderId)) {
+        throw new CliError('usage', `Unknown provider "${provider}". Use one of: ${PROVIDER_IDS.join(', ')}.`);
+    }
+    return {
+        ...DEFAULT_PROVIDER_SETTINGS,
+        textProvider: provider as ProviderId,
+        imageProvider: provider as ProviderId,
+        openAiBaseUrl: process.env.OPENAI_BASE_URL || DEFAULT_PROVIDER_SETTINGS.openAiBaseUrl,
+        openAiApiKey: process.env.OPENAI_API_KEY || '',
+    };
+}
+
+async function writeFolder(folder: string, files: ExportFiles) {
+    for (const [file, content] of files) {
+        const target = path.join(folder, file);
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, typeof content === 'string' ? content : new Uint8Array(await content.arrayBuffer()));
+    }
+}
+
+function readBaseUrl(value: string | undefined): string {
+    if (value === undefined) return '';
+    if (!/^https?:\/\/[^/]/i.test(value.trim())) {
+        throw new CliError('usage', `The base URL "${value}" must start with http:// or https://.`);
+    }
+    return value.trim();
+}
+
+function describeFindings(findings: SecurityFinding[]): string[] {
+    return [...new Set(findings.map(finding => `Removed ${finding.kind}: ${finding.detail}`))];
+}
+
+async function main(): Promise<Record<string, unknown>> {
+    let args: ReturnType<typeof parseCliArgs>;
+    try {
+        args = parseCliArgs();
+    } catch (error) {
+        throw new CliError('usage', error instanceof Error ? error.message : String(error), USAGE);
+    }
+    const { values, positionals } = args;
+    if (positionals.length !== 1 || !values.out) {
+        throw new CliError('usage', "Expected one spec file and --out.", USAGE);
+    }
+    const log = (message: string) => {
+        if (!values.quiet) process.stderr.write(`${message}\n`);
+    };
+
+    let specText: string;
+    try {
+        specText = await readFile(positionals[0], 'utf8');
+    } catch (error) {
+        throw new CliError('usage', `Could not read the spec file "${positionals[0]}".`, String(error));
+    }
+    let parsedSpec: unknown;
+    try {
+        parsedSpec = JSON.parse(specText);
+    } catch (error) {
+        throw new CliError('invalid-spec', "The spec is not valid JSON.", String(error));
+    }
+    const spec = readSpec(parsedSpec);
+    const settings = readProviderSettings(values.provider ?? 'gemini');
+    const baseUrl = readBaseUrl(values['base-url']);
+    const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+
+    // The pipeline parses and serializes HTML like the browser does; JSZip is a CDN global there
+    const { window } = new JSDOM('');
+    Object.assign(globalThis, { DOMParser: window.DOMParser, Node: window.Node, NodeFilter: window.NodeFilter, JSZip });
+
+    const request = buildGenerationRequest({
+        prompt: spec.prompt,
+        language: spec.language,
+        pageType: spec.pageType,
+        sections: spec.sections,
+        imageCount: spec.imageCount,
+        pagePlan: spec.pages ? planPages(spec.pages) : null,
+        extraLanguages: [],
+        brandKit: null,
+        securityPolicy: DEFAULT_SECURITY_POLICY,
+    });
+    const run = createUsageRun('generation');
+    const providers = trackUsage({ text: createTextProvider(settings, apiKey), image: createImageProvider(settings, apiKey) }, providerModels(settings), run);
+    const site = await generateSite(providers, request, {
+        onStatus: log,
+        onStep: log,
+        onRetry: (error, attempt, delayMs) => log(`${error.message} ${t('loading.retry', { attempt, seconds: Math.ceil(delayMs / 1000) })}`),
+    });
+
+    // Same checks as when the editor shows a generated site
+    const findings: SecurityFinding[] = [];
+    const pages = site.pages.map(page => {
+        const result = sanitizeHtml(page.html, DEFAULT_SECURITY_POLICY);
+        findings.push(...result.findings);
+        return { ...page, html: result.html };
+    });
+    const { pages: preparedPages, css, js } = prepareSitePages(pages, site.favicon);
+
+    const options = { ...DEFAULT_EXPORT_OPTIONS, minify: !!values.minify, contentSecurityPolicy: !!values.csp };
+    const { files, warnings } = await buildExportFiles({
+        pages: preparedPages,
+        css,
+        js,
+        images: site.images,
+        favicon: site.favicon,
+        seo: { ...site.seo, baseUrl },
+        translations: [],
+    }, options);
+
+    const output = path.resolve(values.out);
+    try {
+        if (output.toLowerCase().endsWith('.zip')) {
+            await mkdir(path.dirname(output), { recursive: true });
+            await writeFile(output, new Uint8Array(await (await zipExportFiles(files)).arrayBuffer()));
+        } else {
+            await writeFolder(output, files);
+        }
+    } catch (error) {
+        throw new CliError('output', `Could not write "${output}".`, String(error));
+    }
+    log(`Wrote ${output}`);
+
+    return {
+        output,
+        files: [...files.keys()],
+        failedImages: site.images.filter(image => image.failed).map(image => image.id),
+        // The editor's warning points at the SEO tab, which the CLI doesn't have
+        warnings: [
+            ...describeFindings(findings),
+            ...warnings.map(warning => warning === t('export.warning.noBaseUrl')
+                ? "No sitemap.xml was written and social images have relative paths; pass --base-url to set the public URL."
+                : warning),
+        ],
+        // Estimated with the default price table, in US dollars
+        usage: { calls: run.calls.length, ...summarizeUsage(run.calls), ...estimateCost(run.calls, DEFAULT_PRICE_TABLE) },
+    };
+}
+
+function parseCliArgs() {
+    return parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string' },
+            provider: { type: 'string' },
+            'base-url': { type: 'string' },
+            minify: { type: 'boolean' },
+            csp: { type: 'boolean' },
+            quiet: { type: 'boolean' },
+        },
+    });
+}
+
+main().then(result => {
+    process.stdout.write(`${JSON.stringify({ ok: true, ...result }, null, 2)}\n`);
+}, (error: unknown) => {
+    const failure = error instanceof CliError
+        ? { code: error.code, message: error.message, details: error.details }
+        : (({ code, message, details }) => ({ code, message, details }))(toGenerationError(error));
+    process.stdout.write(`${JSON.stringify({ ok: false, error: failure }, null, 2)}\n`);
+    process.exitCode = error instanceof CliError && error.code !== 'output' ? 2 : 1;
+});
@@ -2,10 +2,168 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI, Type } from "@google/genai";
+import {
+    TextProvider,
+    ImageProvider,
+    AspectRatio,
+    ProviderSettings,
+    loadProviderSettings,
+    saveProviderSettings,
+    createTextProvider,
+    createImageProvider,
+    providerModels,
+    isProviderTextSetting,
+} from "./services/aiProvider";
+import {
+    SitePage,
+    DEFAULT_PAGES_BY_TYPE,
+    planPages,
+    syncSharedLayout,
+    separateInlineScripts,
+    languageCode,
+    languageName,
+    languageLabel,
+} from "./utils/sitePages";
+import { ChatMessage, requestRefinement, applyStructuredEdits } from "./services/refinement";
+import { requestSectionRegeneration } from "./services/sectionRegeneration";
+import { extractScopedRules, replaceScopedRules } from "./utils/cssRules";
+import { ASPECT_RATIOS, CropRect, readFileAsDataUrl, loadImage, fitCropRect, cropImage } from "./utils/imageTools";
+import { SiteImage, FaviconImage } from "./types";
+import {
+    ProjectData,
+    createProjectId,
+    listProjects,
+    loadProject,
+    saveProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    migrateLegacyStorage,
+} from "./services/projectStore";
+import {
+    SnapshotData,
+    listSnapshots,
+    loadSnapshot,
+    saveSnapshot,
+    renameSnapshot,
+    deleteSnapshot,
+} from "./services/snapshotStore";
+import { DiffRow, diffLines, collapseUnchanged } from "./utils/lineDiff";
+import {
+    PromptPreset,
+    loadPresets,
+    savePresets,
+    createPresetId,
+    extractVariables,
+    fillVariables,
+    serializePresets,
+    parsePresetFile,
+    mergePresets,
+} from "./utils/promptPresets";
+import {
+    ExportOptions,
+    ExportImageFormat,
+    loadExportOptions,
+    saveExportOptions,
+    exportSite,
+} from "./services/siteExport";
+import { readImportFiles, importSite } from "./services/siteImport";
+import { exportFrameworkProject } from "./services/frameworkExport";
+import { AuditDocuments, AuditFinding, auditAccessibility } from "./utils/accessibility";
+import {
+    SeoSettings,
+    SEO_TITLE_LENGTH,
+    SEO_DESCRIPTION_LENGTH,
+    readSeoFromPages,
+    stripSeoTags,
+    formatJsonLd,
+    pageUrl,
+    getPageSeo,
+} from "./utils/seo";
+import {
+    PreviewSettings,
+    DEVICE_PRESETS,
+    loadPreviewSettings,
+    savePreviewSettings,
+    clampViewportSize,
+    getViewport,
+    fitScale,
+} from "./utils/devicePreview";
+import { readPartialJsonStrings } from "./utils/partialJson";
+import { GenerationError, RetryOptions, toGenerationError, withRetry } from "./services/generationErrors";
+import { WebsiteData } from "./services/responseValidation";
+import { BrandKit, BrandColorRole, loadBrandKit, saveBrandKit } from "./utils/brandKit";
+import {
+    SecurityPolicy,
+    SecurityFinding,
+    SecurityFindingKind,
+    SecurityOriginList,
+    loadSecurityPolicy,
+    saveSecurityPolicy,
+    parseOrigins,
+    escapeHtml,
+    sanitizeHtml,
+    sanitizeCss,
+} from "./utils/security";
+import {
+    DesignToken,
+    extractDesignTokens,
+    setDesignToken,
+    toHexColor,
+    hasDarkMode,
+    applyDarkMode,
+} from "./utils/designTokens";
+import { mapWithConcurrency } from "./utils/concurrency";
+import { inferAspectRatio } from "./utils/imagePlacement";
+import {
+    SiteTranslation,
+    LANGUAGE_SWITCHER_CSS,
+    collectTranslatableTexts,
+    findMissingTexts,
+    translateHtml,
+    pageLanguageCode,
+    addLanguageLinks,
+} from "./utils/siteTranslation";
+import { requestTranslations } from "./services/translation";
+import {
+    FormSettings,
+    DEFAULT_FORM_SETTINGS,
+    parseExtraFields,
+    formatExtraFields,
+    detectForms,
+    checkFormSettings,
+    wireSiteForms,
+} from "./utils/contactForms";
+import {
+    UsageRun,
+    UsageRunKind,
+    UsageSettings,
+    TypicalCall,
+    createUsageRun,
+    trackUsage,
+    summarizeUsage,
+    callCost,
+    estimateCost,
+    estimateRunCost,
+    parsePriceTable,
+    formatPriceTable,
+    loadUsageSettings,
+    saveUsageSettings,
+} from "./services/usageTracking";
+import {
+    GenerationRequest,
+    PipelineOptions,
+    IMAGE_CONCURRENCY,
+    buildGenerationRequest,
+    countGenerationSteps,
+    generateSite,
+    improveImagePrompts,
+    generateImages,
+    generateSiteImage,
+    prepareSitePages,
+} from "./services/sitePipeline";
+import { Locale, LOCALES, MessageKey, t, getLocale, setLocale, onLocaleChange, translatePage, formatDateTime, formatNumber, formatCost } from "./utils/i18n";
 
-// Let TS know that JSZip will be available on the window.
-declare var JSZip: any;
 declare var ace: any;
 
 // --- DOM ELEMENT REFERENCES ---
@@ -17,28 +175,206 @@ const loadingText = document.getElementById('loading-text') as HTMLParagraphElem
 const progressBarFill = document.getElementById('progress-bar-fill') as HTMLDivElement;
 const progressPercentage = document.getElementById('progress-percentage') as HTMLSpanElement;
 const resultContainer = document.getElementById('result-container') as HTMLDivElement;
+const cancelGenerationBtn = document.getElementById('cancel-generation-btn') as HTMLButtonElement;
+const resultControls = document.getElementById('result-controls') as HTMLDivElement;
+const chatPanel = document.getElementById('chat-panel') as HTMLElement;
+const errorPanel = document.getElementById('error-panel') as HTMLDivElement;
+const errorPanelMessage = document.getElementById('error-panel-message') as HTMLParagraphElement;
+const errorPanelCode = document.getElementById('error-panel-code') as HTMLSpanElement;
+const errorPanelDetails = document.getElementById('error-panel-details') as HTMLPreElement;
+const errorRetryBtn = document.getElementById('error-retry-btn') as HTMLButtonElement;
+const errorDismissBtn = document.getElementById('error-dismiss-btn') as HTMLButtonElement;
 const inputSection = document.getElementById('input-section') as HTMLDivElement;
 
 const pageTypeSelect = document.getElementById('page-type') as HTMLSelectElement;
 const languageSelect = document.getElementById('language-select') as HTMLSelectElement;
 const imageCountInput = document.getElementById('image-count') as HTMLInputElement;
+const multiPageToggle = document.getElementById('multi-page-toggle') as HTMLInputElement;
+const pageListContainer = document.getElementById('page-list-container') as HTMLDivElement;
+const pageListInput = document.getElementById('page-list') as HTMLInputElement;
 const sectionCheckboxes = document.querySelectorAll<HTMLInputElement>('#section-checkboxes input[type="checkbox"]');
+const extraLanguageCheckboxes = document.querySelectorAll<HTMLInputElement>('#extra-language-checkboxes input[type="checkbox"]');
 const exampleChips = document.querySelectorAll('.example-chip');
+const templateVariables = document.getElementById('template-variables') as HTMLDivElement;
+const templateVariableFields = document.getElementById('template-variable-fields') as HTMLDivElement;
+const presetSelect = document.getElementById('preset-select') as HTMLSelectElement;
+const presetSaveBtn = document.getElementById('preset-save-btn') as HTMLButtonElement;
+const presetDeleteBtn = document.getElementById('preset-delete-btn') as HTMLButtonElement;
+const presetImportInput = document.getElementById('preset-import-input') as HTMLInputElement;
+const presetExportBtn = document.getElementById('preset-export-btn') as HTMLButtonElement;
 
 const tabs = document.querySelector('.tabs') as HTMLDivElement;
 const tabButtons = document.querySelectorAll('.tab-button');
 const tabContents = document.querySelectorAll<HTMLElement>('.tab-content');
 
 const previewFrame = document.getElementById('preview-frame') as HTMLIFrameElement;
+const previewStage = document.getElementById('preview-stage') as HTMLDivElement;
+const previewViewport = document.getElementById('preview-viewport') as HTMLDivElement;
+const previewMulti = document.getElementById('preview-multi') as HTMLDivElement;
+const previewDeviceSelect = document.getElementById('preview-device') as HTMLSelectElement;
+const previewCustomSize = document.getElementById('preview-custom-size') as HTMLSpanElement;
+const previewWidthInput = document.getElementById('preview-width') as HTMLInputElement;
+const previewHeightInput = document.getElementById('preview-height') as HTMLInputElement;
+const previewRotateBtn = document.getElementById('preview-rotate-btn') as HTMLButtonElement;
+const previewFitBtn = document.getElementById('preview-fit-btn') as HTMLButtonElement;
+const previewMultiBtn = document.getElementById('preview-multi-btn') as HTMLButtonElement;
+const previewSizeLabel = document.getElementById('preview-size-label') as HTMLSpanElement;
 // Editors are now divs, initialized via Ace
 const htmlEditorContainer = document.getElementById('html-editor') as HTMLDivElement;
 const cssEditorContainer = document.getElementById('css-editor') as HTMLDivElement;
+const jsEditorContainer = document.getElementById('js-editor') as HTMLDivElement;
 
 const updatePreviewBtn = document.getElementById('update-preview-btn') as HTMLButtonElement;
 const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
+const exportDialog = document.getElementById('export-dialog') as HTMLDialogElement;
+const exportForm = document.getElementById('export-form') as HTMLFormElement;
+const exportTargetSelect = document.getElementById('export-target') as HTMLSelectElement;
+const exportFrameworkOptions = document.getElementById('export-framework-options') as HTMLFieldSetElement;
+const exportCssModeInputs = document.querySelectorAll<HTMLInputElement>('input[name="export-css-mode"]');
+const exportHtmlOptions = document.getElementById('export-html-options') as HTMLFieldSetElement;
+const exportImageOptions = document.getElementById('export-image-options') as HTMLFieldSetElement;
+const exportCodeOptions = document.getElementById('export-code-options') as HTMLFieldSetElement;
+const exportModeInputs = document.querySelectorAll<HTMLInputElement>('input[name="export-mode"]');
+const exportSeparateFilesToggle = document.getElementById('export-separate-files') as HTMLInputElement;
+const exportImageFormatSelect = document.getElementById('export-image-format') as HTMLSelectElement;
+const exportWidthsContainer = document.getElementById('export-widths') as HTMLDivElement;
+const exportWidthInputs = document.querySelectorAll<HTMLInputElement>('input[name="export-width"]');
+const exportLazyLoadingToggle = document.getElementById('export-lazy-loading') as HTMLInputElement;
+const exportMinifyToggle = document.getElementById('export-minify') as HTMLInputElement;
+const exportCspToggle = document.getElementById('export-csp') as HTMLInputElement;
+const exportDialogStatus = document.getElementById('export-dialog-status') as HTMLParagraphElement;
+const exportCancelBtn = document.getElementById('export-cancel-btn') as HTMLButtonElement;
+const exportSubmitBtn = document.getElementById('export-submit-btn') as HTMLButtonElement;
 const undoBtn = document.getElementById('undo-btn') as HTMLButtonElement;
 const redoBtn = document.getElementById('redo-btn') as HTMLButtonElement;
 const imageGallery = document.getElementById('image-gallery') as HTMLDivElement;
+const failedImagesBar = document.getElementById('failed-images-bar') as HTMLDivElement;
+const failedImagesText = document.getElementById('failed-images-text') as HTMLParagraphElement;
+const retryFailedImagesBtn = document.getElementById('retry-failed-images-btn') as HTMLButtonElement;
+const pageSwitcherContainer = document.getElementById('page-switcher-container') as HTMLDivElement;
+const pageSwitcher = document.getElementById('page-switcher') as HTMLSelectElement;
+const siteLanguageContainer = document.getElementById('site-language-container') as HTMLDivElement;
+const siteLanguageSelect = document.getElementById('site-language-select') as HTMLSelectElement;
+const updateTranslationsBtn = document.getElementById('update-translations-btn') as HTMLButtonElement;
+const chatMessagesContainer = document.getElementById('chat-messages') as HTMLDivElement;
+const chatForm = document.getElementById('chat-form') as HTMLFormElement;
+const chatInput = document.getElementById('chat-input') as HTMLTextAreaElement;
+const chatSendBtn = document.getElementById('chat-send-btn') as HTMLButtonElement;
+const selectSectionBtn = document.getElementById('select-section-btn') as HTMLButtonElement;
+const selectSectionHint = document.getElementById('select-section-hint') as HTMLSpanElement;
+const sectionDialog = document.getElementById('section-dialog') as HTMLDialogElement;
+const sectionForm = document.getElementById('section-form') as HTMLFormElement;
+const sectionDialogLabel = document.getElementById('section-dialog-label') as HTMLSpanElement;
+const sectionInstruction = document.getElementById('section-instruction') as HTMLTextAreaElement;
+const sectionDialogStatus = document.getElementById('section-dialog-status') as HTMLParagraphElement;
+const sectionCancelBtn = document.getElementById('section-cancel-btn') as HTMLButtonElement;
+const sectionSubmitBtn = document.getElementById('section-submit-btn') as HTMLButtonElement;
+const imageDialog = document.getElementById('image-dialog') as HTMLDialogElement;
+const imageDialogId = document.getElementById('image-dialog-id') as HTMLSpanElement;
+const imageDialogStatus = document.getElementById('image-dialog-status') as HTMLSpanElement;
+const imageDialogPreview = document.getElementById('image-dialog-preview') as HTMLImageElement;
+const imageCropBox = document.getElementById('image-crop-box') as HTMLDivElement;
+const imageCropControls = document.getElementById('image-crop-controls') as HTMLDivElement;
+const imageCropZoom = document.getElementById('image-crop-zoom') as HTMLInputElement;
+const imageCropBtn = document.getElementById('image-crop-btn') as HTMLButtonElement;
+const imageCropApplyBtn = document.getElementById('image-crop-apply-btn') as HTMLButtonElement;
+const imageCropCancelBtn = document.getElementById('image-crop-cancel-btn') as HTMLButtonElement;
+const imageUploadInput = document.getElementById('image-upload-input') as HTMLInputElement;
+const imagePromptInput = document.getElementById('image-prompt-input') as HTMLTextAreaElement;
+const imageAspectSelect = document.getElementById('image-aspect-select') as HTMLSelectElement;
+const imageCandidateCount = document.getElementById('image-candidate-count') as HTMLSelectElement;
+const imageGenerateBtn = document.getElementById('image-generate-btn') as HTMLButtonElement;
+const imageCandidates = document.getElementById('image-candidates') as HTMLDivElement;
+const imageDialogCancelBtn = document.getElementById('image-dialog-cancel-btn') as HTMLButtonElement;
+const imageDialogApplyBtn = document.getElementById('image-dialog-apply-btn') as HTMLButtonElement;
+const projectsBtn = document.getElementById('projects-btn') as HTMLButtonElement;
+const currentProjectLabel = document.getElementById('current-project-label') as HTMLSpanElement;
+const localeSelect = document.getElementById('locale-select') as HTMLSelectElement;
+const projectsDialog = document.getElementById('projects-dialog') as HTMLDialogElement;
+const projectList = document.getElementById('project-list') as HTMLUListElement;
+const newProjectBtn = document.getElementById('new-project-btn') as HTMLButtonElement;
+const projectsNewBtn = document.getElementById('projects-new-btn') as HTMLButtonElement;
+const projectsCloseBtn = document.getElementById('projects-close-btn') as HTMLButtonElement;
+const importFileInput = document.getElementById('import-file-input') as HTMLInputElement;
+const importFolderInput = document.getElementById('import-folder-input') as HTMLInputElement;
+const importStatus = document.getElementById('import-status') as HTMLSpanElement;
+const securityOriginInputs = document.querySelectorAll<HTMLTextAreaElement>('[data-security-origins]');
+const securityInlineHandlersToggle = document.getElementById('security-inline-handlers') as HTMLInputElement;
+const securityJavascriptUrlsToggle = document.getElementById('security-javascript-urls') as HTMLInputElement;
+const securityReport = document.getElementById('security-report') as HTMLDetailsElement;
+const securityReportSummary = document.getElementById('security-report-summary') as HTMLElement;
+const securityReportList = document.getElementById('security-report-list') as HTMLUListElement;
+const usagePricesInput = document.getElementById('usage-prices') as HTMLTextAreaElement;
+const usageBudgetInput = document.getElementById('usage-budget') as HTMLInputElement;
+const usageSessionCost = document.getElementById('usage-session-cost') as HTMLParagraphElement;
+const usageTotal = document.getElementById('usage-total') as HTMLParagraphElement;
+const usageRunList = document.getElementById('usage-runs') as HTMLUListElement;
+const snapshotForm = document.getElementById('snapshot-form') as HTMLFormElement;
+const snapshotNameInput = document.getElementById('snapshot-name') as HTMLInputElement;
+const snapshotSaveBtn = document.getElementById('snapshot-save-btn') as HTMLButtonElement;
+const snapshotList = document.getElementById('snapshot-list') as HTMLUListElement;
+const compareSelectA = document.getElementById('compare-a') as HTMLSelectElement;
+const compareSelectB = document.getElementById('compare-b') as HTMLSelectElement;
+const comparePageSelect = document.getElementById('compare-page') as HTMLSelectElement;
+const compareBtn = document.getElementById('compare-btn') as HTMLButtonElement;
+const compareResult = document.getElementById('compare-result') as HTMLDivElement;
+const compareLabelA = document.getElementById('compare-label-a') as HTMLElement;
+const compareLabelB = document.getElementById('compare-label-b') as HTMLElement;
+const compareFrameA = document.getElementById('compare-frame-a') as HTMLIFrameElement;
+const compareFrameB = document.getElementById('compare-frame-b') as HTMLIFrameElement;
+const diffTargetButtons = document.querySelectorAll<HTMLButtonElement>('[data-diff-target]');
+const compareStats = document.getElementById('compare-stats') as HTMLSpanElement;
+const compareDiff = document.getElementById('compare-diff') as HTMLDivElement;
+const a11ySummary = document.getElementById('a11y-summary') as HTMLParagraphElement;
+const a11yRunBtn = document.getElementById('a11y-run-btn') as HTMLButtonElement;
+const a11yFindingsList = document.getElementById('a11y-findings') as HTMLUListElement;
+const seoForm = document.getElementById('seo-form') as HTMLFormElement;
+const seoSiteNameInput = document.getElementById('seo-site-name') as HTMLInputElement;
+const seoBaseUrlInput = document.getElementById('seo-base-url') as HTMLInputElement;
+const seoKeywordsInput = document.getElementById('seo-keywords') as HTMLInputElement;
+const seoShareImageSelect = document.getElementById('seo-share-image') as HTMLSelectElement;
+const seoTwitterCardSelect = document.getElementById('seo-twitter-card') as HTMLSelectElement;
+const seoPageLabel = document.getElementById('seo-page-label') as HTMLSpanElement;
+const seoPageTitleInput = document.getElementById('seo-page-title') as HTMLInputElement;
+const seoTitleCount = document.getElementById('seo-title-count') as HTMLSpanElement;
+const seoPageDescriptionInput = document.getElementById('seo-page-description') as HTMLTextAreaElement;
+const seoDescriptionCount = document.getElementById('seo-description-count') as HTMLSpanElement;
+const seoCanonicalUrlInput = document.getElementById('seo-canonical-url') as HTMLInputElement;
+const seoSnippetUrl = document.getElementById('seo-snippet-url') as HTMLParagraphElement;
+const seoSnippetTitle = document.getElementById('seo-snippet-title') as HTMLParagraphElement;
+const seoSnippetDescription = document.getElementById('seo-snippet-description') as HTMLParagraphElement;
+const seoJsonLdInput = document.getElementById('seo-json-ld') as HTMLTextAreaElement;
+const seoJsonLdStatus = document.getElementById('seo-json-ld-status') as HTMLParagraphElement;
+const themeDarkModeToggle = document.getElementById('theme-dark-mode') as HTMLInputElement;
+const themeDarkModeHint = document.getElementById('theme-dark-mode-hint') as HTMLParagraphElement;
+const themeTokensContainer = document.getElementById('theme-tokens') as HTMLDivElement;
+const themeEmpty = document.getElementById('theme-empty') as HTMLParagraphElement;
+const formsForm = document.getElementById('forms-form') as HTMLFormElement;
+const formsDetectedList = document.getElementById('forms-detected') as HTMLUListElement;
+const formsBackendSelect = document.getElementById('forms-backend') as HTMLSelectElement;
+const formsMailtoFields = document.getElementById('forms-mailto-fields') as HTMLDivElement;
+const formsEmailInput = document.getElementById('forms-email') as HTMLInputElement;
+const formsJsonFields = document.getElementById('forms-json-fields') as HTMLDivElement;
+const formsEndpointInput = document.getElementById('forms-endpoint') as HTMLInputElement;
+const formsExtraFieldsInput = document.getElementById('forms-extra-fields') as HTMLTextAreaElement;
+const formsNetlifyHint = document.getElementById('forms-netlify-hint') as HTMLParagraphElement;
+const formsHoneypotToggle = document.getElementById('forms-honeypot') as HTMLInputElement;
+const formsSuccessMessageInput = document.getElementById('forms-success-message') as HTMLInputElement;
+const formsErrorMessageInput = document.getElementById('forms-error-message') as HTMLInputElement;
+const formsStatus = document.getElementById('forms-status') as HTMLParagraphElement;
+
+const providerTextSelect = document.getElementById('provider-text') as HTMLSelectElement;
+const providerImageSelect = document.getElementById('provider-image') as HTMLSelectElement;
+const providerFields = document.querySelectorAll<HTMLInputElement>('#provider-settings input[data-setting]');
+const brandKitToggle = document.getElementById('brand-kit-toggle') as HTMLInputElement;
+const brandKitFields = document.getElementById('brand-kit-fields') as HTMLFieldSetElement;
+const brandColorInputs = document.querySelectorAll<HTMLInputElement>('[data-brand-color]');
+const brandHeadingFontInput = document.getElementById('brand-heading-font') as HTMLInputElement;
+const brandBodyFontInput = document.getElementById('brand-body-font') as HTMLInputElement;
+const brandToneInput = document.getElementById('brand-tone') as HTMLInputElement;
+const brandLogoInput = document.getElementById('brand-logo-input') as HTMLInputElement;
+const brandLogoPreview = document.getElementById('brand-logo-preview') as HTMLImageElement;
+const brandLogoRemoveBtn = document.getElementById('brand-logo-remove-btn') as HTMLButtonElement;
 
 // --- INITIALIZE ACE EDITORS ---
 const htmlEditor = ace.edit(htmlEditorContainer);
@@ -61,29 +397,145 @@ cssEditor.setOptions({
     fontFamily: "monospace"
 });
 
+const jsEditor = ace.edit(jsEditorContainer);
+jsEditor.setTheme("ace/theme/tomorrow_night");
+jsEditor.session.setMode("ace/mode/javascript");
+jsEditor.setOptions({
+    fontSize: "14px",
+    showPrintMargin: false,
+    useWorker: false,
+    fontFamily: "monospace"
+});
+
 // --- STATE & INITIALIZATION ---
-let ai: GoogleGenAI;
-let latestGeneratedImages: { id: string; url: string; prompt: string }[] = [];
-let latestFavicon: { url: string; prompt: string } | null = null;
-let history: { html: string, css: string }[] = [];
+let providerSettings: ProviderSettings = loadProviderSettings();
+let textProvider: TextProvider;
+let imageProvider: ImageProvider;
+let latestGeneratedImages: SiteImage[] = [];
+let latestFavicon: FaviconImage | null = null;
+let sitePages: SitePage[] = [];
+let currentPageIndex = 0;
+let history: { html: string, css: string, js: string, pages: SitePage[], pageIndex: number }[] = [];
 let historyIndex = -1;
 let autoSaveTimeout: number | undefined;
+let chatMessages: ChatMessage[] = [];
+let currentProject: { id: string; name: string; createdAt: number } | null = null;
+let seoSettings: SeoSettings | null = null;
+let formSettings: FormSettings = DEFAULT_FORM_SETTINGS;
+// Texts of the extra languages; the editors always hold the primary language
+let siteTranslations: SiteTranslation[] = [];
+// Extra language shown in the preview, or null for the primary language
+let previewLanguage: string | null = null;
+let previewSettings: PreviewSettings = loadPreviewSettings();
+let brandKit: BrandKit = loadBrandKit();
+let promptPresets: PromptPreset[] = loadPresets();
+let securityPolicy: SecurityPolicy = loadSecurityPolicy();
+let usageSettings: UsageSettings = loadUsageSettings();
+// Model calls of the open project; the session total also counts the runs of other projects
+let usageRuns: UsageRun[] = [];
+let sessionCost = 0;
+// What the sanitizer removed from the model output of the open site, shown above the editor
+let securityFindings: SecurityFinding[] = [];
+// Values of the {{variables}} in the prompt by name; kept when another preset uses the same names
+const templateValues: Record<string, string> = {};
+// Set while a generation runs; aborting it cancels every pending model and image request
+let generationAbortController: AbortController | null = null;
+// Completed steps of the running generation (code, image prompts, favicon, images) for the progress bar
+let generationProgress = { done: 0, total: 1 };
+let streamRenderTimeout: number | undefined;
+let streamedText = '';
+// The last generation, so it can be retried from the error panel
+let lastGenerationRequest: GenerationRequest | null = null;
+// Validated code of a run that failed later on, so retrying it doesn't generate the code again
+let resumableGeneration: { request: GenerationRequest; websiteData: WebsiteData } | null = null;
+// One frame per device preset, created when the multi-view is first opened
+let multiViewFrames: HTMLIFrameElement[] = [];
+
+const LEGACY_STORAGE_KEY = 'ai-website-gen-data';
+const CURRENT_PROJECT_KEY = 'ai-website-gen-current-project';
+let isSelectingSection = false;
+let selectedSectionIndex = -1;
+
+// Semantic blocks that can be selected in the preview and regenerated on their own
+const SELECTABLE_SECTIONS = 'header, section, footer';
+
+// The favicon is edited with the same dialog as content images
+const FAVICON_IMAGE_ID = '__favicon';
+let imageDraft: { targetId: string; url: string; prompt: string; aspectRatio: AspectRatio; uploaded: boolean } | null = null;
+let cropRect: CropRect | null = null;
+// Failed images currently being generated again from the gallery
+let retryingImageIds = new Set<string>();
+// The two versions shown in the Versions tab; 'current' stands for the unsaved editor state
+type SiteVersion = Pick<SnapshotData, 'name' | 'css' | 'js' | 'pages' | 'images' | 'favicon'>;
+const CURRENT_VERSION = 'current';
+let comparedVersions: { a: SiteVersion; b: SiteVersion } | null = null;
+let diffTarget: 'html' | 'css' | 'js' = 'html';
+// Fixes refer to source positions, so they are only valid for the code they were found in
+let accessibilityAudit: { documents: AuditDocuments; findings: AuditFinding[] } | null = null;
+
+const AUDIT_RULE_LABELS: Record<AuditFinding['rule'], MessageKey> = {
+    'image-alt': 'a11y.rule.imageAlt',
+    'contrast': 'a11y.rule.contrast',
+    'heading-order': 'a11y.rule.headingOrder',
+    'lang': 'a11y.rule.lang',
+    'menu-toggle': 'a11y.rule.menuToggle',
+};
 
-try {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} catch (error) {
-    console.error(error);
-    showError('Failed to initialize AI. Please check API Key configuration.');
-}
+const SECURITY_FINDING_LABELS: Record<SecurityFindingKind, MessageKey> = {
+    'script': 'security.kind.script',
+    'stylesheet': 'security.kind.stylesheet',
+    'event-handler': 'security.kind.event-handler',
+    'iframe': 'security.kind.iframe',
+    'javascript-url': 'security.kind.javascript-url',
+    'form-action': 'security.kind.form-action',
+    'base': 'security.kind.base',
+    'meta-refresh': 'security.kind.meta-refresh',
+};
+
+const USAGE_RUN_LABELS: Record<UsageRunKind, MessageKey> = {
+    'generation': 'usage.kind.generation',
+    'refinement': 'usage.kind.refinement',
+    'section': 'usage.kind.section',
+    'images': 'usage.kind.images',
+    'translation': 'usage.kind.translation',
+};
+
+ASPECT_RATIOS.forEach(ratio => {
+    const option = document.createElement('option');
+    option.value = ratio;
+    option.textContent = ratio;
+    imageAspectSelect.appendChild(option);
+});
+
+translatePage();
+initLocaleUI();
+initProviderSettingsUI();
+initProviders();
+initBrandKitUI();
+initSecurityUI();
+initUsageSettingsUI();
 
-// Check for Local Storage content on load
+// Migrate older single-site saves and reopen the last project on load
 window.addEventListener('load', () => {
-    loadStateFromLocalStorage();
+    initWorkspace();
 });
 
 // Setup Auto-Save listeners
 htmlEditor.session.on('change', () => triggerAutoSave());
 cssEditor.session.on('change', () => triggerAutoSave());
+jsEditor.session.on('change', () => triggerAutoSave());
+
+// Multi-page options: the page type suggests a default page list
+pageListInput.value = DEFAULT_PAGES_BY_TYPE[pageTypeSelect.value]?.join(', ') ?? '';
+pageTypeSelect.addEventListener('change', () => {
+    pageListInput.value = DEFAULT_PAGES_BY_TYPE[pageTypeSelect.value]?.join(', ') ?? pageListInput.value;
+});
+multiPageToggle.addEventListener('change', () => {
+    pageListContainer.hidden = !multiPageToggle.checked;
+});
+// The primary language can't be picked as an extra language as well
+syncExtraLanguageOptions();
+languageSelect.addEventListener('change', syncExtraLanguageOptions);
 
 // Example Chips Logic
 exampleChips.forEach(chip => {
@@ -91,75 +543,101 @@ exampleChips.forEach(chip => {
         const text = (chip as HTMLElement).dataset.text;
         if (text) {
             input.value = text;
+            renderTemplateVariables();
             input.focus();
         }
     });
 });
 
-const websiteGenerationSchema = {
-    type: Type.OBJECT,
-    properties: {
-        pageTitle: {
-            type: Type.STRING,
-            description: "A concise, SEO-friendly title for the HTML page."
-        },
-        metaDescription: {
-            type: Type.STRING,
-            description: "A concise summary of the page content for search engines (150-160 characters)."
-        },
-        metaKeywords: {
-            type: Type.STRING,
-            description: "Comma-separated list of 5-10 relevant keywords for SEO."
-        },
-        faviconPrompt: {
-            type: Type.STRING,
-            description: "A very simple, minimal description for a square app icon or logo for this website (e.g., 'Minimalist blue hexagon logo')."
-        },
-        htmlContent: {
-            type: Type.STRING,
-            description: "The complete, well-structured, and well-indented HTML code for the website. This should include a <head> with a <style> tag for modern, responsive, and well-formatted CSS, and a <body>. Use semantic HTML5 tags. Image placeholders should have unique `id` attributes, e.g., `<img id='hero-image' alt='...'>`."
-        },
-        imagePrompts: {
-            type: Type.ARRAY,
-            description: "An array of objects, each describing an image to be generated for the website.",
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    id: {
-                        type: Type.STRING,
-                        description: "The unique ID of the <img> element in the HTML where this image should be placed."
-                    },
-                    prompt: {
-                        type: Type.STRING,
-                        description: "A simple, concise prompt (3-10 words) for an image that fits the website's theme. This will be enhanced by another AI later."
-                    }
-                },
-                required: ["id", "prompt"]
-            }
-        }
-    },
-    required: ["pageTitle", "metaDescription", "metaKeywords", "faviconPrompt", "htmlContent", "imagePrompts"]
-};
+// --- Presets ---
+renderPresetOptions();
+input.addEventListener('input', () => renderTemplateVariables());
+
+templateVariableFields.addEventListener('input', (e) => {
+    const field = e.target as HTMLInputElement;
+    if (field.dataset.variable) templateValues[field.dataset.variable] = field.value;
+});
+
+presetSelect.addEventListener('change', () => {
+    const preset = promptPresets.find(p => p.id === presetSelect.value);
+    if (preset) applyPreset(preset);
+    presetDeleteBtn.disabled = !preset;
+});
+
+presetSaveBtn.addEventListener('click', () => {
+    const selected = promptPresets.find(p => p.id === presetSelect.value);
+    const name = prompt(t('presets.namePrompt'), selected?.name ?? '')?.trim();
+    if (!name) return;
+    // Saving under an existing name updates that preset
+    const existing = promptPresets.find(p => p.name === name);
+    const preset = { ...readFormAsPreset(), id: existing?.id ?? createPresetId(), name };
+    promptPresets = existing
+        ? promptPresets.map(p => p.id === existing.id ? preset : p)
+        : [...promptPresets, preset];
+    savePresets(promptPresets);
+    renderPresetOptions(preset.id);
+});
+
+presetDeleteBtn.addEventListener('click', () => {
+    const preset = promptPresets.find(p => p.id === presetSelect.value);
+    if (!preset || !confirm(t('presets.deleteConfirm', { name: preset.name }))) return;
+    promptPresets = promptPresets.filter(p => p.id !== preset.id);
+    savePresets(promptPresets);
+    renderPresetOptions();
+});
+
+presetImportInput.addEventListener('change', async () => {
+    const file = presetImportInput.files?.[0];
+    presetImportInput.value = '';
+    if (!file) return;
+    try {
+        const imported = parsePresetFile(await file.text());
+        promptPresets = mergePresets(promptPresets, imported);
+        savePresets(promptPresets);
+        renderPresetOptions();
+        alert(t('presets.imported', { count: imported.length }));
+    } catch (error) {
+        console.error("Error importing presets:", error);
+        alert(t('presets.importFailed'));
+    }
+});
+
+presetExportBtn.addEventListener('click', () => {
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([serializePresets(promptPresets)], { type: 'application/json' }));
+    link.download = 'website-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+});
 
 // --- EVENT LISTENERS ---
 form.addEventListener('submit', async (e) => {
     e.preventDefault();
-    if (!ai) {
-        showError('AI not initialized. Please verify your API Key.');
+    if (!textProvider || !imageProvider) {
+        showError(t('validation.notInitialized'));
         return;
     }
     
     // --- Input Validation ---
-    const userPrompt = input.value.trim();
+    const missingVariables = extractVariables(input.value).filter(name => !templateValues[name]?.trim());
+    if (missingVariables.length > 0) {
+        showError(t('validation.missingVariables', { names: missingVariables.join(', ') }));
+        Array.from(templateVariableFields.querySelectorAll<HTMLInputElement>('input[data-variable]'))
+            .find(field => field.dataset.variable === missingVariables[0])?.focus();
+        return;
+    }
+    const userPrompt = fillVariables(input.value, templateValues).trim();
     if (!userPrompt) {
-        showError('Bitte geben Sie eine Beschreibung für Ihre Website ein.');
+        showError(t('validation.emptyPrompt'));
         input.focus();
         return;
     }
 
     const MIN_PROMPT_LENGTH = 15;
     if (userPrompt.length < MIN_PROMPT_LENGTH) {
-        showError(`Bitte geben Sie eine detailliertere Beschreibung ein (mindestens ${MIN_PROMPT_LENGTH} Zeichen).`);
+        showError(t('validation.shortPrompt', { count: MIN_PROMPT_LENGTH }));
         input.focus();
         return;
     }
@@ -171,20 +649,31 @@ form.addEventListener('submit', async (e) => {
     const selectedSections = Array.from(sectionCheckboxes)
         .filter(cb => cb.checked)
         .map(cb => cb.value);
+    const extraLanguages = Array.from(extraLanguageCheckboxes)
+        .filter(cb => cb.checked && cb.value !== language)
+        .map(cb => cb.value);
 
-    let detailedPrompt = `Generate a website based on this core idea: "${userPrompt}".\n\n`;
-    detailedPrompt += `**Website Structure Constraints:**\n`;
-    detailedPrompt += `- **Language:** The text content of the website MUST be written in ${language}.\n`;
-    detailedPrompt += `- **Page Type:** This should be structured as a "${pageType}".\n`;
-    detailedPrompt += `- **Navigation:** The website MUST include a responsive navigation menu. On desktop, show links horizontally. On mobile, show a hamburger menu that toggles the links. The menu must include anchor links to the following sections: ${selectedSections.join(', ')}.\n`;
-    if (selectedSections.length > 0) {
-        detailedPrompt += `- **Required Sections:** The website MUST include the following sections in a logical order: ${selectedSections.join(', ')}.\n`;
-    }
-    detailedPrompt += `- **Image Count:** Generate exactly ${imageCount} unique placeholder images for the site. Ensure the 'imagePrompts' array in your response contains ${imageCount} items.\n`;
-    detailedPrompt += `- **Date:** The current year is 2025. Ensure all dates and copyright notices use the year 2025.\n`;
-    detailedPrompt += `\nRespond with ONLY the JSON object, adhering strictly to the provided schema.`;
-    
-    await generateWebsite(detailedPrompt, userPrompt, language);
+    const pagePlan = multiPageToggle.checked
+        ? planPages(pageListInput.value.split(',').map(name => name.trim()).filter(Boolean))
+        : null;
+    if (pagePlan && pagePlan.length < 2) {
+        showError(t('validation.tooFewPages'));
+        pageListInput.focus();
+        return;
+    }
+
+    resumableGeneration = null;
+    await generateWebsite(buildGenerationRequest({
+        prompt: userPrompt,
+        language,
+        pageType,
+        sections: selectedSections,
+        imageCount: Number(imageCount),
+        pagePlan,
+        extraLanguages,
+        brandKit,
+        securityPolicy,
+    }));
 });
 
 
@@ -211,88 +700,184 @@ tabs.addEventListener('click', (e) => {
     });
     
     // Resize Ace editors when they become visible to prevent rendering issues
-    if (tabName === 'html' || tabName === 'css') {
+    if (tabName === 'html' || tabName === 'css' || tabName === 'js') {
         htmlEditor.resize();
         cssEditor.resize();
+        jsEditor.resize();
+    }
+    if (tabName === 'versions') {
+        renderSnapshotList();
+    }
+    if (tabName === 'a11y') {
+        runAccessibilityAudit();
+    }
+    if (tabName === 'seo') {
+        renderSeoPanel();
+    }
+    if (tabName === 'theme') {
+        renderThemeEditor();
+    }
+    if (tabName === 'forms') {
+        renderFormsPanel();
+    }
+    if (tabName === 'usage') {
+        renderUsagePanel();
+    }
+});
+
+pageSwitcher.addEventListener('change', () => {
+    switchPage(Number(pageSwitcher.value));
+});
+
+siteLanguageSelect.addEventListener('change', () => {
+    setPreviewLanguage(siteLanguageSelect.value || null);
+});
+
+updateTranslationsBtn.addEventListener('click', () => {
+    updateTranslations();
+});
+
+// Messages from the scripts injected into the preview by updatePreview
+window.addEventListener('message', (e) => {
+    const fromPreview = e.source === previewFrame.contentWindow || multiViewFrames.some(frame => frame.contentWindow === e.source);
+    if (!fromPreview) return;
+    if (e.data?.type === 'navigate-page') {
+        const index = sitePages.findIndex(page => page.slug === e.data.slug);
+        if (index !== -1) switchPage(index);
+    } else if (e.data?.type === 'select-section') {
+        openSectionDialog(e.data.index);
+    } else if (e.data?.type === 'navigate-language') {
+        setPreviewLanguage(siteTranslations.find(translation => languageCode(translation.language) === e.data.lang)?.language ?? null);
+    }
+});
+
+selectSectionBtn.addEventListener('click', () => {
+    setSectionSelectionMode(!isSelectingSection);
+});
+
+previewDeviceSelect.addEventListener('change', () => {
+    updatePreviewSettings({ device: previewDeviceSelect.value as PreviewSettings['device'], rotated: false });
+});
+
+[previewWidthInput, previewHeightInput].forEach(sizeInput => sizeInput.addEventListener('change', () => {
+    updatePreviewSettings({
+        custom: {
+            width: clampViewportSize(Number(previewWidthInput.value)),
+            height: clampViewportSize(Number(previewHeightInput.value)),
+        },
+    });
+}));
+
+previewRotateBtn.addEventListener('click', () => updatePreviewSettings({ rotated: !previewSettings.rotated }));
+previewFitBtn.addEventListener('click', () => updatePreviewSettings({ fitToScreen: !previewSettings.fitToScreen }));
+previewMultiBtn.addEventListener('click', () => updatePreviewSettings({ multiView: !previewSettings.multiView }));
+
+// Fit-to-screen depends on the space around the frames, which changes with the window and the active tab
+const previewResizeObserver = new ResizeObserver(() => layoutPreview());
+previewResizeObserver.observe(previewStage);
+previewResizeObserver.observe(previewMulti);
+renderPreviewToolbar();
+
+sectionCancelBtn.addEventListener('click', () => {
+    sectionDialog.close();
+});
+
+sectionForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    if (sectionSubmitBtn.disabled) return;
+    if (!confirmBudget(plannedCost({ section: 1 }, 0))) return;
+    sectionSubmitBtn.disabled = true;
+    sectionDialogStatus.classList.remove('hidden');
+    const run = createUsageRun('section');
+    try {
+        await regenerateSection(selectedSectionIndex, sectionInstruction.value.trim(), usageProviders(run));
+        sectionDialog.close();
+        setSectionSelectionMode(false);
+    } catch (error) {
+        console.error("Error regenerating section:", error);
+        alert(getFriendlyErrorMessage(error));
+    } finally {
+        finishUsageRun(run);
+        sectionSubmitBtn.disabled = false;
+        sectionDialogStatus.classList.add('hidden');
     }
 });
 
 updatePreviewBtn.addEventListener('click', () => {
+    commitCurrentPage();
     const htmlContent = htmlEditor.getValue();
     const cssContent = cssEditor.getValue();
-    updatePreview(htmlContent, cssContent);
-    pushHistoryState(htmlContent, cssContent);
+    const jsContent = jsEditor.getValue();
+    updatePreview(htmlContent, cssContent, jsContent);
+    pushHistoryState(htmlContent, cssContent, jsContent);
 });
 
-exportBtn.addEventListener('click', async () => {
-    const htmlValue = htmlEditor.getValue();
-    if (!htmlValue || latestGeneratedImages.length === 0) {
-        alert("Bitte generieren Sie zuerst eine Website.");
+exportBtn.addEventListener('click', () => {
+    commitCurrentPage();
+    if (sitePages.every(page => !page.html.trim())) {
+        alert(t('export.nothingToExport'));
         return;
     }
+    renderExportOptions(loadExportOptions());
+    exportDialog.showModal();
+});
 
-    exportBtn.disabled = true;
-    const exportBtnSpan = exportBtn.querySelector('span');
-    if(exportBtnSpan) exportBtnSpan.textContent = 'Erstelle ZIP...';
-
-    try {
-        const zip = new JSZip();
-        const imagesFolder = zip.folder("images");
-
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(htmlValue, 'text/html');
-
-        // Handle Content Images
-        for (const image of latestGeneratedImages) {
-            const imgElement = doc.getElementById(image.id) as HTMLImageElement;
-            if (!imgElement) continue;
-            
-            const safeId = image.id.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-            const filename = `${safeId}.jpeg`;
-            
-            imgElement.src = `images/${filename}`;
-
-            const response = await fetch(image.url);
-            const blob = await response.blob();
-            imagesFolder!.file(filename, blob);
-        }
+exportTargetSelect.addEventListener('change', () => renderExportOptions(readExportOptions()));
+exportModeInputs.forEach(radio => radio.addEventListener('change', () => renderExportOptions(readExportOptions())));
+exportImageFormatSelect.addEventListener('change', () => renderExportOptions(readExportOptions()));
+exportCancelBtn.addEventListener('click', () => exportDialog.close());
 
-        // Handle Favicon
-        if (latestFavicon) {
-            const faviconLink = doc.querySelector("link[rel*='icon']") as HTMLLinkElement;
-            if (faviconLink) {
-                const faviconFilename = "favicon.jpeg";
-                faviconLink.href = `images/${faviconFilename}`;
-                
-                const response = await fetch(latestFavicon.url);
-                const blob = await response.blob();
-                imagesFolder!.file(faviconFilename, blob);
-            }
-        }
+exportForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    const options = readExportOptions();
+    saveExportOptions(options);
 
-        doc.head.querySelectorAll('style').forEach(s => s.remove());
-        const styleElement = doc.createElement('style');
-        styleElement.textContent = cssEditor.getValue();
-        doc.head.appendChild(styleElement);
-        
-        const finalHtml = doc.documentElement.outerHTML;
-        zip.file("index.html", finalHtml);
+    exportSubmitBtn.disabled = true;
+    exportDialogStatus.classList.remove('hidden');
+    try {
+        commitCurrentPage();
+        // Manual edits are checked as well, so nothing the policy forbids is published
+        const sanitizedPages = sitePages.map(page => ({ page, ...sanitizeHtml(page.html, securityPolicy) }));
+        const sanitizedCss = sanitizeCss(cssEditor.getValue(), securityPolicy);
+        const exportFindings = [...sanitizedPages.flatMap(({ findings }) => findings), ...sanitizedCss.findings];
+        // Wired after sanitizing: the form attributes and the form script are our own, not model output
+        const site = wireSiteForms({
+            pages: sanitizedPages.map(({ page, html }) => ({ ...page, html })),
+            css: sanitizedCss.css,
+            js: jsEditor.getValue(),
+            images: latestGeneratedImages,
+            favicon: latestFavicon,
+            seo: seoSettings,
+            translations: siteTranslations,
+        }, formSettings, formMessages());
+        const result = options.target === 'html'
+            ? await exportSite(site, options)
+            : await exportFrameworkProject(site, options.target, options.cssMode, currentProject?.name ?? 'website');
 
-        const content = await zip.generateAsync({ type: "blob" });
         const link = document.createElement("a");
-        link.href = URL.createObjectURL(content);
-        link.download = "ai-generated-website.zip";
+        link.href = URL.createObjectURL(result.blob);
+        link.download = result.filename;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
         URL.revokeObjectURL(link.href);
 
+        exportDialog.close();
+        const warnings = [...result.warnings];
+        if (exportFindings.length > 0) {
+            const items = describeSecurityFindings(exportFindings);
+            warnings.unshift(t('export.warning.sanitized', { count: items.length, items: items.join('; ') }));
+        }
+        if (detectForms(sitePages).length > 0 && checkFormSettings(formSettings)) {
+            warnings.push(t('export.warning.formsIncomplete'));
+        }
+        if (warnings.length > 0) alert(warnings.join('\n'));
     } catch (error) {
         console.error("Error exporting website:", error);
-        showError("Fehler beim Exportieren.");
+        alert(t('export.failed'));
     } finally {
-        exportBtn.disabled = false;
-        if(exportBtnSpan) exportBtnSpan.textContent = 'Download .zip';
+        exportSubmitBtn.disabled = false;
+        exportDialogStatus.classList.add('hidden');
     }
 });
 
@@ -310,302 +895,830 @@ redoBtn.addEventListener('click', () => {
     }
 });
 
-// --- HELPER FUNCTIONS ---
+chatInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        chatForm.requestSubmit();
+    }
+});
 
-function updateProgress(percentage: number, message: string) {
-    progressBarFill.style.width = `${percentage}%`;
-    progressPercentage.textContent = `${Math.round(percentage)}%`;
-    loadingText.textContent = message;
-}
+chatForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    const instruction = chatInput.value.trim();
+    if (!instruction || chatSendBtn.disabled) return;
+    if (!confirmBudget(plannedCost({ refine: 1 }, 0))) return;
+
+    commitCurrentPage();
+    chatMessages.push({ role: 'user', text: instruction });
+    chatInput.value = '';
+    chatSendBtn.disabled = true;
+    renderChat(true);
+
+    const run = createUsageRun('refinement');
+    const providers = usageProviders(run);
+    try {
+        const documents = { html: htmlEditor.getValue(), css: cssEditor.getValue(), js: jsEditor.getValue() };
+        const response = await requestRefinement(providers.text, chatMessages, documents);
+        const result = applyStructuredEdits(documents, response.edits);
+
+        let reply = response.reply || t('chat.applied');
+        if (result.failed.length > 0) {
+            reply += ` ${t('chat.unmatched', { failed: result.failed.length, count: response.edits.length })}`;
+        }
+
+        if (result.applied > 0) {
+            result.html = sanitizeModelHtml(result.html);
+            result.css = sanitizeModelCss(result.css);
+            htmlEditor.setValue(result.html, -1);
+            cssEditor.setValue(result.css, -1);
+            jsEditor.setValue(result.js, -1);
+            commitCurrentPage();
+
+            // Only generate images for placeholders that really made it into the page
+            const doc = new DOMParser().parseFromString(result.html, 'text/html');
+            const newImagePrompts = response.newImages
+                .filter(image => doc.getElementById(image.id) && !latestGeneratedImages.some(existing => existing.id === image.id))
+                .map(image => ({ ...image, aspectRatio: inferAspectRatio(doc.getElementById(image.id)) }));
+            if (newImagePrompts.length > 0) {
+                const improvedPrompts = await improveImagePrompts(providers.text, newImagePrompts, input.value.trim() || instruction, generationPipelineOptions());
+                latestGeneratedImages = [...latestGeneratedImages, ...await generateImages(providers.image, improvedPrompts, generationPipelineOptions())];
+                renderImageGallery();
+            }
 
-function getFriendlyErrorMessage(error: any): string {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const lowerMsg = errorMessage.toLowerCase();
+            updatePreview(result.html, result.css, result.js);
+            pushHistoryState(result.html, result.css, result.js);
+        }
 
-    if (errorMessage.includes('401') || errorMessage.includes('403') || lowerMsg.includes('api key')) {
-         return "Authentifizierung fehlgeschlagen. Bitte überprüfen Sie Ihren API-Schlüssel.";
+        chatMessages.push({ role: 'assistant', text: reply });
+    } catch (error) {
+        console.error("Error during refinement:", error);
+        chatMessages.push({ role: 'assistant', text: getFriendlyErrorMessage(error) });
+    } finally {
+        finishUsageRun(run);
+        chatSendBtn.disabled = false;
+        renderChat();
+        triggerAutoSave();
     }
-    
-    if (errorMessage.includes('429') || lowerMsg.includes('quota') || lowerMsg.includes('resource exhausted')) {
-        return "API-Limit erreicht. Bitte versuchen Sie es später erneut.";
+});
+
+imageGallery.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const retryButton = target.closest<HTMLElement>('[data-retry-image]');
+    if (retryButton?.dataset.retryImage) {
+        retryFailedImages([retryButton.dataset.retryImage]);
+        return;
     }
+    const button = target.closest<HTMLElement>('[data-edit-image]');
+    if (button?.dataset.editImage) openImageDialog(button.dataset.editImage);
+});
+
+retryFailedImagesBtn.addEventListener('click', () => {
+    retryFailedImages(latestGeneratedImages.filter(image => image.failed).map(image => image.id));
+});
+
+imageAspectSelect.addEventListener('change', () => {
+    if (!imageDraft) return;
+    imageDraft.aspectRatio = imageAspectSelect.value as AspectRatio;
+    if (cropRect) startCrop();
+});
 
-    if (errorMessage.includes('503') || lowerMsg.includes('overloaded') || lowerMsg.includes('unavailable')) {
-        return "Der AI-Dienst ist derzeit überlastet. Bitte warten Sie einen Moment.";
+imageGenerateBtn.addEventListener('click', async () => {
+    if (!imageDraft) return;
+    const prompt = imagePromptInput.value.trim();
+    if (!prompt) {
+        imagePromptInput.focus();
+        return;
+    }
+    const candidateCount = Number(imageCandidateCount.value);
+    if (!confirmBudget(plannedCost({}, candidateCount))) return;
+    imageGenerateBtn.disabled = true;
+    imageDialogStatus.classList.remove('hidden');
+    const run = createUsageRun('images');
+    try {
+        const candidates = await usageProviders(run).image.generateImages({
+            purpose: imageDraft.targetId === FAVICON_IMAGE_ID ? 'favicon' : 'image',
+            prompt,
+            aspectRatio: imageDraft.aspectRatio,
+            numberOfImages: candidateCount,
+        });
+        imageDraft.prompt = prompt;
+        renderImageCandidates(candidates.map(candidate => candidate.url));
+    } catch (error) {
+        console.error("Failed to regenerate image:", error);
+        alert(getFriendlyErrorMessage(error));
+    } finally {
+        finishUsageRun(run);
+        imageGenerateBtn.disabled = false;
+        imageDialogStatus.classList.add('hidden');
     }
+});
 
-    if (lowerMsg.includes('safety') || lowerMsg.includes('blocked') || lowerMsg.includes('harmful')) {
-        return "Die Anfrage wurde blockiert. Bitte formulieren Sie Ihren Prompt sicherer.";
+imageCandidates.addEventListener('click', (e) => {
+    const candidate = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-url]');
+    if (!candidate || !imageDraft) return;
+    imageDraft.url = candidate.dataset.url!;
+    imageDraft.uploaded = false;
+    imageCandidates.querySelectorAll('button').forEach(button => {
+        button.classList.toggle('ring-2', button === candidate);
+    });
+    cancelCrop();
+    imageDialogPreview.src = imageDraft.url;
+});
+
+imageUploadInput.addEventListener('change', async () => {
+    const file = imageUploadInput.files?.[0];
+    imageUploadInput.value = '';
+    if (!file || !imageDraft) return;
+    if (!file.type.startsWith('image/')) {
+        alert(t('imageDialog.notAnImage'));
+        return;
     }
-    
-    if (lowerMsg.includes('json') || lowerMsg.includes('syntax')) {
-        return "Ungültiges Antwortformat der KI. Bitte versuchen Sie es erneut.";
+    try {
+        const url = await readFileAsDataUrl(file);
+        // Rejects files that are named like images but can't be decoded
+        await loadImage(url);
+        imageDraft.url = url;
+        imageDraft.uploaded = true;
+        cancelCrop();
+        imageDialogPreview.src = imageDraft.url;
+    } catch (error) {
+        console.error("Error reading uploaded image:", error);
+        alert(t('imageDialog.uploadFailed'));
     }
-    
-    if (errorMessage.includes('Failed to fetch')) {
-        return "Netzwerkfehler. Bitte überprüfen Sie Ihre Internetverbindung.";
+});
+
+imageCropBtn.addEventListener('click', () => startCrop());
+imageCropCancelBtn.addEventListener('click', () => cancelCrop());
+imageCropZoom.addEventListener('input', () => {
+    if (cropRect) updateCropRect(cropRect.x + cropRect.width / 2, cropRect.y + cropRect.height / 2);
+});
+
+imageCropApplyBtn.addEventListener('click', async () => {
+    if (!imageDraft || !cropRect) return;
+    try {
+        imageDraft.url = await cropImage(imageDraft.url, cropRect);
+        cancelCrop();
+        imageDialogPreview.src = imageDraft.url;
+    } catch (error) {
+        console.error("Error cropping image:", error);
+        alert(t('imageDialog.cropFailed'));
     }
+});
 
-    return `Ein unerwarteter Fehler ist aufgetreten: ${errorMessage.substring(0, 150)}...`;
-}
+// Drag the crop box; positions are tracked in natural image pixels
+imageCropBox.addEventListener('pointerdown', (e) => {
+    if (!cropRect) return;
+    imageCropBox.setPointerCapture(e.pointerId);
+    const factor = imageDialogPreview.naturalWidth / imageDialogPreview.clientWidth;
+    const start = { x: e.clientX, y: e.clientY, centerX: cropRect.x + cropRect.width / 2, centerY: cropRect.y + cropRect.height / 2 };
+    const onMove = (moveEvent: PointerEvent) => {
+        updateCropRect(
+            start.centerX + (moveEvent.clientX - start.x) * factor,
+            start.centerY + (moveEvent.clientY - start.y) * factor
+        );
+    };
+    const onUp = () => {
+        imageCropBox.removeEventListener('pointermove', onMove);
+        imageCropBox.removeEventListener('pointerup', onUp);
+    };
+    imageCropBox.addEventListener('pointermove', onMove);
+    imageCropBox.addEventListener('pointerup', onUp);
+});
 
-// --- CORE FUNCTIONS ---
-async function improveImagePrompts(prompts: {id: string, prompt: string}[], coreIdea: string): Promise<{id: string, prompt: string}[]> {
-    updateProgress(50, `Optimiere ${prompts.length} Bildbeschreibungen...`);
+imageDialogCancelBtn.addEventListener('click', () => imageDialog.close());
+imageDialog.addEventListener('close', () => {
+    imageDraft = null;
+    cancelCrop();
+});
 
-    const systemInstruction = `You are an expert art director and prompt engineer. Your goal is to refine simple image descriptions into highly detailed, photorealistic prompts suitable for high-quality image generation models.
+imageDialogApplyBtn.addEventListener('click', () => {
+    if (!imageDraft) return;
+    const draft = imageDraft;
+    if (draft.targetId === FAVICON_IMAGE_ID) {
+        latestFavicon = { url: draft.url, prompt: draft.prompt, uploaded: draft.uploaded };
+    } else {
+        latestGeneratedImages = latestGeneratedImages.map(image => image.id === draft.targetId
+            ? { ...image, url: draft.url, prompt: draft.prompt, aspectRatio: draft.aspectRatio, uploaded: draft.uploaded, failed: false }
+            : image
+        );
+    }
+    imageDialog.close();
+    renderImageGallery();
+    updatePreview(htmlEditor.getValue(), cssEditor.getValue(), jsEditor.getValue());
+    triggerAutoSave();
+});
 
-Context:
-The user is building a website with the following core idea: "${coreIdea}".
-All image prompts must be stylistically consistent with this theme.
+projectsBtn.addEventListener('click', async () => {
+    await renderProjectList();
+    projectsDialog.showModal();
+});
 
-Guidelines:
-- **Details:** Add specific details about lighting (e.g., natural, studio, cinematic), composition (e.g., rule of thirds, depth of field), and texture.
-- **Style:** Ensure a consistent, professional, and photorealistic style unless the context suggests otherwise (e.g., a cartoon site).
-- **Clarity:** Keep the prompt focused on the visual elements. Avoid abstract concepts that are hard to visualize.
-- **Output:** Return ONLY the refined prompt text. Do not add labels like "Refined Prompt:".
+projectsCloseBtn.addEventListener('click', () => projectsDialog.close());
 
-Example:
-Input: "A photo of a coffee shop."
-Refined: "A cozy, sunlit interior of a modern coffee shop with rustic wooden tables, a barista pouring latte art in the background, warm golden hour lighting, 4k resolution, highly detailed."`;
+newProjectBtn.addEventListener('click', () => startNewProject());
+projectsNewBtn.addEventListener('click', () => {
+    projectsDialog.close();
+    startNewProject();
+});
 
-    // Process prompts in parallel but don't hold up progress UI too much
-    const improvedPromptsPromises = prompts.map(async (p, index) => {
-        try {
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: `Original prompt: "${p.prompt}"\n\nRefine this prompt to be photorealistic and relevant to the website context provided in the system instructions.`,
-                config: {
-                    systemInstruction: systemInstruction,
-                    thinkingConfig: { thinkingBudget: 0 },
-                    temperature: 0.7, 
-                }
-            });
-            return { id: p.id, prompt: response.text.trim() };
-        } catch (error) {
-            console.warn(`Failed to improve prompt for ID ${p.id}: "${p.prompt}"`, error);
-            return p;
-        }
+[importFileInput, importFolderInput].forEach(importInput => {
+    importInput.addEventListener('change', () => {
+        const files = Array.from(importInput.files ?? []);
+        importInput.value = '';
+        if (files.length > 0) importWebsite(files);
     });
+});
 
-    return Promise.all(improvedPromptsPromises);
-}
+projectList.addEventListener('click', async (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+    const id = button?.closest<HTMLElement>('[data-project-id]')?.dataset.projectId;
+    if (!button || !id) return;
 
-async function generateFavicon(prompt: string): Promise<{ url: string; prompt: string } | null> {
-    updateProgress(65, "Erstelle Website-Icon...");
     try {
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: `A modern, minimalist, vector-style logo icon. ${prompt}. High contrast, simple shapes, professional, white background.`,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: '1:1',
-            },
-        });
-        const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-        const imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
-        return { url: imageUrl, prompt: prompt };
+        switch (button.dataset.action) {
+            case 'open':
+                await saveCurrentProject();
+                await openProject(id);
+                projectsDialog.close();
+                return;
+            case 'rename': {
+                const currentName = button.closest<HTMLElement>('[data-project-name]')?.dataset.projectName ?? '';
+                const name = prompt(t('projects.renamePrompt'), currentName)?.trim();
+                if (!name) return;
+                await renameProject(id, name);
+                if (currentProject?.id === id) {
+                    currentProject.name = name;
+                    updateCurrentProjectLabel();
+                }
+                break;
+            }
+            case 'duplicate': {
+                if (currentProject?.id === id) await saveCurrentProject();
+                const currentName = button.closest<HTMLElement>('[data-project-name]')?.dataset.projectName ?? '';
+                await duplicateProject(id, t('projects.copyName', { name: currentName }));
+                break;
+            }
+            case 'delete': {
+                if (!confirm(t('projects.deleteConfirm'))) return;
+                await deleteProject(id);
+                if (currentProject?.id === id) {
+                    currentProject = null;
+                    await startNewProject();
+                }
+                break;
+            }
+        }
+        await renderProjectList();
     } catch (error) {
-        console.error("Failed to generate favicon:", error);
-        return null;
+        console.error("Project action failed:", error);
+        alert(t('projects.actionFailed'));
     }
-}
+});
 
-async function generateImages(prompts: {id: string, prompt: string}[]) {
-    // We start at 70% and move towards 95%
-    let progress = 70;
-    const progressStep = 25 / (prompts.length || 1);
-    
-    updateProgress(progress, `Generiere ${prompts.length} Bilder...`);
+snapshotForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    if (!currentProject) return;
+    const name = snapshotNameInput.value.trim() || t('versions.defaultName', { date: formatDateTime(Date.now()) });
 
-    const results = [];
-    for (const p of prompts) {
-        try {
-            const response = await ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: p.prompt,
-                config: {
-                    numberOfImages: 1,
-                    outputMimeType: 'image/jpeg',
-                    aspectRatio: '16:9',
-                },
-            });
-            const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-            const imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
-            results.push({ id: p.id, url: imageUrl, prompt: p.prompt });
-        } catch (error) {
-             console.error(`Failed to generate image for prompt: "${p.prompt}"`, error);
-             results.push({ id: p.id, url: `https://via.placeholder.com/1280x720.png?text=Image+Generation+Failed`, prompt: p.prompt });
-        }
-        
-        progress += progressStep;
-        updateProgress(progress, "Generiere Bilder...");
+    snapshotSaveBtn.disabled = true;
+    try {
+        await saveCurrentProject();
+        const current = getCurrentVersion();
+        await saveSnapshot({ projectId: currentProject.id, ...current, name });
+        snapshotNameInput.value = '';
+        await renderSnapshotList();
+    } catch (error) {
+        console.error("Failed to save snapshot:", error);
+        alert(t('versions.saveFailed'));
+    } finally {
+        snapshotSaveBtn.disabled = false;
     }
-    return results;
-}
+});
 
-async function generateWebsite(detailedPrompt: string, coreIdea: string, language: string) {
-    setLoadingState(true, 'Analysiere deine Anfrage...');
-    updateProgress(10, 'Analysiere Anfrage...');
-    
-    generateBtn.disabled = true;
-    inputSection.classList.add('hidden');
-    resultContainer.classList.add('hidden');
-    latestGeneratedImages = []; // Reset on new generation
-    latestFavicon = null;
+snapshotList.addEventListener('click', async (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+    const item = button?.closest<HTMLElement>('[data-snapshot-id]');
+    if (!button || !item) return;
+    const id = item.dataset.snapshotId!;
+    const name = item.dataset.snapshotName ?? '';
 
     try {
-        const systemInstruction = `You are a world-class AI web designer. Your task is to generate a complete, single-page website based on the user's detailed request.
-- The entire website, including all text content, headings, and labels, MUST be in ${language}.
-- Ensure the generated HTML and the CSS within the <style> tag are well-formatted with proper indentation for readability.
-- **Responsive Navigation:** You MUST include a responsive navigation bar in the <header>.
-  - On desktop: Display navigation links horizontally.
-  - On mobile: Display a hamburger menu icon. When clicked, it should toggle the navigation links.
-  - Links: Include navigation links that anchor to the specific sections of the page (e.g., href="#about").
-  - JS: Include a simple <script> tag at the end of the <body> to handle the mobile menu interaction (toggling a class like 'active' on the menu).
-- Use the year 2025 for any copyright notices or dates in the footer. Do not use 2023 or 2024.
-- Create modern, responsive, and aesthetically pleasing HTML and CSS.
-- The CSS must be included within a <style> tag in the <head>.
-- Use semantic HTML5 tags (e.g., <header>, <main>, <section>, <footer>).
-- For images, create placeholders like \`<img id="unique-image-id-1" alt="descriptive alt text">\` where the image should go.
-- The 'id' for each image placeholder must be unique.
-- Generate a simple, concise prompt (3-10 words) for each image placeholder. This prompt will be enhanced by another AI later.
-- Your entire response MUST be a single JSON object that strictly follows the provided schema. Do not include any markdown formatting (like \`\`\`json) or any other text outside of the JSON object.`;
-
-        updateProgress(20, 'Erstelle Struktur & Code...');
-
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: detailedPrompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: websiteGenerationSchema,
-                temperature: 0.2,
-            },
-            systemInstruction: systemInstruction,
-        });
+        switch (button.dataset.action) {
+            case 'compare':
+                compareSelectA.value = id;
+                compareSelectB.value = CURRENT_VERSION;
+                await compareVersions();
+                return;
+            case 'restore':
+                if (!confirm(t('versions.restoreConfirm', { name }))) return;
+                await restoreSnapshot(id);
+                return;
+            case 'css':
+                await applySnapshotCss(id);
+                return;
+            case 'rename': {
+                const newName = prompt(t('versions.renamePrompt'), name)?.trim();
+                if (!newName) return;
+                await renameSnapshot(id, newName);
+                break;
+            }
+            case 'delete':
+                if (!confirm(t('versions.deleteConfirm', { name }))) return;
+                await deleteSnapshot(id);
+                break;
+        }
+        await renderSnapshotList();
+    } catch (error) {
+        console.error("Snapshot action failed:", error);
+        alert(t('versions.actionFailed'));
+    }
+});
 
-        const websiteData = JSON.parse(response.text);
+compareBtn.addEventListener('click', () => compareVersions());
+comparePageSelect.addEventListener('change', () => renderVersionComparison());
 
-        // --- Image & Favicon Generation ---
-        updateProgress(45, 'Optimiere Assets...');
-        
-        // Pass coreIdea to improvement step so the AI knows the website context
-        // improveImagePrompts handles 50-60%, generateFavicon handles 65%
-        const improvedPrompts = await improveImagePrompts(websiteData.imagePrompts, coreIdea);
-        const faviconData = await generateFavicon(websiteData.faviconPrompt);
-        
-        latestFavicon = faviconData;
-        
-        // generateImages handles 70-95%
-        const generatedImages = await generateImages(improvedPrompts);
+diffTargetButtons.forEach(button => {
+    button.addEventListener('click', () => {
+        const target = button.dataset.diffTarget;
+        diffTarget = target === 'css' || target === 'js' ? target : 'html';
+        diffTargetButtons.forEach(other => other.setAttribute('aria-pressed', String(other === button)));
+        renderVersionComparison();
+    });
+});
 
-        updateProgress(100, 'Finalisiere Website...');
-        
-        // Short delay to let the bar hit 100% visually
-        await new Promise(r => setTimeout(r, 500));
+a11yRunBtn.addEventListener('click', () => runAccessibilityAudit());
+
+seoForm.addEventListener('input', () => {
+    if (!seoSettings || sitePages.length === 0) return;
+    const slug = sitePages[currentPageIndex].slug;
+    seoSettings = {
+        ...seoSettings,
+        siteName: seoSiteNameInput.value,
+        baseUrl: seoBaseUrlInput.value.trim(),
+        keywords: seoKeywordsInput.value,
+        shareImageId: seoShareImageSelect.value || null,
+        twitterCard: seoTwitterCardSelect.value === 'summary' ? 'summary' : 'summary_large_image',
+        jsonLd: seoJsonLdInput.value,
+        pages: {
+            ...seoSettings.pages,
+            [slug]: {
+                title: seoPageTitleInput.value,
+                description: seoPageDescriptionInput.value,
+                canonicalUrl: seoCanonicalUrlInput.value.trim(),
+            },
+        },
+    };
+    renderSeoStatus();
+    triggerAutoSave();
+});
 
-        populateUI(websiteData.htmlContent, generatedImages, websiteData.metaDescription, websiteData.metaKeywords);
+formsForm.addEventListener('input', () => {
+    formSettings = {
+        backend: formsBackendSelect.value as FormSettings['backend'],
+        email: formsEmailInput.value,
+        endpointUrl: formsEndpointInput.value,
+        extraFields: parseExtraFields(formsExtraFieldsInput.value),
+        honeypot: formsHoneypotToggle.checked,
+        successMessage: formsSuccessMessageInput.value,
+        errorMessage: formsErrorMessageInput.value,
+    };
+    renderFormsStatus();
+    triggerAutoSave();
+});
 
-    } catch (error) {
-        console.error("Error during website generation:", error);
-        showError(getFriendlyErrorMessage(error));
-    } finally {
-        setLoadingState(false);
-        generateBtn.disabled = false;
+seoJsonLdInput.addEventListener('blur', () => {
+    const formatted = formatJsonLd(seoJsonLdInput.value);
+    if (seoSettings && formatted !== seoJsonLdInput.value) {
+        seoJsonLdInput.value = formatted;
+        seoSettings = { ...seoSettings, jsonLd: formatted };
+        triggerAutoSave();
     }
-}
-
+});
 
-function populateUI(html: string, images: { id: string; url: string; prompt: string }[], metaDesc: string, metaKeywords: string) {
-    latestGeneratedImages = images; // Store images for export
-    // --- Separate HTML and CSS ---
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-    
-    // Inject SEO Meta Tags
-    if (metaDesc) {
-        let meta = doc.querySelector('meta[name="description"]');
-        if (!meta) {
-            meta = doc.createElement('meta');
-            meta.setAttribute('name', 'description');
-            doc.head.appendChild(meta);
-        }
-        meta.setAttribute('content', metaDesc);
+brandLogoInput.addEventListener('change', async () => {
+    const file = brandLogoInput.files?.[0];
+    brandLogoInput.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+        alert(t('imageDialog.notAnImage'));
+        return;
     }
-    
-    if (metaKeywords) {
-        let meta = doc.querySelector('meta[name="keywords"]');
-        if (!meta) {
-            meta = doc.createElement('meta');
-            meta.setAttribute('name', 'keywords');
-            doc.head.appendChild(meta);
-        }
-        meta.setAttribute('content', metaKeywords);
+    try {
+        const logo = await readFileAsDataUrl(file);
+        await loadImage(logo);
+        brandKit = { ...brandKit, logo };
+        saveBrandKit(brandKit);
+        renderBrandLogo();
+    } catch (error) {
+        console.error("Error reading logo:", error);
+        alert(t('brandKit.logoFailed'));
     }
+});
 
-    // Inject Favicon
-    if (latestFavicon) {
-        let link = doc.querySelector("link[rel*='icon']") as HTMLLinkElement;
-        if (!link) {
-            link = doc.createElement('link');
-            link.rel = 'icon';
-            link.type = 'image/jpeg';
-            doc.head.appendChild(link);
-        }
-        link.href = latestFavicon.url;
+brandLogoRemoveBtn.addEventListener('click', () => {
+    brandKit = { ...brandKit, logo: null };
+    saveBrandKit(brandKit);
+    renderBrandLogo();
+});
+
+// Token edits update the CSS and the preview while dragging, but only the final value becomes an undo step
+themeTokensContainer.addEventListener('input', (e) => {
+    const field = e.target as HTMLInputElement;
+    const row = field.closest<HTMLElement>('[data-token]');
+    if (!row || !field.value.trim()) return;
+    if (field.type === 'color') {
+        (row.querySelector('input[type="text"]') as HTMLInputElement).value = field.value;
+    } else {
+        const colorInput = row.querySelector<HTMLInputElement>('input[type="color"]');
+        const hex = toHexColor(field.value);
+        if (colorInput && hex) colorInput.value = hex;
     }
+    updateDesignToken(row.dataset.token!, field.value.trim());
+});
 
-    const styleElement = doc.querySelector('style');
-    const cssContent = styleElement?.textContent || '';
-    styleElement?.remove(); // Remove from the parsed doc so it's not in the HTML editor
-    const htmlContent = doc.documentElement.outerHTML;
+themeTokensContainer.addEventListener('change', () => {
+    pushHistoryState(htmlEditor.getValue(), cssEditor.getValue(), jsEditor.getValue());
+});
 
-    // Set values in Ace Editors
-    htmlEditor.setValue(htmlContent, -1);
-    cssEditor.setValue(cssContent, -1);
+themeDarkModeToggle.addEventListener('change', () => {
+    const css = applyDarkMode(cssEditor.getValue(), themeDarkModeToggle.checked);
+    cssEditor.setValue(css, -1);
+    themeDarkModeHint.classList.toggle('hidden', !themeDarkModeToggle.checked);
+    updatePreview(htmlEditor.getValue(), css, jsEditor.getValue());
+    pushHistoryState(htmlEditor.getValue(), css, jsEditor.getValue());
+});
 
-    // --- Initialize History for Undo/Redo ---
-    history = [];
-    historyIndex = -1;
-    pushHistoryState(htmlContent, cssContent);
+errorRetryBtn.addEventListener('click', () => {
+    if (lastGenerationRequest) generateWebsite(lastGenerationRequest);
+});
 
-    // --- Populate Images Tab ---
-    imageGallery.innerHTML = ''; // Clear previous images
-    
-    if (latestFavicon) {
-        const faviconItem = document.createElement('div');
-        faviconItem.className = 'gallery-item';
-        faviconItem.innerHTML = `
-            <div class="aspect-square w-full p-8 flex items-center justify-center bg-zinc-900">
-                <img src="${latestFavicon.url}" alt="Generated Favicon" class="w-24 h-24 object-contain">
-            </div>
-            <div class="p-4 border-t border-white/5 bg-zinc-950/50">
-                <p class="text-xs font-semibold text-primary uppercase tracking-wider mb-1">Favicon</p>
-                <p class="text-xs text-zinc-400 line-clamp-2" title="${latestFavicon.prompt}">${latestFavicon.prompt}</p>
-            </div>
-        `;
-        imageGallery.appendChild(faviconItem);
+errorDismissBtn.addEventListener('click', () => errorPanel.classList.add('hidden'));
+
+cancelGenerationBtn.addEventListener('click', () => {
+    if (!generationAbortController) return;
+    cancelGenerationBtn.disabled = true;
+    loadingText.textContent = t('loading.cancelling');
+    generationAbortController.abort();
+});
+
+a11yFindingsList.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+    const index = Number(button?.closest<HTMLElement>('[data-finding-index]')?.dataset.findingIndex);
+    const finding = accessibilityAudit?.findings[index];
+    if (!button || !finding) return;
+
+    if (button.dataset.action === 'goto' && finding.location) {
+        showEditorLine(finding.location.editor, finding.location.line);
+    } else if (button.dataset.action === 'fix') {
+        applyAccessibilityFix(finding);
     }
+});
 
-    images.forEach(image => {
-        const galleryItem = document.createElement('div');
-        galleryItem.className = 'gallery-item';
-        galleryItem.innerHTML = `
-            <div class="aspect-video w-full overflow-hidden">
-                <img src="${image.url}" alt="Generated image for ${image.id}" class="w-full h-full object-cover">
-            </div>
-            <div class="p-4 border-t border-white/5 bg-zinc-950/50">
-                <p class="text-xs font-semibold text-zinc-300 mb-1">ID: <span class="text-zinc-500 font-mono">${image.id}</span></p>
-                <p class="text-xs text-zinc-400 line-clamp-2" title="${image.prompt}">${image.prompt}</p>
-            </div>
-        `;
-        imageGallery.appendChild(galleryItem);
+// --- HELPER FUNCTIONS ---
+
+function initProviders() {
+    try {
+        textProvider = createTextProvider(providerSettings, process.env.API_KEY);
+        imageProvider = createImageProvider(providerSettings, process.env.API_KEY);
+    } catch (error) {
+        console.error(error);
+        showError(t('validation.initFailed'));
+    }
+}
+
+function initProviderSettingsUI() {
+    providerTextSelect.value = providerSettings.textProvider;
+    providerImageSelect.value = providerSettings.imageProvider;
+    providerFields.forEach(field => {
+        const key = field.dataset.setting;
+        if (isProviderTextSetting(key)) field.value = providerSettings[key];
     });
 
+    const onChange = () => {
+        providerSettings = {
+            ...providerSettings,
+            textProvider: providerTextSelect.value as ProviderSettings['textProvider'],
+            imageProvider: providerImageSelect.value as ProviderSettings['imageProvider'],
+        };
+        providerFields.forEach(field => {
+            const key = field.dataset.setting;
+            if (isProviderTextSetting(key)) providerSettings[key] = field.value.trim();
+        });
+        saveProviderSettings(providerSettings);
+        initProviders();
+    };
+    providerTextSelect.addEventListener('change', onChange);
+    providerImageSelect.addEventListener('change', onChange);
+    providerFields.forEach(field => field.addEventListener('change', onChange));
+}
+
+function initLocaleUI() {
+    Object.entries(LOCALES).forEach(([locale, { label }]) => localeSelect.appendChild(new Option(label, locale)));
+    localeSelect.value = getLocale();
+    localeSelect.addEventListener('change', () => setLocale(localeSelect.value as Locale));
+
+    // Texts built in code are re-rendered; audit findings are re-run since their messages are created by the audit
+    onLocaleChange(() => {
+        renderPresetOptions(presetSelect.value);
+        renderSecurityReport();
+        renderImageGallery();
+        renderChat();
+        renderPreviewToolbar();
+        renderThemeEditor();
+        renderSeoPanel();
+        renderFormsPanel();
+        renderUsagePanel();
+        renderSessionCost();
+        renderSiteLanguages();
+        renderSnapshotList();
+        if (comparedVersions) compareVersions();
+        if (accessibilityAudit) runAccessibilityAudit();
+        if (projectsDialog.open) renderProjectList();
+    });
+}
+
+function initBrandKitUI() {
+    brandKitToggle.checked = brandKit.enabled;
+    brandKitFields.disabled = !brandKit.enabled;
+    brandColorInputs.forEach(input => {
+        input.value = brandKit.colors[input.dataset.brandColor as BrandColorRole];
+    });
+    brandHeadingFontInput.value = brandKit.headingFont;
+    brandBodyFontInput.value = brandKit.bodyFont;
+    brandToneInput.value = brandKit.tone;
+    renderBrandLogo();
+
+    const onChange = () => {
+        const colors = { ...brandKit.colors };
+        brandColorInputs.forEach(input => {
+            colors[input.dataset.brandColor as BrandColorRole] = input.value;
+        });
+        brandKit = {
+            ...brandKit,
+            enabled: brandKitToggle.checked,
+            colors,
+            headingFont: brandHeadingFontInput.value.trim(),
+            bodyFont: brandBodyFontInput.value.trim(),
+            tone: brandToneInput.value.trim(),
+        };
+        brandKitFields.disabled = !brandKit.enabled;
+        saveBrandKit(brandKit);
+    };
+    [brandKitToggle, ...brandColorInputs, brandHeadingFontInput, brandBodyFontInput, brandToneInput]
+        .forEach(field => field.addEventListener('change', onChange));
+}
+
+function renderBrandLogo() {
+    brandLogoPreview.classList.toggle('hidden', !brandKit.logo);
+    brandLogoRemoveBtn.classList.toggle('hidden', !brandKit.logo);
+    if (brandKit.logo) brandLogoPreview.src = brandKit.logo;
+    else brandLogoPreview.removeAttribute('src');
+}
+
+function completeGenerationStep(message: string) {
+    generationProgress.done++;
+    updateProgress(generationProgress.done / generationProgress.total * 100, message);
+}
+
+function updateProgress(percentage: number, message: string) {
+    progressBarFill.style.width = `${percentage}%`;
+    progressPercentage.textContent = `${Math.round(percentage)}%`;
+    loadingText.textContent = message;
+}
+
+function getFriendlyErrorMessage(error: unknown): string {
+    const generationError = toGenerationError(error);
+    return generationError.code === 'unknown'
+        ? `${generationError.message} ${generationError.details.substring(0, 150)}`
+        : generationError.message;
+}
+
+/** Retries temporary provider errors and tells the user about the pause while the loading view is shown. */
+function generationRetryOptions(signal?: AbortSignal): RetryOptions {
+    return {
+        signal,
+        onRetry: (error, attempt, delayMs) => {
+            loadingText.textContent = `${error.message} ${t('loading.retry', { attempt, seconds: Math.ceil(delayMs / 1000) })}`;
+        },
+    };
+}
+
+/** Shows the steps of the pipeline in the loading view. */
+function generationPipelineOptions(signal?: AbortSignal): PipelineOptions {
+    return {
+        ...generationRetryOptions(signal),
+        onStatus: message => { loadingText.textContent = message; },
+        onStep: completeGenerationStep,
+    };
+}
+
+// --- CORE FUNCTIONS ---
+async function generateWebsite(request: GenerationRequest) {
+    const { coreIdea, language, pagePlan } = request;
+    // One call writes all pages, so its output grows with them; the favicon is one more image
+    const estimatedCost = plannedCost({
+        'website': pagePlan?.length ?? 1,
+        'image-prompt': request.imageCount,
+        'translation': request.extraLanguages.length,
+    }, request.imageCount + 1);
+    if (!confirmBudget(estimatedCost)) return;
+    lastGenerationRequest = request;
+    errorPanel.classList.add('hidden');
+    // The open project stays open until the new site replaces it, so cancelling or a failure returns to it
+    await saveCurrentProject();
+    const previousProject = currentProject;
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    generationAbortController = abortController;
+    // The image steps are only known once the code with its image prompts has arrived
+    generationProgress = { done: 0, total: 1 };
+    setLoadingState(true, t('loading.structure'));
+
+    generateBtn.disabled = true;
+    inputSection.classList.add('hidden');
+    resultContainer.classList.add('hidden');
+
+    const run = createUsageRun('generation');
+    const providers = usageProviders(run);
+    let generated = false;
+    try {
+        const { pages, images, favicon, seo } = await generateSite(providers, request, {
+            ...generationPipelineOptions(signal),
+            websiteData: resumableGeneration?.request === request ? resumableGeneration.websiteData : undefined,
+            logo: brandKit.enabled ? brandKit.logo : null,
+            onPartialText: text => {
+                loadingText.textContent = `${t('loading.structure')} (${(text.length / 1024).toFixed(1)} kB)`;
+                showStreamingHtml(text, pagePlan !== null);
+            },
+            onWebsiteData: websiteData => {
+                window.clearTimeout(streamRenderTimeout);
+                streamRenderTimeout = undefined;
+                resumableGeneration = { request, websiteData };
+                generationProgress.total = countGenerationSteps(websiteData) + request.extraLanguages.length;
+            },
+        });
+
+        // Layout and images are shared by all languages; only the texts are translated
+        const translations: SiteTranslation[] = [];
+        for (const extraLanguage of request.extraLanguages) {
+            const label = languageLabel(languageCode(extraLanguage));
+            loadingText.textContent = t('loading.translating', { language: label });
+            const untranslated: SiteTranslation = { language: extraLanguage, texts: {} };
+            try {
+                translations.push(await translateMissingTexts(providers.text, untranslated, pages, seo, language, coreIdea, signal));
+            } catch (error) {
+                if (signal.aborted) throw error;
+                // The site is still usable; the missing texts can be translated later from the preview toolbar
+                console.warn(`Translation into ${extraLanguage} failed:`, error);
+                translations.push(untranslated);
+            }
+            completeGenerationStep(t('loading.translated', { language: label }));
+        }
+
+        updateProgress(100, t('loading.finalizing'));
+        
+        // Short delay to let the bar hit 100% visually
+        await new Promise(r => setTimeout(r, 500));
+        signal.throwIfAborted();
+
+        // Every generation starts a new project instead of overwriting the open one
+        currentProject = { id: createProjectId(), name: getProjectNameFromPrompt(coreIdea), createdAt: Date.now() };
+        localStorage.setItem(CURRENT_PROJECT_KEY, currentProject.id);
+        updateCurrentProjectLabel();
+
+        latestFavicon = favicon;
+        populateUI(pages, images, seo, translations);
+        resumableGeneration = null;
+        generated = true;
+
+    } catch (error) {
+        // Replace the partly streamed code; the form still holds the prompt and all options
+        window.clearTimeout(streamRenderTimeout);
+        streamRenderTimeout = undefined;
+        if (previousProject) {
+            htmlEditor.setValue(sitePages[currentPageIndex].html, -1);
+            updatePreview(sitePages[currentPageIndex].html, cssEditor.getValue(), jsEditor.getValue());
+        }
+        // Cancelling goes back to the open project; errors are shown with the form to retry from
+        const backToProject = previousProject !== null && signal.aborted;
+        resultContainer.classList.toggle('hidden', !backToProject);
+        setLoadingState(false);
+        inputSection.classList.toggle('hidden', backToProject);
+        if (!signal.aborted) {
+            console.error("Error during website generation:", error);
+            showGenerationError(toGenerationError(error));
+        }
+    } finally {
+        // A failed run still counts against the budget, but it belongs to no site
+        finishUsageRun(run, generated);
+        window.clearTimeout(streamRenderTimeout);
+        streamRenderTimeout = undefined;
+        generationAbortController = null;
+        setStreamingState(false);
+        setLoadingState(false);
+        generateBtn.disabled = false;
+    }
+}
+
+function showGenerationError(error: GenerationError) {
+    errorPanelMessage.textContent = error.message;
+    errorPanelCode.textContent = error.code;
+    errorPanelDetails.textContent = error.details || '–';
+    errorPanel.classList.remove('hidden');
+    errorPanel.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+}
+
+/**
+ * Shows the code streamed so far in the HTML editor and the preview. Rendering is throttled,
+ * as reloading the preview on every chunk would make it flicker.
+ */
+function showStreamingHtml(partialJson: string, multiPage: boolean) {
+    streamedText = partialJson;
+    if (streamRenderTimeout !== undefined) return;
+    streamRenderTimeout = window.setTimeout(() => {
+        streamRenderTimeout = undefined;
+        const raw = multiPage
+            ? assembleStreamingPage(streamedText)
+            : readPartialJsonStrings(streamedText, 'htmlContent')[0] ?? '';
+        if (!raw.trim()) return;
+        // Findings are recorded once for the finished page, not for every chunk
+        const { html } = sanitizeHtml(raw, securityPolicy);
+        setStreamingState(true);
+        htmlEditor.setValue(html, 1);
+        previewFrame.srcdoc = html;
+        if (previewSettings.multiView) syncMultiViewFrames();
+    }, 300);
+}
+
+/** Joins the parts of a streaming multi-page answer into one document: the header, every page's main content and the footer. */
+function assembleStreamingPage(partialJson: string): string {
+    const [css = ''] = readPartialJsonStrings(partialJson, 'sharedCss');
+    const [header = ''] = readPartialJsonStrings(partialJson, 'headerHtml');
+    const [footer = ''] = readPartialJsonStrings(partialJson, 'footerHtml');
+    const mains = readPartialJsonStrings(partialJson, 'mainHtml');
+    if (!header && mains.length === 0) return '';
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <style>${css}</style>
+</head>
+<body>
+${header}
+<main>
+${mains.join('\n')}
+</main>
+${footer}
+</body>
+</html>`;
+}
+
+/** While code streams in, the result is shown read-only: editing or exporting a half-finished site would be lost anyway. */
+function setStreamingState(isStreaming: boolean) {
+    if (isStreaming) resultContainer.classList.remove('hidden');
+    htmlEditor.setReadOnly(isStreaming);
+    resultControls.inert = isStreaming;
+    chatPanel.inert = isStreaming;
+}
+
+
+function populateUI(pages: SitePage[], images: SiteImage[], seo: SeoSettings, translations: SiteTranslation[]) {
+    securityFindings = [];
+    pages = pages.map(page => ({ ...page, html: sanitizeModelHtml(page.html) }));
+    renderSecurityReport();
+    latestGeneratedImages = images; // Store images for export
+    seoSettings = seo;
+    formSettings = DEFAULT_FORM_SETTINGS;
+    usageRuns = [];
+    siteTranslations = translations;
+    previewLanguage = null;
+    // --- Separate HTML, CSS and JS ---
+    const { pages: preparedPages, css: cssContent, js: jsContent } = prepareSitePages(pages, latestFavicon);
+    sitePages = preparedPages;
+    currentPageIndex = 0;
+    renderPageSwitcher();
+    const htmlContent = sitePages[0].html;
+
+    // Set values in Ace Editors
+    htmlEditor.setValue(htmlContent, -1);
+    cssEditor.setValue(cssContent, -1);
+    jsEditor.setValue(jsContent, -1);
+
+    // --- Initialize History for Undo/Redo ---
+    history = [];
+    historyIndex = -1;
+    pushHistoryState(htmlContent, cssContent, jsContent);
+
+    // --- Populate Images Tab ---
+    renderImageGallery();
+
+    // --- Reset Refinement Chat ---
+    chatMessages = [];
+    renderChat();
+    resetVersionComparison();
+
     // --- Update Preview ---
-    updatePreview(htmlContent, cssContent);
+    updatePreview(htmlContent, cssContent, jsContent);
 
     // --- Show Results ---
     resultContainer.classList.remove('hidden');
@@ -617,14 +1730,111 @@ function populateUI(html: string, images: { id: string; url: string; prompt: str
     triggerAutoSave();
 }
 
+function renderImageGallery() {
+    imageGallery.innerHTML = ''; // Clear previous images
+
+    if (latestFavicon) {
+        const faviconItem = document.createElement('div');
+        faviconItem.className = 'gallery-item';
+        faviconItem.innerHTML = `
+            <div class="aspect-square w-full p-8 flex items-center justify-center bg-zinc-900">
+                <img src="${escapeHtml(latestFavicon.url)}" alt="${escapeHtml(t('images.faviconAlt'))}" class="w-24 h-24 object-contain">
+            </div>
+            <div class="p-4 border-t border-white/5 bg-zinc-950/50">
+                <p class="text-xs font-semibold text-primary uppercase tracking-wider mb-1">${escapeHtml(t('images.favicon'))}</p>
+                <p class="text-xs text-zinc-400 line-clamp-2" title="${escapeHtml(latestFavicon.prompt)}">${escapeHtml(latestFavicon.prompt)}</p>
+                <button type="button" data-edit-image="${FAVICON_IMAGE_ID}" class="mt-3 text-xs text-primary hover:underline">${t('common.edit')}</button>
+            </div>
+        `;
+        imageGallery.appendChild(faviconItem);
+    }
+
+    latestGeneratedImages.forEach(image => {
+        const isRetrying = retryingImageIds.has(image.id);
+        // Ids and prompts come from the model or an imported site and must not be read as markup
+        const id = escapeHtml(image.id);
+        const prompt = escapeHtml(image.prompt);
+        const galleryItem = document.createElement('div');
+        galleryItem.className = 'gallery-item';
+        galleryItem.innerHTML = `
+            <div class="relative aspect-video w-full overflow-hidden">
+                <img src="${escapeHtml(image.url)}" alt="${escapeHtml(t('images.alt', { id: image.id }))}" class="w-full h-full object-cover">
+                ${image.failed ? `<span class="absolute top-2 left-2 px-2 py-0.5 rounded bg-amber-500/90 text-[10px] font-semibold uppercase tracking-wider text-zinc-950">${t('images.failed')}</span>` : ''}
+            </div>
+            <div class="p-4 border-t border-white/5 bg-zinc-950/50">
+                <p class="text-xs font-semibold text-zinc-300 mb-1">ID: <span class="text-zinc-500 font-mono">${id}</span></p>
+                <p class="text-xs text-zinc-400 line-clamp-2" title="${prompt}">${prompt}</p>
+                <div class="mt-3 flex gap-4">
+                    <button type="button" data-edit-image="${id}" class="text-xs text-primary hover:underline">${t('common.edit')}</button>
+                    ${image.failed ? `<button type="button" data-retry-image="${id}" class="text-xs text-amber-300 hover:underline disabled:opacity-50 disabled:no-underline" ${isRetrying ? 'disabled' : ''}>${isRetrying ? t('images.retrying') : t('images.retry')}</button>` : ''}
+                </div>
+            </div>
+        `;
+        imageGallery.appendChild(galleryItem);
+    });
+
+    const failedCount = latestGeneratedImages.filter(image => image.failed).length;
+    failedImagesBar.classList.toggle('hidden', failedCount === 0);
+    failedImagesText.textContent = t('images.failedCount', { count: failedCount });
+    retryFailedImagesBtn.disabled = retryingImageIds.size > 0;
+}
+
+/** Generates failed images again; images that fail once more keep their placeholder and flag. */
+async function retryFailedImages(ids: string[]) {
+    const targets = latestGeneratedImages.filter(image => image.failed && ids.includes(image.id) && !retryingImageIds.has(image.id));
+    if (targets.length === 0 || !confirmBudget(plannedCost({}, targets.length))) return;
+    const project = currentProject;
+    targets.forEach(image => retryingImageIds.add(image.id));
+    renderImageGallery();
+
+    const run = createUsageRun('images');
+    const providers = usageProviders(run);
+    await mapWithConcurrency(targets, IMAGE_CONCURRENCY, async target => {
+        const result = await generateSiteImage(providers.image, target.id, target.prompt, target.aspectRatio ?? '16:9', generationRetryOptions());
+        retryingImageIds.delete(target.id);
+        // Another project may have been opened, or the image edited, in the meantime
+        if (currentProject !== project) return;
+        latestGeneratedImages = latestGeneratedImages.map(image => image.id === target.id && image.failed ? result : image);
+        renderImageGallery();
+        updatePreview(htmlEditor.getValue(), cssEditor.getValue(), jsEditor.getValue());
+    });
+    finishUsageRun(run, currentProject === project);
+    triggerAutoSave();
+}
+
+function renderChat(isPending = false) {
+    chatMessagesContainer.innerHTML = '';
+    if (chatMessages.length === 0) {
+        const hint = document.createElement('p');
+        hint.className = 'text-xs text-muted-foreground';
+        hint.textContent = t('chat.empty');
+        chatMessagesContainer.appendChild(hint);
+    }
+    chatMessages.forEach(message => {
+        const bubble = document.createElement('div');
+        bubble.className = message.role === 'user'
+            ? 'ml-6 rounded-lg bg-primary/20 border border-primary/30 px-3 py-2 text-zinc-100 whitespace-pre-wrap'
+            : 'mr-6 rounded-lg bg-zinc-800/80 border border-white/5 px-3 py-2 text-zinc-300 whitespace-pre-wrap';
+        bubble.textContent = message.text;
+        chatMessagesContainer.appendChild(bubble);
+    });
+    if (isPending) {
+        const pending = document.createElement('div');
+        pending.className = 'mr-6 text-xs text-muted-foreground animate-pulse';
+        pending.textContent = t('chat.pending');
+        chatMessagesContainer.appendChild(pending);
+    }
+    chatMessagesContainer.scrollTop = chatMessagesContainer.scrollHeight;
+}
 
-function setLoadingState(isLoading: boolean, message: string = 'Analysiere deine Anfrage...') {
+function setLoadingState(isLoading: boolean, message: string = t('loading.analyzing')) {
     loadingContainer.classList.toggle('hidden', !isLoading);
     if (isLoading) {
         loadingText.textContent = message;
+        cancelGenerationBtn.disabled = false;
         // Reset progress bar
-        progressBarFill.style.width = '5%';
-        progressPercentage.textContent = '5%';
+        progressBarFill.style.width = '0%';
+        progressPercentage.textContent = '0%';
     }
 }
 
@@ -634,7 +1844,8 @@ function showError(message: string) {
     alert(message);
 }
 
-function updatePreview(html: string, css: string) {
+/** Parses a page and applies the stylesheet, images and favicon, which are stored separately. */
+function buildSiteDocument(html: string, css: string, js: string, images: SiteImage[], favicon: FaviconImage | null): Document {
     const parser = new DOMParser();
     const doc = parser.parseFromString(html, 'text/html');
 
@@ -647,7 +1858,7 @@ function updatePreview(html: string, css: string) {
     doc.head.appendChild(styleElement);
 
     // Re-inject images into the preview from the latest generation
-    latestGeneratedImages.forEach(image => {
+    images.forEach(image => {
         const imgElement = doc.getElementById(image.id) as HTMLImageElement;
         if (imgElement) {
             imgElement.src = image.url;
@@ -655,31 +1866,542 @@ function updatePreview(html: string, css: string) {
     });
 
     // Re-inject favicon if needed
-    if (latestFavicon) {
+    if (favicon) {
          let link = doc.querySelector("link[rel*='icon']") as HTMLLinkElement;
          if (link) {
-             link.href = latestFavicon.url;
+             link.href = favicon.url;
          }
     }
 
+    // Scripts are kept out of the HTML editor; run them after the body like the original inline script
+    if (js.trim()) {
+        const scriptElement = doc.createElement('script');
+        scriptElement.textContent = js;
+        doc.body.appendChild(scriptElement);
+    }
+    return doc;
+}
+
+function updatePreview(html: string, css: string, js: string) {
+    const translation = siteTranslations.find(candidate => candidate.language === previewLanguage);
+    const doc = buildSiteDocument(translation ? translateHtml(html, translation) : html, css, js, latestGeneratedImages, latestFavicon);
+
+    // Links to other pages can't load inside srcdoc, so hand them to the page switcher instead
+    if (sitePages.length > 1) {
+        const navScript = doc.createElement('script');
+        navScript.textContent = `document.addEventListener('click', function (e) {
+    if (e.defaultPrevented) return;
+    var link = e.target.closest && e.target.closest('a[href]');
+    var match = link && link.getAttribute('href').match(/^(?:\\.\\/)?([\\w-]+)\\.html(?:#.*)?$/);
+    if (match) { e.preventDefault(); parent.postMessage({ type: 'navigate-page', slug: match[1] }, '*'); }
+});`;
+        doc.body.appendChild(navScript);
+    }
+
+    // The site's language switcher shows the other languages in the preview instead of loading their folders
+    if (siteTranslations.length > 0) {
+        const slug = sitePages[currentPageIndex]?.slug ?? 'index';
+        const codes = [pageLanguageCode(html), ...siteTranslations.map(candidate => languageCode(candidate.language))];
+        addLanguageLinks(doc, translation ? languageCode(translation.language) : codes[0], codes.map(code => ({
+            code,
+            href: `../${code}/${slug}.html`,
+            alternateHref: `../${code}/${slug}.html`,
+        })));
+        const switcherStyle = doc.createElement('style');
+        switcherStyle.textContent = LANGUAGE_SWITCHER_CSS;
+        doc.head.appendChild(switcherStyle);
+        const languageScript = doc.createElement('script');
+        languageScript.textContent = `document.addEventListener('click', function (e) {
+    var link = e.target.closest && e.target.closest('.language-switcher a[hreflang]');
+    if (link) { e.preventDefault(); parent.postMessage({ type: 'navigate-language', lang: link.getAttribute('hreflang') }, '*'); }
+});`;
+        doc.body.appendChild(languageScript);
+    }
+    renderSiteLanguages();
+
+    // Lets the theme editor swap the stylesheet without reloading the page
+    doc.head.querySelector('style')?.setAttribute('data-preview-css', '');
+    const cssUpdateScript = doc.createElement('script');
+    cssUpdateScript.textContent = `window.addEventListener('message', function (e) {
+    if (e.source !== parent || !e.data || e.data.type !== 'update-css') return;
+    var style = document.querySelector('style[data-preview-css]');
+    if (style) style.textContent = e.data.css;
+});`;
+    doc.body.appendChild(cssUpdateScript);
+
+    if (isSelectingSection) {
+        const selectionScript = doc.createElement('script');
+        selectionScript.textContent = `(function () {
+    var selector = '${SELECTABLE_SECTIONS}';
+    var hovered = null;
+    var style = document.createElement('style');
+    style.textContent = '[data-select-hover] { outline: 3px dashed #8b5cf6 !important; outline-offset: -3px; cursor: pointer !important; }';
+    document.head.appendChild(style);
+    function find(e) { return e.target.closest ? e.target.closest(selector) : null; }
+    document.addEventListener('mouseover', function (e) {
+        var target = find(e);
+        if (hovered && hovered !== target) hovered.removeAttribute('data-select-hover');
+        hovered = target;
+        if (target) target.setAttribute('data-select-hover', '');
+    });
+    document.addEventListener('click', function (e) {
+        var target = find(e);
+        if (!target) return;
+        e.preventDefault();
+        e.stopPropagation();
+        var index = Array.prototype.indexOf.call(document.querySelectorAll(selector), target);
+        parent.postMessage({ type: 'select-section', index: index }, '*');
+    }, true);
+})();`;
+        doc.body.appendChild(selectionScript);
+    }
+
     previewFrame.srcdoc = doc.documentElement.outerHTML;
+    if (previewSettings.multiView) syncMultiViewFrames();
 }
 
-function pushHistoryState(html: string, css: string) {
+// --- PAGE FUNCTIONS ---
+
+/** Writes the HTML editor back into the current page and propagates the shared header/footer. */
+function commitCurrentPage() {
+    if (sitePages.length === 0) return;
+    sitePages[currentPageIndex] = { ...sitePages[currentPageIndex], html: htmlEditor.getValue() };
+    sitePages = syncSharedLayout(sitePages, currentPageIndex);
+}
+
+function switchPage(index: number) {
+    if (index === currentPageIndex || !sitePages[index]) return;
+    commitCurrentPage();
+    currentPageIndex = index;
+    pageSwitcher.value = String(index);
+    htmlEditor.setValue(sitePages[index].html, -1);
+    updatePreview(sitePages[index].html, cssEditor.getValue(), jsEditor.getValue());
+    renderSeoPanel();
+}
+
+// --- PRESET FUNCTIONS ---
+/** Fills the preset select; keeps `selectedId` selected if it still exists. */
+function renderPresetOptions(selectedId = '') {
+    presetSelect.innerHTML = '';
+    presetSelect.add(new Option(promptPresets.length > 0 ? t('presets.choose') : t('presets.empty'), ''));
+    [...promptPresets]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .forEach(preset => presetSelect.add(new Option(preset.name, preset.id)));
+    presetSelect.value = promptPresets.some(p => p.id === selectedId) ? selectedId : '';
+    presetDeleteBtn.disabled = !presetSelect.value;
+    presetExportBtn.disabled = promptPresets.length === 0;
+}
+
+function readFormAsPreset(): Omit<PromptPreset, 'id' | 'name'> {
+    return {
+        prompt: input.value,
+        pageType: pageTypeSelect.value,
+        language: languageSelect.value,
+        imageCount: Number(imageCountInput.value),
+        sections: Array.from(sectionCheckboxes).filter(cb => cb.checked).map(cb => cb.value),
+    };
+}
+
+/** Values a select doesn't offer (e.g. from a preset made with a newer version) are ignored. */
+function selectOptionIfAvailable(select: HTMLSelectElement, value: string) {
+    if (Array.from(select.options).some(option => option.value === value)) select.value = value;
+}
+
+function applyPreset(preset: PromptPreset) {
+    input.value = preset.prompt;
+    selectOptionIfAvailable(pageTypeSelect, preset.pageType);
+    selectOptionIfAvailable(languageSelect, preset.language);
+    syncExtraLanguageOptions();
+    imageCountInput.value = String(Math.min(Math.max(preset.imageCount, Number(imageCountInput.min)), Number(imageCountInput.max)));
+    sectionCheckboxes.forEach(cb => { cb.checked = preset.sections.includes(cb.value); });
+    renderTemplateVariables();
+    (templateVariableFields.querySelector<HTMLInputElement>('input[data-variable]') ?? input).focus();
+}
+
+/** Shows one field per {{variable}} in the prompt; the fields are only rebuilt when the names change. */
+function renderTemplateVariables() {
+    const names = extractVariables(input.value);
+    templateVariables.hidden = names.length === 0;
+    const shown = Array.from(templateVariableFields.querySelectorAll<HTMLInputElement>('input[data-variable]'), field => field.dataset.variable);
+    if (shown.join('\n') === names.join('\n')) return;
+
+    templateVariableFields.innerHTML = '';
+    names.forEach(name => {
+        const label = document.createElement('label');
+        label.className = 'space-y-1';
+        const caption = document.createElement('span');
+        caption.className = 'block text-xs text-zinc-400 truncate';
+        caption.textContent = name;
+        const field = document.createElement('input');
+        field.type = 'text';
+        field.dataset.variable = name;
+        field.value = templateValues[name] ?? '';
+        field.className = 'w-full bg-zinc-950/50 border border-input rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50';
+        label.append(caption, field);
+        templateVariableFields.appendChild(label);
+    });
+}
+
+// --- SECURITY FUNCTIONS ---
+
+function initSecurityUI() {
+    securityOriginInputs.forEach(textarea => {
+        textarea.value = securityPolicy[textarea.dataset.securityOrigins as SecurityOriginList].join('\n');
+    });
+    securityInlineHandlersToggle.checked = securityPolicy.allowInlineHandlers;
+    securityJavascriptUrlsToggle.checked = securityPolicy.allowJavascriptUrls;
+
+    const onChange = () => {
+        const policy = { ...securityPolicy };
+        securityOriginInputs.forEach(textarea => {
+            policy[textarea.dataset.securityOrigins as SecurityOriginList] = parseOrigins(textarea.value);
+        });
+        policy.allowInlineHandlers = securityInlineHandlersToggle.checked;
+        policy.allowJavascriptUrls = securityJavascriptUrlsToggle.checked;
+        securityPolicy = policy;
+        saveSecurityPolicy(securityPolicy);
+    };
+    [...securityOriginInputs, securityInlineHandlersToggle, securityJavascriptUrlsToggle]
+        .forEach(field => field.addEventListener('change', onChange));
+}
+
+function initUsageSettingsUI() {
+    usagePricesInput.value = formatPriceTable(usageSettings.prices);
+    usageBudgetInput.value = usageSettings.sessionBudget === null ? '' : String(usageSettings.sessionBudget);
+    renderSessionCost();
+
+    const onChange = () => {
+        const budget = usageBudgetInput.value.trim() === '' ? NaN : Number(usageBudgetInput.value);
+        usageSettings = {
+            prices: parsePriceTable(usagePricesInput.value),
+            sessionBudget: Number.isFinite(budget) && budget >= 0 ? budget : null,
+        };
+        saveUsageSettings(usageSettings);
+        // Shows which lines were understood
+        usagePricesInput.value = formatPriceTable(usageSettings.prices);
+        renderSessionCost();
+        renderUsagePanel();
+    };
+    [usagePricesInput, usageBudgetInput].forEach(field => field.addEventListener('change', onChange));
+}
+
+/** Applies the security policy to HTML from the model and records what was removed. */
+function sanitizeModelHtml(html: string): string {
+    const result = sanitizeHtml(html, securityPolicy);
+    recordSecurityFindings(result.findings);
+    return result.html;
+}
+
+function sanitizeModelCss(css: string): string {
+    const result = sanitizeCss(css, securityPolicy);
+    recordSecurityFindings(result.findings);
+    return result.css;
+}
+
+function recordSecurityFindings(findings: SecurityFinding[]) {
+    if (findings.length === 0) return;
+    securityFindings = [...securityFindings, ...findings];
+    renderSecurityReport();
+}
+
+/** One line per distinct finding; the shared header and footer of multi-page sites would repeat them. */
+function describeSecurityFindings(findings: SecurityFinding[]): string[] {
+    return [...new Set(findings.map(finding => `${t(SECURITY_FINDING_LABELS[finding.kind])}: ${finding.detail}`))];
+}
+
+function renderSecurityReport() {
+    const items = describeSecurityFindings(securityFindings);
+    securityReport.classList.toggle('hidden', items.length === 0);
+    securityReportSummary.textContent = t('security.removed', { count: items.length });
+    securityReportList.innerHTML = '';
+    items.forEach(text => {
+        const item = document.createElement('li');
+        item.className = 'font-mono break-all';
+        item.textContent = text;
+        securityReportList.appendChild(item);
+    });
+}
+
+// --- TRANSLATION FUNCTIONS ---
+
+function syncExtraLanguageOptions() {
+    extraLanguageCheckboxes.forEach(checkbox => {
+        const isPrimary = checkbox.value === languageSelect.value;
+        if (isPrimary) checkbox.checked = false;
+        checkbox.disabled = isPrimary;
+        checkbox.closest('label')?.classList.toggle('hidden', isPrimary);
+    });
+}
+
+/** Translates the texts that are new since the last translation and drops the ones the site no longer uses. */
+async function translateMissingTexts(
+    provider: TextProvider,
+    translation: SiteTranslation,
+    pages: SitePage[],
+    seo: SeoSettings | null,
+    sourceLanguage: string,
+    context: string,
+    signal?: AbortSignal
+): Promise<SiteTranslation> {
+    const texts = collectTranslatableTexts(pages, seo);
+    const missing = texts.filter(text => !(text in translation.texts));
+    const translated = missing.length === 0 ? [] : await withRetry(() => requestTranslations(provider, {
+        texts: missing,
+        sourceLanguage,
+        targetLanguage: translation.language,
+        context,
+        signal,
+    }), generationRetryOptions(signal));
+    const known = { ...translation.texts, ...Object.fromEntries(missing.map((text, i) => [text, translated[i]])) };
+    return { ...translation, texts: Object.fromEntries(texts.map(text => [text, known[text]])) };
+}
+
+/** Fills the language select above the preview and offers to translate texts that changed since the last translation. */
+function renderSiteLanguages() {
+    siteLanguageContainer.classList.toggle('hidden', siteTranslations.length === 0);
+    if (siteTranslations.length === 0) return;
+
+    siteLanguageSelect.innerHTML = '';
+    siteLanguageSelect.appendChild(new Option(languageLabel(pageLanguageCode(sitePages[0]?.html ?? '')), ''));
+    siteTranslations.forEach(translation => {
+        siteLanguageSelect.appendChild(new Option(languageLabel(languageCode(translation.language)), translation.language));
+    });
+    siteLanguageSelect.value = previewLanguage ?? '';
+
+    if (updateTranslationsBtn.disabled) return;
+    const missingCount = Math.max(...siteTranslations.map(translation => findMissingTexts(sitePages, seoSettings, translation).length));
+    updateTranslationsBtn.textContent = t('translation.update', { count: missingCount });
+    updateTranslationsBtn.classList.toggle('hidden', missingCount === 0);
+}
+
+function setPreviewLanguage(language: string | null) {
+    if (language === previewLanguage) return;
+    previewLanguage = language;
+    updatePreview(htmlEditor.getValue(), cssEditor.getValue(), jsEditor.getValue());
+}
+
+async function updateTranslations() {
+    commitCurrentPage();
+    const project = currentProject;
+    const sourceLanguage = languageName(pageLanguageCode(sitePages[0]?.html ?? ''));
+    if (!confirmBudget(plannedCost({ translation: siteTranslations.length }, 0))) return;
+    updateTranslationsBtn.disabled = true;
+    updateTranslationsBtn.textContent = t('translation.running');
+    const run = createUsageRun('translation');
+    const providers = usageProviders(run);
+    try {
+        const updated: SiteTranslation[] = [];
+        for (const translation of siteTranslations) {
+            updated.push(await translateMissingTexts(providers.text, translation, sitePages, seoSettings, sourceLanguage, seoSettings?.siteName ?? project?.name ?? ''));
+        }
+        // Another project may have been opened in the meantime
+        if (currentProject !== project) return;
+        siteTranslations = updated;
+        triggerAutoSave();
+    } catch (error) {
+        console.error("Error updating translations:", error);
+        alert(getFriendlyErrorMessage(error));
+    } finally {
+        finishUsageRun(run, currentProject === project);
+        updateTranslationsBtn.disabled = false;
+        updatePreview(htmlEditor.getValue(), cssEditor.getValue(), jsEditor.getValue());
+    }
+}
+
+// --- SECTION REGENERATION ---
+
+function setSectionSelectionMode(enabled: boolean) {
+    isSelectingSection = enabled;
+    selectSectionBtn.setAttribute('aria-pressed', String(enabled));
+    selectSectionHint.classList.toggle('hidden', !enabled);
+    updatePreview(htmlEditor.getValue(), cssEditor.getValue(), jsEditor.getValue());
+}
+
+function openSectionDialog(index: number) {
+    const doc = new DOMParser().parseFromString(htmlEditor.getValue(), 'text/html');
+    const element = doc.querySelectorAll(SELECTABLE_SECTIONS)[index];
+    if (!element) return;
+
+    selectedSectionIndex = index;
+    const heading = element.querySelector('h1, h2, h3')?.textContent?.trim();
+    sectionDialogLabel.textContent = `<${element.tagName.toLowerCase()}${element.id ? ` id="${element.id}"` : ''}>${heading ? ` – ${heading}` : ''}`;
+    sectionInstruction.value = '';
+    sectionDialog.showModal();
+    sectionInstruction.focus();
+}
+
+/**
+ * Replaces one header/section/footer in the HTML editor and the CSS rules scoped to it.
+ * Only new image placeholders inside the element get generated; existing images are kept.
+ */
+async function regenerateSection(index: number, instruction: string, providers: { text: TextProvider; image: ImageProvider }) {
+    commitCurrentPage();
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(htmlEditor.getValue(), 'text/html');
+    const element = doc.querySelectorAll(SELECTABLE_SECTIONS)[index];
+    if (!element) throw new Error("The selected section no longer exists.");
+
+    // Rules can only be scoped reliably by id; header and footer can also be matched by tag
+    if (!element.id) {
+        let id = `${element.tagName.toLowerCase()}-${index + 1}`;
+        while (doc.getElementById(id)) id += '-x';
+        element.id = id;
+    }
+    const scopeTokens = [`#${element.id}`];
+    if (element.tagName === 'HEADER' || element.tagName === 'FOOTER') {
+        scopeTokens.push(element.tagName.toLowerCase());
+    }
+
+    const css = cssEditor.getValue();
+    const response = await requestSectionRegeneration(providers.text, {
+        sectionHtml: element.outerHTML,
+        scopeSelector: `#${element.id}`,
+        scopedCss: extractScopedRules(css, scopeTokens),
+        siteCss: css,
+        siteJs: jsEditor.getValue(),
+        instruction,
+        existingImageIds: latestGeneratedImages.map(image => image.id),
+    });
+
+    const template = doc.createElement('template');
+    template.innerHTML = response.sectionHtml.trim();
+    const replacement = template.content.firstElementChild;
+    if (!replacement) throw new GenerationError('invalid-response', "sectionHtml contains no element.");
+    if (!replacement.id) replacement.id = element.id;
+    element.replaceWith(replacement);
+
+    const newHtml = sanitizeModelHtml(doc.documentElement.outerHTML);
+    const newCss = sanitizeModelCss(replaceScopedRules(css, scopeTokens, response.css));
+
+    // Generate only placeholders that are new, using the model's prompt or the alt text as a fallback
+    const newImagePrompts = Array.from(replacement.querySelectorAll<HTMLImageElement>('img[id]'))
+        .filter(img => !latestGeneratedImages.some(image => image.id === img.id))
+        .map(img => ({
+            id: img.id,
+            prompt: response.newImages.find(image => image.id === img.id)?.prompt || img.alt || instruction,
+            aspectRatio: inferAspectRatio(img),
+        }));
+    if (newImagePrompts.length > 0) {
+        const improvedPrompts = await improveImagePrompts(providers.text, newImagePrompts, input.value.trim() || instruction, generationPipelineOptions());
+        latestGeneratedImages = [...latestGeneratedImages, ...await generateImages(providers.image, improvedPrompts, generationPipelineOptions())];
+        renderImageGallery();
+    }
+
+    htmlEditor.setValue(newHtml, -1);
+    cssEditor.setValue(newCss, -1);
+    commitCurrentPage();
+    updatePreview(newHtml, newCss, jsEditor.getValue());
+    pushHistoryState(newHtml, newCss, jsEditor.getValue());
+}
+
+// --- IMAGE EDITING ---
+
+function openImageDialog(targetId: string) {
+    const isFavicon = targetId === FAVICON_IMAGE_ID;
+    const image = isFavicon ? latestFavicon : latestGeneratedImages.find(item => item.id === targetId);
+    if (!image) return;
+
+    imageDraft = {
+        targetId,
+        url: image.url,
+        prompt: image.prompt,
+        aspectRatio: isFavicon ? '1:1' : (image as SiteImage).aspectRatio ?? '16:9',
+        uploaded: !!image.uploaded,
+    };
+    imageDialogId.textContent = isFavicon ? t('images.favicon') : targetId;
+    imageDialogPreview.src = image.url;
+    imagePromptInput.value = image.prompt;
+    imageAspectSelect.value = imageDraft.aspectRatio;
+    imageAspectSelect.disabled = isFavicon;
+    imageCandidates.innerHTML = '';
+    cancelCrop();
+    imageDialog.showModal();
+}
+
+function renderImageCandidates(urls: string[]) {
+    imageCandidates.innerHTML = '';
+    urls.forEach((url, i) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.dataset.url = url;
+        button.className = 'rounded-md overflow-hidden border border-white/10 hover:border-primary/60 ring-primary';
+        const img = document.createElement('img');
+        img.src = url;
+        img.alt = t('imageDialog.variant', { number: i + 1 });
+        img.className = 'w-full h-24 object-cover';
+        button.appendChild(img);
+        imageCandidates.appendChild(button);
+    });
+}
+
+function startCrop() {
+    if (!imageDraft || !imageDialogPreview.naturalWidth) return;
+    imageCropZoom.value = cropRect ? imageCropZoom.value : '100';
+    cropRect = fitCropRect(imageDialogPreview.naturalWidth, imageDialogPreview.naturalHeight, imageDraft.aspectRatio, Number(imageCropZoom.value) / 100);
+    imageCropBox.classList.remove('hidden');
+    imageCropControls.classList.remove('hidden');
+    renderCropBox();
+}
+
+function updateCropRect(centerX: number, centerY: number) {
+    if (!imageDraft) return;
+    cropRect = fitCropRect(
+        imageDialogPreview.naturalWidth,
+        imageDialogPreview.naturalHeight,
+        imageDraft.aspectRatio,
+        Number(imageCropZoom.value) / 100,
+        centerX,
+        centerY
+    );
+    renderCropBox();
+}
+
+function renderCropBox() {
+    if (!cropRect) return;
+    const factor = imageDialogPreview.clientWidth / imageDialogPreview.naturalWidth;
+    imageCropBox.style.left = `${cropRect.x * factor}px`;
+    imageCropBox.style.top = `${cropRect.y * factor}px`;
+    imageCropBox.style.width = `${cropRect.width * factor}px`;
+    imageCropBox.style.height = `${cropRect.height * factor}px`;
+}
+
+function cancelCrop() {
+    cropRect = null;
+    imageCropBox.classList.add('hidden');
+    imageCropControls.classList.add('hidden');
+}
+
+function renderPageSwitcher() {
+    pageSwitcher.innerHTML = '';
+    sitePages.forEach((page, i) => {
+        const option = document.createElement('option');
+        option.value = String(i);
+        option.textContent = `${page.title} (${page.slug}.html)`;
+        pageSwitcher.appendChild(option);
+    });
+    pageSwitcher.value = String(currentPageIndex);
+    pageSwitcherContainer.classList.toggle('hidden', sitePages.length < 2);
+}
+
+function pushHistoryState(html: string, css: string, js: string) {
     // If we are in the middle of the history, slice the future states
     if (historyIndex < history.length - 1) {
         history = history.slice(0, historyIndex + 1);
     }
-    history.push({ html, css });
+    history.push({ html, css, js, pages: sitePages.map(page => ({ ...page })), pageIndex: currentPageIndex });
     historyIndex = history.length - 1;
     updateUndoRedoButtons();
 }
 
 function loadStateFromHistory() {
     const state = history[historyIndex];
+    sitePages = state.pages.map(page => ({ ...page }));
+    currentPageIndex = state.pageIndex;
+    renderPageSwitcher();
     htmlEditor.setValue(state.html, -1);
     cssEditor.setValue(state.css, -1);
-    updatePreview(state.html, state.css);
+    jsEditor.setValue(state.js, -1);
+    updatePreview(state.html, state.css, state.js);
     updateUndoRedoButtons();
 }
 
@@ -688,7 +2410,7 @@ function updateUndoRedoButtons() {
     redoBtn.disabled = historyIndex >= history.length - 1;
 }
 
-// --- LOCAL STORAGE FUNCTIONS ---
+// --- PROJECT FUNCTIONS ---
 
 function triggerAutoSave() {
     if (autoSaveTimeout) {
@@ -696,103 +2418,932 @@ function triggerAutoSave() {
     }
     // Debounce save by 1 second
     autoSaveTimeout = window.setTimeout(() => {
-        saveStateToLocalStorage();
+        saveCurrentProject();
     }, 1000);
 }
 
-function saveStateToLocalStorage() {
-    const htmlVal = htmlEditor.getValue();
-    const cssVal = cssEditor.getValue();
-    
-    // Don't save empty states that might overwrite good data on load if not careful,
-    // but here we allow it if user cleared it. 
-    // Mainly we want to avoid saving if generation hasn't happened yet and editors are empty.
-    if (!htmlVal && latestGeneratedImages.length === 0) return;
-
-    const data = {
-        html: htmlVal,
-        css: cssVal,
+async function saveCurrentProject() {
+    if (autoSaveTimeout) {
+        clearTimeout(autoSaveTimeout);
+        autoSaveTimeout = undefined;
+    }
+    // Nothing to save before the first generation or after starting a new project. While a
+    // generation runs, the HTML editor shows the streamed code of the new site.
+    if (!currentProject || generationAbortController) return;
+
+    commitCurrentPage();
+    const project: ProjectData = {
+        ...currentProject,
+        updatedAt: Date.now(),
+        html: htmlEditor.getValue(),
+        css: cssEditor.getValue(),
+        js: jsEditor.getValue(),
+        pages: sitePages,
+        pageIndex: currentPageIndex,
+        chat: chatMessages,
         images: latestGeneratedImages,
         favicon: latestFavicon,
-        timestamp: Date.now()
+        seo: seoSettings,
+        translations: siteTranslations,
+        forms: formSettings,
+        usage: usageRuns,
     };
 
     try {
-        localStorage.setItem('ai-website-gen-data', JSON.stringify(data));
-        console.log('Website state auto-saved.');
+        await saveProject(project);
+        console.log(`Project "${project.name}" auto-saved.`);
     } catch (e) {
-        console.warn("Quota exceeded, clearing images from storage to save code only.", e);
-        // Fallback: Try saving without images if quota exceeded (images are large)
-        data.images = [];
-        data.favicon = null;
-        try {
-            localStorage.setItem('ai-website-gen-data', JSON.stringify(data));
-        } catch (innerError) {
-             console.error("Failed to save even without images.", innerError);
+        console.error("Failed to save project.", e);
+    }
+}
+
+async function initWorkspace() {
+    try {
+        const migratedId = await migrateLegacyStorage(LEGACY_STORAGE_KEY, t('projects.legacyName'));
+        if (migratedId) {
+            localStorage.setItem(CURRENT_PROJECT_KEY, migratedId);
+        }
+        const lastProjectId = localStorage.getItem(CURRENT_PROJECT_KEY);
+        if (lastProjectId) {
+            await openProject(lastProjectId);
         }
+    } catch (e) {
+        console.error("Error restoring project", e);
     }
 }
 
-function loadStateFromLocalStorage() {
-    const savedData = localStorage.getItem('ai-website-gen-data');
-    if (savedData) {
+async function openProject(id: string) {
+    const project = await loadProject(id);
+    if (!project) {
+        localStorage.removeItem(CURRENT_PROJECT_KEY);
+        return;
+    }
+    console.log(`Opening project "${project.name}"...`);
+
+    // Restore logic similar to populateUI but without regeneration
+    currentProject = { id: project.id, name: project.name, createdAt: project.createdAt };
+    localStorage.setItem(CURRENT_PROJECT_KEY, project.id);
+    updateCurrentProjectLabel();
+
+    latestGeneratedImages = project.images;
+    latestFavicon = project.favicon;
+    siteTranslations = project.translations;
+    securityFindings = [];
+    previewLanguage = null;
+    sitePages = project.pages;
+    // Projects from before the JavaScript editor still carry their scripts inline
+    let js = project.js;
+    if (!js) {
+        ({ pages: sitePages, js } = separateInlineScripts(project.pages));
+    }
+    // Projects from before the SEO tab keep their metadata in the page HTML
+    seoSettings = project.seo;
+    if (!seoSettings) {
+        seoSettings = readSeoFromPages(sitePages, project.images[0]?.id ?? null);
+        sitePages = sitePages.map(page => ({ ...page, html: stripSeoTags(page.html) }));
+    }
+    // Projects saved before the security policy, or under a looser one, are cleaned like a new generation
+    sitePages = sitePages.map(page => ({ ...page, html: sanitizeModelHtml(page.html) }));
+    const css = sanitizeModelCss(project.css);
+    renderSecurityReport();
+    formSettings = project.forms ?? DEFAULT_FORM_SETTINGS;
+    usageRuns = project.usage;
+    currentPageIndex = Math.min(project.pageIndex, sitePages.length - 1);
+    renderPageSwitcher();
+
+    htmlEditor.setValue(sitePages[currentPageIndex].html, -1);
+    cssEditor.setValue(css, -1);
+    jsEditor.setValue(js, -1);
+
+    renderImageGallery();
+
+    chatMessages = project.chat;
+    renderChat();
+    resetVersionComparison();
+
+    updatePreview(sitePages[currentPageIndex].html, css, js);
+
+    inputSection.classList.add('hidden');
+    resultContainer.classList.remove('hidden');
+
+    // Init history with restored state
+    history = [];
+    historyIndex = -1;
+    pushHistoryState(sitePages[currentPageIndex].html, css, js);
+
+    // Setting the editors queued an auto-save of unchanged content
+    clearTimeout(autoSaveTimeout);
+    autoSaveTimeout = undefined;
+}
+
+/**
+ * Opens a website from an HTML file, a folder or a ZIP (e.g. from our export) as a new project,
+ * so the editor, chat and image tools work on it like on a generated site.
+ */
+async function importWebsite(files: File[]) {
+    importStatus.classList.remove('hidden');
+    try {
+        // The folder or file name, for sites without a name in their metadata
+        const fallbackName = (files[0].webkitRelativePath || files[0].name).split('/')[0].replace(/\.\w+$/, '');
+        const site = await importSite(await readImportFiles(files), fallbackName);
+
+        await saveCurrentProject();
+        currentProject = { id: createProjectId(), name: site.name, createdAt: Date.now() };
+        localStorage.setItem(CURRENT_PROJECT_KEY, currentProject.id);
+        updateCurrentProjectLabel();
+
+        latestFavicon = site.favicon;
+        errorPanel.classList.add('hidden');
+        inputSection.classList.add('hidden');
+        projectsDialog.close();
+        populateUI(site.pages, site.images, site.seo, []);
+        if (site.warnings.length > 0) alert(site.warnings.join('\n'));
+    } catch (error) {
+        console.error("Error importing website:", error);
+        alert(t('projects.importFailed'));
+    } finally {
+        importStatus.classList.add('hidden');
+    }
+}
+
+/** Shows the prompt form again; the next generation is saved as a new project. */
+async function startNewProject() {
+    await saveCurrentProject();
+    currentProject = null;
+    localStorage.removeItem(CURRENT_PROJECT_KEY);
+    updateCurrentProjectLabel();
+    resultContainer.classList.add('hidden');
+    inputSection.classList.remove('hidden');
+    input.focus();
+}
+
+function updateCurrentProjectLabel() {
+    currentProjectLabel.textContent = currentProject ? currentProject.name : '';
+    currentProjectLabel.classList.toggle('hidden', !currentProject);
+}
+
+function getProjectNameFromPrompt(prompt: string): string {
+    const words = prompt.split(/\s+/).slice(0, 6).join(' ');
+    return words.length < prompt.length ? `${words}...` : words;
+}
+
+async function renderProjectList() {
+    const projects = await listProjects();
+    projectList.innerHTML = '';
+
+    if (projects.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'py-6 text-center text-sm text-muted-foreground';
+        empty.textContent = t('projects.empty');
+        projectList.appendChild(empty);
+        return;
+    }
+
+    projects.forEach(project => {
+        const item = document.createElement('li');
+        item.className = 'py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3';
+        item.dataset.projectId = project.id;
+        item.dataset.projectName = project.name;
+
+        const info = document.createElement('div');
+        info.className = 'min-w-0';
+        const name = document.createElement('p');
+        name.className = `text-sm font-medium truncate ${project.id === currentProject?.id ? 'text-primary' : 'text-zinc-200'}`;
+        name.textContent = project.name;
+        const meta = document.createElement('p');
+        meta.className = 'text-xs text-muted-foreground';
+        meta.textContent = [formatDateTime(project.updatedAt), t('common.pageCount', { count: project.pageCount }), t('common.imageCount', { count: project.imageCount })].join(' · ');
+        info.append(name, meta);
+
+        const actions = document.createElement('div');
+        actions.className = 'flex gap-2 shrink-0';
+        ([['open', 'projects.open'], ['rename', 'common.rename'], ['duplicate', 'projects.duplicate'], ['delete', 'common.delete']] as const).forEach(([action, label]) => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.dataset.action = action;
+            button.textContent = t(label);
+            button.className = action === 'delete'
+                ? 'px-2 py-1 rounded-md text-xs text-red-400 hover:bg-red-500/10'
+                : 'px-2 py-1 rounded-md text-xs text-zinc-300 hover:bg-white/10';
+            actions.appendChild(button);
+        });
+
+        item.append(info, actions);
+        projectList.appendChild(item);
+    });
+}
+
+// --- EXPORT FUNCTIONS ---
+
+function renderExportOptions(options: ExportOptions) {
+    const isHtml = options.target === 'html';
+    exportTargetSelect.value = options.target;
+    exportFrameworkOptions.classList.toggle('hidden', isHtml);
+    exportCssModeInputs.forEach(radio => radio.checked = radio.value === options.cssMode);
+    // Framework projects get their images and bundling from the framework's own build
+    [exportHtmlOptions, exportImageOptions, exportCodeOptions].forEach(fieldset => fieldset.classList.toggle('hidden', !isHtml));
+    exportModeInputs.forEach(radio => radio.checked = radio.value === options.mode);
+    exportSeparateFilesToggle.checked = options.separateFiles;
+    exportSeparateFilesToggle.disabled = options.mode === 'single-file';
+    exportImageFormatSelect.value = options.imageFormat;
+    exportWidthInputs.forEach(checkbox => checkbox.checked = options.imageWidths.includes(Number(checkbox.value)));
+    // Single-file exports embed one size per image, and original files are never resized
+    exportWidthsContainer.classList.toggle('hidden', options.imageFormat === 'original' || options.mode === 'single-file');
+    exportLazyLoadingToggle.checked = options.lazyLoading;
+    exportMinifyToggle.checked = options.minify;
+    exportCspToggle.checked = options.contentSecurityPolicy;
+}
+
+function readExportOptions(): ExportOptions {
+    const mode = Array.from(exportModeInputs).find(radio => radio.checked)?.value;
+    const cssMode = Array.from(exportCssModeInputs).find(radio => radio.checked)?.value;
+    return {
+        target: exportTargetSelect.value as ExportOptions['target'],
+        cssMode: cssMode === 'component' ? 'component' : 'global',
+        mode: mode === 'single-file' ? 'single-file' : 'zip',
+        separateFiles: exportSeparateFilesToggle.checked,
+        imageFormat: exportImageFormatSelect.value as ExportImageFormat,
+        imageWidths: Array.from(exportWidthInputs).filter(checkbox => checkbox.checked).map(checkbox => Number(checkbox.value)),
+        lazyLoading: exportLazyLoadingToggle.checked,
+        minify: exportMinifyToggle.checked,
+        contentSecurityPolicy: exportCspToggle.checked,
+    };
+}
+
+// --- VERSION FUNCTIONS ---
+
+function getCurrentVersion(): SiteVersion {
+    commitCurrentPage();
+    return {
+        name: t('versions.current'),
+        css: cssEditor.getValue(),
+        js: jsEditor.getValue(),
+        pages: sitePages.map(page => ({ ...page })),
+        images: latestGeneratedImages,
+        favicon: latestFavicon,
+    };
+}
+
+async function loadVersion(value: string): Promise<SiteVersion | null> {
+    return value === CURRENT_VERSION ? getCurrentVersion() : loadSnapshot(value);
+}
+
+async function renderSnapshotList() {
+    snapshotSaveBtn.disabled = !currentProject;
+    const snapshots = currentProject ? await listSnapshots(currentProject.id) : [];
+    snapshotList.innerHTML = '';
+
+    if (snapshots.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'py-6 text-center text-sm text-muted-foreground';
+        empty.textContent = t('versions.empty');
+        snapshotList.appendChild(empty);
+    }
+
+    snapshots.forEach(snapshot => {
+        const item = document.createElement('li');
+        item.className = 'py-3 flex flex-col lg:flex-row lg:items-center justify-between gap-3';
+        item.dataset.snapshotId = snapshot.id;
+        item.dataset.snapshotName = snapshot.name;
+
+        const info = document.createElement('div');
+        info.className = 'min-w-0';
+        const name = document.createElement('p');
+        name.className = 'text-sm font-medium truncate text-zinc-200';
+        name.textContent = snapshot.name;
+        const meta = document.createElement('p');
+        meta.className = 'text-xs text-muted-foreground';
+        meta.textContent = [formatDateTime(snapshot.createdAt), t('common.pageCount', { count: snapshot.pageCount }), t('common.imageCount', { count: snapshot.imageCount })].join(' · ');
+        info.append(name, meta);
+
+        const actions = document.createElement('div');
+        actions.className = 'flex flex-wrap gap-2 shrink-0';
+        ([['compare', 'versions.compare'], ['restore', 'versions.restore'], ['css', 'versions.applyCss'], ['rename', 'common.rename'], ['delete', 'common.delete']] as const).forEach(([action, label]) => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.dataset.action = action;
+            button.textContent = t(label);
+            button.className = action === 'delete'
+                ? 'px-2 py-1 rounded-md text-xs text-red-400 hover:bg-red-500/10'
+                : 'px-2 py-1 rounded-md text-xs text-zinc-300 hover:bg-white/10';
+            actions.appendChild(button);
+        });
+
+        item.append(info, actions);
+        snapshotList.appendChild(item);
+    });
+
+    // Keep the chosen versions when the list is re-rendered
+    const options = [{ value: CURRENT_VERSION, label: t('versions.current') }, ...snapshots.map(snapshot => ({ value: snapshot.id, label: snapshot.name }))];
+    [compareSelectA, compareSelectB].forEach((select, i) => {
+        const previous = select.value;
+        select.innerHTML = '';
+        options.forEach(({ value, label }) => select.add(new Option(label, value)));
+        const fallback = options[Math.min(i === 0 ? 1 : 0, options.length - 1)].value;
+        select.value = options.some(option => option.value === previous) ? previous : fallback;
+    });
+    compareBtn.disabled = snapshots.length === 0;
+}
+
+function resetVersionComparison() {
+    comparedVersions = null;
+    compareResult.classList.add('hidden');
+    compareFrameA.srcdoc = '';
+    compareFrameB.srcdoc = '';
+}
+
+async function compareVersions() {
+    const [a, b] = await Promise.all([loadVersion(compareSelectA.value), loadVersion(compareSelectB.value)]);
+    if (!a || !b) {
+        alert(t('versions.notFound'));
+        await renderSnapshotList();
+        return;
+    }
+    comparedVersions = { a, b };
+
+    // Pages are matched by slug, so versions with different page sets can still be compared
+    const previousSlug = comparePageSelect.value || sitePages[currentPageIndex]?.slug;
+    const pages = [...a.pages, ...b.pages].filter((page, i, all) => all.findIndex(other => other.slug === page.slug) === i);
+    comparePageSelect.innerHTML = '';
+    pages.forEach(page => comparePageSelect.add(new Option(page.title || page.slug, page.slug)));
+    comparePageSelect.value = pages.some(page => page.slug === previousSlug) ? previousSlug : pages[0]?.slug ?? '';
+    comparePageSelect.hidden = pages.length < 2;
+
+    compareResult.classList.remove('hidden');
+    renderVersionComparison();
+}
+
+function renderVersionComparison() {
+    if (!comparedVersions) return;
+    const { a, b } = comparedVersions;
+    const slug = comparePageSelect.value;
+    const pageA = a.pages.find(page => page.slug === slug);
+    const pageB = b.pages.find(page => page.slug === slug);
+
+    compareLabelA.textContent = pageA ? a.name : `${a.name} ${t('versions.pageMissing')}`;
+    compareLabelB.textContent = pageB ? b.name : `${b.name} ${t('versions.pageMissing')}`;
+    compareFrameA.srcdoc = pageA ? buildSiteDocument(pageA.html, a.css, a.js, a.images, a.favicon).documentElement.outerHTML : '';
+    compareFrameB.srcdoc = pageB ? buildSiteDocument(pageB.html, b.css, b.js, b.images, b.favicon).documentElement.outerHTML : '';
+
+    const lines = diffTarget === 'html'
+        ? diffLines(pageA?.html ?? '', pageB?.html ?? '')
+        : diffLines(a[diffTarget], b[diffTarget]);
+    const added = lines.filter(line => line.type === 'added').length;
+    const removed = lines.filter(line => line.type === 'removed').length;
+    compareStats.textContent = added || removed ? t('versions.diffStats', { added, removed }) : t('versions.noDifferences');
+    renderDiff(collapseUnchanged(lines));
+}
+
+function renderDiff(rows: DiffRow[]) {
+    compareDiff.innerHTML = '';
+    const table = document.createElement('table');
+    table.className = 'w-full border-collapse';
+
+    rows.forEach(row => {
+        const tr = document.createElement('tr');
+        if (row.type === 'gap') {
+            tr.className = 'bg-zinc-900 text-zinc-500';
+            const cell = document.createElement('td');
+            cell.colSpan = 4;
+            cell.className = 'px-3 py-1';
+            cell.textContent = `… ${t('versions.unchangedLines', { count: row.hidden })}`;
+            tr.appendChild(cell);
+        } else {
+            tr.className = row.type === 'added' ? 'bg-emerald-500/10 text-emerald-300'
+                : row.type === 'removed' ? 'bg-red-500/10 text-red-300'
+                : 'text-zinc-400';
+            const marker = row.type === 'added' ? '+' : row.type === 'removed' ? '−' : ' ';
+            [row.oldLine ?? '', row.newLine ?? '', marker, row.text].forEach((value, i) => {
+                const cell = document.createElement('td');
+                cell.className = i < 2 ? 'px-2 text-right text-zinc-600 select-none align-top w-10'
+                    : i === 2 ? 'px-1 select-none align-top w-4'
+                    : 'pr-3 whitespace-pre';
+                cell.textContent = String(value);
+                tr.appendChild(cell);
+            });
+        }
+        table.appendChild(tr);
+    });
+    compareDiff.appendChild(table);
+}
+
+async function restoreSnapshot(id: string) {
+    const snapshot = await loadSnapshot(id);
+    if (!snapshot) return;
+
+    const currentSlug = sitePages[currentPageIndex]?.slug;
+    sitePages = snapshot.pages.map(page => ({ ...page }));
+    currentPageIndex = Math.max(0, sitePages.findIndex(page => page.slug === currentSlug));
+    latestGeneratedImages = snapshot.images;
+    latestFavicon = snapshot.favicon;
+    renderPageSwitcher();
+    renderImageGallery();
+
+    const html = sitePages[currentPageIndex].html;
+    htmlEditor.setValue(html, -1);
+    cssEditor.setValue(snapshot.css, -1);
+    jsEditor.setValue(snapshot.js, -1);
+    updatePreview(html, snapshot.css, snapshot.js);
+    pushHistoryState(html, snapshot.css, snapshot.js);
+    if (comparedVersions) await compareVersions();
+}
+
+/** Takes over only the stylesheet of a snapshot; pages and images stay as they are. */
+async function applySnapshotCss(id: string) {
+    const snapshot = await loadSnapshot(id);
+    if (!snapshot) return;
+
+    commitCurrentPage();
+    const html = htmlEditor.getValue();
+    cssEditor.setValue(snapshot.css, -1);
+    updatePreview(html, snapshot.css, jsEditor.getValue());
+    pushHistoryState(html, snapshot.css, jsEditor.getValue());
+    if (comparedVersions) await compareVersions();
+}
+
+// --- ACCESSIBILITY FUNCTIONS ---
+
+function getEditorDocuments(): AuditDocuments {
+    return { html: htmlEditor.getValue(), css: cssEditor.getValue(), js: jsEditor.getValue() };
+}
+
+async function runAccessibilityAudit() {
+    if (!htmlEditor.getValue()) return;
+    commitCurrentPage();
+    const documents = getEditorDocuments();
+    a11yRunBtn.disabled = true;
+    a11ySummary.textContent = t('a11y.running');
+    try {
+        const doc = buildSiteDocument(documents.html, documents.css, documents.js, latestGeneratedImages, latestFavicon);
+        const findings = await auditAccessibility(doc, documents, {
+            images: latestGeneratedImages,
+            lang: languageCode(languageSelect.value),
+        });
+        accessibilityAudit = { documents, findings };
+    } catch (error) {
+        console.error("Accessibility audit failed:", error);
+        accessibilityAudit = null;
+        a11ySummary.textContent = t('a11y.failed');
+        return;
+    } finally {
+        a11yRunBtn.disabled = false;
+    }
+    renderAccessibilityFindings();
+}
+
+function renderAccessibilityFindings() {
+    const findings = accessibilityAudit?.findings ?? [];
+    const errors = findings.filter(finding => finding.severity === 'error').length;
+    const summary = findings.length === 0
+        ? t('a11y.noFindings')
+        : t('a11y.summary', { errors, warnings: findings.length - errors });
+    a11ySummary.textContent = sitePages.length > 1
+        ? `${summary} ${t('a11y.onPage', { page: sitePages[currentPageIndex].title })}`
+        : summary;
+
+    a11yFindingsList.innerHTML = '';
+    findings.forEach((finding, index) => {
+        const item = document.createElement('li');
+        item.className = 'py-3 flex flex-col lg:flex-row lg:items-start justify-between gap-3';
+        item.dataset.findingIndex = String(index);
+
+        const info = document.createElement('div');
+        info.className = 'min-w-0 space-y-1';
+        const badge = document.createElement('span');
+        badge.className = finding.severity === 'error'
+            ? 'inline-block px-1.5 py-0.5 rounded text-[10px] font-medium uppercase tracking-wide bg-red-500/15 text-red-400'
+            : 'inline-block px-1.5 py-0.5 rounded text-[10px] font-medium uppercase tracking-wide bg-amber-500/15 text-amber-400';
+        badge.textContent = finding.severity === 'error' ? t('a11y.error') : t('a11y.warning');
+        const rule = document.createElement('span');
+        rule.className = 'ml-2 text-xs text-muted-foreground';
+        rule.textContent = t(AUDIT_RULE_LABELS[finding.rule]);
+        const message = document.createElement('p');
+        message.className = 'text-sm text-zinc-200';
+        message.textContent = finding.message;
+        info.append(badge, rule, message);
+
+        const actions = document.createElement('div');
+        actions.className = 'flex flex-wrap gap-2 shrink-0';
+        if (finding.location) {
+            const gotoButton = document.createElement('button');
+            gotoButton.type = 'button';
+            gotoButton.dataset.action = 'goto';
+            gotoButton.className = 'px-2 py-1 rounded-md text-xs text-zinc-300 hover:bg-white/10 font-mono';
+            gotoButton.textContent = t('a11y.location', { editor: finding.location.editor.toUpperCase(), line: finding.location.line });
+            actions.appendChild(gotoButton);
+        }
+        if (finding.fix) {
+            const fixButton = document.createElement('button');
+            fixButton.type = 'button';
+            fixButton.dataset.action = 'fix';
+            fixButton.className = 'px-2 py-1 rounded-md text-xs bg-primary/15 text-primary hover:bg-primary/25';
+            fixButton.textContent = finding.fix.label;
+            actions.appendChild(fixButton);
+        }
+        item.append(info, actions);
+        a11yFindingsList.appendChild(item);
+    });
+}
+
+function showEditorLine(editorName: keyof AuditDocuments, line: number) {
+    (tabs.querySelector(`[data-tab="${editorName}"]`) as HTMLElement)?.click();
+    const editor = editorName === 'html' ? htmlEditor : editorName === 'css' ? cssEditor : jsEditor;
+    editor.gotoLine(line, 0, true);
+    editor.focus();
+}
+
+async function applyAccessibilityFix(finding: AuditFinding) {
+    const documents = getEditorDocuments();
+    const audited = accessibilityAudit?.documents;
+    if (!finding.fix || !audited || documents.html !== audited.html || documents.css !== audited.css || documents.js !== audited.js) {
+        alert(t('a11y.outdated'));
+        await runAccessibilityAudit();
+        return;
+    }
+
+    const fixed = finding.fix.apply(documents);
+    htmlEditor.setValue(fixed.html, -1);
+    cssEditor.setValue(fixed.css, -1);
+    jsEditor.setValue(fixed.js, -1);
+    commitCurrentPage();
+    updatePreview(fixed.html, fixed.css, fixed.js);
+    pushHistoryState(fixed.html, fixed.css, fixed.js);
+    await runAccessibilityAudit();
+}
+
+// --- SEO FUNCTIONS ---
+
+function renderSeoPanel() {
+    const page = sitePages[currentPageIndex];
+    if (!seoSettings || !page) return;
+    const pageSeo = getPageSeo(seoSettings, page);
+
+    seoSiteNameInput.value = seoSettings.siteName;
+    seoBaseUrlInput.value = seoSettings.baseUrl;
+    seoKeywordsInput.value = seoSettings.keywords;
+    seoTwitterCardSelect.value = seoSettings.twitterCard;
+    seoJsonLdInput.value = seoSettings.jsonLd;
+
+    seoShareImageSelect.innerHTML = '';
+    seoShareImageSelect.appendChild(new Option(t('seo.noShareImage'), ''));
+    latestGeneratedImages.forEach(image => seoShareImageSelect.appendChild(new Option(image.id, image.id)));
+    seoShareImageSelect.value = latestGeneratedImages.some(image => image.id === seoSettings!.shareImageId) ? seoSettings.shareImageId! : '';
+
+    seoPageLabel.textContent = sitePages.length > 1 ? t('seo.pageLabel', { title: page.title, file: `${page.slug}.html` }) : '';
+    seoPageTitleInput.value = pageSeo.title;
+    seoPageDescriptionInput.value = pageSeo.description;
+    seoCanonicalUrlInput.value = pageSeo.canonicalUrl;
+    renderSeoStatus();
+}
+
+/** Updates the character counters, the search result preview and the JSON-LD check. */
+function renderSeoStatus() {
+    const page = sitePages[currentPageIndex];
+    if (!seoSettings || !page) return;
+    const pageSeo = getPageSeo(seoSettings, page);
+    const derivedUrl = seoSettings.baseUrl ? pageUrl(seoSettings.baseUrl, page.slug) : '';
+
+    const counter = (element: HTMLElement, length: number, max: number) => {
+        element.textContent = `${length} / ${max}`;
+        element.classList.toggle('text-amber-400', length > max || length === 0);
+    };
+    counter(seoTitleCount, pageSeo.title.length, SEO_TITLE_LENGTH);
+    counter(seoDescriptionCount, pageSeo.description.length, SEO_DESCRIPTION_LENGTH);
+    seoCanonicalUrlInput.placeholder = derivedUrl || t('seo.canonicalDerived');
+
+    seoSnippetUrl.textContent = pageSeo.canonicalUrl || derivedUrl || `${page.slug}.html`;
+    seoSnippetTitle.textContent = pageSeo.title || t('seo.untitled');
+    seoSnippetDescription.textContent = pageSeo.description;
+
+    let jsonLdMessage = t('seo.jsonLdEmpty');
+    let jsonLdValid = true;
+    if (seoSettings.jsonLd.trim()) {
         try {
-            const data = JSON.parse(savedData);
-            if (data.html) {
-                console.log('Restoring state from local storage...');
-                
-                // Restore logic similar to populateUI but without history reset
-                latestGeneratedImages = data.images || [];
-                latestFavicon = data.favicon || null;
-                
-                htmlEditor.setValue(data.html, -1);
-                cssEditor.setValue(data.css, -1);
-                
-                // Re-populate gallery
-                imageGallery.innerHTML = '';
-                
-                 if (latestFavicon) {
-                    const faviconItem = document.createElement('div');
-                    faviconItem.className = 'gallery-item';
-                    faviconItem.innerHTML = `
-                         <div class="aspect-square w-full p-8 flex items-center justify-center bg-zinc-900">
-                            <img src="${latestFavicon.url}" alt="Generated Favicon" class="w-24 h-24 object-contain">
-                        </div>
-                        <div class="p-4 border-t border-white/5 bg-zinc-950/50">
-                            <p class="text-xs font-semibold text-primary uppercase tracking-wider mb-1">Favicon</p>
-                            <p class="text-xs text-zinc-400 line-clamp-2" title="${latestFavicon.prompt}">${latestFavicon.prompt}</p>
-                        </div>
-                    `;
-                    imageGallery.appendChild(faviconItem);
-                }
-                
-                latestGeneratedImages.forEach(image => {
-                    const galleryItem = document.createElement('div');
-                    galleryItem.className = 'gallery-item';
-                    galleryItem.innerHTML = `
-                        <div class="aspect-video w-full overflow-hidden">
-                            <img src="${image.url}" alt="Generated image for ${image.id}" class="w-full h-full object-cover">
-                        </div>
-                        <div class="p-4 border-t border-white/5 bg-zinc-950/50">
-                            <p class="text-xs font-semibold text-zinc-300 mb-1">ID: <span class="text-zinc-500 font-mono">${image.id}</span></p>
-                            <p class="text-xs text-zinc-400 line-clamp-2" title="${image.prompt}">${image.prompt}</p>
-                        </div>
-                    `;
-                    imageGallery.appendChild(galleryItem);
-                });
-
-                updatePreview(data.html, data.css);
-                
-                // Show result container if we have data
-                inputSection.classList.add('hidden');
-                resultContainer.classList.remove('hidden');
-                
-                // Init history with restored state
-                history = [];
-                pushHistoryState(data.html, data.css);
-            }
-        } catch (e) {
-            console.error("Error parsing local storage data", e);
+            const data = JSON.parse(seoSettings.jsonLd);
+            jsonLdMessage = data?.['@type'] ? t('seo.jsonLdValidType', { type: data['@type'] }) : t('seo.jsonLdValid');
+        } catch (error) {
+            jsonLdValid = false;
+            jsonLdMessage = t('seo.jsonLdInvalid', { error: (error as Error).message });
         }
     }
-}
\ No newline at end of file
+    seoJsonLdStatus.textContent = jsonLdMessage;
+    seoJsonLdStatus.classList.toggle('text-red-400', !jsonLdValid);
+}
+
+// --- FORM FUNCTIONS ---
+
+function formMessages() {
+    return {
+        success: formSettings.successMessage.trim() || t('forms.defaultSuccess'),
+        error: formSettings.errorMessage.trim() || t('forms.defaultError'),
+        honeypot: t('forms.honeypotLabel'),
+    };
+}
+
+function renderFormsPanel() {
+    formsBackendSelect.value = formSettings.backend;
+    formsEmailInput.value = formSettings.email;
+    formsEndpointInput.value = formSettings.endpointUrl;
+    formsExtraFieldsInput.value = formatExtraFields(formSettings.extraFields);
+    formsHoneypotToggle.checked = formSettings.honeypot;
+    formsSuccessMessageInput.value = formSettings.successMessage;
+    formsSuccessMessageInput.placeholder = t('forms.defaultSuccess');
+    formsErrorMessageInput.value = formSettings.errorMessage;
+    formsErrorMessageInput.placeholder = t('forms.defaultError');
+
+    formsDetectedList.innerHTML = '';
+    const forms = detectForms(sitePages);
+    if (forms.length === 0) {
+        const item = document.createElement('li');
+        item.className = 'px-4 py-3 text-sm text-muted-foreground';
+        item.textContent = t('forms.none');
+        formsDetectedList.appendChild(item);
+    }
+    forms.forEach(form => {
+        const item = document.createElement('li');
+        item.className = 'px-4 py-3 space-y-1';
+        const title = document.createElement('p');
+        title.className = 'text-sm text-zinc-200';
+        title.textContent = sitePages.length > 1 ? t('forms.detectedOnPage', { name: form.name, file: `${form.slug}.html` }) : form.name;
+        const fields = document.createElement('p');
+        fields.className = 'text-xs text-muted-foreground';
+        fields.textContent = t('forms.fields', { count: form.fields.length, fields: form.fields.join(', ') });
+        item.append(title, fields);
+        formsDetectedList.appendChild(item);
+    });
+    renderFormsStatus();
+}
+
+/** Shows the inputs of the chosen backend and what is still missing. */
+function renderFormsStatus() {
+    formsMailtoFields.classList.toggle('hidden', formSettings.backend !== 'mailto');
+    formsJsonFields.classList.toggle('hidden', formSettings.backend !== 'json');
+    formsNetlifyHint.classList.toggle('hidden', formSettings.backend !== 'netlify');
+
+    const missing = checkFormSettings(formSettings);
+    formsStatus.textContent = missing === 'email' ? t('forms.missingEmail') : missing === 'endpoint' ? t('forms.missingEndpoint') : '';
+    formsStatus.classList.toggle('hidden', !missing);
+}
+
+// --- USAGE FUNCTIONS ---
+
+/** The current providers, recording every call in `run`. */
+function usageProviders(run: UsageRun) {
+    return trackUsage({ text: textProvider, image: imageProvider }, providerModels(providerSettings), run);
+}
+
+function plannedCost(textCalls: Partial<Record<TypicalCall, number>>, imageCount: number): number {
+    return estimateRunCost(textCalls, imageCount, providerModels(providerSettings), usageSettings.prices);
+}
+
+/** Asks before a run that would probably take the session over its budget. */
+function confirmBudget(estimatedCost: number): boolean {
+    const budget = usageSettings.sessionBudget;
+    if (budget === null || sessionCost + estimatedCost <= budget) return true;
+    return confirm(t('usage.budgetConfirm', { spent: formatCost(sessionCost), estimate: formatCost(estimatedCost), budget: formatCost(budget) }));
+}
+
+/** Adds a finished run to the session total and, with `keep`, to the open project. */
+function finishUsageRun(run: UsageRun, keep = true) {
+    if (run.calls.length === 0) return;
+    sessionCost += estimateCost(run.calls, usageSettings.prices).cost;
+    if (keep) {
+        usageRuns = [...usageRuns, run];
+        triggerAutoSave();
+    }
+    renderSessionCost();
+    renderUsagePanel();
+}
+
+function renderSessionCost() {
+    const budget = usageSettings.sessionBudget;
+    usageSessionCost.textContent = budget === null
+        ? t('usage.sessionCost', { cost: formatCost(sessionCost) })
+        : t('usage.sessionCostOfBudget', { cost: formatCost(sessionCost), budget: formatCost(budget) });
+    usageSessionCost.classList.toggle('text-amber-400', budget !== null && sessionCost > budget);
+}
+
+/** Lists the runs of the open project, newest first, with their calls and estimated costs. */
+function renderUsagePanel() {
+    const prices = usageSettings.prices;
+    const total = estimateCost(usageRuns.flatMap(run => run.calls), prices);
+    usageTotal.textContent = usageRuns.length === 0
+        ? t('usage.empty')
+        : [
+            t('usage.projectTotal', { cost: formatCost(total.cost) }),
+            ...total.unpricedModels.length > 0 ? [t('usage.unpriced', { models: total.unpricedModels.join(', ') })] : [],
+        ].join(' ');
+
+    usageRunList.innerHTML = '';
+    [...usageRuns].reverse().forEach(run => {
+        const totals = summarizeUsage(run.calls);
+        const runCost = estimateCost(run.calls, prices);
+        const item = document.createElement('li');
+        const details = document.createElement('details');
+        details.className = 'px-4 py-3';
+        const summary = document.createElement('summary');
+        summary.className = 'cursor-pointer select-none';
+        const title = document.createElement('span');
+        title.className = 'text-sm text-zinc-200';
+        title.textContent = `${t(USAGE_RUN_LABELS[run.kind])} · ${formatDateTime(run.startedAt)} · ${runCost.unpricedModels.length > 0 ? '≥ ' : ''}${formatCost(runCost.cost)}`;
+        const meta = document.createElement('p');
+        meta.className = 'text-xs text-muted-foreground';
+        meta.textContent = t('usage.runSummary', {
+            count: run.calls.length,
+            input: formatNumber(totals.inputTokens),
+            output: formatNumber(totals.outputTokens),
+            images: totals.images,
+            seconds: formatNumber(Math.round(totals.durationMs / 100) / 10),
+        });
+        summary.append(title, meta);
+
+        const table = document.createElement('table');
+        table.className = 'w-full mt-3 text-xs text-left';
+        const head = table.createTHead().insertRow();
+        (['usage.purpose', 'usage.model', 'usage.duration', 'usage.inputTokens', 'usage.outputTokens', 'usage.images', 'usage.cost'] as MessageKey[]).forEach(key => {
+            const cell = document.createElement('th');
+            cell.className = 'py-1 pr-3 font-medium text-muted-foreground';
+            cell.textContent = t(key);
+            head.appendChild(cell);
+        });
+        const body = table.createTBody();
+        run.calls.forEach(call => {
+            const row = body.insertRow();
+            row.className = call.failed ? 'text-red-400' : 'text-zinc-300';
+            const cost = callCost(call, prices);
+            [
+                call.failed ? `${call.purpose} (${t('usage.failed')})` : call.purpose,
+                call.model,
+                `${formatNumber(Math.round(call.durationMs / 100) / 10)} s`,
+                call.usage ? formatNumber(call.usage.inputTokens) : '–',
+                call.usage ? formatNumber(call.usage.outputTokens + call.usage.thinkingTokens) : '–',
+                call.kind === 'image' ? String(call.imageCount) : '–',
+                cost === null ? '–' : formatCost(cost),
+            ].forEach(text => {
+                const cell = row.insertCell();
+                cell.className = 'py-1 pr-3 font-mono';
+                cell.textContent = text;
+            });
+        });
+        details.append(summary, table);
+        item.appendChild(details);
+        usageRunList.appendChild(item);
+    });
+}
+
+// --- DEVICE PREVIEW ---
+
+function updatePreviewSettings(changes: Partial<PreviewSettings>) {
+    previewSettings = { ...previewSettings, ...changes };
+    savePreviewSettings(previewSettings);
+    renderPreviewToolbar();
+}
+
+function renderPreviewToolbar() {
+    const { device, multiView } = previewSettings;
+    DEVICE_PRESETS.forEach(preset => {
+        const option = previewDeviceSelect.querySelector<HTMLOptionElement>(`option[value="${preset.id}"]`)!;
+        option.textContent = `${t(preset.labelKey)} (${preset.width} × ${preset.height})`;
+    });
+    previewDeviceSelect.value = device;
+    previewDeviceSelect.disabled = multiView;
+    previewCustomSize.classList.toggle('hidden', device !== 'custom' || multiView);
+    previewWidthInput.value = String(previewSettings.custom.width);
+    previewHeightInput.value = String(previewSettings.custom.height);
+    previewRotateBtn.disabled = multiView || device === 'responsive';
+    previewRotateBtn.setAttribute('aria-pressed', String(previewSettings.rotated));
+    previewFitBtn.disabled = !multiView && device === 'responsive';
+    previewFitBtn.setAttribute('aria-pressed', String(previewSettings.fitToScreen));
+    previewMultiBtn.setAttribute('aria-pressed', String(multiView));
+
+    previewStage.classList.toggle('hidden', multiView);
+    previewMulti.classList.toggle('hidden', !multiView);
+    if (multiView) syncMultiViewFrames();
+    layoutPreview();
+}
+
+/** Gives the frame the emulated viewport size and scales it down, keeping its wrapper at the scaled size. */
+function sizePreviewFrame(frame: HTMLIFrameElement, wrapper: HTMLElement, width: number, height: number, scale: number) {
+    frame.style.width = `${width}px`;
+    frame.style.height = `${height}px`;
+    frame.style.transform = scale < 1 ? `scale(${scale})` : '';
+    wrapper.style.width = `${Math.round(width * scale)}px`;
+    wrapper.style.height = `${Math.round(height * scale)}px`;
+}
+
+function layoutPreview() {
+    if (previewSettings.multiView) {
+        layoutMultiView();
+        return;
+    }
+    const viewport = getViewport(previewSettings);
+    if (!viewport) {
+        [previewFrame, previewViewport].forEach(element => element.removeAttribute('style'));
+        previewSizeLabel.textContent = '';
+        return;
+    }
+    // Leave some room around the device so its edges stay visible
+    const scale = previewSettings.fitToScreen
+        ? fitScale(viewport, { width: previewStage.clientWidth - 32, height: previewStage.clientHeight - 32 })
+        : 1;
+    sizePreviewFrame(previewFrame, previewViewport, viewport.width, viewport.height, scale);
+    previewSizeLabel.textContent = `${viewport.width} × ${viewport.height} · ${Math.round(scale * 100)} %`;
+}
+
+/** All presets share one scale, so their sizes stay comparable. */
+function layoutMultiView() {
+    const gaps = 24 * (DEVICE_PRESETS.length - 1) + 32;
+    const totalWidth = DEVICE_PRESETS.reduce((sum, preset) => sum + preset.width, 0);
+    const maxHeight = Math.max(...DEVICE_PRESETS.map(preset => preset.height));
+    // The captions above the frames take about 28px
+    const scale = previewSettings.fitToScreen
+        ? fitScale({ width: totalWidth, height: maxHeight }, { width: previewMulti.clientWidth - gaps, height: previewMulti.clientHeight - 32 - 28 })
+        : 1;
+    multiViewFrames.forEach((frame, i) => {
+        const preset = DEVICE_PRESETS[i];
+        sizePreviewFrame(frame, frame.parentElement!, preset.width, preset.height, scale);
+    });
+    previewSizeLabel.textContent = `${Math.round(scale * 100)} %`;
+}
+
+/** Creates the multi-view frames on first use and shows the same document as the main preview. */
+function syncMultiViewFrames() {
+    if (multiViewFrames.length === 0) {
+        DEVICE_PRESETS.forEach(preset => {
+            const figure = document.createElement('figure');
+            figure.className = 'shrink-0 space-y-2';
+            const caption = document.createElement('figcaption');
+            caption.className = 'text-xs text-zinc-400';
+            const wrapper = document.createElement('div');
+            wrapper.className = 'relative overflow-hidden rounded-md border border-white/10 bg-white';
+            const frame = document.createElement('iframe');
+            frame.className = 'absolute top-0 left-0 border-0 bg-white origin-top-left';
+            frame.setAttribute('sandbox', 'allow-scripts');
+            wrapper.appendChild(frame);
+            figure.append(caption, wrapper);
+            previewMulti.appendChild(figure);
+            multiViewFrames.push(frame);
+        });
+    }
+    multiViewFrames.forEach((frame, i) => {
+        // Labels are set on every sync so they follow the app language
+        const preset = DEVICE_PRESETS[i];
+        const label = t(preset.labelKey);
+        frame.closest('figure')!.querySelector('figcaption')!.textContent = `${label} · ${preset.width} × ${preset.height}`;
+        frame.title = t('preview.deviceFrameTitle', { device: label });
+        if (frame.srcdoc !== previewFrame.srcdoc) frame.srcdoc = previewFrame.srcdoc;
+    });
+}
+
+// --- THEME FUNCTIONS ---
+
+function renderThemeEditor() {
+    const css = cssEditor.getValue();
+    const tokens = extractDesignTokens(css);
+    themeDarkModeToggle.checked = hasDarkMode(css);
+    themeDarkModeToggle.disabled = !tokens.some(token => token.color);
+    themeDarkModeHint.classList.toggle('hidden', !themeDarkModeToggle.checked);
+    themeEmpty.classList.toggle('hidden', tokens.length > 0);
+    themeTokensContainer.innerHTML = '';
+    tokens.forEach((token, i) => themeTokensContainer.appendChild(createTokenRow(token, i)));
+}
+
+function createTokenRow(token: DesignToken, index: number): HTMLDivElement {
+    const row = document.createElement('div');
+    row.className = 'space-y-1';
+    row.dataset.token = token.name;
+
+    const label = document.createElement('label');
+    label.htmlFor = `theme-token-${index}`;
+    label.className = 'text-xs font-medium text-muted-foreground font-mono';
+    label.textContent = token.name;
+
+    const fields = document.createElement('div');
+    fields.className = 'flex gap-2';
+    if (token.color) {
+        const colorInput = document.createElement('input');
+        colorInput.type = 'color';
+        colorInput.value = token.color;
+        colorInput.className = 'w-12 h-9 shrink-0 rounded-md border border-input bg-zinc-950/50 p-1 cursor-pointer';
+        colorInput.setAttribute('aria-label', t('theme.colorFor', { name: token.name }));
+        fields.appendChild(colorInput);
+    }
+    const textInput = document.createElement('input');
+    textInput.type = 'text';
+    textInput.id = `theme-token-${index}`;
+    textInput.value = token.value;
+    textInput.spellcheck = false;
+    textInput.className = 'w-full bg-zinc-950/50 border border-input rounded-md px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary/50';
+    fields.appendChild(textInput);
+
+    row.append(label, fields);
+    return row;
+}
+
+/** Writes a token into the CSS editor, regenerates the dark-mode variant and restyles the open preview in place. */
+function updateDesignToken(name: string, value: string) {
+    let css = setDesignToken(cssEditor.getValue(), name, value);
+    if (hasDarkMode(css)) css = applyDarkMode(css, true);
+    cssEditor.setValue(css, -1);
+    [previewFrame, ...multiViewFrames].forEach(frame => frame.contentWindow?.postMessage({ type: 'update-css', css }, '*'));
+}
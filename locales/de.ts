@@ -0,0 +1,450 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Message } from "../utils/i18n";
+
+/** German interface texts. This catalog defines the message keys; other languages must provide all of them. */
+export const de = {
+    // --- Common ---
+    'common.apply': 'Übernehmen',
+    'common.cancel': 'Abbrechen',
+    'common.close': 'Schließen',
+    'common.delete': 'Löschen',
+    'common.edit': 'Bearbeiten',
+    'common.imageCount': { one: '1 Bild', other: '{count} Bilder' },
+    'common.page': 'Seite',
+    'common.pageCount': { one: '1 Seite', other: '{count} Seiten' },
+    'common.quoted': '„{text}“',
+    'common.regenerate': 'Neu generieren',
+    'common.remove': 'Entfernen',
+    'common.rename': 'Umbenennen',
+
+    // --- Header & form ---
+    'header.locale': 'Sprache der Oberfläche',
+    'header.tagline': 'Beschreibe deine Website, und ich erstelle sie mit KI in Sekunden.',
+    'form.generate': 'Website Generieren',
+    'form.newWebsite': 'Neue Website erstellen',
+    'prompt.label': 'Beschreibung',
+    'prompt.hint': 'Sei so detailliert wie möglich',
+    'prompt.placeholder': 'z.B. Eine Landingpage für ein neues KI-gesteuertes Fotobearbeitungs-Tool, das sich an professionelle Fotografen richtet...',
+    'prompt.examples': 'Beispiele:',
+    'prompt.example.portfolio': 'Eine moderne Portfolio-Website für einen Grafikdesigner mit dunklem Design, Galerie-Raster und Kontaktformular.',
+    'prompt.example.cafe': 'Eine Landingpage für ein Café mit gemütlicher Atmosphäre, Speisekarte, Öffnungszeiten und Standortkarte.',
+    'prompt.example.cafeLabel': '☕ Café Landingpage',
+    'prompt.example.startup': 'Startseite für ein Tech-Startup, das Cloud-Lösungen anbietet. Sauber, blaues Farbschema, Feature-Liste und Pricing.',
+    'validation.notInitialized': 'Die KI ist nicht initialisiert. Bitte überprüfen Sie Ihren API-Schlüssel oder wählen Sie einen anderen Anbieter.',
+    'validation.initFailed': 'Die KI konnte nicht initialisiert werden. Bitte überprüfen Sie die Konfiguration des API-Schlüssels.',
+    'validation.emptyPrompt': 'Bitte geben Sie eine Beschreibung für Ihre Website ein.',
+    'validation.shortPrompt': 'Bitte geben Sie eine detailliertere Beschreibung ein (mindestens {count} Zeichen).',
+    'validation.tooFewPages': 'Bitte geben Sie mindestens zwei Seiten für eine mehrseitige Website an.',
+    'validation.missingVariables': 'Bitte füllen Sie alle Platzhalter aus: {names}',
+
+    // --- Presets ---
+    'presets.label': 'Vorlage:',
+    'presets.choose': 'Vorlage wählen...',
+    'presets.empty': 'Noch keine Vorlagen',
+    'presets.save': 'Speichern',
+    'presets.saveHint': 'Platzhalter wie {{Firma}} im Text werden vor dem Generieren als Felder abgefragt.',
+    'presets.namePrompt': 'Name der Vorlage (ein bestehender Name überschreibt die Vorlage):',
+    'presets.deleteConfirm': 'Vorlage „{name}“ löschen?',
+    'presets.import': 'Importieren',
+    'presets.export': 'Exportieren',
+    'presets.imported': { one: '1 Vorlage importiert.', other: '{count} Vorlagen importiert.' },
+    'presets.importFailed': 'Die Datei enthält keine gültigen Vorlagen.',
+    'presets.variables': 'Platzhalter',
+
+    // --- Settings ---
+    'settings.title': 'Struktur & Inhalt',
+    'settings.pageType': 'Seitentyp',
+    'settings.language': 'Sprache',
+    'settings.imageCount': 'Anzahl Bilder',
+    'settings.sections': 'Abschnitte',
+    'settings.multiPage': 'Mehrseitige Website (eine HTML-Datei pro Seite)',
+    'settings.pageList': 'Seiten (kommagetrennt, die erste ist die Startseite)',
+    'settings.extraLanguages': 'Weitere Sprachen',
+    'settings.extraLanguagesHint': 'Layout und Bilder werden einmal erstellt, die Texte pro Sprache übersetzt. Die Website bekommt einen Sprachumschalter, der Export einen Ordner pro Sprache.',
+    'pageType.companySite': 'Unternehmensseite',
+    'pageType.productPage': 'Produktseite',
+    'pageType.blogPost': 'Blog Artikel',
+    'section.about': 'Über Uns',
+    'section.gallery': 'Galerie',
+    'section.contact': 'Kontakt',
+
+    // --- Brand kit ---
+    'brandKit.enable': 'Farben, Schriften, Logo und Tonalität bei der Generierung vorgeben',
+    'brandKit.palette': 'Farbpalette',
+    'brandKit.color.primary': 'Primär',
+    'brandKit.color.secondary': 'Sekundär',
+    'brandKit.color.accent': 'Akzent',
+    'brandKit.color.background': 'Hintergrund',
+    'brandKit.color.text': 'Text',
+    'brandKit.headingFont': 'Schrift für Überschriften',
+    'brandKit.headingFontPlaceholder': 'z.B. Playfair Display',
+    'brandKit.bodyFont': 'Schrift für Fließtext',
+    'brandKit.bodyFontPlaceholder': 'z.B. Inter',
+    'brandKit.tone': 'Tonalität',
+    'brandKit.tonePlaceholder': 'z.B. freundlich, persönlich, per Du',
+    'brandKit.uploadLogo': 'Logo hochladen',
+    'brandKit.logoPreview': 'Logo-Vorschau',
+    'brandKit.logoFailed': 'Das Logo konnte nicht gelesen werden. Die Datei ist möglicherweise beschädigt.',
+
+    // --- Providers ---
+    'provider.title': 'KI-Anbieter',
+    'provider.text': 'Textgenerierung',
+    'provider.image': 'Bildgenerierung',
+    'provider.geminiTextModel': 'Gemini Textmodell',
+    'provider.geminiImageModel': 'Imagen Bildmodell',
+    'provider.openAiCompatible': 'OpenAI-kompatibel',
+    'provider.openAiBaseUrl': 'OpenAI Basis-URL',
+    'provider.openAiApiKey': 'OpenAI API-Schlüssel (optional)',
+    'provider.openAiTextModel': 'OpenAI Textmodell',
+    'provider.openAiImageModel': 'OpenAI Bildmodell',
+
+    // --- Security ---
+    'security.title': 'Sicherheit',
+    'security.description': 'Generierter Code wird geprüft, bevor er in Editor, Vorschau und Export gelangt. Was hier nicht erlaubt ist, wird entfernt und gemeldet. Eine Quelle pro Zeile, z.B. https://cdn.jsdelivr.net oder https://*.example.com.',
+    'security.scriptOrigins': 'Erlaubte Skript-Quellen',
+    'security.styleOrigins': 'Erlaubte Stylesheet-Quellen',
+    'security.frameOrigins': 'Erlaubte iframe-Quellen (Karten, Videos)',
+    'security.formActionOrigins': 'Erlaubte Formular-Ziele',
+    'security.allowInlineHandlers': 'Inline-Event-Handler wie <code>onclick</code> erlauben',
+    'security.allowJavascriptUrls': '<code>javascript:</code>-Links erlauben',
+    'security.removed': { one: '1 unsicheres Element wurde aus dem generierten Code entfernt', other: '{count} unsichere Elemente wurden aus dem generierten Code entfernt' },
+    'security.reportHint': 'Erlaubte Quellen lassen sich in den Einstellungen unter „Sicherheit“ festlegen; sie gelten für die nächste Generierung und den Export.',
+    'security.kind.script': 'Externes Skript',
+    'security.kind.stylesheet': 'Externes Stylesheet',
+    'security.kind.event-handler': 'Inline-Event-Handler',
+    'security.kind.iframe': 'Eingebetteter Inhalt',
+    'security.kind.javascript-url': 'javascript:-URL',
+    'security.kind.form-action': 'Externes Formular-Ziel',
+    'security.kind.base': 'Basis-URL',
+    'security.kind.meta-refresh': 'Automatische Weiterleitung',
+
+    // --- Generation ---
+    'loading.title': 'Generiere Website...',
+    'loading.start': 'Start',
+    'loading.analyzing': 'Analysiere deine Anfrage...',
+    'loading.structure': 'Erstelle Struktur & Code...',
+    'loading.structureDone': 'Struktur & Code erstellt',
+    'loading.repairing': 'Korrigiere die Antwort der KI...',
+    'loading.improvingPrompts': 'Optimiere Bildbeschreibungen ({done} / {total})...',
+    'loading.favicon': 'Erstelle Website-Icon...',
+    'loading.faviconDone': 'Website-Icon erstellt',
+    'loading.images': 'Generiere Bilder ({done} / {total})...',
+    'loading.translating': 'Übersetze die Texte ({language})...',
+    'loading.translated': 'Texte übersetzt ({language})',
+    'loading.finalizing': 'Finalisiere Website...',
+    'loading.retry': 'Neuer Versuch {attempt} in {seconds} s...',
+    'loading.cancelling': 'Breche ab...',
+    'errorPanel.title': 'Die Generierung ist fehlgeschlagen',
+    'errorPanel.retry': 'Erneut versuchen',
+    'errorPanel.details': 'Details',
+    'error.auth': 'Authentifizierung fehlgeschlagen. Bitte überprüfen Sie Ihren API-Schlüssel.',
+    'error.rateLimit': 'API-Limit erreicht. Bitte versuchen Sie es später erneut.',
+    'error.unavailable': 'Der AI-Dienst ist derzeit überlastet. Bitte warten Sie einen Moment.',
+    'error.network': 'Netzwerkfehler. Bitte überprüfen Sie Ihre Internetverbindung.',
+    'error.blocked': 'Die Anfrage wurde blockiert. Bitte formulieren Sie Ihren Prompt sicherer.',
+    'error.invalidResponse': 'Ungültiges Antwortformat der KI. Bitte versuchen Sie es erneut.',
+    'error.aborted': 'Die Generierung wurde abgebrochen.',
+    'error.unknown': 'Ein unerwarteter Fehler ist aufgetreten.',
+
+    // --- Tabs & preview ---
+    'tab.preview': 'Vorschau',
+    'tab.images': 'Bilder & Assets',
+    'tab.theme': 'Design',
+    'tab.versions': 'Versionen',
+    'tab.a11y': 'Barrierefreiheit',
+    'tab.forms': 'Formulare',
+    'tab.usage': 'Verbrauch',
+    'history.undo': 'Rückgängig',
+    'history.redo': 'Wiederholen',
+    'preview.update': 'Vorschau aktualisieren',
+    'preview.frameTitle': 'Vorschau der generierten Website',
+    'preview.deviceFrameTitle': 'Vorschau {device}',
+    'preview.devicePhone': 'Smartphone',
+    'preview.deviceTablet': 'Tablet',
+    'preview.deviceLaptop': 'Laptop',
+    'preview.device': 'Gerät',
+    'preview.responsive': 'Responsiv',
+    'preview.customSize': 'Eigene Größe',
+    'preview.allDevices': 'Alle Geräte',
+    'preview.width': 'Breite in Pixeln',
+    'preview.height': 'Höhe in Pixeln',
+    'preview.rotate': 'Hoch-/Querformat',
+    'preview.rotateLabel': 'Hoch-/Querformat wechseln',
+    'preview.fit': 'Einpassen',
+    'preview.selectSection': 'Abschnitt auswählen',
+    'preview.selectSectionHint': 'Klicke in der Vorschau auf einen Header, Abschnitt oder Footer, um ihn neu zu generieren.',
+
+    // --- Site languages ---
+    'translation.language': 'Sprache',
+    'translation.update': { one: '1 Text übersetzen', other: '{count} Texte übersetzen' },
+    'translation.updateHint': 'Texte, die seit der letzten Übersetzung neu sind oder geändert wurden, in alle Sprachen übersetzen',
+    'translation.running': 'Übersetze...',
+
+    // --- Section regeneration ---
+    'section.dialogTitle': 'Abschnitt neu generieren',
+    'section.selected': 'Ausgewählt:',
+    'section.placeholder': 'z.B. Drei Testimonials als Karten mit Foto, Name und Sternebewertung',
+    'section.running': 'Generiere Abschnitt...',
+
+    // --- Refinement chat ---
+    'chat.title': 'Verfeinern',
+    'chat.description': 'Beschreibe Änderungen, die KI bearbeitet den aktuellen Code.',
+    'chat.placeholder': 'z.B. Mach den Hero dunkler und füge eine Preistabelle hinzu',
+    'chat.send': 'Senden',
+    'chat.empty': 'Noch keine Änderungen. Jede Anweisung wird als eigener Schritt im Verlauf gespeichert und kann rückgängig gemacht werden.',
+    'chat.pending': 'Bearbeite...',
+    'chat.applied': 'Änderungen übernommen.',
+    'chat.unmatched': '({failed} von {count} Änderungen konnten nicht zugeordnet werden.)',
+
+    // --- Images ---
+    'images.alt': 'Generiertes Bild für {id}',
+    'images.faviconAlt': 'Generiertes Website-Icon',
+    'images.favicon': 'Website-Icon',
+    'images.failed': 'Fehlgeschlagen',
+    'images.failedCount': {
+        one: '1 Bild konnte nicht generiert werden und wird als Platzhalter angezeigt.',
+        other: '{count} Bilder konnten nicht generiert werden und werden als Platzhalter angezeigt.',
+    },
+    'images.placeholderLabel': 'Bild konnte nicht generiert werden',
+    'images.retry': 'Erneut generieren',
+    'images.retryAll': 'Alle erneut generieren',
+    'images.retrying': 'Wird generiert...',
+    'imageDialog.title': 'Bild bearbeiten',
+    'imageDialog.current': 'Aktuelles Bild',
+    'imageDialog.aspectRatio': 'Seitenverhältnis',
+    'imageDialog.variants': 'Varianten',
+    'imageDialog.variant': 'Variante {number}',
+    'imageDialog.running': 'Generiere...',
+    'imageDialog.upload': 'Eigenes Foto hochladen',
+    'imageDialog.notAnImage': 'Bitte wählen Sie eine Bilddatei aus.',
+    'imageDialog.uploadFailed': 'Das Bild konnte nicht gelesen werden. Die Datei ist möglicherweise beschädigt.',
+    'imageDialog.crop': 'Zuschneiden...',
+    'imageDialog.cropApply': 'Zuschneiden',
+    'imageDialog.cropSize': 'Ausschnittgröße',
+    'imageDialog.cropFailed': 'Das Bild konnte nicht zugeschnitten werden.',
+
+    // --- Theme ---
+    'theme.title': 'Design-Tokens',
+    'theme.description': 'Die CSS-Variablen aus <code>:root</code>. Änderungen wirken sofort in der Vorschau und im CSS.',
+    'theme.empty': 'Das CSS enthält keine Design-Tokens unter <code>:root</code>. Generiere die Website neu oder lege CSS-Variablen wie <code>--color-primary</code> an, um sie hier zu bearbeiten.',
+    'theme.darkMode': 'Automatischer Dark Mode',
+    'theme.darkModeHint': 'Die dunklen Farben werden aus den Tokens abgeleitet und über <code>prefers-color-scheme</code> aktiviert. Die Vorschau folgt der Einstellung deines Systems.',
+    'theme.colorFor': 'Farbe für {name}',
+
+    // --- SEO ---
+    'seo.site': 'Website',
+    'seo.siteName': 'Name der Website',
+    'seo.baseUrl': 'Basis-URL',
+    'seo.baseUrlHint': 'Für Canonical-URLs, <code>sitemap.xml</code> und <code>robots.txt</code> im Export.',
+    'seo.title': 'Titel',
+    'seo.description': 'Beschreibung',
+    'seo.canonicalUrl': 'Canonical-URL',
+    'seo.canonicalDerived': 'Wird aus der Basis-URL abgeleitet',
+    'seo.shareImage': 'Vorschaubild für soziale Netzwerke',
+    'seo.noShareImage': 'Kein Bild',
+    'seo.twitterCard': 'Twitter-Card',
+    'seo.twitterCardSummary': 'Zusammenfassung',
+    'seo.twitterCardLarge': 'Großes Bild',
+    'seo.snippet': 'Vorschau im Suchergebnis',
+    'seo.untitled': 'Ohne Titel',
+    'seo.pageLabel': '„{title}“ ({file})',
+    'seo.structuredData': 'Strukturierte Daten (JSON-LD, Startseite)',
+    'seo.jsonLdEmpty': 'Kein JSON-LD hinterlegt.',
+    'seo.jsonLdValid': 'Gültiges JSON-LD.',
+    'seo.jsonLdValidType': 'Gültiges JSON-LD vom Typ {type}.',
+    'seo.jsonLdInvalid': 'Ungültiges JSON, wird beim Export weggelassen: {error}',
+
+    // --- Forms ---
+    'forms.title': 'Kontaktformulare',
+    'forms.description': 'Beim Export erhalten die Formulare der Website Validierung, verständliche Fehlermeldungen, Spamschutz und ein Ziel für die Nachrichten. Die Vorschau bleibt unverändert.',
+    'forms.none': 'Die Website enthält keine Formulare.',
+    'forms.detectedOnPage': '{name} ({file})',
+    'forms.fields': { one: 'Ein Feld: {fields}', other: '{count} Felder: {fields}' },
+    'forms.delivery': 'Versand',
+    'forms.backend': 'Nachrichten senden an',
+    'forms.backend.mailto': 'E-Mail-Programm der Besucher (mailto)',
+    'forms.backend.json': 'Eigener Endpunkt (JSON-POST)',
+    'forms.backend.netlify': 'Netlify Forms',
+    'forms.email': 'Empfänger-Adresse',
+    'forms.emailHint': 'Öffnet beim Absenden das E-Mail-Programm mit der ausgefüllten Nachricht. Funktioniert ohne Server, aber nur, wenn die Besucher ein E-Mail-Programm eingerichtet haben.',
+    'forms.endpoint': 'Endpunkt-URL',
+    'forms.endpointHint': 'Die Felder werden als JSON-Objekt gesendet. Der Endpunkt muss Anfragen von der Domain der Website erlauben (CORS).',
+    'forms.extraFields': 'Zusätzliche Felder',
+    'forms.extraFieldsHint': 'Eine Zeile pro Feld als <code>name=wert</code>, z.B. der Zugangsschlüssel eines Formular-Dienstes. Die Werte stehen öffentlich im HTML.',
+    'forms.netlifyHint': 'Netlify erkennt die Formulare beim Deployment und zeigt die Einsendungen im Dashboard. Die Website muss dazu auf Netlify veröffentlicht werden.',
+    'forms.behavior': 'Verhalten',
+    'forms.honeypot': 'Spamschutz (unsichtbares Honeypot-Feld)',
+    'forms.successMessage': 'Meldung nach dem Senden',
+    'forms.errorMessage': 'Meldung bei einem Fehler',
+    'forms.defaultSuccess': 'Vielen Dank! Deine Nachricht wurde gesendet.',
+    'forms.defaultError': 'Die Nachricht konnte nicht gesendet werden. Bitte versuche es später noch einmal.',
+    'forms.honeypotLabel': 'Dieses Feld bitte leer lassen',
+    'forms.missingEmail': 'Gib eine Empfänger-Adresse an, sonst wissen die Formulare nicht, wohin sie senden sollen.',
+    'forms.missingEndpoint': 'Gib eine Endpunkt-URL an, die mit http:// oder https:// beginnt.',
+
+    // --- Usage ---
+    'usage.settingsTitle': 'Verbrauch & Kosten',
+    'usage.settingsDescription': 'Jeder Modellaufruf wird mit Modell, Dauer, Tokens und Bildanzahl beim Projekt gespeichert. Die Kosten sind eine Schätzung anhand der Preistabelle.',
+    'usage.prices': 'Preistabelle',
+    'usage.pricesHint': 'Eine Zeile pro Modell: Name, US-Dollar je 1 Mio. Eingabe-Tokens, je 1 Mio. Ausgabe-Tokens und je Bild, getrennt durch Leerzeichen.',
+    'usage.budget': 'Budget pro Sitzung (US-Dollar)',
+    'usage.noBudget': 'Kein Limit',
+    'usage.budgetHint': 'Vor einem Lauf, der das Budget voraussichtlich überschreitet, wird nachgefragt. Die Sitzung endet mit dem Neuladen der Seite.',
+    'usage.sessionCost': 'In dieser Sitzung: {cost}',
+    'usage.sessionCostOfBudget': 'In dieser Sitzung: {cost} von {budget}',
+    'usage.budgetConfirm': 'In dieser Sitzung wurden bereits {spent} ausgegeben. Dieser Lauf kostet voraussichtlich {estimate} und überschreitet damit das Budget von {budget}. Trotzdem fortfahren?',
+    'usage.title': 'Modellaufrufe und Kosten',
+    'usage.empty': 'Für dieses Projekt wurden noch keine Modellaufrufe aufgezeichnet.',
+    'usage.projectTotal': 'Geschätzte Kosten des Projekts: {cost}.',
+    'usage.unpriced': 'Ohne Preis oder Token-Angaben und daher nicht enthalten: {models}.',
+    'usage.runSummary': { one: 'Ein Aufruf · {input} Eingabe- / {output} Ausgabe-Tokens · {images} Bilder · {seconds} s', other: '{count} Aufrufe · {input} Eingabe- / {output} Ausgabe-Tokens · {images} Bilder · {seconds} s' },
+    'usage.kind.generation': 'Generierung',
+    'usage.kind.refinement': 'Chat-Anpassung',
+    'usage.kind.section': 'Abschnitt neu generiert',
+    'usage.kind.images': 'Bilder',
+    'usage.kind.translation': 'Übersetzung',
+    'usage.purpose': 'Zweck',
+    'usage.model': 'Modell',
+    'usage.duration': 'Dauer',
+    'usage.inputTokens': 'Eingabe',
+    'usage.outputTokens': 'Ausgabe',
+    'usage.images': 'Bilder',
+    'usage.cost': 'Kosten',
+    'usage.failed': 'fehlgeschlagen',
+
+    // --- Projects ---
+    'projects.title': 'Projekte',
+    'projects.new': 'Neues Projekt',
+    'projects.empty': 'Noch keine Projekte. Generiere eine Website, um dein erstes Projekt anzulegen.',
+    'projects.open': 'Öffnen',
+    'projects.duplicate': 'Duplizieren',
+    'projects.renamePrompt': 'Neuer Projektname:',
+    'projects.copyName': '{name} (Kopie)',
+    'projects.deleteConfirm': 'Dieses Projekt wirklich löschen? Das kann nicht rückgängig gemacht werden.',
+    'projects.actionFailed': 'Die Projektaktion ist fehlgeschlagen.',
+    'projects.legacyName': 'Gespeicherte Website',
+    'projects.importFile': 'HTML oder ZIP importieren',
+    'projects.importFolder': 'Ordner importieren',
+    'projects.importHint': 'Öffnet eine bestehende Website oder einen Export dieser App im Editor: eine HTML-Datei (gern mit CSS, JS und Bildern zusammen ausgewählt), einen Ordner oder ein ZIP.',
+    'projects.importRunning': 'Importiere Website...',
+    'projects.importFailed': 'Die Website konnte nicht importiert werden. Die Auswahl muss mindestens eine HTML-Seite enthalten.',
+    'import.warning.languagesSkipped': 'Importiert wurde nur die Hauptsprache. Weitere Sprachen können im Editor neu übersetzt werden.',
+    'import.warning.pagesSkipped': 'Diese HTML-Dateien liegen in Unterordnern und wurden nicht als Seiten übernommen: {files}',
+    'import.warning.missingFiles': 'Diese lokalen Dateien fehlen in der Auswahl: {files}',
+
+    // --- Versions ---
+    'versions.namePlaceholder': 'Name der Version, z.B. Entwurf für Kundentermin',
+    'versions.save': 'Version speichern',
+    'versions.saveFailed': 'Die Version konnte nicht gespeichert werden.',
+    'versions.defaultName': 'Version vom {date}',
+    'versions.empty': 'Noch keine Versionen. Speichere den aktuellen Stand, um ihn später vergleichen oder wiederherstellen zu können.',
+    'versions.current': 'Aktueller Stand',
+    'versions.compare': 'Vergleichen',
+    'versions.restore': 'Wiederherstellen',
+    'versions.applyCss': 'Nur CSS übernehmen',
+    'versions.restoreConfirm': 'Version "{name}" wiederherstellen? Seiten und CSS lassen sich mit "Rückgängig" zurückholen, die Bilder werden durch die der Version ersetzt.',
+    'versions.renamePrompt': 'Neuer Name der Version:',
+    'versions.deleteConfirm': 'Version "{name}" wirklich löschen?',
+    'versions.actionFailed': 'Die Aktion für diese Version ist fehlgeschlagen.',
+    'versions.notFound': 'Die gewählte Version wurde nicht gefunden.',
+    'versions.compareTitle': 'Versionen vergleichen',
+    'versions.first': 'Erste Version',
+    'versions.second': 'Zweite Version',
+    'versions.with': 'mit',
+    'versions.firstPreview': 'Vorschau der ersten Version',
+    'versions.secondPreview': 'Vorschau der zweiten Version',
+    'versions.pageMissing': '(Seite nicht vorhanden)',
+    'versions.diffStats': '+{added} / −{removed} Zeilen',
+    'versions.noDifferences': 'Keine Unterschiede',
+    'versions.unchangedLines': { one: '1 unveränderte Zeile', other: '{count} unveränderte Zeilen' },
+
+    // --- Accessibility ---
+    'a11y.title': 'Prüfung nach WCAG 2.1 AA',
+    'a11y.rerun': 'Erneut prüfen',
+    'a11y.running': 'Prüfe Seite...',
+    'a11y.failed': 'Die Prüfung ist fehlgeschlagen.',
+    'a11y.outdated': 'Der Code wurde seit der Prüfung geändert. Die Prüfung wird aktualisiert, bitte versuche es erneut.',
+    'a11y.noFindings': 'Keine Probleme gefunden.',
+    'a11y.summary': '{errors} Fehler und {warnings} Hinweise.',
+    'a11y.onPage': '(Seite „{page}“)',
+    'a11y.error': 'Fehler',
+    'a11y.warning': 'Hinweis',
+    'a11y.location': '{editor}, Zeile {line}',
+    'a11y.rule.imageAlt': 'Alternativtext',
+    'a11y.rule.contrast': 'Kontrast',
+    'a11y.rule.headingOrder': 'Überschriften',
+    'a11y.rule.lang': 'Sprache',
+    'a11y.rule.menuToggle': 'Menü-Schalter',
+    'a11y.setAttribute': '{attribute}="{value}" setzen',
+    'a11y.imageAlt.missing': 'Bild „{id}“ hat keinen Alternativtext.',
+    'a11y.imageAlt.generic': 'Bild „{id}“ hat einen nichtssagenden Alternativtext („{alt}“).',
+    'a11y.imageAlt.fix': 'Beschreibung aus dem Bild-Prompt übernehmen',
+    'a11y.heading.missingH1': 'Die Seite hat keine Hauptüberschrift (<h1>).',
+    'a11y.heading.multipleH1': 'Die Seite hat {count} Hauptüberschriften (<h1>), empfohlen ist genau eine.',
+    'a11y.heading.skipped': 'Überschrift {heading} springt von <{from}> auf <{to}>.',
+    'a11y.heading.fix': 'In <{tag}> ändern',
+    'a11y.lang.mismatch': 'Das lang-Attribut („{declared}“) passt nicht zur gewählten Sprache („{lang}“).',
+    'a11y.lang.missing': 'Das <html>-Element hat kein lang-Attribut (erwartet: „{lang}“).',
+    'a11y.menu.notButton': 'Der Menü-Schalter ist ein <{tag}> statt eines <button> und damit per Tastatur nicht bedienbar.',
+    'a11y.menu.noName': 'Der Menü-Schalter hat keinen zugänglichen Namen (Text oder aria-label).',
+    'a11y.menu.noExpanded': 'Der Menü-Schalter gibt seinen Zustand nicht mit aria-expanded an.',
+    'a11y.menu.addExpanded': 'aria-expanded ergänzen',
+    'a11y.contrast.low': 'Kontrast {ratio}:1 zwischen {foreground} und {background} bei {element}, mindestens {minimum}:1 nötig.',
+    'a11y.contrast.more': { one: '(und 1 weitere Stelle)', other: '(und {count} weitere Stellen)' },
+    'a11y.contrast.fix': 'Textfarbe auf {color} ändern',
+    'a11y.contrast.uncheckable': {
+        one: '1 Textstelle liegt auf Bildern oder Verläufen; ihr Kontrast muss von Hand geprüft werden.',
+        other: '{count} Textstellen liegen auf Bildern oder Verläufen; ihr Kontrast muss von Hand geprüft werden.',
+    },
+
+    // --- Export ---
+    'export.title': 'Website exportieren',
+    'export.target': 'Ziel',
+    'export.target.html': 'Statisches HTML',
+    'export.target.react': 'React-Projekt (Vite)',
+    'export.target.vue': 'Vue-Projekt (Vite)',
+    'export.target.astro': 'Astro-Projekt',
+    'export.output': 'Ausgabe',
+    'export.singleFile': 'Eine eigenständige HTML-Datei mit eingebettetem CSS, JavaScript und Bildern (bei mehreren Seiten eine Datei pro Seite im ZIP)',
+    'export.zip': 'ZIP-Archiv mit HTML-Dateien und Bildern',
+    'export.separateFiles': 'CSS und JavaScript als <code>styles.css</code> und <code>script.js</code> verlinken (bei mehreren Seiten immer)',
+    'export.minify': 'HTML, CSS und JavaScript minifizieren',
+    'export.csp': 'Content-Security-Policy als <code>&lt;meta&gt;</code>-Tag einfügen (erlaubt genau die Quellen, die die Seite nutzt)',
+    'export.project': 'Projekt',
+    'export.projectDescription': 'Eine Komponente pro Abschnitt, Bilder in <code>public/</code>, mit <code>package.json</code>. Das Menü wird zum Komponentenzustand.',
+    'export.cssComponent': 'CSS pro Komponente (CSS Modules bei React, <code>scoped</code> bei Vue)',
+    'export.cssGlobal': 'Ein globales Stylesheet',
+    'export.images': 'Bilder',
+    'export.widths': 'Breiten für <code>srcset</code>',
+    'export.lazyLoading': '<code>loading="lazy"</code> für Bilder unterhalb des sichtbaren Bereichs',
+    'export.remembered': 'Die Einstellungen werden für den nächsten Export gemerkt.',
+    'export.submit': 'Exportieren',
+    'export.running': 'Exportiere Website...',
+    'export.nothingToExport': 'Bitte generieren Sie zuerst eine Website.',
+    'export.failed': 'Fehler beim Exportieren.',
+    'export.warning.formatUnsupported': '{format} wird von diesem Browser nicht unterstützt, die Bilder wurden als WebP exportiert.',
+    'export.warning.noBaseUrl': 'Ohne Basis-URL (SEO-Tab) wurde keine sitemap.xml erstellt, und Vorschaubilder für soziale Netzwerke haben nur relative Pfade.',
+    'export.warning.inlineHandler': 'Inline-Handler {name} an <{tag}> wurde entfernt.',
+    'export.warning.scriptBeyondMenu': 'Das Skript der Website macht mehr als das Menü umzuschalten. Das Original liegt in src/legacy/site-script.js und muss in die Komponenten übertragen werden.',
+    'export.warning.scriptNotMenu': 'Das Skript der Website wurde nicht als Menü-Umschalter erkannt. Das Original liegt in src/legacy/site-script.js und muss in die Komponenten übertragen werden.',
+    'export.warning.translationsSkipped': 'Framework-Projekte werden nur in der Hauptsprache exportiert. Für alle Sprachen mit Sprachumschalter und hreflang-Links exportiere die Website als statisches HTML.',
+    'export.warning.sanitized': { one: 'Ein unsicheres Element wurde gemäß den Sicherheitseinstellungen nicht exportiert: {items}', other: '{count} unsichere Elemente wurden gemäß den Sicherheitseinstellungen nicht exportiert: {items}' },
+    'export.warning.formsIncomplete': 'Die Formulare sind noch nicht vollständig eingerichtet (Formulare-Tab) und können keine Nachrichten senden.',
+
+    // --- README of exported projects ---
+    'readme.intro': 'Mit dem AI Website Generator erzeugtes {framework}-Projekt.',
+    'readme.start': 'Start',
+    'readme.structure': 'Aufbau',
+    'readme.astroPages': '`src/pages/` – eine Datei pro Seite',
+    'readme.astroLayout': '`src/layouts/Layout.astro` – `<head>`, Header, Footer und das Skript der Website',
+    'readme.astroComponents': '`src/components/` – eine Komponente pro Abschnitt',
+    'readme.components': '`src/components/` – eine Komponente pro Abschnitt, Header und Footer',
+    'readme.pages': '`src/pages/` – eine Komponente pro Seite, verbunden über den Router',
+    'readme.globalCss': '`src/styles/global.css` – das komplette Stylesheet',
+    'readme.globalCssRemaining': '`src/styles/global.css` – Regeln, die keinem Abschnitt zugeordnet werden konnten',
+    'readme.images': '`public/images/` – die Bilder der Website',
+    'readme.manualChecks': 'Manuell prüfen',
+} satisfies Record<string, Message>;
@@ -0,0 +1,449 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { MessageCatalog } from "../utils/i18n";
+
+export const en: MessageCatalog = {
+    // --- Common ---
+    'common.apply': 'Apply',
+    'common.cancel': 'Cancel',
+    'common.close': 'Close',
+    'common.delete': 'Delete',
+    'common.edit': 'Edit',
+    'common.imageCount': { one: '1 image', other: '{count} images' },
+    'common.page': 'Page',
+    'common.pageCount': { one: '1 page', other: '{count} pages' },
+    'common.quoted': '“{text}”',
+    'common.regenerate': 'Regenerate',
+    'common.remove': 'Remove',
+    'common.rename': 'Rename',
+
+    // --- Header & form ---
+    'header.locale': 'Interface language',
+    'header.tagline': 'Describe your website and I will build it with AI in seconds.',
+    'form.generate': 'Generate Website',
+    'form.newWebsite': 'Create a new website',
+    'prompt.label': 'Description',
+    'prompt.hint': 'Be as detailed as possible',
+    'prompt.placeholder': 'e.g. A landing page for a new AI-powered photo editing tool aimed at professional photographers...',
+    'prompt.examples': 'Examples:',
+    'prompt.example.portfolio': 'A modern portfolio website for a graphic designer with a dark design, gallery grid and contact form.',
+    'prompt.example.cafe': 'A landing page for a café with a cosy atmosphere, menu, opening hours and a location map.',
+    'prompt.example.cafeLabel': '☕ Café landing page',
+    'prompt.example.startup': 'Home page for a tech startup offering cloud solutions. Clean, blue color scheme, feature list and pricing.',
+    'validation.notInitialized': 'AI not initialized. Please verify your API key or choose another provider.',
+    'validation.initFailed': 'Failed to initialize AI. Please check the API key configuration.',
+    'validation.emptyPrompt': 'Please enter a description for your website.',
+    'validation.shortPrompt': 'Please enter a more detailed description (at least {count} characters).',
+    'validation.tooFewPages': 'Please enter at least two pages for a multi-page website.',
+    'validation.missingVariables': 'Please fill in all placeholders: {names}',
+
+    // --- Presets ---
+    'presets.label': 'Preset:',
+    'presets.choose': 'Choose a preset...',
+    'presets.empty': 'No presets yet',
+    'presets.save': 'Save',
+    'presets.saveHint': 'Placeholders like {{Company}} in the text are asked for as fields before generating.',
+    'presets.namePrompt': 'Preset name (an existing name overwrites that preset):',
+    'presets.deleteConfirm': 'Delete preset "{name}"?',
+    'presets.import': 'Import',
+    'presets.export': 'Export',
+    'presets.imported': { one: '1 preset imported.', other: '{count} presets imported.' },
+    'presets.importFailed': 'The file contains no valid presets.',
+    'presets.variables': 'Placeholders',
+
+    // --- Settings ---
+    'settings.title': 'Structure & content',
+    'settings.pageType': 'Page type',
+    'settings.language': 'Language',
+    'settings.imageCount': 'Number of images',
+    'settings.sections': 'Sections',
+    'settings.multiPage': 'Multi-page website (one HTML file per page)',
+    'settings.pageList': 'Pages (comma-separated, the first one is the home page)',
+    'settings.extraLanguages': 'Additional languages',
+    'settings.extraLanguagesHint': 'Layout and images are created once, the texts are translated per language. The website gets a language switcher, the export one folder per language.',
+    'pageType.companySite': 'Company website',
+    'pageType.productPage': 'Product page',
+    'pageType.blogPost': 'Blog post',
+    'section.about': 'About us',
+    'section.gallery': 'Gallery',
+    'section.contact': 'Contact',
+
+    // --- Brand kit ---
+    'brandKit.enable': 'Specify colors, fonts, logo and tone of voice for the generation',
+    'brandKit.palette': 'Color palette',
+    'brandKit.color.primary': 'Primary',
+    'brandKit.color.secondary': 'Secondary',
+    'brandKit.color.accent': 'Accent',
+    'brandKit.color.background': 'Background',
+    'brandKit.color.text': 'Text',
+    'brandKit.headingFont': 'Heading font',
+    'brandKit.headingFontPlaceholder': 'e.g. Playfair Display',
+    'brandKit.bodyFont': 'Body font',
+    'brandKit.bodyFontPlaceholder': 'e.g. Inter',
+    'brandKit.tone': 'Tone of voice',
+    'brandKit.tonePlaceholder': 'e.g. friendly, personal, casual',
+    'brandKit.uploadLogo': 'Upload logo',
+    'brandKit.logoPreview': 'Logo preview',
+    'brandKit.logoFailed': 'The logo could not be read. The file may be damaged.',
+
+    // --- Providers ---
+    'provider.title': 'AI providers',
+    'provider.text': 'Text generation',
+    'provider.image': 'Image generation',
+    'provider.geminiTextModel': 'Gemini text model',
+    'provider.geminiImageModel': 'Imagen image model',
+    'provider.openAiCompatible': 'OpenAI-compatible',
+    'provider.openAiBaseUrl': 'OpenAI base URL',
+    'provider.openAiApiKey': 'OpenAI API key (optional)',
+    'provider.openAiTextModel': 'OpenAI text model',
+    'provider.openAiImageModel': 'OpenAI image model',
+
+    // --- Security ---
+    'security.title': 'Security',
+    'security.description': 'Generated code is checked before it reaches the editor, the preview and the export. Anything not allowed here is removed and reported. One source per line, e.g. https://cdn.jsdelivr.net or https://*.example.com.',
+    'security.scriptOrigins': 'Allowed script sources',
+    'security.styleOrigins': 'Allowed stylesheet sources',
+    'security.frameOrigins': 'Allowed iframe sources (maps, videos)',
+    'security.formActionOrigins': 'Allowed form targets',
+    'security.allowInlineHandlers': 'Allow inline event handlers like <code>onclick</code>',
+    'security.allowJavascriptUrls': 'Allow <code>javascript:</code> links',
+    'security.removed': { one: '1 unsafe element was removed from the generated code', other: '{count} unsafe elements were removed from the generated code' },
+    'security.reportHint': 'Allowed sources can be set in the settings under "Security"; they apply to the next generation and to the export.',
+    'security.kind.script': 'External script',
+    'security.kind.stylesheet': 'External stylesheet',
+    'security.kind.event-handler': 'Inline event handler',
+    'security.kind.iframe': 'Embedded content',
+    'security.kind.javascript-url': 'javascript: URL',
+    'security.kind.form-action': 'External form target',
+    'security.kind.base': 'Base URL',
+    'security.kind.meta-refresh': 'Automatic redirect',
+
+    // --- Generation ---
+    'loading.title': 'Generating website...',
+    'loading.start': 'Start',
+    'loading.analyzing': 'Analyzing your request...',
+    'loading.structure': 'Creating structure & code...',
+    'loading.structureDone': 'Structure & code created',
+    'loading.repairing': 'Correcting the AI response...',
+    'loading.improvingPrompts': 'Improving image descriptions ({done} / {total})...',
+    'loading.favicon': 'Creating website icon...',
+    'loading.faviconDone': 'Website icon created',
+    'loading.images': 'Generating images ({done} / {total})...',
+    'loading.translating': 'Translating the texts ({language})...',
+    'loading.translated': 'Texts translated ({language})',
+    'loading.finalizing': 'Finalizing website...',
+    'loading.retry': 'Retry {attempt} in {seconds} s...',
+    'loading.cancelling': 'Cancelling...',
+    'errorPanel.title': 'The generation failed',
+    'errorPanel.retry': 'Try again',
+    'errorPanel.details': 'Details',
+    'error.auth': 'Authentication failed. Please check your API key.',
+    'error.rateLimit': 'API limit reached. Please try again later.',
+    'error.unavailable': 'The AI service is currently overloaded. Please wait a moment.',
+    'error.network': 'Network error. Please check your internet connection.',
+    'error.blocked': 'The request was blocked. Please rephrase your prompt.',
+    'error.invalidResponse': 'Invalid response format from the AI. Please try again.',
+    'error.aborted': 'The generation was cancelled.',
+    'error.unknown': 'An unexpected error occurred.',
+
+    // --- Tabs & preview ---
+    'tab.preview': 'Preview',
+    'tab.images': 'Images & assets',
+    'tab.theme': 'Design',
+    'tab.versions': 'Versions',
+    'tab.a11y': 'Accessibility',
+    'tab.forms': 'Forms',
+    'tab.usage': 'Usage',
+    'history.undo': 'Undo',
+    'history.redo': 'Redo',
+    'preview.update': 'Update preview',
+    'preview.frameTitle': 'Preview of the generated website',
+    'preview.deviceFrameTitle': 'Preview {device}',
+    'preview.devicePhone': 'Phone',
+    'preview.deviceTablet': 'Tablet',
+    'preview.deviceLaptop': 'Laptop',
+    'preview.device': 'Device',
+    'preview.responsive': 'Responsive',
+    'preview.customSize': 'Custom size',
+    'preview.allDevices': 'All devices',
+    'preview.width': 'Width in pixels',
+    'preview.height': 'Height in pixels',
+    'preview.rotate': 'Portrait/landscape',
+    'preview.rotateLabel': 'Switch between portrait and landscape',
+    'preview.fit': 'Fit',
+    'preview.selectSection': 'Select section',
+    'preview.selectSectionHint': 'Click a header, section or footer in the preview to regenerate it.',
+
+    // --- Site languages ---
+    'translation.language': 'Language',
+    'translation.update': { one: 'Translate 1 text', other: 'Translate {count} texts' },
+    'translation.updateHint': 'Translate texts that are new or changed since the last translation into all languages',
+    'translation.running': 'Translating...',
+
+    // --- Section regeneration ---
+    'section.dialogTitle': 'Regenerate section',
+    'section.selected': 'Selected:',
+    'section.placeholder': 'e.g. Three testimonials as cards with photo, name and star rating',
+    'section.running': 'Generating section...',
+
+    // --- Refinement chat ---
+    'chat.title': 'Refine',
+    'chat.description': 'Describe changes, the AI edits the current code.',
+    'chat.placeholder': 'e.g. Make the hero darker and add a pricing table',
+    'chat.send': 'Send',
+    'chat.empty': 'No changes yet. Every instruction is saved as its own step in the history and can be undone.',
+    'chat.pending': 'Working...',
+    'chat.applied': 'Changes applied.',
+    'chat.unmatched': '({failed} of {count} changes could not be matched.)',
+
+    // --- Images ---
+    'images.alt': 'Generated image for {id}',
+    'images.faviconAlt': 'Generated website icon',
+    'images.favicon': 'Favicon',
+    'images.failed': 'Failed',
+    'images.failedCount': {
+        one: '1 image could not be generated and is shown as a placeholder.',
+        other: '{count} images could not be generated and are shown as placeholders.',
+    },
+    'images.placeholderLabel': 'Image could not be generated',
+    'images.retry': 'Regenerate',
+    'images.retryAll': 'Regenerate all',
+    'images.retrying': 'Generating...',
+    'imageDialog.title': 'Edit image',
+    'imageDialog.current': 'Current image',
+    'imageDialog.aspectRatio': 'Aspect ratio',
+    'imageDialog.variants': 'Variants',
+    'imageDialog.variant': 'Variant {number}',
+    'imageDialog.running': 'Generating...',
+    'imageDialog.upload': 'Upload your own photo',
+    'imageDialog.notAnImage': 'Please choose an image file.',
+    'imageDialog.uploadFailed': 'The image could not be read. The file may be damaged.',
+    'imageDialog.crop': 'Crop...',
+    'imageDialog.cropApply': 'Crop',
+    'imageDialog.cropSize': 'Crop size',
+    'imageDialog.cropFailed': 'The image could not be cropped.',
+
+    // --- Theme ---
+    'theme.title': 'Design tokens',
+    'theme.description': 'The CSS variables from <code>:root</code>. Changes apply immediately to the preview and the CSS.',
+    'theme.empty': 'The CSS has no design tokens in <code>:root</code>. Regenerate the website or add CSS variables such as <code>--color-primary</code> to edit them here.',
+    'theme.darkMode': 'Automatic dark mode',
+    'theme.darkModeHint': 'The dark colors are derived from the tokens and activated via <code>prefers-color-scheme</code>. The preview follows your system setting.',
+    'theme.colorFor': 'Color for {name}',
+
+    // --- SEO ---
+    'seo.site': 'Website',
+    'seo.siteName': 'Website name',
+    'seo.baseUrl': 'Base URL',
+    'seo.baseUrlHint': 'For canonical URLs, <code>sitemap.xml</code> and <code>robots.txt</code> in the export.',
+    'seo.title': 'Title',
+    'seo.description': 'Description',
+    'seo.canonicalUrl': 'Canonical URL',
+    'seo.canonicalDerived': 'Derived from the base URL',
+    'seo.shareImage': 'Preview image for social networks',
+    'seo.noShareImage': 'No image',
+    'seo.twitterCard': 'Twitter card',
+    'seo.twitterCardSummary': 'Summary',
+    'seo.twitterCardLarge': 'Large image',
+    'seo.snippet': 'Search result preview',
+    'seo.untitled': 'Untitled',
+    'seo.pageLabel': '“{title}” ({file})',
+    'seo.structuredData': 'Structured data (JSON-LD, home page)',
+    'seo.jsonLdEmpty': 'No JSON-LD provided.',
+    'seo.jsonLdValid': 'Valid JSON-LD.',
+    'seo.jsonLdValidType': 'Valid JSON-LD of type {type}.',
+    'seo.jsonLdInvalid': 'Invalid JSON, it is left out of the export: {error}',
+
+    // --- Forms ---
+    'forms.title': 'Contact forms',
+    'forms.description': 'On export, the forms of the website get validation, clear error messages, spam protection and a destination for the messages. The preview stays unchanged.',
+    'forms.none': 'The website contains no forms.',
+    'forms.detectedOnPage': '{name} ({file})',
+    'forms.fields': { one: 'One field: {fields}', other: '{count} fields: {fields}' },
+    'forms.delivery': 'Delivery',
+    'forms.backend': 'Send messages to',
+    'forms.backend.mailto': "The visitor's email program (mailto)",
+    'forms.backend.json': 'Custom endpoint (JSON POST)',
+    'forms.backend.netlify': 'Netlify Forms',
+    'forms.email': 'Recipient address',
+    'forms.emailHint': 'Opens the email program with the filled-in message on submit. Works without a server, but only if visitors have an email program set up.',
+    'forms.endpoint': 'Endpoint URL',
+    'forms.endpointHint': 'The fields are sent as a JSON object. The endpoint must accept requests from the domain of the website (CORS).',
+    'forms.extraFields': 'Additional fields',
+    'forms.extraFieldsHint': 'One line per field as <code>name=value</code>, e.g. the access key of a form service. The values are public in the HTML.',
+    'forms.netlifyHint': 'Netlify detects the forms on deployment and shows the submissions in its dashboard. The website has to be published on Netlify for this.',
+    'forms.behavior': 'Behavior',
+    'forms.honeypot': 'Spam protection (invisible honeypot field)',
+    'forms.successMessage': 'Message after sending',
+    'forms.errorMessage': 'Message on errors',
+    'forms.defaultSuccess': 'Thank you! Your message has been sent.',
+    'forms.defaultError': 'The message could not be sent. Please try again later.',
+    'forms.honeypotLabel': 'Leave this field empty',
+    'forms.missingEmail': "Enter a recipient address, otherwise the forms don't know where to send to.",
+    'forms.missingEndpoint': 'Enter an endpoint URL starting with http:// or https://.',
+
+    // --- Usage ---
+    'usage.settingsTitle': 'Usage & costs',
+    'usage.settingsDescription': 'Every model call is stored with the project, including model, duration, tokens and image count. Costs are estimates based on the price table.',
+    'usage.prices': 'Price table',
+    'usage.pricesHint': 'One line per model: name, US dollars per 1M input tokens, per 1M output tokens and per image, separated by spaces.',
+    'usage.budget': 'Budget per session (US dollars)',
+    'usage.noBudget': 'No limit',
+    'usage.budgetHint': 'You are asked before a run that is likely to exceed the budget. The session ends when the page is reloaded.',
+    'usage.sessionCost': 'This session: {cost}',
+    'usage.sessionCostOfBudget': 'This session: {cost} of {budget}',
+    'usage.budgetConfirm': '{spent} has already been spent in this session. This run is estimated at {estimate} and would exceed the budget of {budget}. Continue anyway?',
+    'usage.title': 'Model calls and costs',
+    'usage.empty': 'No model calls have been recorded for this project yet.',
+    'usage.projectTotal': 'Estimated cost of the project: {cost}.',
+    'usage.unpriced': 'Not included because of a missing price or token counts: {models}.',
+    'usage.runSummary': { one: 'One call · {input} input / {output} output tokens · {images} images · {seconds} s', other: '{count} calls · {input} input / {output} output tokens · {images} images · {seconds} s' },
+    'usage.kind.generation': 'Generation',
+    'usage.kind.refinement': 'Chat refinement',
+    'usage.kind.section': 'Section regenerated',
+    'usage.kind.images': 'Images',
+    'usage.kind.translation': 'Translation',
+    'usage.purpose': 'Purpose',
+    'usage.model': 'Model',
+    'usage.duration': 'Duration',
+    'usage.inputTokens': 'Input',
+    'usage.outputTokens': 'Output',
+    'usage.images': 'Images',
+    'usage.cost': 'Cost',
+    'usage.failed': 'failed',
+
+    // --- Projects ---
+    'projects.title': 'Projects',
+    'projects.new': 'New project',
+    'projects.empty': 'No projects yet. Generate a website to create your first project.',
+    'projects.open': 'Open',
+    'projects.duplicate': 'Duplicate',
+    'projects.renamePrompt': 'New project name:',
+    'projects.copyName': '{name} (copy)',
+    'projects.deleteConfirm': 'Really delete this project? This cannot be undone.',
+    'projects.actionFailed': 'The project action failed.',
+    'projects.legacyName': 'Saved website',
+    'projects.importFile': 'Import HTML or ZIP',
+    'projects.importFolder': 'Import folder',
+    'projects.importHint': 'Opens an existing website or an export of this app in the editor: an HTML file (ideally selected together with its CSS, JS and images), a folder or a ZIP.',
+    'projects.importRunning': 'Importing website...',
+    'projects.importFailed': 'The website could not be imported. The selection must contain at least one HTML page.',
+    'import.warning.languagesSkipped': 'Only the primary language was imported. Other languages can be translated again in the editor.',
+    'import.warning.pagesSkipped': 'These HTML files are in subfolders and were not taken over as pages: {files}',
+    'import.warning.missingFiles': 'These local files are missing from the selection: {files}',
+
+    // --- Versions ---
+    'versions.namePlaceholder': 'Version name, e.g. Draft for client meeting',
+    'versions.save': 'Save version',
+    'versions.saveFailed': 'The version could not be saved.',
+    'versions.defaultName': 'Version from {date}',
+    'versions.empty': 'No versions yet. Save the current state to compare or restore it later.',
+    'versions.current': 'Current state',
+    'versions.compare': 'Compare',
+    'versions.restore': 'Restore',
+    'versions.applyCss': 'Apply CSS only',
+    'versions.restoreConfirm': 'Restore version "{name}"? Pages and CSS can be brought back with "Undo", the images are replaced by those of the version.',
+    'versions.renamePrompt': 'New version name:',
+    'versions.deleteConfirm': 'Really delete version "{name}"?',
+    'versions.actionFailed': 'The action for this version failed.',
+    'versions.notFound': 'The selected version was not found.',
+    'versions.compareTitle': 'Compare versions',
+    'versions.first': 'First version',
+    'versions.second': 'Second version',
+    'versions.with': 'with',
+    'versions.firstPreview': 'Preview of the first version',
+    'versions.secondPreview': 'Preview of the second version',
+    'versions.pageMissing': '(page does not exist)',
+    'versions.diffStats': '+{added} / −{removed} lines',
+    'versions.noDifferences': 'No differences',
+    'versions.unchangedLines': { one: '1 unchanged line', other: '{count} unchanged lines' },
+
+    // --- Accessibility ---
+    'a11y.title': 'WCAG 2.1 AA check',
+    'a11y.rerun': 'Check again',
+    'a11y.running': 'Checking page...',
+    'a11y.failed': 'The check failed.',
+    'a11y.outdated': 'The code has changed since the check. The check is being updated, please try again.',
+    'a11y.noFindings': 'No problems found.',
+    'a11y.summary': '{errors} errors and {warnings} warnings.',
+    'a11y.onPage': '(page “{page}”)',
+    'a11y.error': 'Error',
+    'a11y.warning': 'Warning',
+    'a11y.location': '{editor}, line {line}',
+    'a11y.rule.imageAlt': 'Alternative text',
+    'a11y.rule.contrast': 'Contrast',
+    'a11y.rule.headingOrder': 'Headings',
+    'a11y.rule.lang': 'Language',
+    'a11y.rule.menuToggle': 'Menu toggle',
+    'a11y.setAttribute': 'Set {attribute}="{value}"',
+    'a11y.imageAlt.missing': 'Image “{id}” has no alternative text.',
+    'a11y.imageAlt.generic': 'Image “{id}” has a meaningless alternative text (“{alt}”).',
+    'a11y.imageAlt.fix': 'Use the description from the image prompt',
+    'a11y.heading.missingH1': 'The page has no main heading (<h1>).',
+    'a11y.heading.multipleH1': 'The page has {count} main headings (<h1>), exactly one is recommended.',
+    'a11y.heading.skipped': 'Heading {heading} skips from <{from}> to <{to}>.',
+    'a11y.heading.fix': 'Change to <{tag}>',
+    'a11y.lang.mismatch': 'The lang attribute (“{declared}”) does not match the selected language (“{lang}”).',
+    'a11y.lang.missing': 'The <html> element has no lang attribute (expected: “{lang}”).',
+    'a11y.menu.notButton': 'The menu toggle is a <{tag}> instead of a <button> and therefore cannot be used with the keyboard.',
+    'a11y.menu.noName': 'The menu toggle has no accessible name (text or aria-label).',
+    'a11y.menu.noExpanded': 'The menu toggle does not report its state with aria-expanded.',
+    'a11y.menu.addExpanded': 'Add aria-expanded',
+    'a11y.contrast.low': 'Contrast {ratio}:1 between {foreground} and {background} at {element}, at least {minimum}:1 required.',
+    'a11y.contrast.more': { one: '(and 1 more place)', other: '(and {count} more places)' },
+    'a11y.contrast.fix': 'Change text color to {color}',
+    'a11y.contrast.uncheckable': {
+        one: '1 text is placed on images or gradients; its contrast has to be checked by hand.',
+        other: '{count} texts are placed on images or gradients; their contrast has to be checked by hand.',
+    },
+
+    // --- Export ---
+    'export.title': 'Export website',
+    'export.target': 'Target',
+    'export.target.html': 'Static HTML',
+    'export.target.react': 'React project (Vite)',
+    'export.target.vue': 'Vue project (Vite)',
+    'export.target.astro': 'Astro project',
+    'export.output': 'Output',
+    'export.singleFile': 'A standalone HTML file with embedded CSS, JavaScript and images (for multiple pages, one file per page in a ZIP)',
+    'export.zip': 'ZIP archive with HTML files and images',
+    'export.separateFiles': 'Link CSS and JavaScript as <code>styles.css</code> and <code>script.js</code> (always for multiple pages)',
+    'export.minify': 'Minify HTML, CSS and JavaScript',
+    'export.csp': 'Add a Content-Security-Policy <code>&lt;meta&gt;</code> tag (allows exactly the sources the page uses)',
+    'export.project': 'Project',
+    'export.projectDescription': 'One component per section, images in <code>public/</code>, with <code>package.json</code>. The menu becomes component state.',
+    'export.cssComponent': 'CSS per component (CSS Modules for React, <code>scoped</code> for Vue)',
+    'export.cssGlobal': 'One global stylesheet',
+    'export.images': 'Images',
+    'export.widths': 'Widths for <code>srcset</code>',
+    'export.lazyLoading': '<code>loading="lazy"</code> for images below the fold',
+    'export.remembered': 'The settings are remembered for the next export.',
+    'export.submit': 'Export',
+    'export.running': 'Exporting website...',
+    'export.nothingToExport': 'Please generate a website first.',
+    'export.failed': 'Export failed.',
+    'export.warning.formatUnsupported': '{format} is not supported by this browser, the images were exported as WebP.',
+    'export.warning.noBaseUrl': 'Without a base URL (SEO tab) no sitemap.xml was created, and preview images for social networks only have relative paths.',
+    'export.warning.inlineHandler': 'Inline handler {name} on <{tag}> was removed.',
+    'export.warning.scriptBeyondMenu': 'The website script does more than toggle the menu. The original is in src/legacy/site-script.js and has to be moved into the components.',
+    'export.warning.scriptNotMenu': 'The website script was not recognized as a menu toggle. The original is in src/legacy/site-script.js and has to be moved into the components.',
+    'export.warning.translationsSkipped': 'Framework projects are only exported in the primary language. To get every language with a language switcher and hreflang links, export the website as static HTML.',
+    'export.warning.sanitized': { one: 'One unsafe element was left out of the export according to the security settings: {items}', other: '{count} unsafe elements were left out of the export according to the security settings: {items}' },
+    'export.warning.formsIncomplete': 'The forms are not fully set up yet (Forms tab) and cannot send messages.',
+
+    // --- README of exported projects ---
+    'readme.intro': '{framework} project created with the AI Website Generator.',
+    'readme.start': 'Getting started',
+    'readme.structure': 'Structure',
+    'readme.astroPages': '`src/pages/` – one file per page',
+    'readme.astroLayout': '`src/layouts/Layout.astro` – `<head>`, header, footer and the website script',
+    'readme.astroComponents': '`src/components/` – one component per section',
+    'readme.components': '`src/components/` – one component per section, header and footer',
+    'readme.pages': '`src/pages/` – one component per page, connected through the router',
+    'readme.globalCss': '`src/styles/global.css` – the complete stylesheet',
+    'readme.globalCssRemaining': '`src/styles/global.css` – rules that could not be assigned to a section',
+    'readme.images': '`public/images/` – the website images',
+    'readme.manualChecks': 'Check manually',
+};
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createMockProvider } from "./mockProvider";
+
+// --- PROVIDER INTERFACES ---
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface TextGenerationRequest {
+    /** Short label for what the call is used for, e.g. "website" or "image-prompt". */
+    purpose: string;
+    contents: string;
+    systemInstruction?: string;
+    /** Schema in the `@google/genai` Type format. When set, the provider must answer with JSON. */
+    responseSchema?: Record<string, any>;
+    temperature?: number;
+    /** Only honoured by providers that support a thinking budget (Gemini). */
+    thinkingBudget?: number;
+    /** Aborts the request, e.g. when the user cancels the generation. */
+    signal?: AbortSignal;
+    /** When set, the answer is streamed and this is called with the text received so far after every chunk. */
+    onPartialText?: (text: string) => void;
+}
+
+/** Token counts as reported by the API. */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    /** Tokens spent on thinking (Gemini); billed like output tokens. */
+    thinkingTokens: number;
+}
+
+export interface TextGenerationResult {
+    text: string;
+    /** Missing if the API doesn't report usage, e.g. some local OpenAI-compatible servers. */
+    usage?: TokenUsage;
+}
+
+export interface ImageGenerationRequest {
+    purpose: string;
+    prompt: string;
+    aspectRatio: AspectRatio;
+    numberOfImages?: number;
+    signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+    /** A data URL, so images work offline and can be exported as-is. */
+    url: string;
+    mimeType: string;
+}
+
+export interface TextProvider {
+    readonly id: ProviderId;
+    generateText(request: TextGenerationRequest): Promise<TextGenerationResult>;
+}
+
+export interface ImageProvider {
+    readonly id: ProviderId;
+    generateImages(request: ImageGenerationRequest): Promise<GeneratedImage[]>;
+}
+
+// --- SETTINGS ---
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+    textProvider: ProviderId;
+    imageProvider: ProviderId;
+    geminiTextModel: string;
+    geminiImageModel: string;
+    openAiBaseUrl: string;
+    openAiApiKey: string;
+    openAiTextModel: string;
+    openAiImageModel: string;
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    textProvider: 'gemini',
+    imageProvider: 'gemini',
+    geminiTextModel: 'gemini-2.5-flash',
+    geminiImageModel: 'imagen-4.0-generate-001',
+    openAiBaseUrl: 'http://localhost:11434/v1',
+    openAiApiKey: '',
+    openAiTextModel: 'llama3.1',
+    openAiImageModel: 'dall-e-3',
+};
+
+/** The string-valued settings, edited in the text fields with a matching `data-setting`. */
+export type ProviderTextSetting = Exclude<keyof ProviderSettings, 'textProvider' | 'imageProvider'>;
+
+const PROVIDER_TEXT_SETTINGS: ProviderTextSetting[] = [
+    'geminiTextModel',
+    'geminiImageModel',
+    'openAiBaseUrl',
+    'openAiApiKey',
+    'openAiTextModel',
+    'openAiImageModel',
+];
+
+export function isProviderTextSetting(key: string | undefined): key is ProviderTextSetting {
+    return PROVIDER_TEXT_SETTINGS.includes(key as ProviderTextSetting);
+}
+
+const PROVIDER_SETTINGS_KEY = 'ai-website-gen-provider';
+
+export function loadProviderSettings(): ProviderSettings {
+    try {
+        const saved = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+        if (saved) {
+            return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) };
+        }
+    } catch (e) {
+        console.warn("Could not read provider settings, using defaults.", e);
+    }
+    return { ...DEFAULT_PROVIDER_SETTINGS };
+}
+
+export function saveProviderSettings(settings: ProviderSettings) {
+    try {
+        localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn("Could not save provider settings.", e);
+    }
+}
+
+// --- FACTORIES ---
+
+export function createTextProvider(settings: ProviderSettings, apiKey?: string): TextProvider {
+    return createProvider(settings.textProvider, settings, apiKey);
+}
+
+export function createImageProvider(settings: ProviderSettings, apiKey?: string): ImageProvider {
+    return createProvider(settings.imageProvider, settings, apiKey);
+}
+
+/** Names of the models the settings use, for usage records and the price table. */
+export function providerModels(settings: ProviderSettings): { text: string; image: string } {
+    const modelName = (id: ProviderId, gemini: string, openAi: string) => id === 'openai' ? openAi : id === 'mock' ? 'mock' : gemini;
+    return {
+        text: modelName(settings.textProvider, settings.geminiTextModel, settings.openAiTextModel),
+        image: modelName(settings.imageProvider, settings.geminiImageModel, settings.openAiImageModel),
+    };
+}
+
+function createProvider(id: ProviderId, settings: ProviderSettings, apiKey?: string): TextProvider & ImageProvider {
+    switch (id) {
+        case 'openai':
+            return createOpenAiProvider({
+                baseUrl: settings.openAiBaseUrl,
+                apiKey: settings.openAiApiKey,
+                textModel: settings.openAiTextModel,
+                imageModel: settings.openAiImageModel,
+            });
+        case 'mock':
+            return createMockProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider({
+                apiKey,
+                textModel: settings.geminiTextModel,
+                imageModel: settings.geminiImageModel,
+            });
+    }
+}
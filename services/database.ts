@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const DB_NAME = 'ai-website-generator';
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    db.createObjectStore('projects', { keyPath: 'id' });
+                    const assets = db.createObjectStore('assets', { keyPath: ['projectId', 'assetId'] });
+                    assets.createIndex('projectId', 'projectId');
+                }
+                if (event.oldVersion < 2) {
+                    const snapshots = db.createObjectStore('snapshots', { keyPath: 'id' });
+                    snapshots.createIndex('projectId', 'projectId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+    return dbPromise;
+}
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+export async function dataUrlToBlob(url: string): Promise<Blob> {
+    const response = await fetch(url);
+    return response.blob();
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
@@ -0,0 +1,832 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { slugify } from "../utils/sitePages";
+import { extractScopedRules, removeScopedRules } from "../utils/cssRules";
+import { JsxOptions, JsxElementOverride, elementToJsx, wrapJsx } from "../utils/htmlToJsx";
+import { applySeoMetadata, buildSitemap, buildRobotsTxt, normalizeBaseUrl } from "../utils/seo";
+import { FORM_SCRIPT, stripFormAssets } from "../utils/contactForms";
+import { escapeHtml } from "../utils/security";
+import { t } from "../utils/i18n";
+import { ExportSite, ExportResult, getFileExtension } from "./siteExport";
+
+// Let TS know that JSZip will be available on the window.
+declare var JSZip: any;
+
+export type FrameworkTarget = 'react' | 'vue' | 'astro';
+
+/** 'global' keeps one stylesheet; 'component' moves each section's rules into its component. */
+export type FrameworkCssMode = 'global' | 'component';
+
+const FRAMEWORK_LABELS: Record<FrameworkTarget, string> = {
+    react: 'React + Vite',
+    vue: 'Vue + Vite',
+    astro: 'Astro',
+};
+
+const PACKAGE_VERSIONS = {
+    'react': '^18.3.1',
+    'react-dom': '^18.3.1',
+    'react-router-dom': '^6.26.2',
+    '@vitejs/plugin-react': '^4.3.1',
+    'vue': '^3.5.10',
+    'vue-router': '^4.4.5',
+    '@vitejs/plugin-vue': '^5.1.4',
+    'vite': '^5.4.8',
+    'astro': '^4.15.11',
+};
+
+interface SectionComponent {
+    name: string;
+    element: Element;
+    /** Rules scoped to this section when the CSS mode is 'component'. */
+    css: string;
+    /** Selector tokens the scoped rules start with, e.g. `#hero` or `header`. */
+    scopeTokens: string[];
+}
+
+interface PageComponent {
+    name: string;
+    slug: string;
+    route: string;
+    title: string;
+    main: Element | null;
+    sections: SectionComponent[];
+}
+
+/** The hamburger menu as found in the site script: a click target that toggles classes. */
+interface MenuToggle {
+    buttonSelector: string;
+    targets: { selector: string; className: string }[];
+    /** True if the script does nothing else, so it can be dropped once the menu is component state. */
+    coversWholeScript: boolean;
+}
+
+interface ProjectContext {
+    target: FrameworkTarget;
+    cssMode: FrameworkCssMode;
+    isMultiPage: boolean;
+    /** True if the pages contain forms wired for export, which need FORM_SCRIPT at runtime. */
+    hasForms: boolean;
+    warnings: Set<string>;
+}
+
+const MENU_TOGGLE_ATTRIBUTE = 'data-menu-toggle';
+const MENU_CLASS_ATTRIBUTE = 'data-menu-class';
+const ROUTE_ATTRIBUTE = 'data-route';
+
+function pascalCase(value: string): string {
+    const name = value
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(Boolean)
+        .map(part => part[0].toUpperCase() + part.slice(1))
+        .join('');
+    return /^[A-Z]/.test(name) ? name : `Section${name}`;
+}
+
+function toFileId(id: string): string {
+    return id.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+}
+
+function safeQuery(root: Element, selector: string): Element | null {
+    try {
+        return root.matches(selector) ? root : root.querySelector(selector);
+    } catch {
+        return null;
+    }
+}
+
+const SCRIPT_SUBJECT = String.raw`(?:document\.(querySelector|getElementById)\((['"])([^'"]+)\2\)|(\w+))`;
+
+/** Recognizes the usual generated hamburger script: `button.addEventListener('click', ...)` toggling classes. */
+function detectMenuToggle(js: string): MenuToggle | null {
+    const variables = new Map<string, string>();
+    for (const match of js.matchAll(/(?:const|let|var)\s+(\w+)\s*=\s*document\.(querySelector|getElementById)\((['"])([^'"]+)\3\)/g)) {
+        variables.set(match[1], match[2] === 'getElementById' ? `#${match[4]}` : match[4]);
+    }
+    const resolve = (method: string | undefined, selector: string | undefined, variable: string | undefined) => {
+        if (selector) return method === 'getElementById' ? `#${selector}` : selector;
+        return variable ? variables.get(variable) ?? null : null;
+    };
+
+    const click = new RegExp(`${SCRIPT_SUBJECT}\\.addEventListener\\(\\s*['"]click['"]`).exec(js);
+    const buttonSelector = click && resolve(click[1], click[3], click[4]);
+    if (!buttonSelector) return null;
+
+    const targets: MenuToggle['targets'] = [];
+    for (const match of js.matchAll(new RegExp(`${SCRIPT_SUBJECT}\\.classList\\.toggle\\(\\s*(['"])([\\w-]+)\\5`, 'g'))) {
+        const selector = match[4] === 'this' ? buttonSelector : resolve(match[1], match[3], match[4]);
+        if (selector) targets.push({ selector, className: match[6] });
+    }
+    if (targets.length === 0) return null;
+
+    const listenerCount = (js.match(/addEventListener\(/g) ?? []).length;
+    return { buttonSelector, targets, coversWholeScript: listenerCount === 1 };
+}
+
+/** Marks the menu button and the elements whose class it toggles, so the renderers can bind them to state. */
+function markMenuToggle(header: Element, toggle: MenuToggle): boolean {
+    const button = safeQuery(header, toggle.buttonSelector);
+    if (!button) return false;
+    const targets = toggle.targets
+        .map(target => ({ element: safeQuery(header, target.selector), className: target.className }))
+        .filter((target): target is { element: Element; className: string } => !!target.element);
+    if (targets.length === 0) return false;
+
+    button.setAttribute(MENU_TOGGLE_ATTRIBUTE, '');
+    button.removeAttribute('aria-expanded');
+    targets.forEach(target => target.element.setAttribute(MENU_CLASS_ATTRIBUTE, target.className));
+    return true;
+}
+
+function routeForSlug(slug: string): string {
+    return slug === 'index' ? '/' : `/${slug}`;
+}
+
+/** Rewrites links between pages (`about.html#team`) to routes (`/about#team`). */
+function rewritePageLinks(doc: Document, slugs: Set<string>) {
+    doc.querySelectorAll('a[href]').forEach(link => {
+        const match = link.getAttribute('href')!.match(/^(?:\.\/)?([\w-]+)\.html(#.*)?$/);
+        if (!match || !slugs.has(match[1])) return;
+        link.setAttribute('href', `${routeForSlug(match[1])}${match[2] ?? ''}`);
+        link.setAttribute(ROUTE_ATTRIBUTE, '');
+    });
+}
+
+function uniqueName(base: string, used: Set<string>, pageName: string): string {
+    let name = base;
+    if (used.has(name)) name = `${base}${pageName}`;
+    for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+    used.add(name);
+    return name;
+}
+
+function sectionComponentName(element: Element, index: number): string {
+    if (!element.id) return `${pascalCase(element.localName)}${index + 1}Section`;
+    const name = pascalCase(element.id);
+    return /Section$/.test(name) ? name : `${name}Section`;
+}
+
+/** Elements of a page that become components: the children of <main>, or of <body> without header and footer. */
+function findSections(doc: Document): { main: Element | null; sections: Element[] } {
+    const main = doc.body.querySelector(':scope > main');
+    const container = main ?? doc.body;
+    const sections = Array.from(container.children).filter(element =>
+        !['header', 'footer', 'script', 'style'].includes(element.localName)
+    );
+    return { main, sections };
+}
+
+function scopeTokensFor(element: Element): string[] {
+    const tokens = element.id ? [`#${element.id}`] : [];
+    if (element.localName === 'header' || element.localName === 'footer') tokens.push(element.localName);
+    return tokens;
+}
+
+/** Collects the class names a CSS module would hash, skipping strings, url() and :global() parts. */
+function moduleClassNames(css: string): Set<string> {
+    const stripped = css
+        .replace(/(["'])(?:\\.|(?!\1).)*\1/g, '')
+        .replace(/url\([^)]*\)/g, '')
+        .replace(/:global\([^)]*\)/g, '');
+    return new Set(Array.from(stripped.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g), match => match[1]));
+}
+
+/** Keeps ids global in a CSS module, so anchors like `#contact` keep working. */
+function toModuleCss(css: string, tokens: string[]): string {
+    return tokens
+        .filter(token => token.startsWith('#'))
+        .reduce((result, token) => result.replace(
+            new RegExp(`${token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w-])`, 'g'),
+            `:global(${token})`
+        ), css);
+}
+
+function indentLines(text: string, indent: string): string {
+    return text.split('\n').map(line => line.trim() ? `${indent}${line}` : line).join('\n');
+}
+
+/** Escapes braces in text so Vue and Astro don't read them as expressions. */
+function escapeTemplateBraces(html: string): string {
+    return html.replace(/>([^<]*)</g, (_, text: string) => `>${text.replace(/{/g, '&#123;').replace(/}/g, '&#125;')}<`);
+}
+
+/** The outer HTML of the element with `children` in place of its own content. */
+function wrapHtml(element: Element, children: string[], indent: string): string {
+    const shell = element.cloneNode(false) as Element;
+    const html = shell.outerHTML;
+    const close = `</${element.localName}>`;
+    return `${indent}${html.slice(0, html.length - close.length)}\n${children.join('\n')}\n${indent}${close}`;
+}
+
+// --- REACT ---
+
+function reactComponent(component: SectionComponent, context: ProjectContext): string {
+    const moduleClasses = context.cssMode === 'component' && component.css ? moduleClassNames(component.css) : new Set<string>();
+    const usesMenu = !!component.element.querySelector(`[${MENU_TOGGLE_ATTRIBUTE}]`) || component.element.hasAttribute(MENU_TOGGLE_ATTRIBUTE);
+    const usesLink = !!component.element.querySelector(`[${ROUTE_ATTRIBUTE}]`);
+
+    const options: JsxOptions = {
+        onDropped: message => context.warnings.add(message),
+        override: element => {
+            const override: JsxElementOverride = { omitAttributes: [MENU_TOGGLE_ATTRIBUTE, MENU_CLASS_ATTRIBUTE, ROUTE_ATTRIBUTE], props: [] };
+            if (element.hasAttribute(ROUTE_ATTRIBUTE) && context.isMultiPage) {
+                override.tag = 'Link';
+                override.omitAttributes!.push('href');
+                override.props!.push(`to="${element.getAttribute('href')}"`);
+            }
+            if (element.hasAttribute(MENU_TOGGLE_ATTRIBUTE)) {
+                override.props!.push('onClick={() => setMenuOpen(open => !open)}', 'aria-expanded={menuOpen}');
+            }
+
+            // className as a template literal when module classes or menu state are involved
+            const classes = Array.from(element.classList);
+            const menuClass = element.getAttribute(MENU_CLASS_ATTRIBUTE);
+            const dynamicParts = classes.filter(name => moduleClasses.has(name)).map(name => `\${styles['${name}']}`);
+            if (menuClass) {
+                const active = moduleClasses.has(menuClass) ? `\`${menuClass} \${styles['${menuClass}']}\`` : `'${menuClass}'`;
+                dynamicParts.push(`\${menuOpen ? ${active} : ''}`);
+            }
+            if (dynamicParts.length > 0) {
+                override.className = `{\`${[...classes, ...dynamicParts].join(' ')}\`}`;
+            }
+            return override;
+        },
+    };
+
+    const imports: string[] = [];
+    if (usesMenu) imports.push(`import { useState } from 'react';`);
+    if (usesLink && context.isMultiPage) imports.push(`import { Link } from 'react-router-dom';`);
+    if (context.cssMode === 'component' && component.css) imports.push(`import styles from './${component.name}.module.css';`);
+
+    const body = [
+        ...(usesMenu ? ['    const [menuOpen, setMenuOpen] = useState(false);', ''] : []),
+        '    return (',
+        elementToJsx(component.element, options, '        '),
+        '    );',
+    ];
+    return `${imports.length ? `${imports.join('\n')}\n\n` : ''}export default function ${component.name}() {\n${body.join('\n')}\n}\n`;
+}
+
+function reactSectionList(sections: SectionComponent[], indent: string): string[] {
+    return sections.map(section => `${indent}<${section.name} />`);
+}
+
+function reactPageBody(page: PageComponent, indent: string): string {
+    const children = reactSectionList(page.sections, `${indent}    `);
+    return page.main
+        ? wrapJsx(page.main, children, {}, indent)
+        : `${indent}<>\n${children.join('\n')}\n${indent}</>`;
+}
+
+function addReactFiles(zip: any, pages: PageComponent[], header: SectionComponent | null, footer: SectionComponent | null, context: ProjectContext) {
+    const src = zip.folder('src');
+    const components = src.folder('components');
+    [header, footer, ...pages.flatMap(page => page.sections)].forEach(component => {
+        if (!component || components.file(`${component.name}.jsx`)) return;
+        components.file(`${component.name}.jsx`, reactComponent(component, context));
+        if (context.cssMode === 'component' && component.css) {
+            components.file(`${component.name}.module.css`, `${toModuleCss(component.css, component.scopeTokens)}\n`);
+        }
+    });
+
+    const layoutImports = [header, footer].filter(Boolean).map(component => `import ${component!.name} from './components/${component!.name}';`);
+    const appBody: string[] = [];
+    if (header) appBody.push(`            <${header.name} />`);
+
+    let appImports: string[];
+    if (context.isMultiPage) {
+        pages.forEach(page => {
+            const sectionImports = page.sections.map(section => `import ${section.name} from '../components/${section.name}';`);
+            src.folder('pages').file(`${page.name}.jsx`, [
+                `import { useEffect } from 'react';`,
+                ...sectionImports,
+                '',
+                `export default function ${page.name}() {`,
+                `    useEffect(() => {`,
+                `        document.title = ${JSON.stringify(page.title)};`,
+                `    }, []);`,
+                '',
+                '    return (',
+                reactPageBody(page, '        '),
+                '    );',
+                '}',
+                '',
+            ].join('\n'));
+        });
+        appImports = [
+            `import { Routes, Route${context.hasForms ? ', useLocation' : ''} } from 'react-router-dom';`,
+            ...layoutImports,
+            ...pages.map(page => `import ${page.name} from './pages/${page.name}';`),
+        ];
+        appBody.push(
+            '            <Routes>',
+            ...pages.map(page => `                <Route path="${page.route}" element={<${page.name} />} />`),
+            '            </Routes>'
+        );
+    } else {
+        appImports = [...layoutImports, ...pages[0].sections.map(section => `import ${section.name} from './components/${section.name}';`)];
+        appBody.push(reactPageBody(pages[0], '            '));
+    }
+    if (footer) appBody.push(`            <${footer.name} />`);
+
+    const formSetup: string[] = [];
+    if (context.hasForms) {
+        src.file('forms.js', formsModule());
+        appImports = [`import { useEffect } from 'react';`, ...appImports, `import { setupForms } from './forms';`];
+        formSetup.push(
+            ...(context.isMultiPage
+                ? ['    const location = useLocation();', '', '    // Forms that are already set up are skipped, so this can run after every route change']
+                : []),
+            '    useEffect(() => {',
+            '        setupForms();',
+            `    }, [${context.isMultiPage ? 'location.pathname' : ''}]);`,
+            ''
+        );
+    }
+
+    src.file('App.jsx', [
+        ...appImports,
+        '',
+        'export default function App() {',
+        ...formSetup,
+        '    return (',
+        '        <>',
+        ...appBody,
+        '        </>',
+        '    );',
+        '}',
+        '',
+    ].join('\n'));
+
+    src.file('main.jsx', [
+        `import React from 'react';`,
+        `import ReactDOM from 'react-dom/client';`,
+        ...(context.isMultiPage ? [`import { BrowserRouter } from 'react-router-dom';`] : []),
+        `import App from './App';`,
+        `import './styles/global.css';`,
+        '',
+        `ReactDOM.createRoot(document.getElementById('root')).render(`,
+        '    <React.StrictMode>',
+        ...(context.isMultiPage ? ['        <BrowserRouter>', '            <App />', '        </BrowserRouter>'] : ['        <App />']),
+        '    </React.StrictMode>',
+        ');',
+        '',
+    ].join('\n'));
+
+    zip.file('vite.config.js', [
+        `import { defineConfig } from 'vite';`,
+        `import react from '@vitejs/plugin-react';`,
+        '',
+        'export default defineConfig({',
+        '    plugins: [react()],',
+        '});',
+        '',
+    ].join('\n'));
+}
+
+// --- VUE ---
+
+/** Serializes the element as a Vue template, binding the menu and router links. */
+function vueTemplate(element: Element, context: ProjectContext): string {
+    const clone = element.cloneNode(true) as Element;
+    const all = [clone, ...Array.from(clone.querySelectorAll('*'))];
+    all.forEach(node => {
+        if (node.hasAttribute(MENU_TOGGLE_ATTRIBUTE)) {
+            node.removeAttribute(MENU_TOGGLE_ATTRIBUTE);
+            node.setAttribute('v-on:click', 'menuOpen = !menuOpen');
+            node.setAttribute('v-bind:aria-expanded', 'menuOpen');
+        }
+        const menuClass = node.getAttribute(MENU_CLASS_ATTRIBUTE);
+        if (menuClass) {
+            node.removeAttribute(MENU_CLASS_ATTRIBUTE);
+            node.setAttribute('v-bind:class', `{ '${menuClass}': menuOpen }`);
+        }
+        Array.from(node.attributes).filter(attribute => attribute.name.startsWith('on')).forEach(attribute => {
+            context.warnings.add(t('export.warning.inlineHandler', { name: attribute.name, tag: node.localName }));
+            node.removeAttribute(attribute.name);
+        });
+    });
+    Array.from(clone.querySelectorAll(`[${ROUTE_ATTRIBUTE}]`)).forEach(link => {
+        link.removeAttribute(ROUTE_ATTRIBUTE);
+        if (!context.isMultiPage) return;
+        const routerLink = clone.ownerDocument.createElement('router-link');
+        Array.from(link.attributes).forEach(({ name, value }) => routerLink.setAttribute(name === 'href' ? 'to' : name, value));
+        routerLink.append(...Array.from(link.childNodes));
+        link.replaceWith(routerLink);
+    });
+    return escapeTemplateBraces(clone.outerHTML);
+}
+
+function vueComponent(component: SectionComponent, context: ProjectContext): string {
+    const usesMenu = !!component.element.querySelector(`[${MENU_TOGGLE_ATTRIBUTE}]`) || component.element.hasAttribute(MENU_TOGGLE_ATTRIBUTE);
+    const parts: string[] = [];
+    if (usesMenu) {
+        parts.push(`<script setup>\nimport { ref } from 'vue';\n\nconst menuOpen = ref(false);\n</script>\n`);
+    }
+    parts.push(`<template>\n${indentLines(vueTemplate(component.element, context), '  ')}\n</template>\n`);
+    if (context.cssMode === 'component' && component.css) {
+        parts.push(`<style scoped>\n${component.css}\n</style>\n`);
+    }
+    return parts.join('\n');
+}
+
+function vuePageTemplate(page: PageComponent, indent: string): string {
+    const children = page.sections.map(section => `${indent}  <${section.name} />`);
+    return page.main ? wrapHtml(page.main, children, indent) : children.map(line => line.slice(2)).join('\n');
+}
+
+function addVueFiles(zip: any, pages: PageComponent[], header: SectionComponent | null, footer: SectionComponent | null, context: ProjectContext) {
+    const src = zip.folder('src');
+    const components = src.folder('components');
+    [header, footer, ...pages.flatMap(page => page.sections)].forEach(component => {
+        if (!component || components.file(`${component.name}.vue`)) return;
+        components.file(`${component.name}.vue`, vueComponent(component, context));
+    });
+
+    const layoutImports = [header, footer].filter(Boolean).map(component => `import ${component!.name} from './components/${component!.name}.vue';`);
+    const template: string[] = [];
+    if (header) template.push(`  <${header.name} />`);
+
+    let appImports: string[];
+    if (context.isMultiPage) {
+        pages.forEach(page => {
+            src.folder('pages').file(`${page.name}.vue`, [
+                '<script setup>',
+                ...page.sections.map(section => `import ${section.name} from '../components/${section.name}.vue';`),
+                '</script>',
+                '',
+                '<template>',
+                vuePageTemplate(page, '  '),
+                '</template>',
+                '',
+            ].join('\n'));
+        });
+        src.file('router.js', [
+            ...(context.hasForms ? [`import { nextTick } from 'vue';`] : []),
+            `import { createRouter, createWebHistory } from 'vue-router';`,
+            ...(context.hasForms ? [`import { setupForms } from './forms';`] : []),
+            ...pages.map(page => `import ${page.name} from './pages/${page.name}.vue';`),
+            '',
+            'const routes = [',
+            ...pages.map(page => `    { path: '${page.route}', component: ${page.name}, meta: { title: ${JSON.stringify(page.title)} } },`),
+            '];',
+            '',
+            'const router = createRouter({',
+            '    history: createWebHistory(),',
+            '    routes,',
+            '});',
+            '',
+            'router.afterEach(to => {',
+            '    if (to.meta.title) document.title = to.meta.title;',
+            ...(context.hasForms ? ['    // The new page is rendered on the next tick; forms that are already set up are skipped', '    nextTick(setupForms);'] : []),
+            '});',
+            '',
+            'export default router;',
+            '',
+        ].join('\n'));
+        appImports = layoutImports;
+        template.push('  <router-view />');
+    } else {
+        appImports = [...layoutImports, ...pages[0].sections.map(section => `import ${section.name} from './components/${section.name}.vue';`)];
+        template.push(vuePageTemplate(pages[0], '  '));
+    }
+    if (footer) template.push(`  <${footer.name} />`);
+
+    if (context.hasForms) {
+        src.file('forms.js', formsModule());
+        appImports = [`import { onMounted } from 'vue';`, ...appImports, `import { setupForms } from './forms';`, '', 'onMounted(setupForms);'];
+    }
+    src.file('App.vue', ['<script setup>', ...appImports, '</script>', '', '<template>', ...template, '</template>', ''].join('\n'));
+
+    src.file('main.js', [
+        `import { createApp } from 'vue';`,
+        `import App from './App.vue';`,
+        ...(context.isMultiPage ? [`import router from './router';`] : []),
+        `import './styles/global.css';`,
+        '',
+        context.isMultiPage ? `createApp(App).use(router).mount('#app');` : `createApp(App).mount('#app');`,
+        '',
+    ].join('\n'));
+
+    zip.file('vite.config.js', [
+        `import { defineConfig } from 'vite';`,
+        `import vue from '@vitejs/plugin-vue';`,
+        '',
+        'export default defineConfig({',
+        '    plugins: [vue()],',
+        '});',
+        '',
+    ].join('\n'));
+}
+
+// --- ASTRO ---
+
+function astroComponent(component: SectionComponent, context: ProjectContext): string {
+    const clone = component.element.cloneNode(true) as Element;
+    [clone, ...Array.from(clone.querySelectorAll('*'))].forEach(node => {
+        [MENU_TOGGLE_ATTRIBUTE, MENU_CLASS_ATTRIBUTE, ROUTE_ATTRIBUTE].forEach(name => node.removeAttribute(name));
+    });
+    const parts = [`${escapeTemplateBraces(clone.outerHTML)}\n`];
+    if (context.cssMode === 'component' && component.css) {
+        parts.push(`<style>\n${component.css}\n</style>\n`);
+    }
+    return parts.join('\n');
+}
+
+function addAstroFiles(
+    zip: any,
+    pages: PageComponent[],
+    header: SectionComponent | null,
+    footer: SectionComponent | null,
+    context: ProjectContext,
+    head: { lang: string; headHtml: string[] },
+    js: string
+) {
+    const src = zip.folder('src');
+    const components = src.folder('components');
+    [header, footer, ...pages.flatMap(page => page.sections)].forEach(component => {
+        if (!component || components.file(`${component.name}.astro`)) return;
+        components.file(`${component.name}.astro`, astroComponent(component, context));
+    });
+
+    // Astro bundles <script> tags itself, so the site script stays plain DOM code in the layout
+    src.folder('layouts').file('Layout.astro', [
+        '---',
+        ...[header, footer].filter(Boolean).map(component => `import ${component!.name} from '../components/${component!.name}.astro';`),
+        `import '../styles/global.css';`,
+        '',
+        'interface Props {',
+        '    title: string;',
+        '}',
+        '',
+        'const { title } = Astro.props;',
+        '---',
+        '',
+        '<!doctype html>',
+        `<html lang="${head.lang}">`,
+        '  <head>',
+        '    <meta charset="UTF-8" />',
+        '    <meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+        '    <title>{title}</title>',
+        ...head.headHtml.map(line => `    ${line}`),
+        '  </head>',
+        '  <body>',
+        ...(header ? [`    <${header.name} />`] : []),
+        '    <slot />',
+        ...(footer ? [`    <${footer.name} />`] : []),
+        ...(js.trim() ? ['    <script>', indentLines(js.trim(), '      '), '    </script>'] : []),
+        '  </body>',
+        '</html>',
+        '',
+    ].join('\n'));
+
+    pages.forEach(page => {
+        const children = page.sections.map(section => `    <${section.name} />`);
+        src.folder('pages').file(`${page.slug}.astro`, [
+            '---',
+            `import Layout from '../layouts/Layout.astro';`,
+            ...page.sections.map(section => `import ${section.name} from '../components/${section.name}.astro';`),
+            '---',
+            '',
+            `<Layout title={${JSON.stringify(page.title)}}>`,
+            page.main ? wrapHtml(page.main, children, '  ') : children.map(line => line.slice(2)).join('\n'),
+            '</Layout>',
+            '',
+        ].join('\n'));
+    });
+
+    zip.file('astro.config.mjs', [`import { defineConfig } from 'astro/config';`, '', 'export default defineConfig({});', ''].join('\n'));
+}
+
+// --- PROJECT ---
+
+function packageJson(name: string, context: ProjectContext): string {
+    const pick = (names: (keyof typeof PACKAGE_VERSIONS)[]) =>
+        Object.fromEntries(names.map(packageName => [packageName, PACKAGE_VERSIONS[packageName]]));
+    const router = context.isMultiPage;
+
+    const manifest = context.target === 'astro'
+        ? {
+            scripts: { dev: 'astro dev', build: 'astro build', preview: 'astro preview' },
+            dependencies: pick(['astro']),
+        }
+        : {
+            scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+            dependencies: context.target === 'react'
+                ? pick(['react', 'react-dom', ...(router ? ['react-router-dom' as const] : [])])
+                : pick(['vue', ...(router ? ['vue-router' as const] : [])]),
+            devDependencies: pick([context.target === 'react' ? '@vitejs/plugin-react' : '@vitejs/plugin-vue', 'vite']),
+        };
+    return `${JSON.stringify({ name, private: true, version: '0.1.0', type: 'module', ...manifest }, null, 2)}\n`;
+}
+
+/** FORM_SCRIPT as a module; the root component calls it once the forms are rendered. */
+function formsModule(): string {
+    return `export function setupForms() {\n${indentLines(FORM_SCRIPT.trim(), '    ')}\n}\n`;
+}
+
+/**
+ * Netlify detects forms in the deployed HTML only, not in markup rendered by JavaScript.
+ * A hidden copy of every Netlify form with its field names lets it register them.
+ */
+function netlifyFormStubs(docs: Document[]): string[] {
+    const stubs = new Map<string, string>();
+    docs.forEach(doc => doc.querySelectorAll('form[data-netlify]').forEach(form => {
+        const name = form.getAttribute('name') ?? '';
+        if (stubs.has(name)) return;
+        const fields = [...new Set(Array.from(form.querySelectorAll('[name]'), field => field.getAttribute('name')!))]
+            .filter(field => field !== 'form-name');
+        const honeypot = form.getAttribute('netlify-honeypot');
+        stubs.set(name, `<form name="${escapeHtml(name)}" data-netlify="true"${honeypot ? ` netlify-honeypot="${escapeHtml(honeypot)}"` : ''} hidden>`
+            + fields.map(field => `<input name="${escapeHtml(field)}" />`).join('')
+            + '</form>');
+    }));
+    return [...stubs.values()];
+}
+
+function viteIndexHtml(context: ProjectContext, head: { lang: string; title: string; headHtml: string[] }, bodyHtml: string[]): string {
+    const entry = context.target === 'react' ? '/src/main.jsx' : '/src/main.js';
+    const rootId = context.target === 'react' ? 'root' : 'app';
+    return [
+        '<!doctype html>',
+        `<html lang="${head.lang}">`,
+        '  <head>',
+        '    <meta charset="UTF-8" />',
+        '    <meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+        `    <title>${head.title.replace(/</g, '&lt;')}</title>`,
+        ...head.headHtml.map(line => `    ${line}`),
+        '  </head>',
+        '  <body>',
+        `    <div id="${rootId}"></div>`,
+        ...bodyHtml.map(line => `    ${line}`),
+        `    <script type="module" src="${entry}"></script>`,
+        '  </body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
+
+function readme(name: string, context: ProjectContext, warnings: string[]): string {
+    const structure = context.target === 'astro'
+        ? [t('readme.astroPages'), t('readme.astroLayout'), t('readme.astroComponents')]
+        : [t('readme.components'), ...(context.isMultiPage ? [t('readme.pages')] : [])];
+    return [
+        `# ${name}`,
+        '',
+        t('readme.intro', { framework: FRAMEWORK_LABELS[context.target] }),
+        '',
+        `## ${t('readme.start')}`,
+        '',
+        '```bash',
+        'npm install',
+        'npm run dev',
+        '```',
+        '',
+        `## ${t('readme.structure')}`,
+        '',
+        ...structure.map(line => `- ${line}`),
+        `- ${t(context.cssMode === 'component' ? 'readme.globalCssRemaining' : 'readme.globalCss')}`,
+        `- ${t('readme.images')}`,
+        ...(warnings.length ? ['', `## ${t('readme.manualChecks')}`, '', ...warnings.map(warning => `- ${warning}`)] : []),
+        '',
+    ].join('\n');
+}
+
+/** Turns the generated site into a scaffolded React, Vue or Astro project, zipped. */
+export async function exportFrameworkProject(
+    site: ExportSite,
+    target: FrameworkTarget,
+    cssMode: FrameworkCssMode,
+    projectName: string
+): Promise<ExportResult> {
+    const zip = new JSZip();
+    const context: ProjectContext = { target, cssMode, isMultiPage: site.pages.length > 1, hasForms: false, warnings: new Set() };
+    const publicFolder = zip.folder('public');
+    // Routing per language differs too much between the frameworks; the project is scaffolded in the primary language
+    if (site.translations.length > 0) context.warnings.add(t('export.warning.translationsSkipped'));
+
+    const imagePaths = new Map<string, string>();
+    for (const image of site.images) {
+        const blob = await (await fetch(image.url)).blob();
+        const filename = `${toFileId(image.id)}.${getFileExtension(blob.type)}`;
+        publicFolder.folder('images').file(filename, blob);
+        imagePaths.set(image.id, `/images/${filename}`);
+    }
+    let faviconLink = '';
+    if (site.favicon) {
+        const blob = await (await fetch(site.favicon.url)).blob();
+        const filename = `favicon.${getFileExtension(blob.type)}`;
+        publicFolder.file(filename, blob);
+        faviconLink = `<link rel="icon" type="${blob.type}" href="/${filename}" />`;
+    }
+
+    const seo = site.seo;
+    const shareImagePath = seo?.shareImageId ? imagePaths.get(seo.shareImageId) : undefined;
+    const shareImageUrl = shareImagePath ? `${normalizeBaseUrl(seo!.baseUrl)}${shareImagePath}` : null;
+
+    const parser = new DOMParser();
+    const slugs = new Set(site.pages.map(page => page.slug));
+    const docs = site.pages.map(page => {
+        const doc = parser.parseFromString(page.html, 'text/html');
+        if (seo) applySeoMetadata(doc, seo, page, shareImageUrl);
+        imagePaths.forEach((path, id) => doc.getElementById(id)?.setAttribute('src', path));
+        rewritePageLinks(doc, slugs);
+        doc.body.querySelectorAll('script').forEach(script => script.remove());
+        return doc;
+    });
+
+    // Head content shared by all pages: meta tags, fonts and other external stylesheets.
+    // Page-specific URLs would be wrong on every other route, so they are left out.
+    const firstDoc = docs[0];
+    const headHtml = Array.from(firstDoc.head.children)
+        .filter(element => {
+            if (['title', 'style'].includes(element.localName)) return false;
+            if (element.localName === 'script' && element.getAttribute('type') !== 'application/ld+json') return false;
+            if (element.matches('meta[charset], meta[name="viewport"], link[rel*="icon"], link[rel="canonical"], meta[property="og:url"]')) return false;
+            return true;
+        })
+        .map(element => element.outerHTML);
+    if (faviconLink) headHtml.push(faviconLink);
+    const head = {
+        lang: firstDoc.documentElement.lang || 'en',
+        title: firstDoc.title,
+        headHtml,
+    };
+
+    // React and Vue get the form script as a module the App calls, so it isn't part of the site script
+    context.hasForms = target !== 'astro' && docs.some(doc => doc.querySelector('form[data-form-backend]'));
+    const js = target === 'astro' ? site.js : stripFormAssets(site.js);
+
+    // The hamburger menu becomes component state (React/Vue); Astro keeps the script as it is
+    const headerElement = firstDoc.body.querySelector(':scope > header');
+    const footerElement = firstDoc.body.querySelector(':scope > footer');
+    const menuToggle = detectMenuToggle(js);
+    const menuBound = target !== 'astro' && !!menuToggle && !!headerElement && markMenuToggle(headerElement, menuToggle);
+    if (target !== 'astro' && js.trim() && !(menuBound && menuToggle!.coversWholeScript)) {
+        zip.folder('src').folder('legacy').file('site-script.js', js);
+        context.warnings.add(t(menuBound ? 'export.warning.scriptBeyondMenu' : 'export.warning.scriptNotMenu'));
+    }
+
+    const usedNames = new Set(['App', 'Layout', 'SiteHeader', 'SiteFooter']);
+    let remainingCss = site.css;
+    const scopedCssCache = new Map<string, string>();
+    const createComponent = (element: Element, name: string): SectionComponent => {
+        const scopeTokens = scopeTokensFor(element);
+        let css = '';
+        if (cssMode === 'component' && scopeTokens.length > 0) {
+            // Pages may reuse an id like "hero"; those components share the same rules
+            const key = scopeTokens.join(' ');
+            if (!scopedCssCache.has(key)) {
+                scopedCssCache.set(key, extractScopedRules(remainingCss, scopeTokens));
+                remainingCss = removeScopedRules(remainingCss, scopeTokens);
+            }
+            css = scopedCssCache.get(key)!;
+        }
+        return { name, element, css, scopeTokens };
+    };
+
+    const header = headerElement ? createComponent(headerElement, 'SiteHeader') : null;
+    const footer = footerElement ? createComponent(footerElement, 'SiteFooter') : null;
+    const pages: PageComponent[] = site.pages.map((page, i) => {
+        const pageName = page.slug === 'index' ? 'Home' : pascalCase(page.slug);
+        const { main, sections } = findSections(docs[i]);
+        return {
+            name: uniqueName(`${pageName}Page`, usedNames, ''),
+            slug: page.slug,
+            route: routeForSlug(page.slug),
+            title: docs[i].title || page.title,
+            main,
+            sections: sections.map((element, index) =>
+                createComponent(element, uniqueName(sectionComponentName(element, index), usedNames, pageName))
+            ),
+        };
+    });
+
+    zip.folder('src').folder('styles').file('global.css', `${remainingCss.trim()}\n`);
+    if (target === 'react') {
+        addReactFiles(zip, pages, header, footer, context);
+    } else if (target === 'vue') {
+        addVueFiles(zip, pages, header, footer, context);
+    } else {
+        addAstroFiles(zip, pages, header, footer, context, head, site.js);
+    }
+    if (target !== 'astro') zip.file('index.html', viteIndexHtml(context, head, netlifyFormStubs(docs)));
+
+    const name = slugify(projectName);
+    const warnings = [...context.warnings];
+    zip.file('package.json', packageJson(name, context));
+    zip.file('README.md', readme(projectName, context, warnings));
+    zip.file('.gitignore', 'node_modules\ndist\n.astro\n');
+    if (seo) {
+        publicFolder.file('robots.txt', buildRobotsTxt(seo.baseUrl));
+        if (seo.baseUrl.trim()) publicFolder.file('sitemap.xml', buildSitemap(seo.baseUrl, site.pages, new Date(), ''));
+    }
+
+    return {
+        blob: await zip.generateAsync({ type: "blob" }),
+        filename: `${name}-${target}.zip`,
+        warnings,
+    };
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI, GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { TextProvider, ImageProvider, TokenUsage } from "./aiProvider";
+
+export interface GeminiProviderOptions {
+    apiKey?: string;
+    textModel: string;
+    imageModel: string;
+}
+
+function toTokenUsage(metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined {
+    if (!metadata) return undefined;
+    return {
+        inputTokens: metadata.promptTokenCount ?? 0,
+        outputTokens: metadata.candidatesTokenCount ?? 0,
+        thinkingTokens: metadata.thoughtsTokenCount ?? 0,
+    };
+}
+
+export function createGeminiProvider(options: GeminiProviderOptions): TextProvider & ImageProvider {
+    const ai = new GoogleGenAI({ apiKey: options.apiKey });
+
+    return {
+        id: 'gemini',
+
+        async generateText(request) {
+            const params = {
+                model: options.textModel,
+                contents: request.contents,
+                config: {
+                    systemInstruction: request.systemInstruction,
+                    responseMimeType: request.responseSchema ? "application/json" : undefined,
+                    responseSchema: request.responseSchema,
+                    temperature: request.temperature,
+                    thinkingConfig: request.thinkingBudget !== undefined
+                        ? { thinkingBudget: request.thinkingBudget }
+                        : undefined,
+                    abortSignal: request.signal,
+                },
+            };
+            if (!request.onPartialText) {
+                const response = await ai.models.generateContent(params);
+                return { text: response.text ?? '', usage: toTokenUsage(response.usageMetadata) };
+            }
+
+            let text = '';
+            let usage: TokenUsage | undefined;
+            for await (const chunk of await ai.models.generateContentStream(params)) {
+                text += chunk.text ?? '';
+                // Every chunk carries the totals so far; the last one has the final counts
+                usage = toTokenUsage(chunk.usageMetadata) ?? usage;
+                request.onPartialText(text);
+            }
+            return { text, usage };
+        },
+
+        async generateImages(request) {
+            const response = await ai.models.generateImages({
+                model: options.imageModel,
+                prompt: request.prompt,
+                config: {
+                    numberOfImages: request.numberOfImages ?? 1,
+                    outputMimeType: 'image/jpeg',
+                    aspectRatio: request.aspectRatio,
+                    abortSignal: request.signal,
+                },
+            });
+            const images = (response.generatedImages ?? [])
+                .filter(generated => generated.image?.imageBytes)
+                .map(generated => ({
+                    url: `data:image/jpeg;base64,${generated.image!.imageBytes}`,
+                    mimeType: 'image/jpeg',
+                }));
+            if (images.length === 0) {
+                throw new Error("Imagen returned no images (possibly blocked by safety filters).");
+            }
+            return images;
+        },
+    };
+}
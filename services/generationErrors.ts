@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { MessageKey, t } from "../utils/i18n";
+
+export type GenerationErrorCode =
+    | 'auth'
+    | 'rate-limit'
+    | 'unavailable'
+    | 'network'
+    | 'blocked'
+    | 'invalid-response'
+    | 'aborted'
+    | 'unknown';
+
+const ERROR_MESSAGES: Record<GenerationErrorCode, MessageKey> = {
+    'auth': 'error.auth',
+    'rate-limit': 'error.rateLimit',
+    'unavailable': 'error.unavailable',
+    'network': 'error.network',
+    'blocked': 'error.blocked',
+    'invalid-response': 'error.invalidResponse',
+    'aborted': 'error.aborted',
+    'unknown': 'error.unknown',
+};
+
+// Temporary failures that are worth another attempt after a pause
+const RETRYABLE_CODES = new Set<GenerationErrorCode>(['rate-limit', 'unavailable', 'network']);
+
+/** A failed model or image call, classified so the UI can explain it and decide whether to retry. */
+export class GenerationError extends Error {
+    readonly code: GenerationErrorCode;
+    /** Technical details, e.g. the provider's error text or the validation problems. */
+    readonly details: string;
+
+    constructor(code: GenerationErrorCode, details = '', options?: { cause?: unknown }) {
+        super(t(ERROR_MESSAGES[code]), options);
+        this.name = 'GenerationError';
+        this.code = code;
+        this.details = details;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_CODES.has(this.code);
+    }
+}
+
+/** Classifies any thrown value by the status codes and wording providers use in their error messages. */
+export function toGenerationError(error: unknown): GenerationError {
+    if (error instanceof GenerationError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    const lower = message.toLowerCase();
+    const code: GenerationErrorCode =
+        error instanceof DOMException && error.name === 'AbortError' ? 'aborted'
+        : /\b(401|403)\b/.test(message) || lower.includes('api key') ? 'auth'
+        : /\b429\b/.test(message) || lower.includes('quota') || lower.includes('resource exhausted') ? 'rate-limit'
+        : /\b(500|502|503|504)\b/.test(message) || lower.includes('overloaded') || lower.includes('unavailable') ? 'unavailable'
+        : lower.includes('safety') || lower.includes('blocked') || lower.includes('harmful') ? 'blocked'
+        : error instanceof SyntaxError || lower.includes('json') ? 'invalid-response'
+        // "Failed to fetch" in browsers, "fetch failed" in Node (CLI)
+        : lower.includes('failed to fetch') || lower.includes('fetch failed') || lower.includes('network') ? 'network'
+        : 'unknown';
+    return new GenerationError(code, message, { cause: error });
+}
+
+export interface RetryOptions {
+    /** Attempts after the first one. */
+    retries?: number;
+    baseDelayMs?: number;
+    signal?: AbortSignal;
+    /** Called before waiting for the next attempt, e.g. to tell the user. */
+    onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const timeout = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timeout);
+            reject(signal.reason);
+        }, { once: true });
+    });
+}
+
+/**
+ * Runs a call and repeats it with exponential backoff (1 s, 2 s, 4 s, ... plus jitter) while it fails
+ * with a temporary error. Other errors, and the last failure, are thrown as GenerationError.
+ */
+export async function withRetry<T>(call: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { retries = 3, baseDelayMs = 1000, signal, onRetry } = options;
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await call();
+        } catch (error) {
+            const generationError = toGenerationError(signal?.aborted ? signal.reason : error);
+            if (!generationError.retryable || attempt >= retries) throw generationError;
+            const delayMs = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs / 2;
+            onRetry?.(generationError, attempt + 1, delayMs);
+            await delay(delayMs, signal);
+        }
+    }
+}
@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { TextProvider, ImageProvider, TextGenerationRequest } from "./aiProvider";
+import { createPlaceholderImage } from "../utils/placeholderImage";
+
+/**
+ * Offline provider for UI development and demos. Responses are deterministic:
+ * the same request always produces the same JSON and the same placeholder images.
+ */
+export function createMockProvider(latencyMs = 400): TextProvider & ImageProvider {
+    const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const timeout = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timeout);
+            reject(signal.reason);
+        }, { once: true });
+    });
+
+    /** Hands out the answer in a few chunks, like a streaming API. */
+    async function stream(text: string, onPartialText: (text: string) => void, signal?: AbortSignal) {
+        const chunkCount = 20;
+        const chunkSize = Math.ceil(text.length / chunkCount);
+        for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+            await wait(latencyMs / chunkCount, signal);
+            onPartialText(text.slice(0, end));
+        }
+    }
+
+    return {
+        id: 'mock',
+
+        async generateText(request) {
+            await wait(latencyMs, request.signal);
+            const responder = cannedResponses[request.purpose];
+            let text: string;
+            if (responder) {
+                text = responder(request);
+            } else if (request.responseSchema) {
+                text = JSON.stringify(sampleFromSchema(request.responseSchema, request.purpose));
+            } else {
+                text = `Mock response for "${request.purpose}".`;
+            }
+            if (request.onPartialText) {
+                await stream(text, request.onPartialText, request.signal);
+            }
+            // Roughly four characters per token, so the usage view has numbers to show
+            const usage = {
+                inputTokens: Math.ceil(((request.systemInstruction ?? '').length + request.contents.length) / 4),
+                outputTokens: Math.ceil(text.length / 4),
+                thinkingTokens: 0,
+            };
+            return { text, usage };
+        },
+
+        async generateImages(request) {
+            await wait(latencyMs, request.signal);
+            const count = request.numberOfImages ?? 1;
+            return Array.from({ length: count }, (_, i) => ({
+                url: createPlaceholderImage(request.prompt, request.aspectRatio, count > 1 ? `mock ${i + 1}/${count}` : 'mock'),
+                mimeType: 'image/svg+xml',
+            }));
+        },
+    };
+}
+
+const cannedResponses: Record<string, (request: TextGenerationRequest) => string> = {
+    'website': request => JSON.stringify(buildMockWebsite(request.contents)),
+    'website-multipage': request => JSON.stringify(buildMockMultiPageWebsite(request.contents)),
+    'refine': request => {
+        const instruction = [...request.contents.matchAll(/^User: (.*)$/gm)].pop()?.[1] ?? 'change';
+        return JSON.stringify({
+            reply: `Mock edit applied for: "${instruction}".`,
+            edits: [{
+                target: 'html',
+                search: '<main>',
+                replace: `<main>\n        <section class="mock-note"><p>Mock change: ${instruction.replace(/</g, '&lt;')}</p></section>`,
+            }],
+            newImages: [],
+        });
+    },
+    'section': request => {
+        const scope = request.contents.match(/scope selector: `([^`]+)`/)?.[1] ?? 'section';
+        const sectionHtml = request.contents.match(/```html\n([\s\S]*?)\n```/)?.[1] ?? '<section></section>';
+        const closingTag = sectionHtml.lastIndexOf('</');
+        return JSON.stringify({
+            sectionHtml: `${sectionHtml.slice(0, closingTag)}    <p class="mock-note">Regenerated by the mock provider.</p>\n${sectionHtml.slice(closingTag)}`,
+            css: `${scope} { outline: 2px dashed #8b5cf6; outline-offset: -8px; }\n${scope} .mock-note { font-style: italic; }`,
+            newImages: [],
+        });
+    },
+    'translation': request => {
+        const target = request.contents.match(/^Target language: (.*)$/m)?.[1] ?? 'English';
+        const texts: string[] = JSON.parse(request.contents.match(/^Texts:\n([\s\S]*?)\n\n/m)?.[1] ?? '[]');
+        return JSON.stringify({ translations: texts.map(text => `[${target.slice(0, 2).toUpperCase()}] ${text}`) });
+    },
+    'image-prompt': request => {
+        const original = request.contents.match(/"([^"]*)"/)?.[1] ?? request.contents;
+        return `${original}, soft natural lighting, shallow depth of field, highly detailed`;
+    },
+};
+
+/** Produces a value that satisfies a `@google/genai` style schema. */
+export function sampleFromSchema(schema: Record<string, any>, name = 'value'): any {
+    switch (String(schema.type).toUpperCase()) {
+        case 'OBJECT':
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([key, prop]) => [key, sampleFromSchema(prop as Record<string, any>, key)])
+            );
+        case 'ARRAY':
+            return [sampleFromSchema(schema.items ?? { type: 'STRING' }, name)];
+        case 'NUMBER':
+        case 'INTEGER':
+            return 0;
+        case 'BOOLEAN':
+            return false;
+        default:
+            return schema.enum?.[0] ?? `Mock ${name}`;
+    }
+}
+
+const MOCK_CSS = `
+        :root {
+            --color-primary: #6d28d9;
+            --color-secondary: #111827;
+            --color-accent: #f59e0b;
+            --color-background: #ffffff;
+            --color-surface: #f3f4f6;
+            --color-text: #1f2937;
+            --color-text-muted: #9ca3af;
+            --color-border: #d1d5db;
+            --font-heading: system-ui, sans-serif;
+            --font-body: system-ui, sans-serif;
+        }
+        * { box-sizing: border-box; margin: 0; padding: 0; }
+        body { font-family: var(--font-body); background: var(--color-background); color: var(--color-text); line-height: 1.6; }
+        h1, h2, h3 { font-family: var(--font-heading); }
+        header { display: flex; justify-content: space-between; align-items: center; padding: 1rem 2rem; background: var(--color-secondary); color: #fff; }
+        header nav ul { display: flex; gap: 1.5rem; list-style: none; }
+        header nav a { color: #fff; text-decoration: none; }
+        header nav a:hover { color: var(--color-accent); }
+        .menu-toggle { display: none; background: none; border: 0; color: #fff; font-size: 1.5rem; cursor: pointer; }
+        #hero { display: grid; grid-template-columns: 1fr 1fr; gap: 2rem; align-items: center; padding: 4rem 2rem; }
+        #hero img { width: 100%; border-radius: 12px; }
+        #features { padding: 4rem 2rem; background: var(--color-surface); }
+        .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(240px, 1fr)); gap: 1.5rem; }
+        .card { background: var(--color-background); border-radius: 12px; padding: 1rem; }
+        .card img { width: 100%; border-radius: 8px; }
+        #contact { padding: 4rem 2rem; }
+        #contact form { display: grid; gap: 1rem; max-width: 480px; }
+        #contact input, #contact textarea { padding: 0.75rem; border: 1px solid var(--color-border); border-radius: 8px; }
+        #contact button { padding: 0.75rem; background: var(--color-primary); color: #fff; border: 0; border-radius: 8px; }
+        footer { padding: 2rem; text-align: center; background: var(--color-secondary); color: var(--color-text-muted); }
+        @media (max-width: 768px) {
+            .menu-toggle { display: block; }
+            header nav ul { display: none; flex-direction: column; position: absolute; top: 4rem; right: 2rem; background: var(--color-secondary); padding: 1rem; }
+            header nav ul.active { display: flex; }
+            #hero { grid-template-columns: 1fr; }
+        }
+`;
+
+function mockHeader(links: { href: string; label: string }[]): string {
+    return `<header>
+        <strong>Mock Studio</strong>
+        <nav>
+            <button class="menu-toggle" aria-label="Menu">&#9776;</button>
+            <ul class="nav-links">
+${links.map(link => `                <li><a href="${link.href}">${link.label}</a></li>`).join('\n')}
+            </ul>
+        </nav>
+    </header>`;
+}
+
+const MOCK_FOOTER = `<footer>
+        <p>&copy; 2025 Mock Studio. All rights reserved.</p>
+    </footer>
+    <script>
+        document.querySelector('.menu-toggle').addEventListener('click', function () {
+            document.querySelector('.nav-links').classList.toggle('active');
+        });
+    </script>`;
+
+const MOCK_META = {
+    pageTitle: 'Mock Studio - Offline Demo',
+    metaDescription: 'A deterministic demo website generated without any AI backend, used for developing and presenting the generator UI.',
+    metaKeywords: 'mock, demo, offline, website, generator',
+    faviconPrompt: 'Minimalist violet square logo',
+    structuredData: JSON.stringify({
+        '@context': 'https://schema.org',
+        '@type': 'Organization',
+        name: 'Mock Studio',
+        description: 'A deterministic demo website generated without any AI backend.',
+    }),
+};
+
+function parseImageCount(prompt: string): number {
+    return Math.max(1, Math.min(10, Number(prompt.match(/exactly (\d+)/)?.[1] ?? 3)));
+}
+
+function mockImageIds(count: number): string[] {
+    return Array.from({ length: count }, (_, i) => i === 0 ? 'hero-image' : `feature-image-${i}`);
+}
+
+function mockImagePrompts(imageIds: string[]) {
+    return imageIds.map((id, i) => ({
+        id,
+        prompt: i === 0 ? 'Bright modern studio workspace' : `Abstract illustration for feature ${i}`,
+    }));
+}
+
+function mockHeroSection(imageId: string): string {
+    return `<section id="hero">
+            <div>
+                <h1>Offline demo website</h1>
+                <p>This page was produced by the mock provider, so no API key or network is required.</p>
+            </div>
+            <img id="${imageId}" alt="Hero illustration">
+        </section>`;
+}
+
+function mockFeatureSection(imageIds: string[]): string {
+    const features = imageIds.map((id, i) => `
+                <article class="card">
+                    <img id="${id}" alt="Illustration for feature ${i + 1}">
+                    <h3>Feature ${i + 1}</h3>
+                    <p>A short description of what makes this feature worth a closer look.</p>
+                </article>`).join('');
+    return `<section id="features">
+            <h2>Features</h2>
+            <div class="grid">${features}
+            </div>
+        </section>`;
+}
+
+const MOCK_CONTACT_SECTION = `<section id="contact">
+            <h2>Contact</h2>
+            <form>
+                <input type="text" name="name" placeholder="Name">
+                <input type="email" name="email" placeholder="Email">
+                <textarea name="message" rows="4" placeholder="Message"></textarea>
+                <button type="submit">Send</button>
+            </form>
+        </section>`;
+
+function buildMockWebsite(prompt: string) {
+    const imageIds = mockImageIds(parseImageCount(prompt));
+
+    const htmlContent = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Mock Studio</title>
+    <style>${MOCK_CSS}    </style>
+</head>
+<body>
+    ${mockHeader([
+        { href: '#hero', label: 'Home' },
+        { href: '#features', label: 'Features' },
+        { href: '#contact', label: 'Contact' },
+    ])}
+    <main>
+        ${mockHeroSection(imageIds[0])}
+        ${mockFeatureSection(imageIds.slice(1))}
+        ${MOCK_CONTACT_SECTION}
+    </main>
+    ${MOCK_FOOTER}
+</body>
+</html>`;
+
+    return {
+        ...MOCK_META,
+        htmlContent,
+        imagePrompts: mockImagePrompts(imageIds),
+    };
+}
+
+/** Reads the "(slug: title)" page list from the prompt built in index.tsx. */
+function buildMockMultiPageWebsite(prompt: string) {
+    const pageList = prompt.match(/\(slug: title\): ([^\n]+?)\.\n/)?.[1] ?? 'index: Home; contact: Contact';
+    const pages = pageList.split(';').map(entry => {
+        const [slug, ...title] = entry.split(':');
+        return { slug: slug.trim(), title: title.join(':').trim() };
+    });
+    const imageIds = mockImageIds(parseImageCount(prompt));
+
+    return {
+        ...MOCK_META,
+        sharedCss: MOCK_CSS,
+        headerHtml: mockHeader(pages.map(page => ({ href: `${page.slug}.html`, label: page.title }))),
+        footerHtml: MOCK_FOOTER,
+        pages: pages.map((page, i) => ({
+            ...page,
+            mainHtml: i === 0
+                ? `${mockHeroSection(imageIds[0])}\n${mockFeatureSection(imageIds.slice(1))}`
+                : i === pages.length - 1
+                    ? MOCK_CONTACT_SECTION
+                    : `<section id="${page.slug}-intro">\n            <h1>${page.title}</h1>\n            <p>Placeholder content for the ${page.title} page.</p>\n        </section>`,
+        })),
+        imagePrompts: mockImagePrompts(imageIds),
+    };
+}
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { TextProvider, ImageProvider, AspectRatio, TokenUsage } from "./aiProvider";
+
+export interface OpenAiProviderOptions {
+    /** Base URL of an OpenAI-compatible API, e.g. `http://localhost:11434/v1` for Ollama. */
+    baseUrl: string;
+    apiKey?: string;
+    textModel: string;
+    imageModel: string;
+}
+
+// DALL-E style endpoints only accept a few fixed sizes.
+const IMAGE_SIZES: Record<AspectRatio, string> = {
+    '1:1': '1024x1024',
+    '3:4': '1024x1792',
+    '9:16': '1024x1792',
+    '4:3': '1792x1024',
+    '16:9': '1792x1024',
+};
+
+// The parts of the response bodies that are read here
+interface OpenAiUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+interface ChatCompletion {
+    choices?: { message?: { content?: string | null } }[];
+    usage?: OpenAiUsage | null;
+}
+
+/** One server-sent event of a streamed chat completion. */
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string | null } }[];
+    usage?: OpenAiUsage | null;
+}
+
+interface ImageGeneration {
+    data?: { b64_json?: string }[];
+}
+
+function toTokenUsage(usage: OpenAiUsage | null | undefined): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        inputTokens: usage.prompt_tokens ?? 0,
+        outputTokens: usage.completion_tokens ?? 0,
+        thinkingTokens: 0,
+    };
+}
+
+export function createOpenAiProvider(options: OpenAiProviderOptions): TextProvider & ImageProvider {
+    const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+    async function send(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (options.apiKey) {
+            headers['Authorization'] = `Bearer ${options.apiKey}`;
+        }
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`${response.status} ${response.statusText}: ${detail.substring(0, 300)}`);
+        }
+        return response;
+    }
+
+    async function post<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+        return (await send(path, body, signal)).json() as Promise<T>;
+    }
+
+    /** Reads a server-sent event stream of chat completion chunks. */
+    async function postStream(path: string, body: Record<string, unknown>, onPartialText: (text: string) => void, signal?: AbortSignal): Promise<{ text: string; usage?: TokenUsage }> {
+        // Servers that know the option send the token counts in a last chunk without choices
+        const response = await send(path, { ...body, stream: true, stream_options: { include_usage: true } }, signal);
+        const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        let text = '';
+        let usage: TokenUsage | undefined;
+        const readLine = (line: string) => {
+            const data = line.match(/^data:\s*(.*)$/)?.[1];
+            if (!data || data === '[DONE]') return;
+            const chunk: ChatCompletionChunk = JSON.parse(data);
+            usage = toTokenUsage(chunk.usage) ?? usage;
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+                text += delta;
+                onPartialText(text);
+            }
+        };
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += value;
+            const lines = buffer.split(/\r?\n/);
+            buffer = lines.pop() ?? '';
+            lines.forEach(readLine);
+        }
+        // Some servers end the stream without a newline after the last event
+        readLine(buffer.trimEnd());
+        return { text, usage };
+    }
+
+    return {
+        id: 'openai',
+
+        async generateText(request) {
+            const messages = [];
+            if (request.systemInstruction) {
+                messages.push({ role: 'system', content: request.systemInstruction });
+            }
+            messages.push({ role: 'user', content: request.contents });
+
+            const body: Record<string, unknown> = {
+                model: options.textModel,
+                messages,
+                temperature: request.temperature,
+            };
+            if (request.responseSchema) {
+                body.response_format = {
+                    type: 'json_schema',
+                    json_schema: {
+                        name: request.purpose.replace(/[^a-zA-Z0-9_-]/g, '_'),
+                        schema: toJsonSchema(request.responseSchema),
+                    },
+                };
+            }
+
+            if (request.onPartialText) {
+                return postStream('/chat/completions', body, request.onPartialText, request.signal);
+            }
+            const data = await post<ChatCompletion>('/chat/completions', body, request.signal);
+            return { text: data.choices?.[0]?.message?.content ?? '', usage: toTokenUsage(data.usage) };
+        },
+
+        async generateImages(request) {
+            const data = await post<ImageGeneration>('/images/generations', {
+                model: options.imageModel,
+                prompt: request.prompt,
+                n: request.numberOfImages ?? 1,
+                size: IMAGE_SIZES[request.aspectRatio],
+                response_format: 'b64_json',
+            }, request.signal);
+            const images = (data.data ?? [])
+                .filter(item => item.b64_json)
+                .map(item => ({
+                    url: `data:image/png;base64,${item.b64_json}`,
+                    mimeType: 'image/png',
+                }));
+            if (images.length === 0) {
+                throw new Error("The image endpoint returned no images.");
+            }
+            return images;
+        },
+    };
+}
+
+/** Converts a `@google/genai` schema (upper-case `Type` values) into plain JSON Schema. */
+export function toJsonSchema(schema: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'type' && typeof value === 'string') {
+            result.type = value.toLowerCase();
+        } else if (key === 'properties') {
+            result.properties = Object.fromEntries(
+                Object.entries(value as Record<string, any>).map(([name, prop]) => [name, toJsonSchema(prop)])
+            );
+        } else if (key === 'items') {
+            result.items = toJsonSchema(value);
+        } else {
+            result[key] = value;
+        }
+    }
+    return result;
+}
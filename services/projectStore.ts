@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SiteImage, FaviconImage } from "../types";
+import type { SitePage } from "../utils/sitePages";
+import type { SeoSettings } from "../utils/seo";
+import type { SiteTranslation } from "../utils/siteTranslation";
+import type { FormSettings } from "../utils/contactForms";
+import type { ChatMessage } from "./refinement";
+import type { UsageRun } from "./usageTracking";
+import { openDatabase, promisify, transactionDone, dataUrlToBlob, blobToDataUrl } from "./database";
+
+/** A project as the app works with it: images are data URLs. */
+export interface ProjectData {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    html: string;
+    css: string;
+    js: string;
+    pages: SitePage[];
+    pageIndex: number;
+    chat: ChatMessage[];
+    images: SiteImage[];
+    favicon: FaviconImage | null;
+    /** Null for projects from before the SEO tab; their metadata is still in the page HTML. */
+    seo: SeoSettings | null;
+    /** Texts of the extra languages; the pages are in the primary language. */
+    translations: SiteTranslation[];
+    /** Null for projects from before the forms tab; the defaults apply. */
+    forms: FormSettings | null;
+    /** Every model call made for the project, grouped by the action that started it. */
+    usage: UsageRun[];
+}
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    pageCount: number;
+    imageCount: number;
+}
+
+/** What is stored in the "projects" object store; image data lives in "assets" as Blobs. */
+interface ProjectRecord extends Omit<ProjectData, 'images' | 'favicon'> {
+    images: (Omit<SiteImage, 'url'> & { remoteUrl?: string })[];
+    favicon: (Omit<FaviconImage, 'url'> & { remoteUrl?: string }) | null;
+}
+
+interface AssetRecord {
+    projectId: string;
+    assetId: string;
+    blob: Blob;
+}
+
+const FAVICON_ASSET_ID = '__favicon';
+
+// Remembers which data URL was last written per asset, so auto-saves skip unchanged images
+const savedAssetUrls = new Map<string, string>();
+
+export function createProjectId(): string {
+    return `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+    const db = await openDatabase();
+    const records = await promisify<ProjectRecord[]>(db.transaction('projects').objectStore('projects').getAll());
+    return records
+        .map(record => ({
+            id: record.id,
+            name: record.name,
+            createdAt: record.createdAt,
+            updatedAt: record.updatedAt,
+            pageCount: record.pages?.length || 1,
+            imageCount: record.images.length,
+        }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject(id: string): Promise<ProjectData | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(['projects', 'assets']);
+    const record = await promisify<ProjectRecord | undefined>(transaction.objectStore('projects').get(id));
+    if (!record) return null;
+    const assets = await promisify<AssetRecord[]>(transaction.objectStore('assets').index('projectId').getAll(id));
+
+    const urls = new Map<string, string>();
+    for (const asset of assets) {
+        const url = await blobToDataUrl(asset.blob);
+        urls.set(asset.assetId, url);
+        savedAssetUrls.set(`${id}/${asset.assetId}`, url);
+    }
+
+    const { remoteUrl: faviconRemoteUrl, ...favicon } = record.favicon ?? { prompt: '' };
+    return {
+        ...record,
+        js: record.js ?? '', // Projects saved before the JavaScript editor existed
+        seo: record.seo ?? null,
+        translations: record.translations ?? [],
+        forms: record.forms ?? null,
+        usage: record.usage ?? [],
+        images: record.images.map(({ remoteUrl, ...image }) => ({ ...image, url: urls.get(image.id) ?? remoteUrl ?? '' })),
+        favicon: record.favicon ? { ...favicon, url: urls.get(FAVICON_ASSET_ID) ?? faviconRemoteUrl ?? '' } : null,
+    };
+}
+
+export async function saveProject(project: ProjectData): Promise<void> {
+    const entries = project.images.map(image => ({ assetId: image.id, url: image.url }));
+    if (project.favicon) entries.push({ assetId: FAVICON_ASSET_ID, url: project.favicon.url });
+
+    // Convert changed images before opening the transaction; it would auto-commit while we await fetch()
+    const changedAssets: AssetRecord[] = [];
+    for (const entry of entries) {
+        const cacheKey = `${project.id}/${entry.assetId}`;
+        if (!entry.url.startsWith('data:') || savedAssetUrls.get(cacheKey) === entry.url) continue;
+        changedAssets.push({ projectId: project.id, assetId: entry.assetId, blob: await dataUrlToBlob(entry.url) });
+    }
+
+    const remoteUrl = (url: string) => url.startsWith('data:') ? undefined : url;
+    const record: ProjectRecord = {
+        ...project,
+        images: project.images.map(({ url, ...image }) => ({ ...image, remoteUrl: remoteUrl(url) })),
+        favicon: project.favicon
+            ? { prompt: project.favicon.prompt, uploaded: project.favicon.uploaded, remoteUrl: remoteUrl(project.favicon.url) }
+            : null,
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction(['projects', 'assets'], 'readwrite');
+    const assetStore = transaction.objectStore('assets');
+    transaction.objectStore('projects').put(record);
+    changedAssets.forEach(asset => assetStore.put(asset));
+
+    // Remove blobs of images that no longer belong to the project
+    const wanted = new Set(entries.filter(entry => entry.url.startsWith('data:')).map(entry => entry.assetId));
+    const keysRequest = assetStore.index('projectId').getAllKeys(project.id);
+    keysRequest.onsuccess = () => {
+        (keysRequest.result as IDBValidKey[][]).forEach(key => {
+            if (!wanted.has(key[1] as string)) {
+                assetStore.delete(key);
+                savedAssetUrls.delete(`${project.id}/${key[1]}`);
+            }
+        });
+    };
+
+    await transactionDone(transaction);
+    changedAssets.forEach(asset => {
+        const entry = entries.find(item => item.assetId === asset.assetId)!;
+        savedAssetUrls.set(`${project.id}/${asset.assetId}`, entry.url);
+    });
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction('projects', 'readwrite');
+    const store = transaction.objectStore('projects');
+    const record = await promisify<ProjectRecord | undefined>(store.get(id));
+    if (record) store.put({ ...record, name, updatedAt: Date.now() });
+    await transactionDone(transaction);
+}
+
+export async function duplicateProject(id: string, name: string): Promise<string | null> {
+    const project = await loadProject(id);
+    if (!project) return null;
+    const now = Date.now();
+    const copy: ProjectData = { ...project, id: createProjectId(), name, createdAt: now, updatedAt: now };
+    await saveProject(copy);
+    return copy.id;
+}
+
+export async function deleteProject(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(['projects', 'assets', 'snapshots'], 'readwrite');
+    transaction.objectStore('projects').delete(id);
+    // Assets and snapshots are looked up through their projectId index
+    (['assets', 'snapshots'] as const).forEach(storeName => {
+        const store = transaction.objectStore(storeName);
+        const keysRequest = store.index('projectId').getAllKeys(id);
+        keysRequest.onsuccess = () => {
+            keysRequest.result.forEach(key => store.delete(key));
+        };
+    });
+    await transactionDone(transaction);
+    Array.from(savedAssetUrls.keys())
+        .filter(key => key.startsWith(`${id}/`))
+        .forEach(key => savedAssetUrls.delete(key));
+}
+
+/**
+ * Moves the single-site state of older versions (one localStorage entry) into a project.
+ * Returns the new project id, or null if there was nothing to migrate.
+ */
+export async function migrateLegacyStorage(storageKey: string, name: string): Promise<string | null> {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return null;
+
+    let data: any;
+    try {
+        data = JSON.parse(saved);
+    } catch (e) {
+        console.error("Error parsing legacy local storage data", e);
+        return null;
+    }
+    if (!data?.html) {
+        localStorage.removeItem(storageKey);
+        return null;
+    }
+
+    const timestamp = data.timestamp || Date.now();
+    const project: ProjectData = {
+        id: createProjectId(),
+        name,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        html: data.html,
+        css: data.css || '',
+        js: '',
+        pages: data.pages?.length ? data.pages : [{ slug: 'index', title: '', html: data.html }],
+        pageIndex: data.pageIndex || 0,
+        chat: data.chat || [],
+        images: data.images || [],
+        favicon: data.favicon || null,
+        seo: null,
+        translations: [],
+        forms: null,
+        usage: [],
+    };
+    await saveProject(project);
+    localStorage.removeItem(storageKey);
+    return project.id;
+}
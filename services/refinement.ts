@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from "@google/genai";
+import type { TextProvider } from "./aiProvider";
+import { requestValidJson } from "./responseValidation";
+
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    text: string;
+}
+
+export type EditTarget = 'html' | 'css' | 'js';
+
+/** The code of the current page, one entry per editor. */
+export type EditDocuments = Record<EditTarget, string>;
+
+export interface StructuredEdit {
+    target: EditTarget;
+    /** Exact snippet to replace. An empty string replaces the whole document of the target. */
+    search: string;
+    replace: string;
+}
+
+export interface RefinementResponse {
+    reply: string;
+    edits: StructuredEdit[];
+    newImages: { id: string; prompt: string }[];
+}
+
+export const refinementSchema = {
+    type: Type.OBJECT,
+    properties: {
+        reply: {
+            type: Type.STRING,
+            description: "A short message to the user (1-3 sentences) summarizing what was changed, in the user's language."
+        },
+        edits: {
+            type: Type.ARRAY,
+            description: "The changes to apply, in order. Prefer several small, targeted edits over rewriting whole documents.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    target: {
+                        type: Type.STRING,
+                        enum: ["html", "css", "js"],
+                        description: "Which editor the edit applies to."
+                    },
+                    search: {
+                        type: Type.STRING,
+                        description: "An exact, unique snippet copied from the current code that will be replaced. Use an empty string only to replace the entire document."
+                    },
+                    replace: {
+                        type: Type.STRING,
+                        description: "The new code that replaces the search snippet."
+                    }
+                },
+                required: ["target", "search", "replace"]
+            }
+        },
+        newImages: {
+            type: Type.ARRAY,
+            description: "Prompts for <img> placeholders that were newly added by the edits. Leave empty if no images were added.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.STRING, description: "The id of the new <img> element." },
+                    prompt: { type: Type.STRING, description: "A simple, concise prompt (3-10 words) for the image." }
+                },
+                required: ["id", "prompt"]
+            }
+        }
+    },
+    required: ["reply", "edits", "newImages"]
+};
+
+const REFINEMENT_SYSTEM_INSTRUCTION = `You are a world-class AI web designer helping a user iterate on an existing website.
+- You receive the current HTML, CSS and JavaScript of the site and the conversation so far. The latest user message is the instruction to carry out now.
+- Keep everything the user did not ask to change exactly as it is, including manual edits.
+- Express your changes as search/replace edits. Every "search" value MUST be copied verbatim from the current code and be unique within it.
+- Styles belong in the CSS and scripts in the JavaScript; do not add <style> or inline <script> tags to the HTML.
+- New image placeholders must look like \`<img id="unique-id" alt="descriptive alt text">\` with ids that do not exist yet. List them in "newImages".
+- Values shown as "data:,omitted" are embedded images; never include them in a search snippet.
+- Your entire response MUST be a single JSON object that strictly follows the provided schema.`;
+
+const OMITTED_DATA_URL = 'data:,omitted';
+
+/** Replaces large inline data URLs so the prompt doesn't carry megabytes of base64. */
+export function stripDataUrls(code: string): string {
+    return code.replace(/data:[a-z+\/.-]+;base64,[A-Za-z0-9+\/=]+/gi, OMITTED_DATA_URL);
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function applyEdit(code: string, edit: StructuredEdit): string | null {
+    if (edit.search === '') return edit.replace;
+
+    const first = code.indexOf(edit.search);
+    if (first !== -1) {
+        if (code.indexOf(edit.search, first + 1) !== -1) return null; // ambiguous
+        return code.slice(0, first) + edit.replace + code.slice(first + edit.search.length);
+    }
+
+    // Models often get indentation slightly wrong; retry with flexible whitespace
+    const pattern = escapeRegExp(edit.search.trim()).replace(/\s+/g, '\\s+');
+    const matches = code.match(new RegExp(pattern, 'g'));
+    if (!matches || matches.length !== 1) return null;
+    return code.replace(new RegExp(pattern), () => edit.replace);
+}
+
+/** Applies edits one by one; edits whose snippet can't be located unambiguously are reported back. */
+export function applyStructuredEdits(documents: EditDocuments, edits: StructuredEdit[]) {
+    const result = { ...documents, applied: 0, failed: [] as StructuredEdit[] };
+    for (const edit of edits) {
+        const target: EditTarget = edit.target === 'css' || edit.target === 'js' ? edit.target : 'html';
+        const updated = applyEdit(result[target], edit);
+        if (updated === null) {
+            result.failed.push(edit);
+        } else {
+            result[target] = updated;
+            result.applied++;
+        }
+    }
+    return result;
+}
+
+export async function requestRefinement(
+    provider: TextProvider,
+    messages: ChatMessage[],
+    documents: EditDocuments
+): Promise<RefinementResponse> {
+    const transcript = messages
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.text}`)
+        .join('\n');
+
+    const contents = `Current HTML:\n\`\`\`html\n${stripDataUrls(documents.html)}\n\`\`\`\n\n`
+        + `Current CSS:\n\`\`\`css\n${documents.css}\n\`\`\`\n\n`
+        + `Current JavaScript:\n\`\`\`js\n${documents.js || '// none'}\n\`\`\`\n\n`
+        + `Conversation:\n${transcript}\n\n`
+        + `Apply the latest user instruction. Respond with ONLY the JSON object.`;
+
+    return requestValidJson<RefinementResponse>(provider, {
+        purpose: 'refine',
+        contents,
+        systemInstruction: REFINEMENT_SYSTEM_INSTRUCTION,
+        responseSchema: refinementSchema,
+        temperature: 0.2,
+    });
+}
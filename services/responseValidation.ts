@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { TextProvider, TextGenerationRequest } from "./aiProvider";
+import { GenerationError, RetryOptions, withRetry } from "./generationErrors";
+import type { MultiPageWebsiteData } from "../utils/sitePages";
+
+export interface ImagePrompt {
+    id: string;
+    prompt: string;
+}
+
+/** Fields of both website schemas (see websiteGenerationSchema in sitePipeline). */
+interface WebsiteMetadata {
+    pageTitle: string;
+    metaDescription: string;
+    metaKeywords: string;
+    faviconPrompt: string;
+    structuredData: string;
+    imagePrompts: ImagePrompt[];
+}
+
+export interface SinglePageWebsiteData extends WebsiteMetadata {
+    htmlContent: string;
+}
+
+export interface MultiPageWebsiteResponse extends WebsiteMetadata, MultiPageWebsiteData {}
+
+/** A website answer of the model once it passed validateAgainstSchema. */
+export type WebsiteData = SinglePageWebsiteData | MultiPageWebsiteResponse;
+
+/**
+ * Checks a parsed model response against a schema in the `@google/genai` Type format.
+ * Returns the problems with their JSON path, in English so they can be sent back to the model.
+ */
+export function validateAgainstSchema(value: unknown, schema: Record<string, any>, path = '$'): string[] {
+    const type = String(schema.type).toUpperCase();
+    switch (type) {
+        case 'OBJECT': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${path} must be an object`];
+            }
+            const record = value as Record<string, unknown>;
+            const missing = (schema.required as string[] | undefined ?? [])
+                .filter(key => record[key] === undefined || record[key] === null)
+                .map(key => `${path}.${key} is missing`);
+            const nested = Object.entries(schema.properties ?? {})
+                .filter(([key]) => record[key] !== undefined && record[key] !== null)
+                .flatMap(([key, property]) => validateAgainstSchema(record[key], property as Record<string, any>, `${path}.${key}`));
+            return [...missing, ...nested];
+        }
+        case 'ARRAY':
+            if (!Array.isArray(value)) return [`${path} must be an array`];
+            return schema.items
+                ? value.flatMap((item, i) => validateAgainstSchema(item, schema.items, `${path}[${i}]`))
+                : [];
+        case 'STRING':
+            if (typeof value !== 'string') return [`${path} must be a string`];
+            if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.join(', ')}`];
+            return [];
+        case 'NUMBER':
+        case 'INTEGER':
+            if (typeof value !== 'number' || (type === 'INTEGER' && !Number.isInteger(value))) {
+                return [`${path} must be ${type === 'INTEGER' ? 'an integer' : 'a number'}`];
+            }
+            return [];
+        case 'BOOLEAN':
+            return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+        default:
+            return [];
+    }
+}
+
+/** Parses a JSON answer and checks it against the schema; `data` is null if the answer can't be used. */
+export function parseJsonResponse<T>(text: string, schema: Record<string, any>): { data: T | null; problems: string[] } {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        return { data: null, problems: [`The response is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+    }
+    const problems = validateAgainstSchema(parsed, schema);
+    return { data: problems.length === 0 ? parsed as T : null, problems };
+}
+
+/** Asks the model to fix its previous answer, with the original request so nothing else gets lost. */
+export function buildRepairRequest(request: TextGenerationRequest, previousText: string, problems: string[]): TextGenerationRequest {
+    return {
+        ...request,
+        purpose: `${request.purpose}-repair`,
+        contents: `Your JSON response to the request below has problems. Fix them and return the complete, corrected JSON object; keep everything else unchanged.
+
+**Problems:**
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+**Original request:**
+${request.contents}
+
+**Your previous response:**
+${previousText}`,
+        temperature: 0,
+        onPartialText: undefined,
+    };
+}
+
+/**
+ * Sends a request with a response schema and returns the validated answer. An answer that doesn't
+ * match the schema gets one repair round; if that fails too, the call fails with 'invalid-response'.
+ */
+export async function requestValidJson<T>(
+    provider: TextProvider,
+    request: TextGenerationRequest & { responseSchema: Record<string, any> },
+    options: RetryOptions = {}
+): Promise<T> {
+    const response = await withRetry(() => provider.generateText(request), options);
+    let check = parseJsonResponse<T>(response.text, request.responseSchema);
+    if (check.problems.length > 0) {
+        console.warn(`Response for "${request.purpose}" failed validation, asking for a repair:`, check.problems);
+        const repaired = await withRetry(() => provider.generateText(buildRepairRequest(request, response.text, check.problems)), options);
+        check = parseJsonResponse<T>(repaired.text, request.responseSchema);
+    }
+    if (!check.data) {
+        throw new GenerationError('invalid-response', check.problems.join('\n'));
+    }
+    return check.data;
+}
+
+/**
+ * Cross-checks the image prompts with the `<img id>` placeholders in the generated HTML: prompts without
+ * a placeholder, duplicate ids, placeholders without a prompt and a count that differs from the request.
+ * `prompts` is a usable list in any case: dangling and duplicate entries are dropped and
+ * placeholders without a prompt get one from their alt text.
+ */
+export function checkImagePrompts(
+    htmlParts: string[],
+    imagePrompts: ImagePrompt[],
+    expectedCount: number,
+    ignoredIds: string[] = []
+): { problems: string[]; prompts: ImagePrompt[] } {
+    const problems: string[] = [];
+    const parser = new DOMParser();
+    const placeholders = new Map<string, HTMLImageElement>();
+    htmlParts.forEach(html => {
+        parser.parseFromString(html, 'text/html').querySelectorAll<HTMLImageElement>('img[id]').forEach(img => {
+            if (ignoredIds.includes(img.id)) return;
+            if (placeholders.has(img.id)) problems.push(`The image id "${img.id}" is used by more than one <img> element`);
+            else placeholders.set(img.id, img);
+        });
+    });
+
+    const prompts: ImagePrompt[] = [];
+    imagePrompts.forEach(({ id, prompt }) => {
+        if (prompts.some(existing => existing.id === id)) {
+            problems.push(`imagePrompts contains the id "${id}" more than once`);
+        } else if (!placeholders.has(id)) {
+            problems.push(`imagePrompts contains "${id}", but there is no <img id="${id}"> in the HTML`);
+        } else {
+            prompts.push({ id, prompt });
+        }
+    });
+    placeholders.forEach((img, id) => {
+        if (prompts.some(prompt => prompt.id === id)) return;
+        problems.push(`<img id="${id}"> has no entry in imagePrompts`);
+        prompts.push({ id, prompt: img.alt.trim() || id.replace(/[-_]+/g, ' ') });
+    });
+
+    if (imagePrompts.length !== expectedCount) {
+        problems.push(`Exactly ${expectedCount} images were requested, but imagePrompts has ${imagePrompts.length} entries`);
+    }
+    return { problems, prompts };
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from "@google/genai";
+import type { TextProvider } from "./aiProvider";
+import { stripDataUrls } from "./refinement";
+import { requestValidJson } from "./responseValidation";
+import { GenerationError } from "./generationErrors";
+
+export interface SectionRegenerationResponse {
+    sectionHtml: string;
+    css: string;
+    newImages: { id: string; prompt: string }[];
+}
+
+export const sectionRegenerationSchema = {
+    type: Type.OBJECT,
+    properties: {
+        sectionHtml: {
+            type: Type.STRING,
+            description: "The complete replacement element, including its opening and closing tag. Keep the same tag name and id."
+        },
+        css: {
+            type: Type.STRING,
+            description: "ALL CSS rules for this element (including media queries). Every selector MUST start with the given scope selector. No <style> tag."
+        },
+        newImages: {
+            type: Type.ARRAY,
+            description: "Prompts for <img> placeholders in sectionHtml whose ids are new. Leave empty if there are none.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.STRING, description: "The id of the new <img> element." },
+                    prompt: { type: Type.STRING, description: "A simple, concise prompt (3-10 words) for the image." }
+                },
+                required: ["id", "prompt"]
+            }
+        }
+    },
+    required: ["sectionHtml", "css", "newImages"]
+};
+
+const SECTION_SYSTEM_INSTRUCTION = `You are a world-class AI web designer. You redesign exactly ONE element (a <header>, <section> or <footer>) of an existing website according to the user's instruction.
+- Keep the language, tone and visual style of the rest of the site. Reuse its fonts, colors and CSS variables.
+- Return the full replacement element with the same tag name and the same id.
+- Return all CSS for the element; every selector MUST start with the scope selector you are given, so the rules can be found again later.
+- Keep existing image placeholders (same ids) unless the instruction asks to change them. New image placeholders look like \`<img id="unique-id" alt="descriptive alt text">\` and need ids that don't exist in the site yet.
+- If the element is a <header>, keep the responsive navigation and its hamburger toggle working with the existing JavaScript (keep the classes and ids it uses). Do not add <script> tags.
+- Your entire response MUST be a single JSON object that strictly follows the provided schema.`;
+
+export async function requestSectionRegeneration(
+    provider: TextProvider,
+    options: {
+        sectionHtml: string;
+        scopeSelector: string;
+        scopedCss: string;
+        siteCss: string;
+        siteJs: string;
+        instruction: string;
+        existingImageIds: string[];
+    }
+): Promise<SectionRegenerationResponse> {
+    const contents = `Element to regenerate (scope selector: \`${options.scopeSelector}\`):\n\`\`\`html\n${stripDataUrls(options.sectionHtml)}\n\`\`\`\n\n`
+        + `Current CSS for this element:\n\`\`\`css\n${options.scopedCss || '/* none */'}\n\`\`\`\n\n`
+        + `Stylesheet of the whole site, for context only:\n\`\`\`css\n${options.siteCss}\n\`\`\`\n\n`
+        + `JavaScript of the whole site, for context only:\n\`\`\`js\n${options.siteJs || '// none'}\n\`\`\`\n\n`
+        + `Image ids already used in the site: ${options.existingImageIds.join(', ') || 'none'}.\n\n`
+        + `Instruction: ${options.instruction || 'Create a fresh, better design for this element.'}\n\n`
+        + `Respond with ONLY the JSON object.`;
+
+    const data = await requestValidJson<SectionRegenerationResponse>(provider, {
+        purpose: 'section',
+        contents,
+        systemInstruction: SECTION_SYSTEM_INSTRUCTION,
+        responseSchema: sectionRegenerationSchema,
+        temperature: 0.4,
+    });
+    // The schema allows an empty string, which would delete the element
+    if (!data.sectionHtml.trim()) {
+        throw new GenerationError('invalid-response', "sectionHtml is empty.");
+    }
+    return data;
+}
@@ -0,0 +1,367 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SiteImage, FaviconImage } from "../types";
+import type { SitePage } from "../utils/sitePages";
+import { loadImage, encodeImage } from "../utils/imageTools";
+import { minifyCss, minifyJs, minifyDocument } from "../utils/minify";
+import { SeoSettings, applySeoMetadata, buildSitemap, buildRobotsTxt, normalizeBaseUrl, pageUrl } from "../utils/seo";
+import { languageCode } from "../utils/sitePages";
+import {
+    SiteTranslation,
+    LANGUAGE_SWITCHER_CSS,
+    addLanguageLinks,
+    buildLanguageRedirect,
+    localizePages,
+    localizeSeo,
+    pageLanguageCode,
+} from "../utils/siteTranslation";
+import { addContentSecurityPolicy } from "../utils/security";
+import { blobToDataUrl } from "./database";
+import { t } from "../utils/i18n";
+import type { FrameworkTarget, FrameworkCssMode } from "./frameworkExport";
+
+// Let TS know that JSZip will be available on the window.
+declare var JSZip: any;
+
+export type ExportImageFormat = 'original' | 'webp' | 'avif';
+
+export interface ExportOptions {
+    /** Static HTML, or a scaffolded framework project (see frameworkExport). */
+    target: 'html' | FrameworkTarget;
+    cssMode: FrameworkCssMode;
+    /** 'single-file' inlines CSS, JS and images into each HTML file. */
+    mode: 'zip' | 'single-file';
+    /** Link styles.css and script.js instead of inlining them (multi-page sites always do). */
+    separateFiles: boolean;
+    imageFormat: ExportImageFormat;
+    /** Target widths for the srcset when images are re-encoded. */
+    imageWidths: number[];
+    lazyLoading: boolean;
+    minify: boolean;
+    /** Adds a Content-Security-Policy meta tag that allows exactly what each page uses. */
+    contentSecurityPolicy: boolean;
+}
+
+export const EXPORT_IMAGE_WIDTHS = [480, 960, 1440, 1920];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    target: 'html',
+    cssMode: 'global',
+    mode: 'zip',
+    separateFiles: false,
+    imageFormat: 'original',
+    imageWidths: [480, 960, 1440],
+    lazyLoading: true,
+    minify: false,
+    contentSecurityPolicy: false,
+};
+
+const EXPORT_OPTIONS_KEY = 'ai-website-gen-export-options';
+
+export function loadExportOptions(): ExportOptions {
+    try {
+        const saved = localStorage.getItem(EXPORT_OPTIONS_KEY);
+        if (saved) {
+            return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(saved) };
+        }
+    } catch (e) {
+        console.warn("Could not read export options, using defaults.", e);
+    }
+    return { ...DEFAULT_EXPORT_OPTIONS };
+}
+
+export function saveExportOptions(options: ExportOptions) {
+    try {
+        localStorage.setItem(EXPORT_OPTIONS_KEY, JSON.stringify(options));
+    } catch (e) {
+        console.warn("Could not save export options.", e);
+    }
+}
+
+export interface ExportSite {
+    pages: SitePage[];
+    css: string;
+    js: string;
+    images: SiteImage[];
+    favicon: FaviconImage | null;
+    seo: SeoSettings | null;
+    /** Extra languages; with any, every language is exported into its own folder. */
+    translations: SiteTranslation[];
+}
+
+/** Path in the export (e.g. "about.html", "images/hero.webp") to its content. */
+export type ExportFiles = Map<string, Blob | string>;
+
+export interface ExportResult {
+    blob: Blob;
+    filename: string;
+    /** Things the user should know about, e.g. an image format the browser can't encode. */
+    warnings: string[];
+}
+
+/** How an image is referenced from the exported HTML. */
+interface ExportedImage {
+    src: string;
+    srcset?: string;
+}
+
+const IMAGE_MIME_TYPES: Record<Exclude<ExportImageFormat, 'original'>, string> = {
+    webp: 'image/webp',
+    avif: 'image/avif',
+};
+
+// Images in the header or the first section are usually visible right away
+const ABOVE_THE_FOLD_SIZES = '100vw';
+const BELOW_THE_FOLD_SIZES = '(max-width: 768px) 100vw, 50vw';
+
+export function getFileExtension(mimeType: string): string {
+    switch (mimeType) {
+        case 'image/png': return 'png';
+        case 'image/webp': return 'webp';
+        case 'image/avif': return 'avif';
+        case 'image/svg+xml': return 'svg';
+        default: return 'jpeg';
+    }
+}
+
+function toFileId(id: string): string {
+    return id.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+}
+
+async function fetchBlob(url: string): Promise<Blob> {
+    const response = await fetch(url);
+    return response.blob();
+}
+
+/**
+ * Re-encodes one image at every requested width that isn't larger than the original.
+ * In single-file mode only the largest variant is kept, embedded as a data URL.
+ */
+async function exportImage(
+    image: SiteImage,
+    options: ExportOptions,
+    addFile: (path: string, blob: Blob) => void,
+    warnings: Set<string>
+): Promise<ExportedImage> {
+    const blob = await fetchBlob(image.url);
+    const singleFile = options.mode === 'single-file';
+    const fileId = toFileId(image.id);
+
+    // Vector placeholders gain nothing from re-encoding
+    if (options.imageFormat === 'original' || blob.type === 'image/svg+xml' || options.imageWidths.length === 0) {
+        if (singleFile) return { src: await blobToDataUrl(blob) };
+        const path = `images/${fileId}.${getFileExtension(blob.type)}`;
+        addFile(path, blob);
+        return { src: path };
+    }
+
+    const element = await loadImage(image.url);
+    const maxWidth = Math.max(...options.imageWidths);
+    const widths = singleFile
+        ? [Math.min(maxWidth, element.naturalWidth)]
+        : Array.from(new Set(options.imageWidths.map(width => Math.min(width, element.naturalWidth)))).sort((a, b) => a - b);
+
+    let mimeType = IMAGE_MIME_TYPES[options.imageFormat];
+    const variants: { path: string; width: number; blob: Blob }[] = [];
+    for (const width of widths) {
+        let encoded = await encodeImage(element, mimeType, width);
+        if (encoded.type !== mimeType) {
+            warnings.add(t('export.warning.formatUnsupported', { format: options.imageFormat.toUpperCase() }));
+            mimeType = IMAGE_MIME_TYPES.webp;
+            encoded = await encodeImage(element, mimeType, width);
+        }
+        variants.push({ path: `images/${fileId}-${width}.${getFileExtension(encoded.type)}`, width, blob: encoded });
+    }
+
+    if (singleFile) return { src: await blobToDataUrl(variants[0].blob) };
+    variants.forEach(variant => addFile(variant.path, variant.blob));
+    const largest = variants[variants.length - 1];
+    return {
+        src: largest.path,
+        srcset: variants.length > 1 ? variants.map(variant => `${variant.path} ${variant.width}w`).join(', ') : undefined,
+    };
+}
+
+function isAboveTheFold(doc: Document, img: HTMLImageElement): boolean {
+    if (img.closest('header')) return true;
+    const firstSection = doc.querySelector('main section, body > section');
+    return !!firstSection && firstSection.contains(img);
+}
+
+/** Builds the ZIP (or the single HTML file) for the site with the given options. */
+export async function exportSite(site: ExportSite, options: ExportOptions): Promise<ExportResult> {
+    const { files, warnings } = await buildExportFiles(site, options);
+    // A single self-contained page doesn't need a ZIP around it
+    if (options.mode === 'single-file' && files.size === 1) {
+        const [html] = files.values();
+        return {
+            blob: new Blob([html], { type: 'text/html' }),
+            filename: 'ai-generated-website.html',
+            warnings,
+        };
+    }
+    return {
+        blob: await zipExportFiles(files),
+        filename: 'ai-generated-website.zip',
+        warnings,
+    };
+}
+
+export async function zipExportFiles(files: ExportFiles): Promise<Blob> {
+    const zip = new JSZip();
+    for (const [path, content] of files) {
+        // JSZip can only read Blobs with a FileReader, which Node doesn't have; bytes work everywhere
+        zip.file(path, typeof content === 'string' ? content : new Uint8Array(await content.arrayBuffer()));
+    }
+    return zip.generateAsync({ type: "blob" });
+}
+
+/** Writes every file of the export; `exportSite` packs them, the CLI writes them to disk. */
+export async function buildExportFiles(site: ExportSite, options: ExportOptions): Promise<{ files: ExportFiles; warnings: string[] }> {
+    const files: ExportFiles = new Map();
+    const warnings = new Set<string>();
+    const singleFile = options.mode === 'single-file';
+    const isMultiPage = site.pages.length > 1;
+    const isMultilingual = site.translations.length > 0;
+    const useSeparateFiles = !singleFile && (isMultiPage || isMultilingual || options.separateFiles);
+    const addFile = (path: string, blob: Blob) => files.set(path, blob);
+    // Language folders reach the shared images, styles and scripts one level up
+    const assetPrefix = isMultilingual ? '../' : '';
+    const assetUrl = (src: string) => src.startsWith('data:') ? src : assetPrefix + src;
+
+    const siteCss = isMultilingual ? `${site.css}\n\n${LANGUAGE_SWITCHER_CSS}\n` : site.css;
+    const css = options.minify ? minifyCss(siteCss) : siteCss;
+    const js = options.minify ? minifyJs(site.js) : site.js;
+
+    // Write every image once; pages reference them by file name
+    const exportedImages = new Map<string, ExportedImage>();
+    for (const image of site.images) {
+        exportedImages.set(image.id, await exportImage(image, options, addFile, warnings));
+    }
+
+    let favicon: { href: string; type: string } | null = null;
+    if (site.favicon) {
+        const blob = await fetchBlob(site.favicon.url);
+        if (singleFile) {
+            favicon = { href: await blobToDataUrl(blob), type: blob.type };
+        } else {
+            favicon = { href: `images/favicon.${getFileExtension(blob.type)}`, type: blob.type };
+            addFile(favicon.href, blob);
+        }
+    }
+
+    // Open Graph wants an absolute URL, which needs the base URL from the SEO tab
+    const baseUrl = site.seo?.baseUrl.trim() ? normalizeBaseUrl(site.seo.baseUrl) : '';
+    let shareImageUrl: string | null = null;
+    const shareImage = site.seo?.shareImageId ? exportedImages.get(site.seo.shareImageId) : undefined;
+    if (site.seo && shareImage && !shareImage.src.startsWith('data:')) {
+        shareImageUrl = baseUrl ? `${baseUrl}/${shareImage.src}` : assetUrl(shareImage.src);
+    }
+
+    if (useSeparateFiles) {
+        files.set("styles.css", css);
+        if (js.trim()) files.set("script.js", js);
+    }
+
+    // The primary language comes first; it is also the target of the root page and of x-default
+    const locales = [
+        { code: pageLanguageCode(site.pages[0]?.html ?? ''), pages: site.pages, seo: site.seo },
+        ...site.translations.map(translation => ({
+            code: languageCode(translation.language),
+            pages: localizePages(site.pages, translation),
+            seo: site.seo && localizeSeo(site.seo, translation),
+        })),
+    ];
+
+    const parser = new DOMParser();
+    const htmlFiles: { filename: string; html: string }[] = [];
+    for (const locale of locales) {
+        const folder = isMultilingual ? `${locale.code}/` : '';
+        // Canonical URLs are derived from the base URL, which now ends in the language folder
+        const seo = locale.seo && isMultilingual ? { ...locale.seo, baseUrl: baseUrl && `${baseUrl}/${locale.code}` } : locale.seo;
+
+        for (const page of locale.pages) {
+            const doc = parser.parseFromString(page.html, 'text/html');
+
+            exportedImages.forEach((exported, id) => {
+                const imgElement = doc.getElementById(id) as HTMLImageElement;
+                if (!imgElement) return;
+                const aboveTheFold = isAboveTheFold(doc, imgElement);
+                imgElement.src = assetUrl(exported.src);
+                if (exported.srcset) {
+                    imgElement.srcset = exported.srcset.split(', ').map(assetUrl).join(', ');
+                    imgElement.sizes = aboveTheFold ? ABOVE_THE_FOLD_SIZES : BELOW_THE_FOLD_SIZES;
+                }
+                if (options.lazyLoading && !aboveTheFold) {
+                    imgElement.loading = 'lazy';
+                    imgElement.decoding = 'async';
+                }
+            });
+
+            if (seo) applySeoMetadata(doc, seo, page, shareImageUrl);
+
+            if (isMultilingual) {
+                addLanguageLinks(doc, locale.code, locales.map(alternate => ({
+                    code: alternate.code,
+                    href: `../${alternate.code}/${page.slug}.html`,
+                    alternateHref: baseUrl ? pageUrl(`${baseUrl}/${alternate.code}`, page.slug) : `../${alternate.code}/${page.slug}.html`,
+                })));
+            }
+
+            if (favicon) {
+                const faviconLink = doc.querySelector("link[rel*='icon']") as HTMLLinkElement;
+                if (faviconLink) {
+                    faviconLink.href = assetUrl(favicon.href);
+                    faviconLink.type = favicon.type;
+                }
+            }
+
+            doc.head.querySelectorAll('style').forEach(s => s.remove());
+            if (useSeparateFiles) {
+                const stylesheetLink = doc.createElement('link');
+                stylesheetLink.rel = 'stylesheet';
+                stylesheetLink.href = assetUrl('styles.css');
+                doc.head.appendChild(stylesheetLink);
+            } else {
+                const styleElement = doc.createElement('style');
+                styleElement.textContent = css;
+                doc.head.appendChild(styleElement);
+            }
+
+            if (js.trim()) {
+                const scriptElement = doc.createElement('script');
+                if (useSeparateFiles) {
+                    scriptElement.src = assetUrl('script.js');
+                } else {
+                    scriptElement.textContent = js;
+                }
+                doc.body.appendChild(scriptElement);
+            }
+
+            if (options.minify) minifyDocument(doc);
+            // Last, so the hashes match the final inline scripts
+            if (options.contentSecurityPolicy) await addContentSecurityPolicy(doc, css);
+            htmlFiles.push({ filename: `${folder}${page.slug}.html`, html: doc.documentElement.outerHTML });
+        }
+    }
+
+    // A single self-contained page doesn't need anything next to it
+    if (singleFile && htmlFiles.length === 1) {
+        return { files: new Map([[htmlFiles[0].filename, htmlFiles[0].html]]), warnings: [...warnings] };
+    }
+
+    htmlFiles.forEach(file => files.set(file.filename, file.html));
+    if (isMultilingual) files.set('index.html', buildLanguageRedirect(locales.map(locale => locale.code)));
+    if (site.seo) {
+        files.set('robots.txt', buildRobotsTxt(site.seo.baseUrl));
+        if (baseUrl) {
+            const languages = isMultilingual ? locales.map(locale => locale.code) : [];
+            files.set('sitemap.xml', buildSitemap(baseUrl, site.pages, new Date(), '.html', languages));
+        } else {
+            warnings.add(t('export.warning.noBaseUrl'));
+        }
+    }
+    return { files, warnings: [...warnings] };
+}
@@ -0,0 +1,320 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SiteImage, FaviconImage } from "../types";
+import { SitePage, slugify } from "../utils/sitePages";
+import { SeoSettings, readSeoFromPages, pageUrl, normalizeBaseUrl } from "../utils/seo";
+import { LANGUAGE_SWITCHER_CSS } from "../utils/siteTranslation";
+import { stripFormAssets } from "../utils/contactForms";
+import { inferAspectRatio } from "../utils/imagePlacement";
+import { blobToDataUrl } from "./database";
+import { t } from "../utils/i18n";
+
+/** The parts of a JSZip entry the import reads. */
+interface ZipEntry {
+    name: string;
+    dir: boolean;
+    async(type: 'blob'): Promise<Blob>;
+}
+
+// Let TS know that JSZip will be available on the window.
+declare var JSZip: { loadAsync(data: Blob): Promise<{ files: Record<string, ZipEntry> }> };
+
+/** Files of the imported site keyed by their path from the site root, e.g. "images/hero_image.jpeg". */
+export type SiteFiles = Map<string, Blob>;
+
+/** A website read from an HTML file, a folder or a ZIP, in the same shape as a freshly generated one. */
+export interface ImportedSite {
+    name: string;
+    /**
+     * Complete page documents like the model returns them: the shared stylesheet is inlined into the
+     * first page, linked scripts are inlined and images are `<img id>` placeholders without a src.
+     */
+    pages: SitePage[];
+    images: SiteImage[];
+    favicon: FaviconImage | null;
+    seo: SeoSettings;
+    warnings: string[];
+}
+
+const MIME_TYPES: Record<string, string> = {
+    html: 'text/html',
+    htm: 'text/html',
+    css: 'text/css',
+    js: 'text/javascript',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    svg: 'image/svg+xml',
+    ico: 'image/x-icon',
+};
+
+function fileExtension(path: string): string {
+    return path.split('.').pop()!.toLowerCase();
+}
+
+function isHtmlPath(path: string): boolean {
+    return /\.html?$/i.test(path);
+}
+
+function folderOf(path: string): string {
+    return path.slice(0, path.lastIndexOf('/') + 1);
+}
+
+/** ZIP entries carry no MIME type, and data URLs need one. */
+function withMimeType(blob: Blob, path: string): Blob {
+    const type = MIME_TYPES[fileExtension(path)];
+    return type && blob.type !== type ? new Blob([blob], { type }) : blob;
+}
+
+/**
+ * Collects the chosen files: a single ZIP is unpacked, a folder keeps its relative paths.
+ * A folder that wraps everything (the selected folder itself, or the top folder of a ZIP) is dropped.
+ */
+export async function readImportFiles(selected: File[]): Promise<SiteFiles> {
+    const entries: [string, Blob][] = [];
+    for (const file of selected) {
+        if (fileExtension(file.name) === 'zip') {
+            const zip = await JSZip.loadAsync(file);
+            for (const entry of Object.values(zip.files)) {
+                if (!entry.dir) entries.push([entry.name, await entry.async('blob')]);
+            }
+        } else {
+            entries.push([file.webkitRelativePath || file.name, file]);
+        }
+    }
+
+    // Skip system files such as __MACOSX/ or .DS_Store
+    let paths = entries.filter(([path]) => !path.split('/').some(part => part.startsWith('.') || part === '__MACOSX'));
+    while (paths.length > 0 && paths.every(([path]) => path.includes('/'))) {
+        const root = paths[0][0].split('/')[0];
+        if (!paths.every(([path]) => path.startsWith(`${root}/`))) break;
+        paths = paths.map(([path, blob]) => [path.slice(root.length + 1), blob]);
+    }
+    return new Map(paths.map(([path, blob]) => [path, withMimeType(blob, path)]));
+}
+
+/** Path of a local reference relative to the site root, or null for external URLs, data URLs and anchors. */
+function resolvePath(fromPath: string, reference: string | null): string | null {
+    const value = reference?.trim();
+    if (!value || value.startsWith('#') || value.startsWith('//') || /^[a-z][a-z0-9+.-]*:/i.test(value)) return null;
+    try {
+        return decodeURIComponent(new URL(value, `file:///${fromPath}`).pathname.slice(1));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The folder whose HTML files are the pages. Multilingual exports forward from the root page to the
+ * primary language folder; otherwise it's the top-most folder that contains an HTML file.
+ */
+async function findPageFolder(files: SiteFiles, htmlPaths: string[]): Promise<string> {
+    const root = files.get('index.html');
+    if (root) {
+        const refresh = new DOMParser().parseFromString(await root.text(), 'text/html')
+            .querySelector('meta[http-equiv="refresh" i]')?.getAttribute('content');
+        const target = resolvePath('index.html', refresh?.match(/url=\s*['"]?([^'";]+)/i)?.[1] ?? null);
+        if (target && files.has(target)) return folderOf(target);
+    }
+    return [...htmlPaths].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b)).map(folderOf)[0];
+}
+
+/** Home page first, then the order of the home page's links (its navigation), then the rest by name. */
+function orderPages(docs: Map<string, Document>, indexPath: string): string[] {
+    const order = [indexPath];
+    docs.get(indexPath)!.querySelectorAll('a[href]').forEach(link => {
+        const target = resolvePath(indexPath, link.getAttribute('href'));
+        if (target && docs.has(target) && !order.includes(target)) order.push(target);
+    });
+    return [...order, ...[...docs.keys()].filter(path => !order.includes(path)).sort()];
+}
+
+/**
+ * Exports write canonical URLs that are derived from the base URL. Recognizing them restores the base URL
+ * instead of keeping them as fixed per-page overrides.
+ */
+function restoreBaseUrl(seo: SeoSettings, pages: SitePage[], folder: string): SeoSettings {
+    const homeCanonical = seo.pages.index?.canonicalUrl ?? '';
+    if (!/^https?:\/\//i.test(homeCanonical)) return seo;
+    const pagesUrl = normalizeBaseUrl(homeCanonical.replace(/\/index\.html$/i, ''));
+    const derived = pages.every(page => [pageUrl(pagesUrl, page.slug), ''].includes(seo.pages[page.slug]?.canonicalUrl ?? ''));
+    // Pages of a multilingual export live in the language folder below the base URL
+    const languageFolder = `/${folder.replace(/\/$/, '')}`;
+    if (!derived || (folder && !pagesUrl.endsWith(languageFolder))) return seo;
+    return {
+        ...seo,
+        baseUrl: folder ? pagesUrl.slice(0, -languageFolder.length) : pagesUrl,
+        pages: Object.fromEntries(Object.entries(seo.pages).map(([slug, pageSeo]) => [slug, { ...pageSeo, canonicalUrl: '' }])),
+    };
+}
+
+/**
+ * Turns the files of a website, e.g. a ZIP from our own export, back into editable pages.
+ * Local styles, scripts, images and the favicon are taken over; external URLs stay as they are.
+ */
+export async function importSite(files: SiteFiles, fallbackName: string): Promise<ImportedSite> {
+    const warnings = new Set<string>();
+    const missingFiles = new Set<string>();
+    const htmlPaths = [...files.keys()].filter(isHtmlPath);
+    if (htmlPaths.length === 0) throw new Error("The selection contains no HTML file.");
+
+    const folder = await findPageFolder(files, htmlPaths);
+    const skippedPaths = htmlPaths.filter(path => folderOf(path) !== folder);
+    if (folder && files.has('index.html')) {
+        warnings.add(t('import.warning.languagesSkipped'));
+    } else if (skippedPaths.length > 0) {
+        warnings.add(t('import.warning.pagesSkipped', { files: skippedPaths.join(', ') }));
+    }
+    const parser = new DOMParser();
+    const docs = new Map<string, Document>();
+    for (const path of htmlPaths.filter(path => folderOf(path) === folder)) {
+        docs.set(path, parser.parseFromString(await files.get(path)!.text(), 'text/html'));
+    }
+
+    // The home page must be called "index"; other names are made safe for links and the page switcher
+    const indexPath = [...docs.keys()].find(path => /^index\.html?$/i.test(path.slice(folder.length))) ?? [...docs.keys()].sort()[0];
+    const pagePaths = orderPages(docs, indexPath);
+    const slugs = new Map<string, string>();
+    pagePaths.forEach(path => {
+        const name = path.slice(folder.length).replace(/\.html?$/i, '');
+        let slug = path === indexPath ? 'index' : /^[\w-]+$/.test(name) ? name : slugify(name);
+        for (let suffix = 2; [...slugs.values()].includes(slug); suffix++) slug = `${slugify(name)}-${suffix}`;
+        slugs.set(path, slug);
+    });
+
+    const readText = async (path: string) => (await files.get(path)!.text()).trim();
+    const cssParts = new Set<string>();
+    const images: SiteImage[] = [];
+    const imageIdsByPath = new Map<string, string>();
+    const usedIds = new Set(pagePaths.flatMap(path => Array.from(docs.get(path)!.querySelectorAll('[id]'), element => element.id)));
+    let favicon: FaviconImage | null = null;
+    let nextImageNumber = 1;
+
+    const pages: SitePage[] = [];
+    for (const path of pagePaths) {
+        const doc = docs.get(path)!;
+
+        // Added by the multilingual export and added again on the next one
+        doc.querySelectorAll('.language-switcher, link[rel="alternate"][hreflang]').forEach(element => element.remove());
+        // The export writes a new policy for the final scripts; the old hashes would block edited ones
+        doc.querySelectorAll('meta[http-equiv="Content-Security-Policy" i]').forEach(element => element.remove());
+
+        // Links between pages point at the (possibly renamed) page files
+        doc.querySelectorAll('a[href]').forEach(link => {
+            const href = link.getAttribute('href')!;
+            const target = resolvePath(path, href);
+            if (target && slugs.has(target)) link.setAttribute('href', `${slugs.get(target)}.html${href.match(/#.*$/)?.[0] ?? ''}`);
+        });
+
+        // All pages share one stylesheet, in the order the styles are first used
+        for (const element of Array.from(doc.querySelectorAll<HTMLElement>('style, link[rel~="stylesheet" i]'))) {
+            if (element.tagName === 'STYLE') {
+                cssParts.add(element.textContent?.trim() ?? '');
+            } else {
+                const stylesheet = resolvePath(path, element.getAttribute('href'));
+                if (!stylesheet) continue;
+                if (files.has(stylesheet)) cssParts.add(await readText(stylesheet));
+                else missingFiles.add(stylesheet);
+            }
+            element.remove();
+        }
+
+        // Linked scripts are inlined, so they end up in the JavaScript editor like generated ones
+        for (const script of Array.from(doc.querySelectorAll('script[src]'))) {
+            const source = resolvePath(path, script.getAttribute('src'));
+            if (!source) continue;
+            if (!files.has(source)) {
+                missingFiles.add(source);
+                continue;
+            }
+            script.removeAttribute('src');
+            script.textContent = `\n${await readText(source)}\n`;
+        }
+
+        // The contact form script is added again on the next export
+        doc.querySelectorAll('script:not([src])').forEach(script => {
+            const code = stripFormAssets(script.textContent ?? '');
+            if (code.trim()) script.textContent = code;
+            else script.remove();
+        });
+
+        for (const img of Array.from(doc.querySelectorAll('img'))) {
+            const src = img.getAttribute('src') ?? '';
+            const source = src.startsWith('data:') ? src : resolvePath(path, src);
+            if (!source) continue;
+            const blob = files.get(source);
+            if (!source.startsWith('data:') && !blob) {
+                missingFiles.add(source);
+                continue;
+            }
+            // The same file on several pages (e.g. in the shared header) is one image
+            let id = imageIdsByPath.get(source);
+            if (!id) {
+                id = img.id && !images.some(image => image.id === img.id) ? img.id : '';
+                while (!id) {
+                    const candidate = `imported-image-${nextImageNumber++}`;
+                    if (!usedIds.has(candidate)) id = candidate;
+                }
+                usedIds.add(id);
+                imageIdsByPath.set(source, id);
+                images.push({
+                    id,
+                    url: blob ? await blobToDataUrl(blob) : source,
+                    prompt: img.alt.trim() || id,
+                    aspectRatio: inferAspectRatio(img),
+                    uploaded: true,
+                });
+            }
+            img.id = id;
+            ['src', 'srcset', 'sizes'].forEach(attribute => img.removeAttribute(attribute));
+        }
+
+        const icon = doc.querySelector<HTMLLinkElement>('link[rel~="icon" i]');
+        const iconHref = icon?.getAttribute('href') ?? '';
+        const iconSource = iconHref.startsWith('data:') ? iconHref : resolvePath(path, iconHref);
+        if (!favicon && iconSource) {
+            const blob = files.get(iconSource);
+            if (blob || iconSource.startsWith('data:')) favicon = { url: blob ? await blobToDataUrl(blob) : iconSource, prompt: '', uploaded: true };
+            else missingFiles.add(iconSource);
+        }
+
+        const slug = slugs.get(path)!;
+        const title = doc.title.split(' | ')[0].trim() || slug;
+        pages.push({ slug, title, html: doc.documentElement.outerHTML });
+    }
+
+    // The multilingual export and the contact forms append styles; they are added again when exporting
+    const css = [...cssParts]
+        .map(part => stripFormAssets(part.replace(LANGUAGE_SWITCHER_CSS, '')).trim())
+        .filter(Boolean)
+        .join('\n\n');
+    const firstPage = parser.parseFromString(pages[0].html, 'text/html');
+    const styleElement = firstPage.createElement('style');
+    styleElement.textContent = `\n${css}\n`;
+    firstPage.head.appendChild(styleElement);
+    pages[0] = { ...pages[0], html: firstPage.documentElement.outerHTML };
+
+    let seo = restoreBaseUrl(readSeoFromPages(pages, images[0]?.id ?? null), pages, folder);
+    // The share image is an absolute URL when the base URL was set, a relative path otherwise
+    const shareImageUrl = docs.get(indexPath)!.querySelector('meta[property="og:image"]')?.getAttribute('content') ?? '';
+    const shareImagePath = /^https?:\/\//i.test(shareImageUrl) ? decodeURIComponent(new URL(shareImageUrl).pathname) : `/${resolvePath(indexPath, shareImageUrl)}`;
+    const shareImage = [...imageIdsByPath].find(([source]) => shareImagePath.endsWith(`/${source}`));
+    if (shareImage) seo = { ...seo, shareImageId: shareImage[1] };
+
+    if (missingFiles.size > 0) {
+        warnings.add(t('import.warning.missingFiles', { files: [...missingFiles].join(', ') }));
+    }
+    return {
+        name: seo.siteName || fallbackName,
+        pages,
+        images,
+        favicon,
+        seo,
+        warnings: [...warnings],
+    };
+}
@@ -0,0 +1,524 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from "@google/genai";
+import type { TextProvider, TextGenerationRequest, ImageProvider, AspectRatio } from "./aiProvider";
+import type { SiteImage, FaviconImage } from "../types";
+import { SitePage, assembleSitePages, separateInlineScripts, slugify } from "../utils/sitePages";
+import { SeoSettings, createSeoSettings, removeSeoTags } from "../utils/seo";
+import { GenerationError, RetryOptions, withRetry } from "./generationErrors";
+import { ImagePrompt, WebsiteData, parseJsonResponse, buildRepairRequest, checkImagePrompts } from "./responseValidation";
+import { BrandKit, BRAND_LOGO_ID, describeBrandKit } from "../utils/brandKit";
+import { SecurityPolicy, describeSecurityPolicy } from "../utils/security";
+import { DESIGN_TOKEN_INSTRUCTION } from "../utils/designTokens";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { inferAspectRatios } from "../utils/imagePlacement";
+import { createPlaceholderImage } from "../utils/placeholderImage";
+import { t } from "../utils/i18n";
+
+// The generation pipeline without any DOM elements of the editor, so it can also run headless (see cli/generate.ts).
+// Progress is reported through the callbacks in PipelineOptions.
+
+/** The options of the generation form. */
+export interface SiteOptions {
+    prompt: string;
+    language: string;
+    pageType: string;
+    sections: string[];
+    imageCount: number;
+    /** Pages of a multi-page site (see planPages); null for a single page. */
+    pagePlan: { slug: string; title: string }[] | null;
+    /** Languages the texts are translated into after the site was generated in `language`. */
+    extraLanguages: string[];
+    /** Only described to the model if it is enabled. */
+    brandKit: BrandKit | null;
+    securityPolicy: SecurityPolicy;
+}
+
+export interface GenerationRequest {
+    detailedPrompt: string;
+    coreIdea: string;
+    language: string;
+    /** Languages the texts are translated into after the site was generated in `language`. */
+    extraLanguages: string[];
+    pagePlan: { slug: string; title: string }[] | null;
+    imageCount: number;
+}
+
+export interface PipelineOptions extends Pick<RetryOptions, 'signal' | 'onRetry'> {
+    /** The step that is running now, e.g. for a loading indicator. */
+    onStatus?: (message: string) => void;
+    /** Called with a message after every finished step; see countGenerationSteps. */
+    onStep?: (message: string) => void;
+}
+
+export interface SiteGenerationOptions extends PipelineOptions {
+    /** A validated answer from an earlier attempt; the code generation is skipped then. */
+    websiteData?: WebsiteData;
+    /** Called once the code is validated, before the images are generated. */
+    onWebsiteData?: (websiteData: WebsiteData) => void;
+    /** Called with the text received so far while the code is streamed. */
+    onPartialText?: (text: string) => void;
+    /** Uploaded logo (data URL) that fills the header placeholder of the brand kit. */
+    logo?: string | null;
+}
+
+export interface GeneratedSite {
+    websiteData: WebsiteData;
+    pages: SitePage[];
+    images: SiteImage[];
+    favicon: FaviconImage | null;
+    seo: SeoSettings;
+}
+
+// Image requests in flight at once; more mostly runs into the provider's rate limits
+export const IMAGE_CONCURRENCY = 3;
+
+export const websiteGenerationSchema = {
+    type: Type.OBJECT,
+    properties: {
+        pageTitle: {
+            type: Type.STRING,
+            description: "A concise, SEO-friendly title for the HTML page."
+        },
+        metaDescription: {
+            type: Type.STRING,
+            description: "A concise summary of the page content for search engines (150-160 characters)."
+        },
+        metaKeywords: {
+            type: Type.STRING,
+            description: "Comma-separated list of 5-10 relevant keywords for SEO."
+        },
+        faviconPrompt: {
+            type: Type.STRING,
+            description: "A very simple, minimal description for a square app icon or logo for this website (e.g., 'Minimalist blue hexagon logo')."
+        },
+        structuredData: {
+            type: Type.STRING,
+            description: "schema.org JSON-LD for the home page as a JSON string, using the type that fits the kind of website (e.g. Organization, LocalBusiness, Product, Person, BlogPosting). Only use facts from the request; omit unknown fields instead of inventing addresses or phone numbers."
+        },
+        htmlContent: {
+            type: Type.STRING,
+            description: "The complete, well-structured, and well-indented HTML code for the website. This should include a <head> with a <style> tag for modern, responsive, and well-formatted CSS, and a <body>. Use semantic HTML5 tags. Image placeholders should have unique `id` attributes, e.g., `<img id='hero-image' alt='...'>`."
+        },
+        imagePrompts: {
+            type: Type.ARRAY,
+            description: "An array of objects, each describing an image to be generated for the website.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: {
+                        type: Type.STRING,
+                        description: "The unique ID of the <img> element in the HTML where this image should be placed."
+                    },
+                    prompt: {
+                        type: Type.STRING,
+                        description: "A simple, concise prompt (3-10 words) for an image that fits the website's theme. This will be enhanced by another AI later."
+                    }
+                },
+                required: ["id", "prompt"]
+            }
+        }
+    },
+    required: ["pageTitle", "metaDescription", "metaKeywords", "faviconPrompt", "structuredData", "htmlContent", "imagePrompts"]
+};
+
+export const multiPageWebsiteSchema = {
+    type: Type.OBJECT,
+    properties: {
+        pageTitle: websiteGenerationSchema.properties.pageTitle,
+        metaDescription: websiteGenerationSchema.properties.metaDescription,
+        metaKeywords: websiteGenerationSchema.properties.metaKeywords,
+        faviconPrompt: websiteGenerationSchema.properties.faviconPrompt,
+        structuredData: websiteGenerationSchema.properties.structuredData,
+        sharedCss: {
+            type: Type.STRING,
+            description: "The complete, well-formatted CSS shared by all pages (no <style> tag). Must cover the header, navigation, footer and the content of every page."
+        },
+        headerHtml: {
+            type: Type.STRING,
+            description: "The shared <header> element with the responsive navigation. Navigation links MUST point to the page files, e.g. href=\"about.html\" (the home page is index.html)."
+        },
+        footerHtml: {
+            type: Type.STRING,
+            description: "The shared <footer> element, followed by a <script> tag that toggles the mobile navigation."
+        },
+        pages: {
+            type: Type.ARRAY,
+            description: "One entry per requested page, in the requested order.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    slug: {
+                        type: Type.STRING,
+                        description: "The exact slug requested for this page, used as the file name (slug + '.html')."
+                    },
+                    title: {
+                        type: Type.STRING,
+                        description: "The human-readable page title."
+                    },
+                    mainHtml: {
+                        type: Type.STRING,
+                        description: "The content of the page's <main> element (without the <main> tag itself), built from semantic <section> elements. Image placeholders need ids that are unique across ALL pages."
+                    }
+                },
+                required: ["slug", "title", "mainHtml"]
+            }
+        },
+        imagePrompts: websiteGenerationSchema.properties.imagePrompts
+    },
+    required: ["pageTitle", "metaDescription", "metaKeywords", "faviconPrompt", "structuredData", "sharedCss", "headerHtml", "footerHtml", "pages", "imagePrompts"]
+};
+
+function singlePageSystemInstruction(language: string): string {
+    return `You are a world-class AI web designer. Your task is to generate a complete, single-page website based on the user's detailed request.
+- The entire website, including all text content, headings, and labels, MUST be in ${language}.
+- Ensure the generated HTML and the CSS within the <style> tag are well-formatted with proper indentation for readability.
+- **Responsive Navigation:** You MUST include a responsive navigation bar in the <header>.
+  - On desktop: Display navigation links horizontally.
+  - On mobile: Display a hamburger menu icon. When clicked, it should toggle the navigation links.
+  - Links: Include navigation links that anchor to the specific sections of the page (e.g., href="#about").
+  - JS: Include a simple <script> tag at the end of the <body> to handle the mobile menu interaction (toggling a class like 'active' on the menu).
+- Use the year 2025 for any copyright notices or dates in the footer. Do not use 2023 or 2024.
+- Create modern, responsive, and aesthetically pleasing HTML and CSS.
+- The CSS must be included within a <style> tag in the <head>.
+${DESIGN_TOKEN_INSTRUCTION}
+- Use semantic HTML5 tags (e.g., <header>, <main>, <section>, <footer>).
+- For images, create placeholders like \`<img id="unique-image-id-1" alt="descriptive alt text">\` where the image should go.
+- The 'id' for each image placeholder must be unique.
+- Generate a simple, concise prompt (3-10 words) for each image placeholder. This prompt will be enhanced by another AI later.
+- Your entire response MUST be a single JSON object that strictly follows the provided schema. Do not include any markdown formatting (like \`\`\`json) or any other text outside of the JSON object.`;
+}
+
+function multiPageSystemInstruction(language: string): string {
+    return `You are a world-class AI web designer. Your task is to generate a complete multi-page website based on the user's detailed request.
+- The entire website, including all text content, headings, and labels, MUST be in ${language}.
+- All pages share ONE stylesheet (sharedCss), ONE header with the navigation (headerHtml) and ONE footer (footerHtml). Only the <main> content differs per page.
+- **Responsive Navigation:** The shared <header> MUST contain a responsive navigation bar.
+  - On desktop: Display navigation links horizontally.
+  - On mobile: Display a hamburger menu icon. When clicked, it should toggle the navigation links.
+  - Links: Link to the page files using the requested slugs (e.g., href="about.html"); the home page is "index.html". Do NOT link to in-page anchors for other pages.
+  - JS: Append a simple <script> tag after the <footer> in footerHtml to handle the mobile menu interaction (toggling a class like 'active' on the menu).
+- Use the year 2025 for any copyright notices or dates in the footer. Do not use 2023 or 2024.
+- Create modern, responsive, and aesthetically pleasing, well-indented HTML and CSS.
+${DESIGN_TOKEN_INSTRUCTION}
+- Use semantic HTML5 tags (e.g., <section>) inside each page's main content.
+- For images, create placeholders like \`<img id="unique-image-id-1" alt="descriptive alt text">\` where the image should go. Image ids must be unique across all pages.
+- Generate a simple, concise prompt (3-10 words) for each image placeholder. This prompt will be enhanced by another AI later.
+- Your entire response MUST be a single JSON object that strictly follows the provided schema. Do not include any markdown formatting (like \`\`\`json) or any other text outside of the JSON object.`;
+}
+
+/** Turns the form options into the detailed prompt for the model. */
+export function buildGenerationRequest(options: SiteOptions): GenerationRequest {
+    const { prompt, language, pageType, sections, imageCount, pagePlan, extraLanguages } = options;
+
+    let detailedPrompt = `Generate a website based on this core idea: "${prompt}".\n\n`;
+    detailedPrompt += `**Website Structure Constraints:**\n`;
+    detailedPrompt += `- **Language:** The text content of the website MUST be written in ${language}.\n`;
+    detailedPrompt += `- **Page Type:** This should be structured as a "${pageType}".\n`;
+    if (pagePlan) {
+        detailedPrompt += `- **Pages:** The website consists of exactly these pages, in this order (slug: title): ${pagePlan.map(p => `${p.slug}: ${p.title}`).join('; ')}.\n`;
+        detailedPrompt += `- **Navigation:** The shared header MUST include a responsive navigation menu. On desktop, show links horizontally. On mobile, show a hamburger menu that toggles the links. The menu must link to every page file (e.g. href="${pagePlan[1].slug}.html"), not to anchors.\n`;
+        if (sections.length > 0) {
+            detailedPrompt += `- **Required Sections:** Distribute the following sections across the pages where they fit best: ${sections.join(', ')}.\n`;
+        }
+    } else {
+        detailedPrompt += `- **Navigation:** The website MUST include a responsive navigation menu. On desktop, show links horizontally. On mobile, show a hamburger menu that toggles the links. The menu must include anchor links to the following sections: ${sections.join(', ')}.\n`;
+        if (sections.length > 0) {
+            detailedPrompt += `- **Required Sections:** The website MUST include the following sections in a logical order: ${sections.join(', ')}.\n`;
+        }
+    }
+    detailedPrompt += `- **Image Count:** Generate exactly ${imageCount} unique placeholder images for the site. Ensure the 'imagePrompts' array in your response contains ${imageCount} items.\n`;
+    detailedPrompt += `- **Date:** The current year is 2025. Ensure all dates and copyright notices use the year 2025.\n`;
+    if (extraLanguages.length > 0) {
+        detailedPrompt += `- **Languages:** The texts will be translated into ${extraLanguages.join(', ')} later. Leave room in the header for a small language switcher, and don't rely on text fitting an exact width.\n`;
+    }
+    if (options.brandKit?.enabled) {
+        detailedPrompt += describeBrandKit(options.brandKit);
+    }
+    detailedPrompt += describeSecurityPolicy(options.securityPolicy);
+    detailedPrompt += `\nRespond with ONLY the JSON object, adhering strictly to the provided schema.`;
+
+    return { detailedPrompt, coreIdea: prompt, language, extraLanguages, pagePlan, imageCount };
+}
+
+/** Steps of generateSite once the code has arrived: the code itself, two per image (prompt and image) and the favicon. */
+export function countGenerationSteps(websiteData: WebsiteData): number {
+    return 1 + websiteData.imagePrompts.length * 2 + 1;
+}
+
+/**
+ * Generates the code, the images and the favicon of a new site. The texts stay in the
+ * generation language; translations are added by the caller.
+ */
+export async function generateSite(
+    providers: { text: TextProvider; image: ImageProvider },
+    request: GenerationRequest,
+    options: SiteGenerationOptions = {}
+): Promise<GeneratedSite> {
+    const { coreIdea, language, pagePlan } = request;
+    const { signal } = options;
+
+    let websiteData = options.websiteData;
+    if (!websiteData) {
+        options.onStatus?.(t('loading.structure'));
+        websiteData = await requestWebsiteData(providers.text, request, options);
+    }
+    options.onWebsiteData?.(websiteData);
+
+    let pages: SitePage[];
+    if ('pages' in websiteData) {
+        // Keep the requested slugs stable even if the model renamed them
+        websiteData.pages.forEach((page, i) => {
+            page.slug = pagePlan?.[i]?.slug ?? slugify(page.slug || page.title);
+        });
+        pages = assembleSitePages(websiteData, language, websiteData.pageTitle);
+    } else {
+        pages = [{ slug: 'index', title: websiteData.pageTitle, html: websiteData.htmlContent }];
+    }
+    options.onStep?.(t('loading.structureDone'));
+
+    // --- Image & Favicon Generation ---
+    // Pass coreIdea to improvement step so the AI knows the website context
+    const aspectRatios = inferAspectRatios(pages.map(page => page.html));
+    const placedPrompts = websiteData.imagePrompts.map(p => ({ ...p, aspectRatio: aspectRatios.get(p.id) }));
+    const improvedPrompts = await improveImagePrompts(providers.text, placedPrompts, coreIdea, options);
+    const favicon = await generateFavicon(providers.image, websiteData.faviconPrompt, options);
+
+    const images = await generateImages(providers.image, improvedPrompts, options);
+    // The uploaded logo fills its header placeholder like a generated image and is exported with them
+    if (options.logo) {
+        images.push({ id: BRAND_LOGO_ID, url: options.logo, prompt: 'Logo', uploaded: true });
+    }
+
+    const seo = createSeoSettings(pages, {
+        siteName: websiteData.pageTitle,
+        description: websiteData.metaDescription,
+        keywords: websiteData.metaKeywords,
+        jsonLd: websiteData.structuredData ?? '',
+    }, images[0]?.id ?? null);
+
+    signal?.throwIfAborted();
+    return { websiteData, pages, images, favicon, seo };
+}
+
+/** Streams the website code from the model and validates it (see ensureValidWebsiteData). */
+export async function requestWebsiteData(
+    textProvider: TextProvider,
+    request: GenerationRequest,
+    options: Pick<SiteGenerationOptions, 'signal' | 'onRetry' | 'onStatus' | 'onPartialText'> = {}
+): Promise<WebsiteData> {
+    const { language, pagePlan } = request;
+    const textRequest: TextGenerationRequest = {
+        purpose: pagePlan ? 'website-multipage' : 'website',
+        contents: request.detailedPrompt,
+        systemInstruction: pagePlan ? multiPageSystemInstruction(language) : singlePageSystemInstruction(language),
+        responseSchema: pagePlan ? multiPageWebsiteSchema : websiteGenerationSchema,
+        temperature: 0.2,
+        signal: options.signal,
+        onPartialText: options.onPartialText,
+    };
+    const response = await withRetry(() => textProvider.generateText(textRequest), options);
+    return ensureValidWebsiteData(textProvider, response.text, textRequest, request, options);
+}
+
+/**
+ * Parses and validates the website JSON: against the schema, and the image prompts against the placeholders in the HTML.
+ * If that fails, the model is asked once to repair its answer. Image problems that remain are recovered from
+ * (see checkImagePrompts); an answer that still doesn't match the schema fails the generation.
+ */
+async function ensureValidWebsiteData(
+    textProvider: TextProvider,
+    text: string,
+    textRequest: TextGenerationRequest,
+    request: GenerationRequest,
+    options: PipelineOptions
+): Promise<WebsiteData> {
+    let check = checkWebsiteResponse(text, request);
+    if (check.problems.length > 0) {
+        console.warn("Website response failed validation, asking for a repair:", check.problems);
+        options.onStatus?.(t('loading.repairing'));
+        const repaired = await withRetry(() => textProvider.generateText(buildRepairRequest(textRequest, text, check.problems)), options);
+        const repairedCheck = checkWebsiteResponse(repaired.text, request);
+        if (repairedCheck.data && (!check.data || repairedCheck.problems.length <= check.problems.length)) {
+            check = repairedCheck;
+        }
+    }
+    if (!check.data) {
+        throw new GenerationError('invalid-response', check.problems.join('\n'));
+    }
+    if (check.problems.length > 0) {
+        console.warn("Continuing with recovered image prompts:", check.problems);
+    }
+    return check.data;
+}
+
+/** `data` is null if the answer is unusable; otherwise its image prompts are already cleaned up. */
+function checkWebsiteResponse(text: string, request: GenerationRequest): { data: WebsiteData | null; problems: string[] } {
+    const parsed = parseJsonResponse<WebsiteData>(text, request.pagePlan ? multiPageWebsiteSchema : websiteGenerationSchema);
+    const data = parsed.data;
+    if (!data) return parsed;
+    if (request.pagePlan && 'pages' in data && data.pages.length !== request.pagePlan.length) {
+        return { data: null, problems: [`$.pages must contain exactly ${request.pagePlan.length} pages, but has ${data.pages.length}`] };
+    }
+
+    const htmlParts = 'pages' in data
+        ? [data.headerHtml, data.footerHtml, ...data.pages.map(page => page.mainHtml)]
+        : [data.htmlContent];
+    const imageCheck = checkImagePrompts(htmlParts, data.imagePrompts, request.imageCount, [BRAND_LOGO_ID]);
+    return { data: { ...data, imagePrompts: imageCheck.prompts }, problems: imageCheck.problems };
+}
+
+export async function improveImagePrompts<T extends ImagePrompt>(
+    textProvider: TextProvider,
+    prompts: T[],
+    coreIdea: string,
+    options: PipelineOptions = {}
+): Promise<T[]> {
+    const { signal } = options;
+    let improvedCount = 0;
+    options.onStatus?.(t('loading.improvingPrompts', { done: 0, total: prompts.length }));
+
+    const systemInstruction = `You are an expert art director and prompt engineer. Your goal is to refine simple image descriptions into highly detailed, photorealistic prompts suitable for high-quality image generation models.
+
+Context:
+The user is building a website with the following core idea: "${coreIdea}".
+All image prompts must be stylistically consistent with this theme.
+
+Guidelines:
+- **Details:** Add specific details about lighting (e.g., natural, studio, cinematic), composition (e.g., rule of thirds, depth of field), and texture.
+- **Style:** Ensure a consistent, professional, and photorealistic style unless the context suggests otherwise (e.g., a cartoon site).
+- **Clarity:** Keep the prompt focused on the visual elements. Avoid abstract concepts that are hard to visualize.
+- **Output:** Return ONLY the refined prompt text. Do not add labels like "Refined Prompt:".
+
+Example:
+Input: "A photo of a coffee shop."
+Refined: "A cozy, sunlit interior of a modern coffee shop with rustic wooden tables, a barista pouring latte art in the background, warm golden hour lighting, 4k resolution, highly detailed."`;
+
+    // Process prompts in parallel but don't hold up progress UI too much
+    const improvedPromptsPromises = prompts.map(async (p, index) => {
+        try {
+            const response = await withRetry(() => textProvider.generateText({
+                purpose: 'image-prompt',
+                contents: `Original prompt: "${p.prompt}"\n\nRefine this prompt to be photorealistic and relevant to the website context provided in the system instructions.`,
+                systemInstruction: systemInstruction,
+                thinkingBudget: 0,
+                temperature: 0.7,
+                signal,
+            }), { signal });
+            return { ...p, prompt: response.text.trim() };
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.warn(`Failed to improve prompt for ID ${p.id}: "${p.prompt}"`, error);
+            return p;
+        } finally {
+            if (!signal?.aborted) options.onStep?.(t('loading.improvingPrompts', { done: ++improvedCount, total: prompts.length }));
+        }
+    });
+
+    return Promise.all(improvedPromptsPromises);
+}
+
+export async function generateFavicon(imageProvider: ImageProvider, prompt: string, options: PipelineOptions = {}): Promise<FaviconImage | null> {
+    const { signal } = options;
+    options.onStatus?.(t('loading.favicon'));
+    try {
+        const [image] = await withRetry(() => imageProvider.generateImages({
+            purpose: 'favicon',
+            prompt: `A modern, minimalist, vector-style logo icon. ${prompt}. High contrast, simple shapes, professional, white background.`,
+            aspectRatio: '1:1',
+            signal,
+        }), options);
+        return { url: image.url, prompt: prompt };
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Failed to generate favicon:", error);
+        return null;
+    } finally {
+        if (!signal?.aborted) options.onStep?.(t('loading.faviconDone'));
+    }
+}
+
+export async function generateImages(
+    imageProvider: ImageProvider,
+    prompts: (ImagePrompt & { aspectRatio?: AspectRatio })[],
+    options: PipelineOptions = {}
+): Promise<SiteImage[]> {
+    let generatedCount = 0;
+    options.onStatus?.(t('loading.images', { done: 0, total: prompts.length }));
+
+    return mapWithConcurrency(prompts, IMAGE_CONCURRENCY, async p => {
+        const image = await generateSiteImage(imageProvider, p.id, p.prompt, p.aspectRatio ?? '16:9', options);
+        options.onStep?.(t('loading.images', { done: ++generatedCount, total: prompts.length }));
+        return image;
+    });
+}
+
+/**
+ * Generates one image with retries. If it still fails, a local placeholder showing the prompt takes its place,
+ * so the site stays usable offline and in exports, and the image is flagged for a retry from the gallery.
+ */
+export async function generateSiteImage(
+    imageProvider: ImageProvider,
+    id: string,
+    prompt: string,
+    aspectRatio: AspectRatio,
+    options: PipelineOptions = {}
+): Promise<SiteImage> {
+    const { signal } = options;
+    try {
+        const [image] = await withRetry(() => imageProvider.generateImages({
+            purpose: 'image',
+            prompt,
+            aspectRatio,
+            signal,
+        }), options);
+        return { id, url: image.url, prompt, aspectRatio };
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`Failed to generate image for prompt: "${prompt}"`, error);
+        return { id, url: createPlaceholderImage(prompt, aspectRatio, t('images.placeholderLabel')), prompt, aspectRatio, failed: true };
+    }
+}
+
+/**
+ * Splits generated pages into what the editor keeps separately: the page HTML (without SEO tags,
+ * which live in SeoSettings, and with the favicon link), the shared CSS and the inline scripts.
+ * All pages share one stylesheet, so the first page's <style> becomes the CSS.
+ */
+export function prepareSitePages(pages: SitePage[], favicon: FaviconImage | null): { pages: SitePage[]; css: string; js: string } {
+    let css = '';
+    const preparedPages = pages.map((page, i) => {
+        const prepared = preparePageDocument(page.html, favicon);
+        if (i === 0) css = prepared.css;
+        return { ...page, html: prepared.html };
+    });
+    // Inline scripts (e.g. the hamburger menu) are kept apart as well
+    return { ...separateInlineScripts(preparedPages), css };
+}
+
+function preparePageDocument(html: string, favicon: FaviconImage | null): { html: string, css: string } {
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(html, 'text/html');
+
+    // Title, meta tags and JSON-LD are edited in the SEO tab and written on export
+    removeSeoTags(doc);
+
+    // Inject Favicon
+    if (favicon) {
+        let link = doc.querySelector("link[rel*='icon']") as HTMLLinkElement;
+        if (!link) {
+            link = doc.createElement('link');
+            link.rel = 'icon';
+            doc.head.appendChild(link);
+        }
+        link.type = favicon.url.substring(5, favicon.url.indexOf(';'));
+        link.href = favicon.url;
+    }
+
+    const styleElement = doc.querySelector('style');
+    const css = styleElement?.textContent || '';
+    styleElement?.remove(); // Remove from the parsed doc so it's not in the HTML editor
+    return { html: doc.documentElement.outerHTML, css };
+}
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SiteImage, FaviconImage } from "../types";
+import type { SitePage } from "../utils/sitePages";
+import { openDatabase, promisify, transactionDone, dataUrlToBlob, blobToDataUrl } from "./database";
+
+/** A named, frozen copy of a project's site. Images are data URLs. */
+export interface SnapshotData {
+    id: string;
+    projectId: string;
+    name: string;
+    createdAt: number;
+    css: string;
+    js: string;
+    pages: SitePage[];
+    images: SiteImage[];
+    favicon: FaviconImage | null;
+}
+
+export interface SnapshotSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    pageCount: number;
+    imageCount: number;
+}
+
+/**
+ * Snapshots keep their own copy of every image as a Blob, so they stay intact
+ * when the project's images are regenerated or deleted later.
+ */
+interface SnapshotRecord extends Omit<SnapshotData, 'images' | 'favicon'> {
+    images: (Omit<SiteImage, 'url'> & { blob?: Blob; remoteUrl?: string })[];
+    favicon: (Omit<FaviconImage, 'url'> & { blob?: Blob; remoteUrl?: string }) | null;
+}
+
+function createSnapshotId(): string {
+    return `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function toStoredImage<T extends { url: string }>({ url, ...rest }: T) {
+    return url.startsWith('data:')
+        ? { ...rest, blob: await dataUrlToBlob(url) }
+        : { ...rest, remoteUrl: url };
+}
+
+async function fromStoredImage<T extends { blob?: Blob; remoteUrl?: string }>({ blob, remoteUrl, ...rest }: T) {
+    return { ...rest, url: blob ? await blobToDataUrl(blob) : remoteUrl ?? '' };
+}
+
+export async function listSnapshots(projectId: string): Promise<SnapshotSummary[]> {
+    const db = await openDatabase();
+    const store = db.transaction('snapshots').objectStore('snapshots');
+    const records = await promisify<SnapshotRecord[]>(store.index('projectId').getAll(projectId));
+    return records
+        .map(record => ({
+            id: record.id,
+            name: record.name,
+            createdAt: record.createdAt,
+            pageCount: record.pages.length,
+            imageCount: record.images.length,
+        }))
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function loadSnapshot(id: string): Promise<SnapshotData | null> {
+    const db = await openDatabase();
+    const record = await promisify<SnapshotRecord | undefined>(db.transaction('snapshots').objectStore('snapshots').get(id));
+    if (!record) return null;
+
+    const images: SiteImage[] = [];
+    for (const image of record.images) {
+        images.push(await fromStoredImage(image));
+    }
+    return {
+        ...record,
+        js: record.js ?? '',
+        images,
+        favicon: record.favicon ? await fromStoredImage(record.favicon) : null,
+    };
+}
+
+export async function saveSnapshot(snapshot: Omit<SnapshotData, 'id' | 'createdAt'>): Promise<string> {
+    // Convert images before opening the transaction; it would auto-commit while we await fetch()
+    const images: SnapshotRecord['images'] = [];
+    for (const image of snapshot.images) {
+        images.push(await toStoredImage(image));
+    }
+    const record: SnapshotRecord = {
+        ...snapshot,
+        id: createSnapshotId(),
+        createdAt: Date.now(),
+        images,
+        favicon: snapshot.favicon ? await toStoredImage(snapshot.favicon) : null,
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction('snapshots', 'readwrite');
+    transaction.objectStore('snapshots').put(record);
+    await transactionDone(transaction);
+    return record.id;
+}
+
+export async function renameSnapshot(id: string, name: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction('snapshots', 'readwrite');
+    const store = transaction.objectStore('snapshots');
+    const record = await promisify<SnapshotRecord | undefined>(store.get(id));
+    if (record) store.put({ ...record, name });
+    await transactionDone(transaction);
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction('snapshots', 'readwrite');
+    transaction.objectStore('snapshots').delete(id);
+    await transactionDone(transaction);
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from "@google/genai";
+import type { TextProvider } from "./aiProvider";
+import { GenerationError } from "./generationErrors";
+
+export const translationSchema = {
+    type: Type.OBJECT,
+    properties: {
+        translations: {
+            type: Type.ARRAY,
+            description: "The translated texts, in the same order as the input and exactly one per input text.",
+            items: { type: Type.STRING }
+        }
+    },
+    required: ["translations"]
+};
+
+// Keeps each answer small enough to stay within the output limits of smaller models
+const TEXTS_PER_REQUEST = 80;
+
+const TRANSLATION_SYSTEM_INSTRUCTION = `You are a professional website translator and copywriter.
+- You get a JSON array of texts taken from one website. Translate every text into the target language and return the translations in the same order, exactly one per input text.
+- Texts can be fragments of one sentence that is split by links or other inline markup; translate them so they still read naturally when put back together in order.
+- Keep brand and product names, e-mail addresses, URLs, phone numbers and prices unchanged. Adapt date and number formats to the target language.
+- Keep the tone of the original and the length roughly the same, so the layout still fits.
+- Your entire response MUST be a single JSON object that strictly follows the provided schema.`;
+
+/** Translates the texts of a site, returning them in the same order. */
+export async function requestTranslations(
+    provider: TextProvider,
+    options: {
+        texts: string[];
+        sourceLanguage: string;
+        targetLanguage: string;
+        /** What the site is about, so ambiguous words are translated in context. */
+        context: string;
+        signal?: AbortSignal;
+    }
+): Promise<string[]> {
+    const translations: string[] = [];
+    for (let start = 0; start < options.texts.length; start += TEXTS_PER_REQUEST) {
+        const texts = options.texts.slice(start, start + TEXTS_PER_REQUEST);
+        const response = await provider.generateText({
+            purpose: 'translation',
+            contents: `Website: ${options.context}\n`
+                + `Source language: ${options.sourceLanguage}\n`
+                + `Target language: ${options.targetLanguage}\n\n`
+                + `Texts:\n${JSON.stringify(texts, null, 2)}\n\n`
+                + `Respond with ONLY the JSON object.`,
+            systemInstruction: TRANSLATION_SYSTEM_INSTRUCTION,
+            responseSchema: translationSchema,
+            temperature: 0.2,
+            signal: options.signal,
+        });
+
+        const data = JSON.parse(response.text) as { translations?: unknown };
+        if (!Array.isArray(data.translations) || data.translations.length !== texts.length) {
+            throw new GenerationError('invalid-response', `Expected ${texts.length} translations, got ${Array.isArray(data.translations) ? data.translations.length : 'none'}.`);
+        }
+        translations.push(...data.translations.map(String));
+    }
+    return translations;
+}
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { TextProvider, ImageProvider, TextGenerationResult, ProviderId, TokenUsage } from "./aiProvider";
+
+// --- RECORDS ---
+
+/** One request to a model, successful or not. */
+export interface ModelCall {
+    /** The `purpose` of the request, e.g. "website" or "image-prompt". */
+    purpose: string;
+    kind: 'text' | 'image';
+    provider: ProviderId;
+    model: string;
+    startedAt: number;
+    durationMs: number;
+    /** Null for image calls, failed calls and APIs that don't report usage. */
+    usage: TokenUsage | null;
+    imageCount: number;
+    failed: boolean;
+}
+
+/** What a run of model calls was started by. */
+export type UsageRunKind = 'generation' | 'refinement' | 'section' | 'images' | 'translation';
+
+/** The model calls of one user action, e.g. a click on "generate". */
+export interface UsageRun {
+    kind: UsageRunKind;
+    startedAt: number;
+    calls: ModelCall[];
+}
+
+export function createUsageRun(kind: UsageRunKind): UsageRun {
+    return { kind, startedAt: Date.now(), calls: [] };
+}
+
+function trackTextProvider(provider: TextProvider, model: string, onCall: (call: ModelCall) => void): TextProvider {
+    return {
+        id: provider.id,
+        async generateText(request) {
+            const startedAt = Date.now();
+            const record = (result: TextGenerationResult | null) => onCall({
+                purpose: request.purpose,
+                kind: 'text',
+                provider: provider.id,
+                model,
+                startedAt,
+                durationMs: Date.now() - startedAt,
+                usage: result?.usage ?? null,
+                imageCount: 0,
+                failed: !result,
+            });
+            try {
+                const result = await provider.generateText(request);
+                record(result);
+                return result;
+            } catch (error) {
+                record(null);
+                throw error;
+            }
+        },
+    };
+}
+
+function trackImageProvider(provider: ImageProvider, model: string, onCall: (call: ModelCall) => void): ImageProvider {
+    return {
+        id: provider.id,
+        async generateImages(request) {
+            const startedAt = Date.now();
+            const record = (imageCount: number | null) => onCall({
+                purpose: request.purpose,
+                kind: 'image',
+                provider: provider.id,
+                model,
+                startedAt,
+                durationMs: Date.now() - startedAt,
+                usage: null,
+                imageCount: imageCount ?? 0,
+                failed: imageCount === null,
+            });
+            try {
+                const images = await provider.generateImages(request);
+                record(images.length);
+                return images;
+            } catch (error) {
+                record(null);
+                throw error;
+            }
+        },
+    };
+}
+
+/** Wraps the providers so that every call, including retries and failures, is added to `run`. */
+export function trackUsage(
+    providers: { text: TextProvider; image: ImageProvider },
+    models: { text: string; image: string },
+    run: UsageRun
+): { text: TextProvider; image: ImageProvider } {
+    const onCall = (call: ModelCall) => run.calls.push(call);
+    return {
+        text: trackTextProvider(providers.text, models.text, onCall),
+        image: trackImageProvider(providers.image, models.image, onCall),
+    };
+}
+
+export function summarizeUsage(calls: ModelCall[]) {
+    return calls.reduce((sum, call) => ({
+        inputTokens: sum.inputTokens + (call.usage?.inputTokens ?? 0),
+        outputTokens: sum.outputTokens + (call.usage ? call.usage.outputTokens + call.usage.thinkingTokens : 0),
+        images: sum.images + call.imageCount,
+        durationMs: sum.durationMs + call.durationMs,
+    }), { inputTokens: 0, outputTokens: 0, images: 0, durationMs: 0 });
+}
+
+// --- PRICES ---
+
+/** US dollars per million tokens and per image. */
+export interface ModelPrice {
+    input: number;
+    output: number;
+    image: number;
+}
+
+/** Prices by model name as used in the provider settings. */
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices at the time of writing; teams with other contracts can edit them in the settings
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50, image: 0 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40, image: 0 },
+    'gemini-2.5-pro': { input: 1.25, output: 10, image: 0 },
+    'imagen-4.0-fast-generate-001': { input: 0, output: 0, image: 0.02 },
+    'imagen-4.0-generate-001': { input: 0, output: 0, image: 0.04 },
+    'imagen-4.0-ultra-generate-001': { input: 0, output: 0, image: 0.06 },
+    'dall-e-3': { input: 0, output: 0, image: 0.04 },
+    'mock': { input: 0, output: 0, image: 0 },
+};
+
+/** Parses "model input output image" lines; a decimal comma is accepted, incomplete lines are ignored. */
+export function parsePriceTable(text: string): PriceTable {
+    const table: PriceTable = {};
+    text.split('\n').forEach(line => {
+        const [model, ...values] = line.trim().split(/\s+/);
+        const [input, output, image] = values.map(value => Number(value.replace(',', '.')));
+        if (model && values.length === 3 && [input, output, image].every(price => Number.isFinite(price) && price >= 0)) {
+            table[model] = { input, output, image };
+        }
+    });
+    return table;
+}
+
+export function formatPriceTable(table: PriceTable): string {
+    return Object.entries(table).map(([model, price]) => `${model} ${price.input} ${price.output} ${price.image}`).join('\n');
+}
+
+/** Cost of one call in US dollars, or null if the model has no price or the API reported no usage. */
+export function callCost(call: ModelCall, prices: PriceTable): number | null {
+    // Failed requests are not billed
+    if (call.failed) return 0;
+    const price = prices[call.model];
+    if (!price) return null;
+    if (call.kind === 'image') return call.imageCount * price.image;
+    if (!call.usage) return null;
+    return (call.usage.inputTokens * price.input + (call.usage.outputTokens + call.usage.thinkingTokens) * price.output) / 1_000_000;
+}
+
+export interface CostEstimate {
+    /** US dollars for the calls that could be priced. */
+    cost: number;
+    /** Models of the calls that could not be priced; the cost is too low if there are any. */
+    unpricedModels: string[];
+}
+
+export function estimateCost(calls: ModelCall[], prices: PriceTable): CostEstimate {
+    const unpricedModels = new Set<string>();
+    const cost = calls.reduce((sum, call) => {
+        const price = callCost(call, prices);
+        if (price === null) unpricedModels.add(call.model);
+        return sum + (price ?? 0);
+    }, 0);
+    return { cost, unpricedModels: [...unpricedModels] };
+}
+
+// Token counts of typical calls, for the estimate before a run. On the high side, since the
+// budget check should rather ask once too often than let a run exceed the budget.
+const TYPICAL_TOKENS = {
+    'website': { input: 4000, output: 10000 },
+    'image-prompt': { input: 400, output: 150 },
+    'refine': { input: 12000, output: 4000 },
+    'section': { input: 8000, output: 3000 },
+    'translation': { input: 5000, output: 5000 },
+};
+
+export type TypicalCall = keyof typeof TYPICAL_TOKENS;
+
+/** Expected cost of a run before it starts: the text calls by type and count, plus the images. */
+export function estimateRunCost(
+    textCalls: Partial<Record<TypicalCall, number>>,
+    imageCount: number,
+    models: { text: string; image: string },
+    prices: PriceTable
+): number {
+    const textPrice = prices[models.text];
+    const textCost = textPrice ? Object.entries(textCalls).reduce((sum, [call, count]) => {
+        const tokens = TYPICAL_TOKENS[call as TypicalCall];
+        return sum + (count ?? 0) * (tokens.input * textPrice.input + tokens.output * textPrice.output) / 1_000_000;
+    }, 0) : 0;
+    return textCost + imageCount * (prices[models.image]?.image ?? 0);
+}
+
+// --- SETTINGS ---
+
+export interface UsageSettings {
+    prices: PriceTable;
+    /** US dollars per browser session; null for no limit. */
+    sessionBudget: number | null;
+}
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+    prices: DEFAULT_PRICE_TABLE,
+    sessionBudget: null,
+};
+
+const USAGE_SETTINGS_KEY = 'ai-website-gen-usage';
+
+export function loadUsageSettings(): UsageSettings {
+    try {
+        const saved = localStorage.getItem(USAGE_SETTINGS_KEY);
+        if (saved) {
+            return { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(saved) };
+        }
+    } catch (e) {
+        console.warn("Could not read usage settings, using defaults.", e);
+    }
+    return { ...DEFAULT_USAGE_SETTINGS };
+}
+
+export function saveUsageSettings(settings: UsageSettings) {
+    try {
+        localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn("Could not save usage settings.", e);
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { AspectRatio } from "./services/aiProvider";
+
+/** An image placed into an `<img id="...">` placeholder of the generated site. */
+export interface SiteImage {
+    id: string;
+    /** Data URL of the image. */
+    url: string;
+    prompt: string;
+    aspectRatio?: AspectRatio;
+    /** Set for images the user uploaded instead of generating. */
+    uploaded?: boolean;
+    /** Set when generation failed and `url` is a local placeholder that can be retried from the gallery. */
+    failed?: boolean;
+}
+
+export interface FaviconImage {
+    url: string;
+    prompt: string;
+    uploaded?: boolean;
+}
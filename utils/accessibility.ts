@@ -0,0 +1,549 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SiteImage } from "../types";
+import { parseCssBlocks } from "./cssRules";
+import { t } from "./i18n";
+
+export type AuditRule = 'image-alt' | 'contrast' | 'heading-order' | 'lang' | 'menu-toggle';
+
+export interface AuditDocuments {
+    /** The current page as shown in the HTML editor. */
+    html: string;
+    css: string;
+    js: string;
+}
+
+export interface AuditFix {
+    label: string;
+    apply: (documents: AuditDocuments) => AuditDocuments;
+}
+
+export interface AuditFinding {
+    rule: AuditRule;
+    severity: 'error' | 'warning';
+    message: string;
+    /** Editor and 1-based line of the offending code, if it could be located. */
+    location: { editor: keyof AuditDocuments; line: number } | null;
+    fix?: AuditFix;
+}
+
+export interface AuditOptions {
+    images: SiteImage[];
+    /** Language code the site should declare, e.g. 'de'. */
+    lang: string;
+}
+
+interface Rgba { r: number; g: number; b: number; a: number }
+
+interface SourceRange { start: number; end: number }
+
+/** A style rule with absolute positions in the stylesheet. */
+interface CssRuleEntry {
+    selector: string;
+    content: string;
+    start: number;
+    contentStart: number;
+    media: string | null;
+    order: number;
+}
+
+// WCAG 2.1 AA: 4.5:1 for body text, 3:1 for large text (24px, or 18.66px bold)
+const MIN_CONTRAST = 4.5;
+const MIN_CONTRAST_LARGE = 3;
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: Rgba = { r: 0, g: 0, b: 0, a: 1 };
+
+const GENERIC_ALT_TEXT = /^(bild|image|img|foto|photo|picture|pic|grafik|graphic|placeholder|platzhalter|imagen|immagine|hero|banner|logo|icon)( ?\d+)?$/i;
+
+const MENU_TOGGLE_SELECTOR = [
+    '[class*="hamburger" i]', '[id*="hamburger" i]', '[class*="burger" i]',
+    '[class*="menu-toggle" i]', '[id*="menu-toggle" i]', '[class*="nav-toggle" i]', '[id*="nav-toggle" i]',
+    '[class*="menu-btn" i]', '[id*="menu-btn" i]', '[class*="menu-button" i]', '[id*="menu-button" i]',
+].join(', ');
+
+const MENU_LABELS: Record<string, string> = {
+    de: 'Menü öffnen',
+    en: 'Open menu',
+    es: 'Abrir menú',
+    fr: 'Ouvrir le menu',
+    it: 'Apri menu',
+};
+
+// --- SOURCE LOCATIONS ---
+
+function lineAt(source: string, index: number): number {
+    return source.slice(0, index).split('\n').length;
+}
+
+/** Index just past the `>` that closes the tag starting at `start`, skipping quoted attribute values. */
+function tagEnd(source: string, start: number): number {
+    let quote = '';
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (quote) {
+            if (char === quote) quote = '';
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '>') {
+            return i + 1;
+        }
+    }
+    return source.length;
+}
+
+/**
+ * Finds the opening tag of an element in the editor source. The HTML editor holds the
+ * serialized document, so the n-th `<h2` in the source is the n-th h2 element.
+ */
+function findOpeningTag(source: string, element: Element): SourceRange | null {
+    const tag = element.localName;
+    const index = Array.from(element.ownerDocument.getElementsByTagName(tag)).indexOf(element);
+    const pattern = new RegExp(`<${tag}(?=[\\s/>])`, 'gi');
+    let count = 0;
+    for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+        if (count++ === index) return { start: match.index, end: tagEnd(source, match.index) };
+    }
+    return null;
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/** Sets an attribute inside the opening tag at `range`, keeping the rest of the source as it is. */
+function setAttributeInSource(source: string, range: SourceRange, name: string, value: string): string {
+    const tag = source.slice(range.start, range.end);
+    const nameEnd = tag.search(/[\s/>]/);
+    // Walk the attributes one by one, so names inside quoted values can't match
+    const attributePattern = /\s+([^\s=/>]+)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?/y;
+    attributePattern.lastIndex = nameEnd;
+    let updated: string | null = null;
+    for (let match = attributePattern.exec(tag); match; match = attributePattern.exec(tag)) {
+        if (match[1].toLowerCase() === name) {
+            updated = `${tag.slice(0, match.index)} ${name}="${escapeAttribute(value)}"${tag.slice(match.index + match[0].length)}`;
+            break;
+        }
+    }
+    updated ??= tag.replace(/\s*(\/?>)$/, ` ${name}="${escapeAttribute(value)}"$1`);
+    return source.slice(0, range.start) + updated + source.slice(range.end);
+}
+
+/** Changes the tag name of an element without children of the same name, e.g. a heading. */
+function renameElementInSource(source: string, range: SourceRange, from: string, to: string): string {
+    const close = new RegExp(`</${from}\\s*>`, 'i');
+    const closeMatch = close.exec(source.slice(range.end));
+    const opening = `<${to}${source.slice(range.start + 1 + from.length, range.end)}`;
+    if (!closeMatch) return source.slice(0, range.start) + opening + source.slice(range.end);
+    const closeStart = range.end + closeMatch.index;
+    return source.slice(0, range.start) + opening + source.slice(range.end, closeStart) + `</${to}>` + source.slice(closeStart + closeMatch[0].length);
+}
+
+function htmlLocation(documents: AuditDocuments, range: SourceRange | null): AuditFinding['location'] {
+    return range ? { editor: 'html', line: lineAt(documents.html, range.start) } : null;
+}
+
+function describeElement(element: Element): string {
+    const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    return text.length > 40 ? t('common.quoted', { text: `${text.slice(0, 40)}…` }) : text ? t('common.quoted', { text }) : `<${element.localName}>`;
+}
+
+// --- COLORS ---
+
+function parseColor(value: string): Rgba | null {
+    const match = value.match(/rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+)(%?))?\s*\)/);
+    if (!match) return null;
+    const alpha = match[4] === undefined ? 1 : Number(match[4]) / (match[5] ? 100 : 1);
+    return { r: Number(match[1]), g: Number(match[2]), b: Number(match[3]), a: alpha };
+}
+
+/** Composites a (possibly transparent) color over an opaque one. */
+function blend(top: Rgba, bottom: Rgba): Rgba {
+    const mix = (a: number, b: number) => a * top.a + b * (1 - top.a);
+    return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b), a: 1 };
+}
+
+function relativeLuminance(color: Rgba): number {
+    const channel = (value: number) => {
+        const c = value / 255;
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+function contrastRatio(a: Rgba, b: Rgba): number {
+    const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+    return (light + 0.05) / (dark + 0.05);
+}
+
+function toHex(color: Rgba): string {
+    return `#${[color.r, color.g, color.b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** Moves the color towards black or white until it reaches the minimum contrast. */
+function adjustForContrast(color: Rgba, background: Rgba, minimum: number): Rgba {
+    const target = contrastRatio(BLACK, background) >= contrastRatio(WHITE, background) ? BLACK : WHITE;
+    for (let t = 0.05; t < 1; t += 0.05) {
+        const mixed = blend({ ...target, a: t }, color);
+        // Rounding to hex can lose a little contrast, so aim slightly above the minimum
+        if (contrastRatio(mixed, background) >= minimum + 0.1) return mixed;
+    }
+    return target;
+}
+
+/** The opaque background behind an element, or null if an image or gradient is involved. */
+function resolveBackground(element: Element, win: Window): Rgba | null {
+    const layers: Rgba[] = [];
+    for (let node: Element | null = element; node; node = node.parentElement) {
+        const style = win.getComputedStyle(node);
+        if (style.backgroundImage !== 'none') return null;
+        const color = parseColor(style.backgroundColor);
+        if (!color) return null;
+        if (color.a > 0) {
+            layers.push(color);
+            if (color.a >= 1) break;
+        }
+    }
+    return layers.reverse().reduce((result, layer) => blend(layer, result), WHITE);
+}
+
+// --- CSS RULES ---
+
+function collectCssRules(css: string, offset = 0, media: string | null = null, rules: CssRuleEntry[] = []): CssRuleEntry[] {
+    for (const block of parseCssBlocks(css)) {
+        const contentStart = block.end - 1 - block.content.length;
+        if (/^@media\b/i.test(block.prelude)) {
+            collectCssRules(block.content, offset + contentStart, block.prelude.slice(6).trim(), rules);
+        } else if (/^@(supports|layer|container)\b/i.test(block.prelude)) {
+            collectCssRules(block.content, offset + contentStart, media, rules);
+        } else if (!block.prelude.startsWith('@')) {
+            rules.push({
+                selector: block.prelude,
+                content: block.content,
+                start: offset + block.start,
+                contentStart: offset + contentStart,
+                media,
+                order: rules.length,
+            });
+        }
+    }
+    return rules;
+}
+
+function specificity(selector: string): number {
+    const withoutStrings = selector.replace(/(["'])(?:\\.|(?!\1).)*\1/g, '');
+    const ids = (withoutStrings.match(/#[\w-]+/g) ?? []).length;
+    const classes = (withoutStrings.match(/\.[\w-]+|\[[^\]]*\]|:(?!:|not\b|is\b|where\b)[\w-]+/g) ?? []).length;
+    const types = (withoutStrings.replace(/\[[^\]]*\]|[#.:][\w-]+/g, ' ').match(/(^|[\s>+~(])[a-z][\w-]*/gi) ?? []).length;
+    return ids * 10000 + classes * 100 + types;
+}
+
+const COLOR_DECLARATION = /(^|[;{\s])color\s*:([^;]*)/gi;
+
+function declaresColor(rule: CssRuleEntry): boolean {
+    COLOR_DECLARATION.lastIndex = 0;
+    return COLOR_DECLARATION.test(rule.content);
+}
+
+/** The rule that gives the element its text color, looking at ancestors for inherited colors. */
+function findColorRule(element: Element, rules: CssRuleEntry[], win: Window): CssRuleEntry | null {
+    const colorRules = rules.filter(rule => declaresColor(rule) && (!rule.media || win.matchMedia(rule.media).matches));
+    for (let node: Element | null = element; node; node = node.parentElement) {
+        let best: { rule: CssRuleEntry; specificity: number } | null = null;
+        for (const rule of colorRules) {
+            for (const selector of rule.selector.split(',').map(s => s.trim())) {
+                if (selector.includes('::')) continue;
+                let matches = false;
+                try {
+                    matches = node.matches(selector);
+                } catch {
+                    matches = false;
+                }
+                if (!matches) continue;
+                const score = specificity(selector);
+                if (!best || score > best.specificity || (score === best.specificity && rule.order > best.rule.order)) {
+                    best = { rule, specificity: score };
+                }
+            }
+        }
+        if (best) return best.rule;
+    }
+    return null;
+}
+
+function replaceColorDeclaration(css: string, rule: CssRuleEntry, value: string): string {
+    const content = css.slice(rule.contentStart, rule.contentStart + rule.content.length);
+    const matches = Array.from(content.matchAll(COLOR_DECLARATION));
+    const last = matches[matches.length - 1];
+    if (!last) return css;
+    const important = /!important/i.test(last[2]) ? ' !important' : '';
+    const declaration = `${last[1]}color: ${value}${important}`;
+    const updated = content.slice(0, last.index) + declaration + content.slice(last.index! + last[0].length);
+    return css.slice(0, rule.contentStart) + updated + css.slice(rule.contentStart + rule.content.length);
+}
+
+// --- CHECKS ---
+
+function checkImages(doc: Document, documents: AuditDocuments, images: SiteImage[]): AuditFinding[] {
+    const findings: AuditFinding[] = [];
+    doc.querySelectorAll<HTMLImageElement>('img[id]').forEach(img => {
+        const alt = img.getAttribute('alt');
+        const trimmed = alt?.trim() ?? '';
+        const isGeneric = GENERIC_ALT_TEXT.test(trimmed) || trimmed === img.id || /\.(jpe?g|png|gif|webp|avif|svg)$/i.test(trimmed);
+        if (alt !== null && trimmed && !isGeneric) return;
+
+        const range = findOpeningTag(documents.html, img);
+        const prompt = images.find(image => image.id === img.id)?.prompt.trim();
+        // Image prompts are long; the first sentence usually describes the motif
+        const description = prompt?.split(/(?<=\.)\s/)[0].replace(/\.$/, '').slice(0, 150);
+        findings.push({
+            rule: 'image-alt',
+            severity: 'error',
+            message: alt === null
+                ? t('a11y.imageAlt.missing', { id: img.id })
+                : t('a11y.imageAlt.generic', { id: img.id, alt: trimmed }),
+            location: htmlLocation(documents, range),
+            fix: range && description ? {
+                label: t('a11y.imageAlt.fix'),
+                apply: docs => ({ ...docs, html: setAttributeInSource(docs.html, range, 'alt', description) }),
+            } : undefined,
+        });
+    });
+    return findings;
+}
+
+function checkHeadings(doc: Document, documents: AuditDocuments): AuditFinding[] {
+    const findings: AuditFinding[] = [];
+    const headings = Array.from(doc.body.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+    const h1Count = headings.filter(heading => heading.localName === 'h1').length;
+
+    if (h1Count === 0) {
+        findings.push({
+            rule: 'heading-order',
+            severity: 'error',
+            message: t('a11y.heading.missingH1'),
+            location: headings[0] ? htmlLocation(documents, findOpeningTag(documents.html, headings[0])) : null,
+        });
+    } else if (h1Count > 1) {
+        const second = headings.filter(heading => heading.localName === 'h1')[1];
+        findings.push({
+            rule: 'heading-order',
+            severity: 'warning',
+            message: t('a11y.heading.multipleH1', { count: h1Count }),
+            location: htmlLocation(documents, findOpeningTag(documents.html, second)),
+        });
+    }
+
+    let previousLevel = 0;
+    headings.forEach(heading => {
+        const level = Number(heading.localName[1]);
+        if (previousLevel && level > previousLevel + 1) {
+            const range = findOpeningTag(documents.html, heading);
+            const expected = `h${previousLevel + 1}`;
+            findings.push({
+                rule: 'heading-order',
+                severity: 'error',
+                message: t('a11y.heading.skipped', { heading: describeElement(heading), from: `h${previousLevel}`, to: heading.localName }),
+                location: htmlLocation(documents, range),
+                fix: range ? {
+                    label: t('a11y.heading.fix', { tag: expected }),
+                    apply: docs => ({ ...docs, html: renameElementInSource(docs.html, range, heading.localName, expected) }),
+                } : undefined,
+            });
+        }
+        previousLevel = level;
+    });
+    return findings;
+}
+
+function checkLanguage(doc: Document, documents: AuditDocuments, lang: string): AuditFinding[] {
+    const declared = doc.documentElement.getAttribute('lang')?.trim() ?? '';
+    if (declared.split('-')[0].toLowerCase() === lang) return [];
+
+    const range = findOpeningTag(documents.html, doc.documentElement);
+    return [{
+        rule: 'lang',
+        severity: 'error',
+        message: declared
+            ? t('a11y.lang.mismatch', { declared, lang })
+            : t('a11y.lang.missing', { lang }),
+        location: htmlLocation(documents, range),
+        fix: range ? {
+            label: t('a11y.setAttribute', { attribute: 'lang', value: lang }),
+            apply: docs => ({ ...docs, html: setAttributeInSource(docs.html, range, 'lang', lang) }),
+        } : undefined,
+    }];
+}
+
+function cssSelectorFor(element: Element): string {
+    if (element.id) return `#${CSS.escape(element.id)}`;
+    if (element.classList.length > 0) return `.${CSS.escape(element.classList[0])}`;
+    return `header ${element.localName}`;
+}
+
+function checkMenuToggle(doc: Document, documents: AuditDocuments, lang: string): AuditFinding[] {
+    // Icon parts like <span class="hamburger-line"> belong to the button around them
+    const match = doc.body.querySelector(MENU_TOGGLE_SELECTOR);
+    const toggle = match?.closest('button, [role="button"], a') ?? match
+        ?? Array.from(doc.body.querySelectorAll('header button, nav button')).find(button => !button.textContent?.trim());
+    if (!toggle) return [];
+
+    const findings: AuditFinding[] = [];
+    const range = findOpeningTag(documents.html, toggle);
+    const location = htmlLocation(documents, range);
+
+    if (toggle.localName !== 'button') {
+        findings.push({
+            rule: 'menu-toggle',
+            severity: 'error',
+            message: t('a11y.menu.notButton', { tag: toggle.localName }),
+            location,
+        });
+    }
+
+    const hasName = !!(toggle.textContent?.trim() || toggle.getAttribute('aria-label')?.trim()
+        || toggle.getAttribute('aria-labelledby') || toggle.getAttribute('title')?.trim());
+    if (!hasName) {
+        const label = MENU_LABELS[lang] ?? MENU_LABELS.en;
+        findings.push({
+            rule: 'menu-toggle',
+            severity: 'error',
+            message: t('a11y.menu.noName'),
+            location,
+            fix: range ? {
+                label: t('a11y.setAttribute', { attribute: 'aria-label', value: label }),
+                apply: docs => ({ ...docs, html: setAttributeInSource(docs.html, range, 'aria-label', label) }),
+            } : undefined,
+        });
+    }
+
+    if (!toggle.hasAttribute('aria-expanded')) {
+        const selector = cssSelectorFor(toggle);
+        // The script only toggles classes, so it also has to keep aria-expanded up to date
+        const syncScript = `\n\n// Keep aria-expanded in sync with the menu state\ndocument.querySelectorAll('${selector}').forEach(function (toggle) {\n    toggle.addEventListener('click', function () {\n        toggle.setAttribute('aria-expanded', String(toggle.getAttribute('aria-expanded') !== 'true'));\n    });\n});\n`;
+        findings.push({
+            rule: 'menu-toggle',
+            severity: 'error',
+            message: t('a11y.menu.noExpanded'),
+            location,
+            fix: range ? {
+                label: t('a11y.menu.addExpanded'),
+                apply: docs => ({
+                    ...docs,
+                    html: setAttributeInSource(docs.html, range, 'aria-expanded', 'false'),
+                    js: docs.js.includes('aria-expanded') ? docs.js : `${docs.js.trimEnd()}${syncScript}`,
+                }),
+            } : undefined,
+        });
+    }
+    return findings;
+}
+
+function hasOwnText(element: Element): boolean {
+    return Array.from(element.childNodes).some(node => node.nodeType === Node.TEXT_NODE && node.textContent!.trim());
+}
+
+function checkContrast(doc: Document, documents: AuditDocuments, win: Window): AuditFinding[] {
+    const rules = collectCssRules(documents.css);
+    const groups = new Map<string, { element: Element; ratio: number; minimum: number; foreground: Rgba; background: Rgba; rule: CssRuleEntry | null; count: number }>();
+    let uncheckable = 0;
+
+    doc.body.querySelectorAll('*').forEach(element => {
+        if (!hasOwnText(element) || element.closest('script, style, noscript, svg')) return;
+        if (element.getClientRects().length === 0) return;
+        const style = win.getComputedStyle(element);
+        if (style.visibility === 'hidden') return;
+
+        const color = parseColor(style.color);
+        const background = resolveBackground(element, win);
+        if (!color || !background) {
+            uncheckable++;
+            return;
+        }
+        const foreground = blend(color, background);
+        const fontSize = parseFloat(style.fontSize);
+        const isLarge = fontSize >= 24 || (fontSize >= 18.66 && Number(style.fontWeight) >= 700);
+        const minimum = isLarge ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+        const ratio = contrastRatio(foreground, background);
+        if (ratio >= minimum) return;
+
+        const rule = findColorRule(element, rules, win);
+        const key = `${rule?.start ?? -1}|${toHex(foreground)}|${toHex(background)}|${minimum}`;
+        const group = groups.get(key);
+        if (group) {
+            group.count++;
+        } else {
+            groups.set(key, { element, ratio, minimum, foreground, background, rule, count: 1 });
+        }
+    });
+
+    const findings: AuditFinding[] = Array.from(groups.values()).map(group => {
+        const fixed = toHex(adjustForContrast(group.foreground, group.background, group.minimum));
+        const more = group.count > 1 ? ` ${t('a11y.contrast.more', { count: group.count - 1 })}` : '';
+        const rule = group.rule;
+        return {
+            rule: 'contrast',
+            severity: 'error',
+            message: t('a11y.contrast.low', {
+                ratio: group.ratio.toFixed(2),
+                foreground: toHex(group.foreground),
+                background: toHex(group.background),
+                element: `${describeElement(group.element)}${more}`,
+                minimum: group.minimum,
+            }),
+            location: rule
+                ? { editor: 'css', line: lineAt(documents.css, rule.start) }
+                : htmlLocation(documents, findOpeningTag(documents.html, group.element)),
+            fix: rule ? {
+                label: t('a11y.contrast.fix', { color: fixed }),
+                apply: docs => ({ ...docs, css: replaceColorDeclaration(docs.css, rule, fixed) }),
+            } : undefined,
+        };
+    });
+
+    if (uncheckable > 0) {
+        findings.push({
+            rule: 'contrast',
+            severity: 'warning',
+            message: t('a11y.contrast.uncheckable', { count: uncheckable }),
+            location: null,
+        });
+    }
+    return findings;
+}
+
+/** Renders the document in a hidden, script-less frame so computed colors can be read. */
+function renderForAudit(doc: Document): Promise<HTMLIFrameElement> {
+    return new Promise(resolve => {
+        const frame = document.createElement('iframe');
+        frame.setAttribute('sandbox', 'allow-same-origin');
+        frame.setAttribute('aria-hidden', 'true');
+        frame.tabIndex = -1;
+        frame.style.cssText = 'position: fixed; left: -10000px; top: 0; width: 1280px; height: 800px; border: 0; visibility: hidden;';
+        frame.addEventListener('load', () => resolve(frame), { once: true });
+        frame.srcdoc = doc.documentElement.outerHTML;
+        document.body.appendChild(frame);
+    });
+}
+
+/**
+ * Checks the previewed page against the WCAG AA issues generated sites typically have.
+ * `doc` is the document built for the preview, `documents` the editor contents it came from.
+ */
+export async function auditAccessibility(doc: Document, documents: AuditDocuments, options: AuditOptions): Promise<AuditFinding[]> {
+    const frame = await renderForAudit(doc);
+    try {
+        const rendered = frame.contentDocument!;
+        return [
+            ...checkLanguage(rendered, documents, options.lang),
+            ...checkImages(rendered, documents, options.images),
+            ...checkHeadings(rendered, documents),
+            ...checkMenuToggle(rendered, documents, options.lang),
+            ...checkContrast(rendered, documents, frame.contentWindow!),
+        ];
+    } finally {
+        frame.remove();
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DESIGN_TOKEN_NAMES } from "./designTokens";
+
+export type BrandColorRole = 'primary' | 'secondary' | 'accent' | 'background' | 'text';
+
+/** Brand guidelines that are passed to the model with every generation while enabled. */
+export interface BrandKit {
+    enabled: boolean;
+    colors: Record<BrandColorRole, string>;
+    headingFont: string;
+    bodyFont: string;
+    /** Tone of voice for the copy, e.g. "freundlich und persönlich". */
+    tone: string;
+    /** Uploaded logo as data URL. */
+    logo: string | null;
+}
+
+/** Placeholder id of the logo in the generated header; it is filled like a generated image. */
+export const BRAND_LOGO_ID = 'brand-logo';
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+    enabled: false,
+    colors: {
+        primary: '#6d28d9',
+        secondary: '#0f766e',
+        accent: '#f59e0b',
+        background: '#ffffff',
+        text: '#1f2937',
+    },
+    headingFont: '',
+    bodyFont: '',
+    tone: '',
+    logo: null,
+};
+
+const BRAND_KIT_KEY = 'ai-website-gen-brand-kit';
+
+export function loadBrandKit(): BrandKit {
+    try {
+        const saved = localStorage.getItem(BRAND_KIT_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved) as Partial<BrandKit>;
+            return { ...DEFAULT_BRAND_KIT, ...parsed, colors: { ...DEFAULT_BRAND_KIT.colors, ...parsed.colors } };
+        }
+    } catch (e) {
+        console.warn("Could not read brand kit, using defaults.", e);
+    }
+    return { ...DEFAULT_BRAND_KIT, colors: { ...DEFAULT_BRAND_KIT.colors } };
+}
+
+/** Large logos may not fit into localStorage; the rest of the kit is still saved then. */
+export function saveBrandKit(kit: BrandKit) {
+    try {
+        localStorage.setItem(BRAND_KIT_KEY, JSON.stringify(kit));
+    } catch (e) {
+        console.warn("Could not save brand kit with logo, saving it without.", e);
+        try {
+            localStorage.setItem(BRAND_KIT_KEY, JSON.stringify({ ...kit, logo: null }));
+        } catch (inner) {
+            console.warn("Could not save brand kit.", inner);
+        }
+    }
+}
+
+/** Prompt constraints describing the brand, in the same bullet format as the other constraints. */
+export function describeBrandKit(kit: BrandKit): string {
+    const { colors } = kit;
+    let prompt = `- **Brand Colors:** Use exactly this palette and derive lighter or darker shades from it only where needed: `
+        + `primary ${colors.primary} (${DESIGN_TOKEN_NAMES.primary}), secondary ${colors.secondary} (${DESIGN_TOKEN_NAMES.secondary}), `
+        + `accent ${colors.accent} (${DESIGN_TOKEN_NAMES.accent}), background ${colors.background} (${DESIGN_TOKEN_NAMES.background}), `
+        + `text ${colors.text} (${DESIGN_TOKEN_NAMES.text}).\n`;
+    const headingFont = kit.headingFont.trim();
+    const bodyFont = kit.bodyFont.trim();
+    if (headingFont || bodyFont) {
+        const fonts = [
+            headingFont && `headings in "${headingFont}" (${DESIGN_TOKEN_NAMES.headingFont})`,
+            bodyFont && `body text in "${bodyFont}" (${DESIGN_TOKEN_NAMES.bodyFont})`,
+        ].filter(Boolean).join(', ');
+        prompt += `- **Brand Fonts:** Set ${fonts}. Load web fonts from Google Fonts with a <link> in the <head> and always add a generic fallback family.\n`;
+    }
+    if (kit.tone.trim()) {
+        prompt += `- **Tone of Voice:** Write all copy in this tone: ${kit.tone.trim()}.\n`;
+    }
+    if (kit.logo) {
+        prompt += `- **Logo:** Show the brand logo in the header as \`<img id="${BRAND_LOGO_ID}" alt="Logo">\` (with the brand name as alt text) instead of a text logo. Constrain its height with CSS. Do NOT add it to 'imagePrompts'.\n`;
+    }
+    return prompt;
+}
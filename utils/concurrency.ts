@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Runs `task` for every item with at most `limit` tasks in flight, e.g. to stay below a provider's rate limit.
+ * The results keep the order of the items; the first task that throws rejects the whole run.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+    return results;
+}
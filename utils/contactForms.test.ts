@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { DEFAULT_FORM_SETTINGS, FORM_CSS, FORM_SCRIPT, stripFormAssets, wireSiteForms } from "./contactForms";
+import { minifyCss, minifyJs } from "./minify";
+
+const { window } = new JSDOM('');
+Object.assign(globalThis, { DOMParser: window.DOMParser });
+
+const site = {
+    pages: [{
+        slug: 'index',
+        title: 'Kontakt',
+        html: '<!DOCTYPE html><html><head><title>Kontakt</title></head><body><form><label>E-Mail <input type="email" required></label><button>Senden</button></form></body></html>',
+    }],
+    css: 'body { margin: 0; }',
+    js: 'console.log("site");',
+};
+const settings = { ...DEFAULT_FORM_SETTINGS, email: 'info@example.com' };
+const messages = { success: 'Danke!', error: 'Fehler', honeypot: 'Bitte leer lassen' };
+
+function count(text: string, part: string): number {
+    return text.split(part).length - 1;
+}
+
+test('wiring a site twice gives the same result', () => {
+    const once = wireSiteForms(site, settings, messages);
+    const twice = wireSiteForms(once, settings, messages);
+    assert.deepEqual(twice, once);
+    assert.equal(count(twice.css, FORM_CSS), 1);
+    assert.equal(count(twice.js, FORM_SCRIPT), 1);
+});
+
+test('the form assets can be stripped after minification', () => {
+    const wired = wireSiteForms(site, settings, messages);
+    assert.equal(stripFormAssets(minifyCss(wired.css)).trim(), minifyCss(site.css));
+    assert.equal(stripFormAssets(minifyJs(wired.js)).trim(), minifyJs(site.js));
+});
@@ -0,0 +1,384 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SitePage } from "./sitePages";
+
+/** Where submitted forms go: the visitor's mail program, a JSON endpoint or Netlify Forms. */
+export type FormBackend = 'mailto' | 'json' | 'netlify';
+
+export interface FormSettings {
+    backend: FormBackend;
+    /** Recipient for the mailto backend. */
+    email: string;
+    /** URL the JSON backend posts to. */
+    endpointUrl: string;
+    /** Sent with every JSON submission, e.g. the access key of a form service. */
+    extraFields: Record<string, string>;
+    /** Adds a hidden field that only bots fill in; their submissions are dropped. */
+    honeypot: boolean;
+    /** Shown after sending; empty for the default text. */
+    successMessage: string;
+    errorMessage: string;
+}
+
+/** A form found in the pages, for the overview in the forms tab. */
+export interface DetectedForm {
+    slug: string;
+    name: string;
+    fields: string[];
+}
+
+export const DEFAULT_FORM_SETTINGS: FormSettings = {
+    backend: 'mailto',
+    email: '',
+    endpointUrl: '',
+    extraFields: {},
+    honeypot: true,
+    successMessage: '',
+    errorMessage: '',
+};
+
+// Netlify expects this name for the honeypot; the other backends use it as well
+const HONEYPOT_NAME = 'bot-field';
+const FIELD_SELECTOR = 'input, select, textarea';
+const SKIPPED_INPUT_TYPES = ['hidden', 'submit', 'button', 'reset', 'image'];
+
+function isDataField(element: Element): element is HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement {
+    return !(element.localName === 'input' && SKIPPED_INPUT_TYPES.includes((element.getAttribute('type') ?? '').toLowerCase()));
+}
+
+function toFieldName(value: string): string {
+    return value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function labelText(doc: Document, field: Element): string {
+    const label = (field.id && Array.from(doc.querySelectorAll('label')).find(candidate => candidate.htmlFor === field.id)) || field.closest('label');
+    return label?.textContent?.trim() ?? '';
+}
+
+/** Form names are used by Netlify to tell forms apart; generated forms rarely have one. */
+function formName(form: HTMLFormElement, index: number): string {
+    const name = toFieldName(form.getAttribute('name') || form.id || '');
+    return name || (index === 0 ? 'contact' : `contact-${index + 1}`);
+}
+
+function fieldName(doc: Document, field: Element, index: number): string {
+    return field.getAttribute('name') || toFieldName(field.id || labelText(doc, field) || field.getAttribute('placeholder') || '') || `field-${index + 1}`;
+}
+
+/** Parses "name=value" lines; lines without a name are ignored. */
+export function parseExtraFields(text: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    text.split('\n').forEach(line => {
+        const separator = line.indexOf('=');
+        const name = (separator === -1 ? line : line.slice(0, separator)).trim();
+        if (name) fields[name] = separator === -1 ? '' : line.slice(separator + 1).trim();
+    });
+    return fields;
+}
+
+export function formatExtraFields(fields: Record<string, string>): string {
+    return Object.entries(fields).map(([name, value]) => `${name}=${value}`).join('\n');
+}
+
+export function detectForms(pages: SitePage[]): DetectedForm[] {
+    const parser = new DOMParser();
+    return pages.flatMap(page => {
+        const doc = parser.parseFromString(page.html, 'text/html');
+        return Array.from(doc.querySelectorAll('form'), (form, i) => ({
+            slug: page.slug,
+            name: formName(form, i),
+            fields: Array.from(form.querySelectorAll(FIELD_SELECTOR)).filter(isDataField).map((field, j) => fieldName(doc, field, j)),
+        }));
+    });
+}
+
+/** What is missing before the forms can be sent, or null if the settings are complete. */
+export function checkFormSettings(settings: FormSettings): 'email' | 'endpoint' | null {
+    if (settings.backend === 'mailto' && !settings.email.trim()) return 'email';
+    if (settings.backend === 'json' && !/^https?:\/\//i.test(settings.endpointUrl.trim())) return 'endpoint';
+    return null;
+}
+
+/** Texts the exported page shows; the app passes them in the site's language. */
+export interface FormMessages {
+    success: string;
+    error: string;
+    /** Label of the hidden honeypot field, read only by bots. */
+    honeypot: string;
+}
+
+/**
+ * Prepares every form of a page for the chosen backend: names and ids for all fields, labels for
+ * screen readers, an error message element per field, the honeypot, a status line and the
+ * attributes FORM_SCRIPT reads. Returns the number of forms.
+ */
+export function wireForms(doc: Document, settings: FormSettings, messages: FormMessages): number {
+    const forms = Array.from(doc.querySelectorAll('form'));
+    forms.forEach((form, formIndex) => {
+        const name = formName(form, formIndex);
+        form.setAttribute('name', name);
+        // The script shows the validation messages next to the fields instead of the browser's bubbles
+        form.setAttribute('novalidate', '');
+        form.setAttribute('method', 'post');
+        form.dataset.formBackend = settings.backend;
+        form.dataset.formSuccess = messages.success;
+        form.dataset.formError = messages.error;
+        form.querySelectorAll(`.form-error, .form-status, .form-honeypot, input[type="hidden"][data-form-field]`).forEach(element => element.remove());
+
+        Array.from(form.querySelectorAll(FIELD_SELECTOR)).filter(isDataField).forEach((field, fieldIndex) => {
+            const fieldNameValue = fieldName(doc, field, fieldIndex);
+            field.setAttribute('name', fieldNameValue);
+            if (!field.id) {
+                const id = `${name}-${fieldNameValue}`;
+                field.id = doc.getElementById(id) ? `${id}-${fieldIndex + 1}` : id;
+            }
+            if (field.localName === 'input' && (field.getAttribute('type') ?? 'text') === 'text' && /e-?mail/i.test(fieldNameValue)) {
+                field.setAttribute('type', 'email');
+            }
+            if (!labelText(doc, field) && !field.hasAttribute('aria-label')) {
+                field.setAttribute('aria-label', field.getAttribute('placeholder') || fieldNameValue);
+            }
+
+            const error = doc.createElement('p');
+            error.className = 'form-error';
+            error.id = `${field.id}-error`;
+            error.hidden = true;
+            field.after(error);
+            const describedBy = (field.getAttribute('aria-describedby') ?? '').split(/\s+/).filter(id => id && !id.endsWith('-error'));
+            field.setAttribute('aria-describedby', [...describedBy, error.id].join(' '));
+            field.setAttribute('data-error-id', error.id);
+        });
+
+        const addHidden = (fieldNameValue: string, value: string) => {
+            const hidden = doc.createElement('input');
+            hidden.type = 'hidden';
+            hidden.name = fieldNameValue;
+            // The attribute, not the property: only attributes survive serializing the page
+            hidden.setAttribute('value', value);
+            hidden.setAttribute('data-form-field', '');
+            form.prepend(hidden);
+        };
+
+        form.removeAttribute('data-netlify');
+        form.removeAttribute('netlify-honeypot');
+        form.removeAttribute('enctype');
+        delete form.dataset.formEndpoint;
+        switch (settings.backend) {
+            case 'mailto':
+                // Without JavaScript the browser still hands the fields to the mail program
+                form.setAttribute('action', `mailto:${settings.email.trim()}`);
+                form.setAttribute('enctype', 'text/plain');
+                break;
+            case 'json':
+                form.setAttribute('action', settings.endpointUrl.trim());
+                form.dataset.formEndpoint = settings.endpointUrl.trim();
+                Object.entries(settings.extraFields).forEach(([fieldNameValue, value]) => addHidden(fieldNameValue, value));
+                break;
+            case 'netlify':
+                // Netlify finds the form in the deployed HTML and accepts posts to any page
+                form.removeAttribute('action');
+                form.setAttribute('data-netlify', 'true');
+                if (settings.honeypot) form.setAttribute('netlify-honeypot', HONEYPOT_NAME);
+                addHidden('form-name', name);
+                break;
+        }
+
+        if (settings.honeypot) {
+            const honeypot = doc.createElement('div');
+            honeypot.className = 'form-honeypot';
+            honeypot.setAttribute('aria-hidden', 'true');
+            const label = doc.createElement('label');
+            label.setAttribute('for', `${name}-${HONEYPOT_NAME}`);
+            label.textContent = messages.honeypot;
+            const input = doc.createElement('input');
+            input.id = `${name}-${HONEYPOT_NAME}`;
+            input.setAttribute('name', HONEYPOT_NAME);
+            input.setAttribute('type', 'text');
+            input.setAttribute('tabindex', '-1');
+            input.setAttribute('autocomplete', 'off');
+            honeypot.append(label, input);
+            form.appendChild(honeypot);
+        }
+
+        const status = doc.createElement('p');
+        status.className = 'form-status';
+        status.setAttribute('role', 'status');
+        status.setAttribute('aria-live', 'polite');
+        status.hidden = true;
+        form.appendChild(status);
+    });
+    return forms.length;
+}
+
+/** Error and status styles built on the site's design tokens, with fallbacks for sites without them. */
+export const FORM_CSS = `/* Contact forms */
+.form-honeypot {
+    position: absolute;
+    left: -10000px;
+    width: 1px;
+    height: 1px;
+    overflow: hidden;
+}
+.form-error {
+    margin: 0.25rem 0 0;
+    font-family: var(--font-body, inherit);
+    font-size: 0.875em;
+    color: #c62828;
+}
+form [aria-invalid="true"] {
+    border-color: #c62828;
+    outline-color: #c62828;
+}
+.form-status {
+    margin: 1rem 0 0;
+    padding: 0.75rem 1rem;
+    border: 1px solid currentColor;
+    border-radius: 0.5rem;
+    font-family: var(--font-body, inherit);
+    background: var(--color-surface, transparent);
+}
+form[data-form-state="success"] .form-status {
+    color: var(--color-primary, #2e7d32);
+}
+form[data-form-state="error"] .form-status {
+    color: #c62828;
+}
+form[data-form-state="sending"] {
+    opacity: 0.7;
+    cursor: progress;
+}
+`;
+
+/**
+ * Validates and sends the wired forms. Error texts are the browser's own validation messages,
+ * so they appear in the visitor's language.
+ */
+export const FORM_SCRIPT = `// Contact forms: validation, spam protection and sending
+document.querySelectorAll('form[data-form-backend]').forEach(function (form) {
+    // Framework exports run this again after route changes
+    if (form.hasAttribute('data-form-ready')) return;
+    form.setAttribute('data-form-ready', '');
+    var backend = form.getAttribute('data-form-backend');
+    var status = form.querySelector('.form-status');
+    var honeypot = form.querySelector('.form-honeypot input');
+    var submitButton = form.querySelector('button:not([type]), [type="submit"]');
+    var fields = Array.prototype.filter.call(form.elements, function (field) {
+        return field.hasAttribute('data-error-id');
+    });
+
+    function validate(field) {
+        var valid = field.checkValidity();
+        var error = document.getElementById(field.getAttribute('data-error-id'));
+        field.setAttribute('aria-invalid', String(!valid));
+        if (error) {
+            error.textContent = valid ? '' : field.validationMessage;
+            error.hidden = valid;
+        }
+        return valid;
+    }
+
+    function setState(state, message) {
+        form.setAttribute('data-form-state', state);
+        if (submitButton) submitButton.disabled = state === 'sending';
+        status.textContent = message || '';
+        status.hidden = !message;
+    }
+
+    function succeed() {
+        form.reset();
+        fields.forEach(function (field) { field.removeAttribute('aria-invalid'); });
+        setState('success', form.getAttribute('data-form-success'));
+    }
+
+    fields.forEach(function (field) {
+        field.addEventListener('blur', function () { if (field.value) validate(field); });
+        field.addEventListener('input', function () { if (field.getAttribute('aria-invalid') === 'true') validate(field); });
+    });
+
+    form.addEventListener('submit', function (e) {
+        e.preventDefault();
+        var invalid = fields.filter(function (field) { return !validate(field); });
+        if (invalid.length > 0) {
+            invalid[0].focus();
+            return;
+        }
+        // Bots get the same answer as people, so they don't try again
+        if (honeypot && honeypot.value) {
+            succeed();
+            return;
+        }
+
+        var data = new FormData(form);
+        if (honeypot && backend !== 'netlify') data.delete(honeypot.name);
+        if (backend === 'mailto') {
+            var lines = [];
+            data.forEach(function (value, name) { lines.push(name + ': ' + value); });
+            window.location.href = form.getAttribute('action') + '?subject=' + encodeURIComponent(document.title) + '&body=' + encodeURIComponent(lines.join('\\n'));
+            succeed();
+            return;
+        }
+
+        setState('sending', '');
+        var request = backend === 'netlify'
+            ? fetch('/', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                body: new URLSearchParams(data).toString()
+            })
+            : fetch(form.getAttribute('data-form-endpoint'), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+                body: JSON.stringify(Object.fromEntries(data))
+            });
+        request.then(function (response) {
+            if (!response.ok) throw new Error('HTTP ' + response.status);
+            succeed();
+        }).catch(function () {
+            setState('error', form.getAttribute('data-form-error'));
+        });
+    });
+});
+`;
+
+// Wrap FORM_CSS and FORM_SCRIPT in the exported code. "/*!" comments survive minification, so
+// the block can be found again after an export was imported.
+const FORM_ASSETS_START = '/*! contact-forms */';
+const FORM_ASSETS_END = '/*! end contact-forms */';
+const FORM_ASSETS_PATTERN = /\s*\/\*! contact-forms \*\/[\s\S]*?\/\*! end contact-forms \*\/\n?/g;
+
+/** Removes the form styles or script an earlier export added to the CSS or JavaScript. */
+export function stripFormAssets(code: string): string {
+    return code.replace(FORM_ASSETS_PATTERN, '');
+}
+
+function appendFormAssets(code: string, assets: string): string {
+    return `${stripFormAssets(code).trimEnd()}\n\n${FORM_ASSETS_START}\n${assets}${FORM_ASSETS_END}\n`;
+}
+
+/**
+ * Wires the forms of all pages and adds FORM_CSS and FORM_SCRIPT if there are any,
+ * so the exported site works on its own. Wiring a site again gives the same result.
+ */
+export function wireSiteForms<T extends { pages: SitePage[]; css: string; js: string }>(
+    site: T,
+    settings: FormSettings,
+    messages: FormMessages
+): T {
+    const parser = new DOMParser();
+    let formCount = 0;
+    const pages = site.pages.map(page => {
+        if (!/<form[\s>]/i.test(page.html)) return page;
+        const doc = parser.parseFromString(page.html, 'text/html');
+        formCount += wireForms(doc, settings, messages);
+        return { ...page, html: doc.documentElement.outerHTML };
+    });
+    if (formCount === 0) return site;
+    return {
+        ...site,
+        pages,
+        css: appendFormAssets(site.css, FORM_CSS),
+        js: appendFormAssets(site.js, FORM_SCRIPT),
+    };
+}
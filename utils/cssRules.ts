@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A top-level rule or at-rule block in a stylesheet, with its position in the source. */
+export interface CssBlock {
+    prelude: string;
+    content: string;
+    start: number;
+    end: number;
+}
+
+/** Splits CSS into top-level blocks. Comments and strings are skipped so their braces don't count. */
+export function parseCssBlocks(css: string): CssBlock[] {
+    const blocks: CssBlock[] = [];
+    let depth = 0;
+    let blockStart = 0;
+    let braceIndex = -1;
+
+    for (let i = 0; i < css.length; i++) {
+        const char = css[i];
+        if (char === '/' && css[i + 1] === '*') {
+            const close = css.indexOf('*/', i + 2);
+            i = close === -1 ? css.length : close + 1;
+            if (depth === 0) blockStart = i + 1;
+            continue;
+        }
+        if (char === '"' || char === "'") {
+            const close = css.indexOf(char, i + 1);
+            i = close === -1 ? css.length : close;
+            continue;
+        }
+        if (char === '{') {
+            if (depth === 0) braceIndex = i;
+            depth++;
+        } else if (char === '}') {
+            depth--;
+            if (depth === 0) {
+                const rawPrelude = css.slice(blockStart, braceIndex);
+                blocks.push({
+                    prelude: rawPrelude.trim(),
+                    content: css.slice(braceIndex + 1, i),
+                    start: blockStart + rawPrelude.length - rawPrelude.trimStart().length,
+                    end: i + 1,
+                });
+                blockStart = i + 1;
+            }
+            if (depth < 0) depth = 0;
+        } else if (char === ';' && depth === 0) {
+            // Statement at-rules like @import
+            blockStart = i + 1;
+        }
+    }
+    return blocks;
+}
+
+function matchesToken(compound: string, token: string): boolean {
+    const escaped = token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = /^[a-z]/i.test(token)
+        ? new RegExp(`^${escaped}(?![\\w-])`, 'i')
+        : new RegExp(`${escaped}(?![\\w-])`);
+    return pattern.test(compound);
+}
+
+/**
+ * A selector list is scoped when every selector starts with one of the tokens,
+ * e.g. `#testimonials .card, #testimonials h2` for the token `#testimonials`.
+ */
+export function isSelectorScoped(selectorList: string, tokens: string[]): boolean {
+    const selectors = selectorList.split(',').map(selector => selector.trim()).filter(Boolean);
+    if (selectors.length === 0) return false;
+    return selectors.every(selector => {
+        const firstCompound = selector.split(/\s*[\s>+~]\s*/)[0];
+        return tokens.some(token => matchesToken(firstCompound, token));
+    });
+}
+
+function isGroupingRule(prelude: string): boolean {
+    return /^@(media|supports|container|layer)\b/i.test(prelude);
+}
+
+/** Returns the rules scoped to the tokens, keeping media queries around scoped inner rules. */
+export function extractScopedRules(css: string, tokens: string[]): string {
+    const parts: string[] = [];
+    for (const block of parseCssBlocks(css)) {
+        if (isGroupingRule(block.prelude)) {
+            const inner = extractScopedRules(block.content, tokens);
+            if (inner.trim()) parts.push(`${block.prelude} {\n${inner}\n}`);
+        } else if (!block.prelude.startsWith('@') && isSelectorScoped(block.prelude, tokens)) {
+            parts.push(css.slice(block.start, block.end));
+        }
+    }
+    return parts.join('\n');
+}
+
+/**
+ * Removes the rules scoped to the tokens. `insertAt` is where the first removed rule was,
+ * so replacement rules can go back to the same place in the cascade (or -1 if nothing matched).
+ */
+function cutScopedRules(css: string, tokens: string[]): { css: string; insertAt: number } {
+    let result = '';
+    let cursor = 0;
+    let insertAt = -1;
+
+    for (const block of parseCssBlocks(css)) {
+        let replacement: string | null = null;
+        if (isGroupingRule(block.prelude)) {
+            const inner = cutScopedRules(block.content, tokens);
+            if (inner.insertAt !== -1) {
+                replacement = inner.css.trim() ? `${block.prelude} {${inner.css}}` : '';
+            }
+        } else if (!block.prelude.startsWith('@') && isSelectorScoped(block.prelude, tokens)) {
+            replacement = '';
+        }
+
+        if (replacement !== null) {
+            result += css.slice(cursor, block.start);
+            if (insertAt === -1) insertAt = result.length;
+            result += replacement;
+            cursor = block.end;
+        }
+    }
+    return { css: result + css.slice(cursor), insertAt };
+}
+
+/** Drops the blank lines left behind by removed rules. */
+function collapseBlankLines(css: string): string {
+    return css.replace(/\n[ \t]*\n([ \t]*\n)+/g, '\n\n');
+}
+
+export function removeScopedRules(css: string, tokens: string[]): string {
+    return collapseBlankLines(cutScopedRules(css, tokens).css);
+}
+
+/** Replaces all rules scoped to the tokens with new CSS, at the position of the first old rule. */
+export function replaceScopedRules(css: string, tokens: string[], newRules: string): string {
+    const { css: remaining, insertAt } = cutScopedRules(css, tokens);
+    if (!newRules.trim()) return collapseBlankLines(remaining);
+    if (insertAt === -1) {
+        return `${remaining.trimEnd()}\n\n${newRules.trim()}\n`;
+    }
+    return collapseBlankLines(`${remaining.slice(0, insertAt)}${newRules.trim()}\n${remaining.slice(insertAt)}`);
+}
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { parseCssBlocks } from "./cssRules";
+
+/** Custom properties the model is asked to define, so colors and fonts can be changed in one place. */
+export const DESIGN_TOKEN_NAMES = {
+    primary: '--color-primary',
+    secondary: '--color-secondary',
+    accent: '--color-accent',
+    background: '--color-background',
+    surface: '--color-surface',
+    text: '--color-text',
+    textMuted: '--color-text-muted',
+    headingFont: '--font-heading',
+    bodyFont: '--font-body',
+} as const;
+
+/** Line for the system instructions. */
+export const DESIGN_TOKEN_INSTRUCTION = `- **Design Tokens:** Define every color and font family once as a CSS custom property on \`:root\` (at least ${Object.values(DESIGN_TOKEN_NAMES).join(', ')}), using hex values for colors. Everywhere else, reference them with var(), e.g. \`color: var(--color-text)\`; do not repeat literal color values or font names in other rules.`;
+
+export interface DesignToken {
+    name: string;
+    value: string;
+    /** Hex value for colors the theme editor can show in a color picker, otherwise null. */
+    color: string | null;
+}
+
+const DARK_MODE_START = '/* dark-mode:start – generated from the :root tokens */';
+const DARK_MODE_END = '/* dark-mode:end */';
+
+// --- Colors ---
+
+interface Hsl {
+    h: number;
+    s: number;
+    l: number;
+}
+
+/** Normalizes #rgb, #rrggbb, rgb() and hsl() to #rrggbb; values with transparency or other formats give null. */
+export function toHexColor(value: string): string | null {
+    const text = value.trim().toLowerCase();
+    const short = text.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+    if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+    if (/^#[0-9a-f]{6}$/.test(text)) return text;
+
+    const rgb = text.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)\s*(?:[,/]\s*(1|1\.0+|100%))?\s*\)$/);
+    if (rgb) return rgbToHex(Number(rgb[1]), Number(rgb[2]), Number(rgb[3]));
+
+    const hsl = text.match(/^hsla?\(\s*([\d.]+)(?:deg)?[\s,]+([\d.]+)%[\s,]+([\d.]+)%\s*(?:[,/]\s*(1|1\.0+|100%))?\s*\)$/);
+    if (hsl) return hslToHex({ h: Number(hsl[1]) / 360, s: Number(hsl[2]) / 100, l: Number(hsl[3]) / 100 });
+    return null;
+}
+
+function rgbToHex(r: number, g: number, b: number): string {
+    return `#${[r, g, b].map(channel => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function hexToHsl(hex: string): Hsl {
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    if (max === min) return { h: 0, s: 0, l };
+    const d = max - min;
+    const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+    return { h: h / 6, s, l };
+}
+
+function hslToHex({ h, s, l }: Hsl): string {
+    if (s === 0) return rgbToHex(l * 255, l * 255, l * 255);
+    const hueToRgb = (p: number, q: number, t: number) => {
+        if (t < 0) t += 1;
+        if (t > 1) t -= 1;
+        if (t < 1 / 6) return p + (q - p) * 6 * t;
+        if (t < 1 / 2) return q;
+        if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+        return p;
+    };
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    return rgbToHex(hueToRgb(p, q, h + 1 / 3) * 255, hueToRgb(p, q, h) * 255, hueToRgb(p, q, h - 1 / 3) * 255);
+}
+
+/**
+ * Dark-mode counterpart of a color: neutral colors (backgrounds, text, borders) swap their lightness,
+ * while saturated brand colors keep their hue and only get lighter so they stay readable on dark backgrounds.
+ */
+export function toDarkModeColor(hex: string): string {
+    const { h, s, l } = hexToHsl(hex);
+    const isBrandColor = s > 0.35 && l > 0.25 && l < 0.75;
+    const lightness = isBrandColor ? Math.min(0.8, l + 0.1) : Math.min(0.95, Math.max(0.07, 1 - l));
+    return hslToHex({ h, s: isBrandColor ? s : Math.min(s, 0.3), l: lightness });
+}
+
+// --- Tokens in the stylesheet ---
+
+function stripComments(css: string): string {
+    return css.replace(/\/\*[\s\S]*?\*\//g, match => ' '.repeat(match.length));
+}
+
+/** The top-level `:root` rule holding the light tokens; tokens in media queries are ignored. */
+function findRootBlock(css: string) {
+    return parseCssBlocks(css).find(block => /^:root$/i.test(block.prelude));
+}
+
+function declarationPattern(name?: string): RegExp {
+    const escapedName = name ? name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : '--[\\w-]+';
+    return new RegExp(`(^|[;{\\s])(${escapedName})\\s*:\\s*([^;}]*?)(?=\\s*(?:;|$))`, 'g');
+}
+
+export function extractDesignTokens(css: string): DesignToken[] {
+    const root = findRootBlock(css);
+    if (!root) return [];
+    const content = stripComments(root.content);
+    return Array.from(content.matchAll(declarationPattern()), match => ({
+        name: match[2],
+        value: match[3],
+        color: toHexColor(match[3]),
+    }));
+}
+
+/** Replaces the value of a token in the `:root` rule, leaving the rest of the stylesheet untouched. */
+export function setDesignToken(css: string, name: string, value: string): string {
+    const root = findRootBlock(css);
+    if (!root) return css;
+    const contentStart = root.end - 1 - root.content.length;
+    const pattern = declarationPattern(name);
+    const match = pattern.exec(stripComments(root.content));
+    if (!match) return css;
+    const valueStart = contentStart + match.index + match[0].length - match[3].length;
+    return css.slice(0, valueStart) + value + css.slice(valueStart + match[3].length);
+}
+
+// --- Dark mode ---
+
+export function hasDarkMode(css: string): boolean {
+    return css.includes(DARK_MODE_START);
+}
+
+function removeDarkMode(css: string): string {
+    const start = css.indexOf(DARK_MODE_START);
+    if (start === -1) return css;
+    const end = css.indexOf(DARK_MODE_END, start);
+    const rest = end === -1 ? '' : css.slice(end + DARK_MODE_END.length);
+    return (css.slice(0, start).trimEnd() + rest.replace(/^\s*\n/, '\n')).trimEnd() + '\n';
+}
+
+/** A `prefers-color-scheme: dark` block overriding the color tokens, or null if there are none. */
+export function buildDarkModeCss(tokens: DesignToken[]): string | null {
+    const colors = tokens.filter(token => token.color);
+    if (colors.length === 0) return null;
+    const declarations = colors.map(token => `        ${token.name}: ${toDarkModeColor(token.color!)};`);
+    return `${DARK_MODE_START}
+@media (prefers-color-scheme: dark) {
+    :root {
+        color-scheme: dark;
+${declarations.join('\n')}
+    }
+}
+${DARK_MODE_END}`;
+}
+
+/** Adds, regenerates or removes the generated dark-mode block at the end of the stylesheet. */
+export function applyDarkMode(css: string, enabled: boolean): string {
+    const withoutDarkMode = removeDarkMode(css);
+    if (!enabled) return withoutDarkMode;
+    const darkModeCss = buildDarkModeCss(extractDesignTokens(withoutDarkMode));
+    return darkModeCss ? `${withoutDarkMode.trimEnd()}\n\n${darkModeCss}\n` : withoutDarkMode;
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { MessageKey } from "./i18n";
+
+export interface Viewport {
+    width: number;
+    height: number;
+}
+
+export type DeviceId = 'phone' | 'tablet' | 'laptop';
+
+export interface DevicePreset extends Viewport {
+    id: DeviceId;
+    labelKey: MessageKey;
+}
+
+/** Sizes in CSS pixels, in each device's natural orientation. */
+export const DEVICE_PRESETS: DevicePreset[] = [
+    { id: 'phone', labelKey: 'preview.devicePhone', width: 390, height: 844 },
+    { id: 'tablet', labelKey: 'preview.deviceTablet', width: 820, height: 1180 },
+    { id: 'laptop', labelKey: 'preview.deviceLaptop', width: 1440, height: 900 },
+];
+
+export interface PreviewSettings {
+    /** 'responsive' fills the available space like before. */
+    device: 'responsive' | DeviceId | 'custom';
+    custom: Viewport;
+    /** Swaps width and height, e.g. to see a phone in landscape. */
+    rotated: boolean;
+    fitToScreen: boolean;
+    /** Shows all presets side by side instead of a single frame. */
+    multiView: boolean;
+}
+
+export const DEFAULT_PREVIEW_SETTINGS: PreviewSettings = {
+    device: 'responsive',
+    custom: { width: 1024, height: 768 },
+    rotated: false,
+    fitToScreen: true,
+    multiView: false,
+};
+
+export const MIN_VIEWPORT_SIZE = 240;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+const PREVIEW_SETTINGS_KEY = 'ai-website-gen-preview-settings';
+
+export function loadPreviewSettings(): PreviewSettings {
+    try {
+        const saved = localStorage.getItem(PREVIEW_SETTINGS_KEY);
+        if (saved) {
+            return { ...DEFAULT_PREVIEW_SETTINGS, ...JSON.parse(saved) };
+        }
+    } catch (e) {
+        console.warn("Could not read preview settings, using defaults.", e);
+    }
+    return { ...DEFAULT_PREVIEW_SETTINGS };
+}
+
+export function savePreviewSettings(settings: PreviewSettings) {
+    try {
+        localStorage.setItem(PREVIEW_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn("Could not save preview settings.", e);
+    }
+}
+
+export function clampViewportSize(value: number): number {
+    if (!Number.isFinite(value)) return MIN_VIEWPORT_SIZE;
+    return Math.round(Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, value)));
+}
+
+/** The emulated viewport, or null for the responsive mode. */
+export function getViewport(settings: PreviewSettings): Viewport | null {
+    if (settings.device === 'responsive') return null;
+    const { width, height } = settings.device === 'custom'
+        ? settings.custom
+        : DEVICE_PRESETS.find(preset => preset.id === settings.device) ?? DEVICE_PRESETS[0];
+    return settings.rotated ? { width: height, height: width } : { width, height };
+}
+
+/** Scale at which the viewport fits into the available space, never enlarging it. */
+export function fitScale(viewport: Viewport, available: Viewport): number {
+    if (available.width <= 0 || available.height <= 0) return 1;
+    return Math.min(1, available.width / viewport.width, available.height / viewport.height);
+}
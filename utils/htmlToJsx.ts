@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { t } from "./i18n";
+
+/** Lets the caller change how single elements are rendered, e.g. turning links into router links. */
+export interface JsxElementOverride {
+    tag?: string;
+    /** Attributes to leave out, by their HTML name. */
+    omitAttributes?: string[];
+    /** Raw JSX props appended after the attributes, e.g. `onClick={toggleMenu}`. */
+    props?: string[];
+    /** A raw JSX expression used for className instead of the class attribute. */
+    className?: string;
+}
+
+export interface JsxOptions {
+    override?: (element: Element) => JsxElementOverride | null;
+    /** Called for things that can't be carried over, such as inline event handlers. */
+    onDropped?: (message: string) => void;
+}
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Whitespace next to these elements is visible, so it has to survive the conversion
+const INLINE_ELEMENTS = new Set(['a', 'abbr', 'b', 'button', 'code', 'em', 'i', 'img', 'kbd', 'label', 'mark', 'q', 's', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u']);
+
+const BOOLEAN_ATTRIBUTES = new Set([
+    'allowfullscreen', 'async', 'autofocus', 'autoplay', 'checked', 'controls', 'default', 'defer', 'disabled',
+    'formnovalidate', 'hidden', 'loop', 'multiple', 'muted', 'novalidate', 'open', 'playsinline', 'readonly',
+    'required', 'reversed', 'selected',
+]);
+
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+    'class': 'className',
+    'for': 'htmlFor',
+    'tabindex': 'tabIndex',
+    'readonly': 'readOnly',
+    'maxlength': 'maxLength',
+    'minlength': 'minLength',
+    'colspan': 'colSpan',
+    'rowspan': 'rowSpan',
+    'srcset': 'srcSet',
+    'crossorigin': 'crossOrigin',
+    'autocomplete': 'autoComplete',
+    'autofocus': 'autoFocus',
+    'autoplay': 'autoPlay',
+    'playsinline': 'playsInline',
+    'enctype': 'encType',
+    'frameborder': 'frameBorder',
+    'allowfullscreen': 'allowFullScreen',
+    'novalidate': 'noValidate',
+    'formnovalidate': 'formNoValidate',
+    'contenteditable': 'contentEditable',
+    'spellcheck': 'spellCheck',
+    'datetime': 'dateTime',
+    'fetchpriority': 'fetchPriority',
+    'referrerpolicy': 'referrerPolicy',
+    'accesskey': 'accessKey',
+    'accept-charset': 'acceptCharset',
+    'http-equiv': 'httpEquiv',
+    'xlink:href': 'xlinkHref',
+    'xmlns:xlink': 'xmlnsXlink',
+    'xml:space': 'xmlSpace',
+    // Custom attribute of the Netlify form backend, kept as written
+    'netlify-honeypot': 'netlify-honeypot',
+};
+
+function camelCase(name: string): string {
+    return name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function jsxAttributeName(element: Element, name: string): string {
+    const formControl = ['input', 'textarea', 'select'].includes(element.localName);
+    // Uncontrolled defaults, so React doesn't warn about a value without onChange
+    if (formControl && name === 'value') return 'defaultValue';
+    if (formControl && name === 'checked') return 'defaultChecked';
+    if (JSX_ATTRIBUTE_NAMES[name]) return JSX_ATTRIBUTE_NAMES[name];
+    if (name.startsWith('aria-') || name.startsWith('data-')) return name;
+    return camelCase(name);
+}
+
+function jsxString(value: string): string {
+    return /["\\{}\n]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+/** Splits a style attribute into declarations, ignoring semicolons inside url(...) or strings. */
+function splitDeclarations(style: string): string[] {
+    const declarations: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let current = '';
+    for (const char of style) {
+        if (quote) {
+            if (char === quote) quote = '';
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth = Math.max(0, depth - 1);
+        } else if (char === ';' && depth === 0) {
+            declarations.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    declarations.push(current);
+    return declarations.map(declaration => declaration.trim()).filter(Boolean);
+}
+
+function styleToJsx(style: string): string {
+    const entries = splitDeclarations(style).map(declaration => {
+        const colon = declaration.indexOf(':');
+        if (colon === -1) return null;
+        const property = declaration.slice(0, colon).trim();
+        const value = declaration.slice(colon + 1).trim();
+        const key = property.startsWith('--') ? JSON.stringify(property) : camelCase(property.toLowerCase());
+        return `${key}: ${JSON.stringify(value)}`;
+    }).filter(Boolean);
+    return `{{ ${entries.join(', ')} }}`;
+}
+
+export function escapeJsxText(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/{/g, '&#123;')
+        .replace(/}/g, '&#125;');
+}
+
+function renderProps(element: Element, override: JsxElementOverride | null, options: JsxOptions): string {
+    const props: string[] = [];
+    for (const { name, value } of Array.from(element.attributes)) {
+        if (override?.omitAttributes?.includes(name)) continue;
+        if (name === 'class' && override?.className) continue;
+        if (name.startsWith('on')) {
+            options.onDropped?.(t('export.warning.inlineHandler', { name, tag: element.localName }));
+            continue;
+        }
+        if (name === 'style') {
+            props.push(`style=${styleToJsx(value)}`);
+        } else if (BOOLEAN_ATTRIBUTES.has(name)) {
+            props.push(jsxAttributeName(element, name));
+        } else {
+            props.push(`${jsxAttributeName(element, name)}=${jsxString(value)}`);
+        }
+    }
+    if (override?.className) props.push(`className=${override.className}`);
+    props.push(...override?.props ?? []);
+    return props.length ? ` ${props.join(' ')}` : '';
+}
+
+function isInlineNode(node: Node | null): boolean {
+    return !!node && (node.nodeType === Node.TEXT_NODE || INLINE_ELEMENTS.has((node as Element).localName));
+}
+
+/**
+ * Renders an element as JSX. Elements with text content are kept on one line so the
+ * spaces between words and inline elements survive JSX's whitespace trimming.
+ */
+export function elementToJsx(element: Element, options: JsxOptions = {}, indent = ''): string {
+    const override = options.override?.(element) ?? null;
+    const tag = override?.tag ?? element.localName;
+    const open = `<${tag}${renderProps(element, override, options)}`;
+    if (VOID_ELEMENTS.has(element.localName)) return `${indent}${open} />`;
+
+    const children = Array.from(element.childNodes).filter(node => node.nodeType === Node.TEXT_NODE || node.nodeType === Node.ELEMENT_NODE);
+    if (children.length === 0) return `${indent}${open} />`;
+
+    const hasText = children.some(node => node.nodeType === Node.TEXT_NODE && node.textContent!.trim());
+    if (hasText) {
+        const inline = children.map(node => node.nodeType === Node.TEXT_NODE
+            ? escapeJsxText(node.textContent!.replace(/\s+/g, ' '))
+            : elementToJsx(node as Element, options).replace(/\n\s*/g, '')
+        ).join('').trim();
+        return `${indent}${open}>${inline}</${tag}>`;
+    }
+
+    const lines: string[] = [];
+    children.forEach((node, i) => {
+        if (node.nodeType === Node.ELEMENT_NODE) {
+            lines.push(elementToJsx(node as Element, options, `${indent}    `));
+        } else if (i > 0 && i < children.length - 1 && isInlineNode(children[i - 1]) && isInlineNode(children[i + 1])) {
+            lines.push(`${indent}    {' '}`);
+        }
+    });
+    return `${indent}${open}>\n${lines.join('\n')}\n${indent}</${tag}>`;
+}
+
+/** Renders the element's own tag around JSX children that were rendered separately. */
+export function wrapJsx(element: Element, children: string[], options: JsxOptions = {}, indent = ''): string {
+    const override = options.override?.(element) ?? null;
+    const tag = override?.tag ?? element.localName;
+    return `${indent}<${tag}${renderProps(element, override, options)}>\n${children.join('\n')}\n${indent}</${tag}>`;
+}
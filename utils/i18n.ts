@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { de } from "../locales/de";
+import { en } from "../locales/en";
+
+export type Locale = 'de' | 'en';
+
+/** A message with `{name}` placeholders, or its plural forms, picked by the `count` parameter. */
+export type Message = string | { one: string; other: string };
+export type MessageKey = keyof typeof de;
+export type MessageCatalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+/** The interface languages, each labelled in its own language for the switcher. */
+export const LOCALES: Record<Locale, { label: string; catalog: MessageCatalog }> = {
+    de: { label: 'Deutsch', catalog: de },
+    en: { label: 'English', catalog: en },
+};
+
+const LOCALE_KEY = 'ai-website-gen-locale';
+
+function isLocale(value: unknown): value is Locale {
+    return typeof value === 'string' && value in LOCALES;
+}
+
+/** The saved choice, otherwise the first supported browser language, otherwise English. */
+function detectLocale(): Locale {
+    try {
+        // Outside the browser (the CLI) there is no storage to read from
+        const saved = typeof localStorage === 'undefined' ? null : localStorage.getItem(LOCALE_KEY);
+        if (isLocale(saved)) return saved;
+    } catch (e) {
+        console.warn("Could not read interface language.", e);
+    }
+    if (typeof navigator === 'undefined') return 'en';
+    const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+    return languages.map(language => language?.split('-')[0].toLowerCase()).find(isLocale) ?? 'en';
+}
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<(locale: Locale) => void>();
+
+export function getLocale(): Locale {
+    return currentLocale;
+}
+
+/** Switches the interface language, remembers it and re-translates the static markup. */
+export function setLocale(locale: Locale) {
+    if (locale === currentLocale) return;
+    currentLocale = locale;
+    try {
+        localStorage.setItem(LOCALE_KEY, locale);
+    } catch (e) {
+        console.warn("Could not save interface language.", e);
+    }
+    translatePage();
+    listeners.forEach(listener => listener(locale));
+}
+
+/** Registers a callback for language switches, e.g. to re-render lists built in code. */
+export function onLocaleChange(listener: (locale: Locale) => void) {
+    listeners.add(listener);
+}
+
+export function t(key: MessageKey, params: MessageParams = {}): string {
+    const message: Message = LOCALES[currentLocale].catalog[key] ?? de[key];
+    const text = typeof message === 'string'
+        ? message
+        : message[new Intl.PluralRules(currentLocale).select(Number(params.count)) === 'one' ? 'one' : 'other'];
+    return text.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+}
+
+export function formatDateTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(numberLocale());
+}
+
+export function formatNumber(value: number): string {
+    return value.toLocaleString(numberLocale());
+}
+
+/** US dollars; amounts below one dollar get four decimals, so a single call doesn't show as 0.00. */
+export function formatCost(amount: number): string {
+    return amount.toLocaleString(numberLocale(), {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: amount > 0 && amount < 1 ? 4 : 2,
+    });
+}
+
+function numberLocale(): string {
+    return currentLocale === 'de' ? 'de-DE' : 'en-GB';
+}
+
+/**
+ * Translates the static markup below `root`: `data-i18n` sets the text, `data-i18n-html` trusted markup
+ * from the catalog and `data-i18n-attr="placeholder:key; title:key"` attributes.
+ */
+export function translatePage(root: ParentNode = document) {
+    if (root === document) document.documentElement.lang = currentLocale;
+    root.querySelectorAll<HTMLElement>('[data-i18n]').forEach(element => {
+        element.textContent = t(element.dataset.i18n as MessageKey);
+    });
+    root.querySelectorAll<HTMLElement>('[data-i18n-html]').forEach(element => {
+        element.innerHTML = t(element.dataset.i18nHtml as MessageKey);
+    });
+    root.querySelectorAll<HTMLElement>('[data-i18n-attr]').forEach(element => {
+        element.dataset.i18nAttr!.split(';').forEach(pair => {
+            const [attribute, key] = pair.split(':').map(part => part.trim());
+            if (attribute && key) element.setAttribute(attribute, t(key as MessageKey));
+        });
+    });
+}
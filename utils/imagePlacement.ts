@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { AspectRatio } from "../services/aiProvider";
+import { ASPECT_RATIOS, aspectRatioValue } from "./imageTools";
+
+const DEFAULT_ASPECT_RATIO: AspectRatio = '16:9';
+
+// Matched against the id, classes and alt text of the image, then of its ancestors; the first match wins
+const PLACEMENT_RULES: { pattern: RegExp; aspectRatio: AspectRatio }[] = [
+    { pattern: /avatar|profile|portrait|headshot|testimonial|team|author|member|founder|person|logo|icon/, aspectRatio: '1:1' },
+    { pattern: /hero|banner|cover|jumbotron|masthead|backdrop|background/, aspectRatio: '16:9' },
+    { pattern: /card|thumb|gallery|grid|product|feature|service|portfolio|project|blog|post|article|menu/, aspectRatio: '4:3' },
+];
+
+function describeElement(element: Element): string {
+    const alt = element.tagName === 'IMG' ? element.getAttribute('alt') ?? '' : '';
+    return `${element.id} ${element.getAttribute('class') ?? ''} ${alt}`.toLowerCase();
+}
+
+/** The supported ratio closest to explicit width/height attributes, if both are set. */
+function ratioFromAttributes(img: Element): AspectRatio | null {
+    const width = parseFloat(img.getAttribute('width') ?? '');
+    const height = parseFloat(img.getAttribute('height') ?? '');
+    if (!(width > 0 && height > 0)) return null;
+    const target = Math.log(width / height);
+    return ASPECT_RATIOS.reduce((best, ratio) =>
+        Math.abs(Math.log(aspectRatioValue(ratio)) - target) < Math.abs(Math.log(aspectRatioValue(best)) - target) ? ratio : best
+    );
+}
+
+/** Picks the aspect ratio for an image placeholder from where it is placed: hero banner, card thumbnail, avatar, ... */
+export function inferAspectRatio(img: Element | null): AspectRatio {
+    if (!img) return DEFAULT_ASPECT_RATIO;
+    const fromAttributes = ratioFromAttributes(img);
+    if (fromAttributes) return fromAttributes;
+    for (let element: Element | null = img; element && element.tagName !== 'BODY'; element = element.parentElement) {
+        const description = describeElement(element);
+        const rule = PLACEMENT_RULES.find(({ pattern }) => pattern.test(description));
+        if (rule) return rule.aspectRatio;
+    }
+    return DEFAULT_ASPECT_RATIO;
+}
+
+/** Aspect ratios of all `<img id>` placeholders in the given HTML documents, by id. */
+export function inferAspectRatios(htmlParts: string[]): Map<string, AspectRatio> {
+    const parser = new DOMParser();
+    const ratios = new Map<string, AspectRatio>();
+    htmlParts.forEach(html => {
+        parser.parseFromString(html, 'text/html').querySelectorAll('img[id]').forEach(img => {
+            if (!ratios.has(img.id)) ratios.set(img.id, inferAspectRatio(img));
+        });
+    });
+    return ratios;
+}
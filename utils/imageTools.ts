@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { AspectRatio } from "../services/aiProvider";
+
+export const ASPECT_RATIOS: AspectRatio[] = ['16:9', '4:3', '1:1', '3:4', '9:16'];
+
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export function aspectRatioValue(ratio: AspectRatio): number {
+    const [w, h] = ratio.split(':').map(Number);
+    return w / h;
+}
+
+export function readFileAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error("Could not load image."));
+        image.src = url;
+    });
+}
+
+/**
+ * Largest rect with the given ratio that fits into the image, scaled by `scale` (0-1)
+ * and centred on (centerX, centerY), clamped to the image bounds.
+ */
+export function fitCropRect(
+    imageWidth: number,
+    imageHeight: number,
+    ratio: AspectRatio,
+    scale = 1,
+    centerX = imageWidth / 2,
+    centerY = imageHeight / 2
+): CropRect {
+    const value = aspectRatioValue(ratio);
+    let width = imageWidth;
+    let height = width / value;
+    if (height > imageHeight) {
+        height = imageHeight;
+        width = height * value;
+    }
+    width *= scale;
+    height *= scale;
+    const x = Math.min(Math.max(centerX - width / 2, 0), imageWidth - width);
+    const y = Math.min(Math.max(centerY - height / 2, 0), imageHeight - height);
+    return { x, y, width, height };
+}
+
+function hasTransparency(context: CanvasRenderingContext2D, width: number, height: number): boolean {
+    const { data } = context.getImageData(0, 0, width, height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true;
+    }
+    return false;
+}
+
+/**
+ * Crops the image to the rect (in natural pixels) and returns a JPEG data URL, or a PNG one
+ * if the cropped area is transparent somewhere, e.g. for logos and SVG placeholders.
+ */
+export async function cropImage(url: string, rect: CropRect, maxWidth = 1920): Promise<string> {
+    const image = await loadImage(url);
+    const scale = Math.min(1, maxWidth / rect.width);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(rect.width * scale);
+    canvas.height = Math.round(rect.height * scale);
+    const context = canvas.getContext('2d')!;
+    context.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+    const opaque = url.startsWith('data:image/jpeg') || !hasTransparency(context, canvas.width, canvas.height);
+    return opaque ? canvas.toDataURL('image/jpeg', 0.9) : canvas.toDataURL('image/png');
+}
+
+/**
+ * Scales the image down to `width` (never up) and encodes it. Browsers fall back to PNG
+ * for types they can't encode, so callers should check the type of the returned Blob.
+ */
+export function encodeImage(image: HTMLImageElement, mimeType: string, width: number, quality = 0.8): Promise<Blob> {
+    const scale = Math.min(1, width / image.naturalWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode image.")), mimeType, quality);
+    });
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+    /** 1-based line numbers in the old and new text; absent on the side the line doesn't exist. */
+    oldLine?: number;
+    newLine?: number;
+}
+
+// Above this many cells the LCS table gets too big; the middle is then shown as one replaced block
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Line-based diff (longest common subsequence) after trimming the common prefix and suffix. */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = oldText.split('\n');
+    const b = newText.split('\n');
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix && suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const result: DiffLine[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    const same = (text: string) => result.push({ type: 'same', text, oldLine: oldLine++, newLine: newLine++ });
+    const removed = (text: string) => result.push({ type: 'removed', text, oldLine: oldLine++ });
+    const added = (text: string) => result.push({ type: 'added', text, newLine: newLine++ });
+
+    a.slice(0, prefix).forEach(same);
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    if (midA.length * midB.length > MAX_LCS_CELLS) {
+        midA.forEach(removed);
+        midB.forEach(added);
+    } else {
+        // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+        const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+        for (let i = midA.length - 1; i >= 0; i--) {
+            for (let j = midB.length - 1; j >= 0; j--) {
+                lengths[i][j] = midA[i] === midB[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < midA.length || j < midB.length) {
+            if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+                same(midA[i]);
+                i++;
+                j++;
+            } else if (i < midA.length && (j === midB.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+                removed(midA[i++]);
+            } else {
+                added(midB[j++]);
+            }
+        }
+    }
+
+    a.slice(a.length - suffix).forEach(same);
+    return result;
+}
+
+export type DiffRow = DiffLine | { type: 'gap'; hidden: number };
+
+/** Collapses runs of unchanged lines, keeping `context` lines around each change. */
+export function collapseUnchanged(lines: DiffLine[], context = 3): DiffRow[] {
+    const keep = lines.map(line => line.type !== 'same');
+    lines.forEach((line, index) => {
+        if (line.type === 'same') return;
+        for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) keep[k] = true;
+    });
+
+    const rows: DiffRow[] = [];
+    let hidden = 0;
+    lines.forEach((line, index) => {
+        if (keep[index]) {
+            if (hidden) rows.push({ type: 'gap', hidden });
+            hidden = 0;
+            rows.push(line);
+        } else {
+            hidden++;
+        }
+    });
+    if (hidden) rows.push({ type: 'gap', hidden });
+    return rows;
+}
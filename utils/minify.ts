@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const CSS_PUNCTUATION = '{};,>';
+
+/** Removes comments, except those starting with `/*!`, and collapses whitespace. Strings are copied untouched. */
+export function minifyCss(css: string): string {
+    let result = '';
+    for (let i = 0; i < css.length; i++) {
+        const char = css[i];
+        if (char === '/' && css[i + 1] === '*') {
+            const close = css.indexOf('*/', i + 2);
+            const end = close === -1 ? css.length : close + 1;
+            if (css[i + 2] === '!') result += css.slice(i, end + 1);
+            i = end;
+            continue;
+        }
+        if (char === '"' || char === "'") {
+            let end = i + 1;
+            while (end < css.length && css[end] !== char) {
+                if (css[end] === '\\') end++;
+                end++;
+            }
+            result += css.slice(i, end + 1);
+            i = end;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            while (i + 1 < css.length && /\s/.test(css[i + 1])) i++;
+            const previous = result[result.length - 1];
+            const next = css[i + 1];
+            // A space before ":" can be a descendant combinator (`nav :hover`), after it never matters
+            if (!previous || !next || previous === ':' || CSS_PUNCTUATION.includes(previous) || CSS_PUNCTUATION.includes(next)) continue;
+            result += ' ';
+            continue;
+        }
+        // The last declaration of a block needs no semicolon
+        if (char === '}' && result.endsWith(';')) result = result.slice(0, -1);
+        result += char;
+    }
+    return result.trim();
+}
+
+/**
+ * Whitespace-level minification: drops indentation, blank lines and comment-only lines
+ * unless the comment starts with `/*!`.
+ * Line breaks are kept so automatic semicolon insertion keeps working, and lines inside
+ * multi-line template literals are left as they are.
+ */
+export function minifyJs(js: string): string {
+    const lines: string[] = [];
+    let inTemplate = false;
+    let inBlockComment = false;
+
+    for (const line of js.split('\n')) {
+        if (inTemplate) {
+            lines.push(line);
+        } else {
+            const trimmed = line.trim();
+            if (inBlockComment) {
+                inBlockComment = !trimmed.includes('*/');
+                continue;
+            }
+            if (trimmed.startsWith('/*') && !trimmed.startsWith('/*!')) {
+                inBlockComment = !trimmed.includes('*/');
+                continue;
+            }
+            if (!trimmed || trimmed.startsWith('//')) continue;
+            lines.push(trimmed);
+        }
+        const backticks = (line.match(/(?<!\\)`/g) ?? []).length;
+        if (backticks % 2 === 1) inTemplate = !inTemplate;
+    }
+    return lines.join('\n');
+}
+
+const WHITESPACE_SENSITIVE = 'pre, textarea, script, style';
+
+/** Removes comments and collapses whitespace in text nodes, in place. */
+export function minifyDocument(doc: Document) {
+    const walker = doc.createTreeWalker(doc.documentElement, NodeFilter.SHOW_COMMENT | NodeFilter.SHOW_TEXT);
+    const comments: Node[] = [];
+    const emptyTexts: Node[] = [];
+
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (node.nodeType === Node.COMMENT_NODE) {
+            comments.push(node);
+            continue;
+        }
+        const parent = node.parentElement;
+        if (!parent || parent.closest(WHITESPACE_SENSITIVE)) continue;
+        const text = node.textContent ?? '';
+        // Whitespace between inline elements is significant, so it shrinks to one space instead of vanishing
+        if (!text.trim() && (parent === doc.documentElement || parent === doc.head)) {
+            emptyTexts.push(node);
+        } else {
+            node.textContent = text.replace(/\s+/g, ' ');
+        }
+    }
+    [...comments, ...emptyTexts].forEach(node => node.parentNode?.removeChild(node));
+}
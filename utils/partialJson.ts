@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Reads all string values of `key` from JSON that may still be incomplete, e.g. while a response
+ * is streaming in. The last value may be cut off; escape sequences are decoded as far as they are complete.
+ */
+export function readPartialJsonStrings(json: string, key: string): string[] {
+    const values: string[] = [];
+    const pattern = new RegExp(`"${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"\\s*:\\s*"`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(json))) {
+        let value = '';
+        let i = match.index + match[0].length;
+        for (; i < json.length; i++) {
+            const char = json[i];
+            if (char === '"') break;
+            if (char !== '\\') {
+                value += char;
+                continue;
+            }
+            const next = json[i + 1];
+            if (next === undefined) break;
+            if (next === 'u') {
+                const hex = json.slice(i + 2, i + 6);
+                if (!/^[0-9a-f]{4}$/i.test(hex)) break;
+                value += String.fromCharCode(parseInt(hex, 16));
+                i += 5;
+            } else {
+                value += ESCAPES[next] ?? next;
+                i++;
+            }
+        }
+        values.push(value);
+        pattern.lastIndex = i;
+    }
+    return values;
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { AspectRatio } from "../services/aiProvider";
+
+const DIMENSIONS: Record<AspectRatio, [number, number]> = {
+    '1:1': [1024, 1024],
+    '3:4': [768, 1024],
+    '4:3': [1024, 768],
+    '9:16': [720, 1280],
+    '16:9': [1280, 720],
+};
+
+/** Small, stable string hash so the same prompt always yields the same colours. */
+export function hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+}
+
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if ((current + ' ' + word).trim().length > maxChars && current) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = (current + ' ' + word).trim();
+        }
+    }
+    if (current) lines.push(current);
+    if (lines.length > maxLines) {
+        lines.length = maxLines;
+        lines[maxLines - 1] = lines[maxLines - 1].replace(/.{0,3}$/, '...');
+    }
+    return lines;
+}
+
+/**
+ * Builds a self-contained SVG placeholder (as a data URL) that shows the prompt text.
+ * Works without network access, so it is safe to store and export like a real image.
+ */
+export function createPlaceholderImage(prompt: string, aspectRatio: AspectRatio = '16:9', label = ''): string {
+    const [width, height] = DIMENSIONS[aspectRatio];
+    const hue = hashString(prompt) % 360;
+    const fontSize = Math.round(Math.min(width, height) / 18);
+    const lines = wrapText(prompt, Math.floor(width / (fontSize * 0.6)), 4);
+    const startY = height / 2 - ((lines.length - 1) * fontSize * 1.3) / 2;
+
+    const textLines = lines.map((line, i) =>
+        `<text x="50%" y="${Math.round(startY + i * fontSize * 1.3)}" text-anchor="middle" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff" fill-opacity="0.9">${escapeXml(line)}</text>`
+    ).join('');
+    const labelText = label
+        ? `<text x="50%" y="${height - fontSize}" text-anchor="middle" font-family="monospace" font-size="${Math.round(fontSize * 0.6)}" fill="#ffffff" fill-opacity="0.6">${escapeXml(label)}</text>`
+        : '';
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+        + `<stop offset="0" stop-color="hsl(${hue}, 55%, 45%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360}, 55%, 25%)"/>`
+        + `</linearGradient></defs>`
+        + `<rect width="100%" height="100%" fill="url(#g)"/>`
+        + textLines
+        + labelText
+        + `</svg>`;
+
+    return `data:image/svg+xml;base64,${toBase64(svg)}`;
+}
+
+function toBase64(value: string): string {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A saved starting point for the generation form. */
+export interface PromptPreset {
+    id: string;
+    name: string;
+    /** Prompt text, may contain `{{variables}}` that are filled in before generating. */
+    prompt: string;
+    pageType: string;
+    language: string;
+    imageCount: number;
+    sections: string[];
+}
+
+/** Shape of an exported preset library, versioned so later formats can still read it. */
+interface PresetFile {
+    format: typeof PRESET_FILE_FORMAT;
+    version: 1;
+    presets: PromptPreset[];
+}
+
+const PRESETS_KEY = 'ai-website-gen-prompt-presets';
+const PRESET_FILE_FORMAT = 'ai-website-gen-presets';
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export function createPresetId(): string {
+    return `t-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isPreset(value: unknown): value is PromptPreset {
+    const preset = value as PromptPreset;
+    return typeof preset === 'object' && preset !== null
+        && typeof preset.name === 'string' && preset.name.trim() !== ''
+        && typeof preset.prompt === 'string'
+        && typeof preset.pageType === 'string'
+        && typeof preset.language === 'string'
+        && typeof preset.imageCount === 'number' && Number.isFinite(preset.imageCount)
+        && Array.isArray(preset.sections) && preset.sections.every(section => typeof section === 'string');
+}
+
+/** Copies only the known fields, so nothing unexpected from a file ends up in storage. */
+function normalizePreset(preset: PromptPreset): PromptPreset {
+    return {
+        id: typeof preset.id === 'string' && preset.id ? preset.id : createPresetId(),
+        name: preset.name.trim(),
+        prompt: preset.prompt,
+        pageType: preset.pageType,
+        language: preset.language,
+        imageCount: Math.round(preset.imageCount),
+        sections: [...preset.sections],
+    };
+}
+
+export function loadPresets(): PromptPreset[] {
+    try {
+        const saved = localStorage.getItem(PRESETS_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved) as unknown;
+            if (Array.isArray(parsed)) return parsed.filter(isPreset).map(normalizePreset);
+        }
+    } catch (e) {
+        console.warn("Could not read prompt presets.", e);
+    }
+    return [];
+}
+
+export function savePresets(presets: PromptPreset[]) {
+    try {
+        localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+    } catch (e) {
+        console.warn("Could not save prompt presets.", e);
+    }
+}
+
+/** Distinct variable names in the prompt, in order of their first use. */
+export function extractVariables(prompt: string): string[] {
+    return [...new Set(Array.from(prompt.matchAll(VARIABLE_PATTERN), match => match[1]))];
+}
+
+/** Replaces every `{{variable}}` with its value; variables without a value are kept as they are. */
+export function fillVariables(prompt: string, values: Record<string, string>): string {
+    return prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+        const value = values[name]?.trim();
+        return value ? value : placeholder;
+    });
+}
+
+export function serializePresets(presets: PromptPreset[]): string {
+    const file: PresetFile = { format: PRESET_FILE_FORMAT, version: 1, presets };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported preset library. A plain array of presets is accepted as well, so
+ * hand-written files work. Throws if the file contains no valid presets.
+ */
+export function parsePresetFile(text: string): PromptPreset[] {
+    const data = JSON.parse(text) as Partial<PresetFile> | unknown[];
+    const entries = Array.isArray(data) ? data : data?.presets;
+    if (!Array.isArray(entries)) throw new Error("The file contains no presets.");
+    const presets = entries.filter(isPreset).map(normalizePreset);
+    if (presets.length === 0) throw new Error("The file contains no valid presets.");
+    return presets;
+}
+
+/**
+ * Adds imported presets to the library. A preset with the same id or name replaces the
+ * existing one, so re-importing the team's updated library doesn't create duplicates.
+ */
+export function mergePresets(existing: PromptPreset[], imported: PromptPreset[]): PromptPreset[] {
+    const merged = [...existing];
+    imported.forEach(preset => {
+        const index = merged.findIndex(other => other.id === preset.id || other.name === preset.name);
+        if (index === -1) merged.push(preset);
+        else merged[index] = { ...preset, id: merged[index].id };
+    });
+    return merged;
+}
@@ -0,0 +1,290 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** What generated markup may load or run; everything else is removed before it reaches the editor. */
+export interface SecurityPolicy {
+    /** Origins like https://cdn.jsdelivr.net that external scripts may load from; `https://*.example.com` covers subdomains. */
+    scriptOrigins: string[];
+    /** Origins for external stylesheets, including `@import` rules. */
+    styleOrigins: string[];
+    /** Origins that `<iframe>` embeds (maps, videos) may show. */
+    frameOrigins: string[];
+    /** External origins forms may submit to; relative actions and mailto: are always allowed. */
+    formActionOrigins: string[];
+    /** Keep `onclick="..."` and other inline event handler attributes. */
+    allowInlineHandlers: boolean;
+    /** Keep `javascript:` URLs in links and other URL attributes. */
+    allowJavascriptUrls: boolean;
+}
+
+export type SecurityOriginList = 'scriptOrigins' | 'styleOrigins' | 'frameOrigins' | 'formActionOrigins';
+
+export const DEFAULT_SECURITY_POLICY: SecurityPolicy = {
+    scriptOrigins: [],
+    styleOrigins: ['https://fonts.googleapis.com'],
+    frameOrigins: ['https://www.google.com', 'https://maps.google.com', 'https://www.youtube-nocookie.com', 'https://www.youtube.com', 'https://player.vimeo.com'],
+    formActionOrigins: [],
+    allowInlineHandlers: false,
+    allowJavascriptUrls: false,
+};
+
+const SECURITY_POLICY_KEY = 'ai-website-gen-security-policy';
+
+export function loadSecurityPolicy(): SecurityPolicy {
+    try {
+        const saved = localStorage.getItem(SECURITY_POLICY_KEY);
+        if (saved) {
+            return { ...DEFAULT_SECURITY_POLICY, ...JSON.parse(saved) };
+        }
+    } catch (e) {
+        console.warn("Could not read security policy, using defaults.", e);
+    }
+    return { ...DEFAULT_SECURITY_POLICY };
+}
+
+export function saveSecurityPolicy(policy: SecurityPolicy) {
+    try {
+        localStorage.setItem(SECURITY_POLICY_KEY, JSON.stringify(policy));
+    } catch (e) {
+        console.warn("Could not save security policy.", e);
+    }
+}
+
+/** Reads one origin per line; paths are dropped and lines that aren't URLs are ignored. */
+export function parseOrigins(text: string): string[] {
+    const origins = text.split(/[\n,]/).map(line => line.trim()).filter(Boolean).flatMap(line => {
+        const wildcard = line.match(/^(https?:\/\/)\*\.([^/]+)/i);
+        if (wildcard) return [`${wildcard[1]}*.${wildcard[2]}`.toLowerCase()];
+        try {
+            const url = new URL(line.includes('://') ? line : `https://${line}`);
+            return /^https?:$/.test(url.protocol) ? [url.origin] : [];
+        } catch {
+            return [];
+        }
+    });
+    return [...new Set(origins)];
+}
+
+/** Escapes text for use in HTML markup and quoted attribute values built by the app itself. */
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+export type SecurityFindingKind = 'script' | 'stylesheet' | 'event-handler' | 'iframe' | 'javascript-url' | 'form-action' | 'base' | 'meta-refresh';
+
+/** Something the sanitizer removed, e.g. a script from an origin that isn't allowed. */
+export interface SecurityFinding {
+    kind: SecurityFindingKind;
+    /** The URL, or the attribute and element, that was removed. */
+    detail: string;
+}
+
+const SCRIPT_TYPES = ['', 'text/javascript', 'application/javascript', 'module'];
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href'];
+
+/** Origin of an absolute or protocol-relative URL; null for relative URLs, which stay on the site's own origin. */
+function externalOrigin(url: string): string | null {
+    const value = url.trim();
+    if (!/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(value)) return null;
+    try {
+        const parsed = new URL(value, 'https://site.invalid/');
+        return /^https?:$/.test(parsed.protocol) ? parsed.origin : `${parsed.protocol}`;
+    } catch {
+        return 'invalid:';
+    }
+}
+
+function isOriginAllowed(origin: string, allowed: string[]): boolean {
+    return allowed.some(entry => {
+        const wildcard = entry.match(/^(https?:\/\/)\*\.(.+)$/);
+        if (!wildcard) return entry === origin;
+        return origin.startsWith(wildcard[1]) && origin.endsWith(`.${wildcard[2]}`);
+    });
+}
+
+function isJavascriptUrl(value: string): boolean {
+    // Browsers ignore control characters and whitespace inside the scheme
+    return value.replace(/[\u0000- ]/g, '').toLowerCase().startsWith('javascript:');
+}
+
+/** Removes `@import` rules that load stylesheets from origins the policy doesn't allow. */
+export function sanitizeCss(css: string, policy: SecurityPolicy): { css: string; findings: SecurityFinding[] } {
+    const findings: SecurityFinding[] = [];
+    const sanitized = css.replace(/@import\s+(?:url\(\s*)?["']?([^"')\s;]+)["']?\s*\)?[^;]*;/gi, (rule, url: string) => {
+        const origin = externalOrigin(url);
+        if (!origin || isOriginAllowed(origin, policy.styleOrigins)) return rule;
+        findings.push({ kind: 'stylesheet', detail: url });
+        return '';
+    });
+    return { css: sanitized, findings };
+}
+
+/**
+ * Applies the policy to a page: external scripts, stylesheets and embeds from other origins,
+ * inline event handlers, `javascript:` URLs, external form actions, base URLs and refresh redirects are removed.
+ * The HTML is returned unchanged when there was nothing to remove.
+ */
+export function sanitizeHtml(html: string, policy: SecurityPolicy): { html: string; findings: SecurityFinding[] } {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const findings: SecurityFinding[] = [];
+
+    doc.querySelectorAll('script[src]').forEach(script => {
+        const src = script.getAttribute('src')!;
+        const origin = externalOrigin(src);
+        if (!origin || isOriginAllowed(origin, policy.scriptOrigins)) return;
+        findings.push({ kind: 'script', detail: src });
+        script.remove();
+    });
+
+    doc.querySelectorAll('link[rel~="stylesheet" i][href]').forEach(link => {
+        const href = link.getAttribute('href')!;
+        const origin = externalOrigin(href);
+        if (!origin || isOriginAllowed(origin, policy.styleOrigins)) return;
+        findings.push({ kind: 'stylesheet', detail: href });
+        link.remove();
+    });
+
+    doc.querySelectorAll('style').forEach(style => {
+        const result = sanitizeCss(style.textContent ?? '', policy);
+        if (result.findings.length === 0) return;
+        findings.push(...result.findings);
+        style.textContent = result.css;
+    });
+
+    doc.querySelectorAll('iframe, frame, object, embed').forEach(element => {
+        const src = element.getAttribute('src') ?? element.getAttribute('data') ?? '';
+        const origin = externalOrigin(src);
+        // Inline documents could run anything, so only embeds of allowed origins are kept
+        const allowed = element.tagName === 'IFRAME' && !element.hasAttribute('srcdoc')
+            && (!origin || isOriginAllowed(origin, policy.frameOrigins));
+        if (allowed) return;
+        findings.push({ kind: 'iframe', detail: src || `<${element.tagName.toLowerCase()}>` });
+        element.remove();
+    });
+
+    doc.querySelectorAll('*').forEach(element => {
+        const tag = element.tagName.toLowerCase();
+        Array.from(element.attributes).forEach(attribute => {
+            const name = attribute.name.toLowerCase();
+            if (name.startsWith('on') && !policy.allowInlineHandlers) {
+                findings.push({ kind: 'event-handler', detail: `${name} (<${tag}>)` });
+                element.removeAttribute(attribute.name);
+            } else if (URL_ATTRIBUTES.includes(name) && isJavascriptUrl(attribute.value) && !policy.allowJavascriptUrls) {
+                findings.push({ kind: 'javascript-url', detail: `${name} (<${tag}>)` });
+                // A link without href is no longer focusable, so it points at the page instead
+                if (tag === 'a' && name === 'href') element.setAttribute('href', '#');
+                else element.removeAttribute(attribute.name);
+            }
+        });
+    });
+
+    // A base URL would point every relative link and asset at another site
+    doc.querySelectorAll('base[href]').forEach(base => {
+        findings.push({ kind: 'base', detail: base.getAttribute('href')! });
+        base.remove();
+    });
+
+    // Redirects can lead to any URL, including javascript: ones, without the visitor doing anything
+    doc.querySelectorAll('meta[http-equiv="refresh" i]').forEach(meta => {
+        findings.push({ kind: 'meta-refresh', detail: meta.getAttribute('content') ?? '' });
+        meta.remove();
+    });
+
+    doc.querySelectorAll('form[action], [formaction]').forEach(element => {
+        const name = element.hasAttribute('formaction') ? 'formaction' : 'action';
+        const action = element.getAttribute(name)!;
+        const origin = externalOrigin(action);
+        if (!origin || origin === 'mailto:' || isOriginAllowed(origin, policy.formActionOrigins)) return;
+        findings.push({ kind: 'form-action', detail: action });
+        element.removeAttribute(name);
+    });
+
+    return { html: findings.length > 0 ? doc.documentElement.outerHTML : html, findings };
+}
+
+async function sha256Source(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return `'sha256-${btoa(String.fromCharCode(...new Uint8Array(digest)))}'`;
+}
+
+function originsOf(urls: (string | null | undefined)[]): string[] {
+    return urls.map(url => url && externalOrigin(url)).filter((origin): origin is string => !!origin && /^https?:\/\//.test(origin));
+}
+
+/**
+ * A Content-Security-Policy for the finished page that allows exactly what it uses: its own files,
+ * the external origins it references and its inline scripts by hash. `css` is the site's stylesheet,
+ * which may be linked instead of inlined.
+ */
+export async function buildContentSecurityPolicy(doc: Document, css: string): Promise<string> {
+    const all = (selector: string, attribute: string) => Array.from(doc.querySelectorAll(selector), element => element.getAttribute(attribute));
+    const cssUrls = Array.from(css.matchAll(/url\(\s*["']?([^"')\s]+)/gi), match => match[1]);
+    const cssImports = Array.from(css.matchAll(/@import\s+["']([^"']+)/gi), match => match[1]);
+
+    const hasInlineCode = Array.from(doc.querySelectorAll('*')).some(element => Array.from(element.attributes).some(attribute => {
+        const name = attribute.name.toLowerCase();
+        return name.startsWith('on') || (URL_ATTRIBUTES.includes(name) && isJavascriptUrl(attribute.value));
+    }));
+    const inlineScripts = Array.from(doc.querySelectorAll('script:not([src])'))
+        .filter(script => SCRIPT_TYPES.includes((script.getAttribute('type') ?? '').trim().toLowerCase()));
+    // Hashes switch 'unsafe-inline' off, and inline handlers can't be allowed by hash
+    const scriptSources = hasInlineCode
+        ? ["'unsafe-inline'"]
+        : await Promise.all(inlineScripts.map(script => sha256Source(script.textContent ?? '')));
+
+    const stylesheetOrigins = originsOf([...all('link[rel~="stylesheet" i]', 'href'), ...cssImports]);
+    const hasInlineStyles = !!doc.querySelector('style, [style]');
+    const srcsetUrls = all('img[srcset], source[srcset]', 'srcset').flatMap(srcset => (srcset ?? '').split(',').map(candidate => candidate.trim().split(/\s+/)[0]));
+    const imageUrls = [...all('img[src]', 'src'), ...srcsetUrls, ...all('link[rel~="icon" i]', 'href'), ...cssUrls];
+    const imageOrigins = originsOf(imageUrls);
+    const usesDataUrls = imageUrls.some(url => /^\s*data:/i.test(url ?? ''));
+    // Google Fonts serves the stylesheet and the font files from different hosts
+    const fontOrigins = [...originsOf(cssUrls), ...stylesheetOrigins.includes('https://fonts.googleapis.com') ? ['https://fonts.gstatic.com'] : []];
+    const mediaOrigins = originsOf([...all('video[src], audio[src], source[src]', 'src'), ...all('video[poster]', 'poster')]);
+    const frameOrigins = originsOf(all('iframe[src]', 'src'));
+    const formOrigins = originsOf([...all('form[action]', 'action'), ...all('[formaction]', 'formaction')]);
+    const usesMailto = [...all('form[action]', 'action'), ...all('[formaction]', 'formaction')].some(action => /^\s*mailto:/i.test(action ?? ''));
+    // Wired contact forms send their data with fetch (see contactForms)
+    const connectOrigins = originsOf(all('form[data-form-endpoint]', 'data-form-endpoint'));
+
+    const directive = (name: string, sources: string[]) => `${name} ${[...new Set(sources)].join(' ')}`;
+    return [
+        directive('default-src', ["'self'"]),
+        directive('script-src', ["'self'", ...originsOf(all('script[src]', 'src')), ...scriptSources]),
+        directive('style-src', ["'self'", ...stylesheetOrigins, ...hasInlineStyles ? ["'unsafe-inline'"] : []]),
+        directive('img-src', ["'self'", ...imageOrigins, ...usesDataUrls ? ['data:'] : []]),
+        directive('font-src', ["'self'", ...fontOrigins, ...usesDataUrls ? ['data:'] : []]),
+        ...mediaOrigins.length > 0 ? [directive('media-src', ["'self'", ...mediaOrigins])] : [],
+        ...frameOrigins.length > 0 ? [directive('frame-src', frameOrigins)] : [],
+        ...connectOrigins.length > 0 ? [directive('connect-src', ["'self'", ...connectOrigins])] : [],
+        directive('form-action', ["'self'", ...formOrigins, ...usesMailto ? ['mailto:'] : []]),
+        "object-src 'none'",
+        "base-uri 'self'",
+    ].join('; ');
+}
+
+/** Puts the policy right after the charset, as it only applies to content that follows it. */
+export async function addContentSecurityPolicy(doc: Document, css: string) {
+    doc.head.querySelectorAll('meta[http-equiv="Content-Security-Policy" i]').forEach(meta => meta.remove());
+    const meta = doc.createElement('meta');
+    meta.httpEquiv = 'Content-Security-Policy';
+    meta.content = await buildContentSecurityPolicy(doc, css);
+    const charset = doc.head.querySelector('meta[charset]');
+    if (charset) charset.after(meta); else doc.head.prepend(meta);
+}
+
+/** Prompt constraint that keeps the model within the policy, so less has to be removed afterwards. */
+export function describeSecurityPolicy(policy: SecurityPolicy): string {
+    const scripts = policy.scriptOrigins.length > 0
+        ? `Only load external scripts from ${policy.scriptOrigins.join(', ')}; prefer plain inline JavaScript.`
+        : `Do not load any external scripts.`;
+    const handlers = policy.allowInlineHandlers ? '' : ` Do not use inline event handler attributes (such as onclick) or javascript: URLs; attach all behavior with addEventListener in the script.`;
+    return `- **Security:** ${scripts}${handlers}\n`;
+}
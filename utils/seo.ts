@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SitePage } from "./sitePages";
+
+export interface PageSeo {
+    title: string;
+    description: string;
+    /** Overrides the canonical URL derived from the base URL. */
+    canonicalUrl: string;
+}
+
+/**
+ * Search and social metadata of a site. It is kept out of the page HTML and
+ * written into each page's <head> when the site is exported.
+ */
+export interface SeoSettings {
+    siteName: string;
+    keywords: string;
+    /** Public address of the site, e.g. https://example.com; needed for canonical URLs and the sitemap. */
+    baseUrl: string;
+    /** Id of the generated image used for Open Graph and Twitter cards. */
+    shareImageId: string | null;
+    twitterCard: 'summary' | 'summary_large_image';
+    /** schema.org JSON-LD for the home page, as edited text. */
+    jsonLd: string;
+    /** Per-page metadata, keyed by slug. */
+    pages: Record<string, PageSeo>;
+}
+
+// Tags in <head> that are generated from SeoSettings and replaced on every export
+const MANAGED_HEAD_SELECTOR = [
+    'title',
+    'meta[name="description"]',
+    'meta[name="keywords"]',
+    'link[rel="canonical"]',
+    'meta[property^="og:"]',
+    'meta[name^="twitter:"]',
+    'script[type="application/ld+json"]',
+].join(', ');
+
+export const SEO_TITLE_LENGTH = 60;
+export const SEO_DESCRIPTION_LENGTH = 160;
+
+/** Default metadata for freshly generated pages. */
+export function createSeoSettings(
+    pages: SitePage[],
+    meta: { siteName: string; description: string; keywords: string; jsonLd: string },
+    shareImageId: string | null
+): SeoSettings {
+    return {
+        siteName: meta.siteName,
+        keywords: meta.keywords,
+        baseUrl: '',
+        shareImageId,
+        twitterCard: 'summary_large_image',
+        jsonLd: formatJsonLd(meta.jsonLd),
+        pages: Object.fromEntries(pages.map(page => [page.slug, {
+            title: pages.length > 1 ? `${page.title} | ${meta.siteName}` : meta.siteName,
+            description: meta.description,
+            canonicalUrl: '',
+        }])),
+    };
+}
+
+/** Reads the metadata that older projects kept directly in the page HTML. */
+export function readSeoFromPages(pages: SitePage[], shareImageId: string | null): SeoSettings {
+    const parser = new DOMParser();
+    const docs = pages.map(page => parser.parseFromString(page.html, 'text/html'));
+    const content = (doc: Document, selector: string) => doc.querySelector(selector)?.getAttribute('content')?.trim() ?? '';
+    const first = docs[0];
+    return {
+        siteName: content(first, 'meta[property="og:site_name"]') || first?.title.split('|').pop()!.trim() || '',
+        keywords: first ? content(first, 'meta[name="keywords"]') : '',
+        baseUrl: '',
+        shareImageId,
+        twitterCard: 'summary_large_image',
+        jsonLd: formatJsonLd(first?.querySelector('script[type="application/ld+json"]')?.textContent ?? ''),
+        pages: Object.fromEntries(pages.map((page, i) => [page.slug, {
+            title: docs[i].title.trim() || page.title,
+            description: content(docs[i], 'meta[name="description"]'),
+            canonicalUrl: docs[i].querySelector('link[rel="canonical"]')?.getAttribute('href') ?? '',
+        }])),
+    };
+}
+
+/** Removes the managed tags, so the HTML editor doesn't show values the SEO tab owns. */
+export function removeSeoTags(doc: Document) {
+    doc.head.querySelectorAll(MANAGED_HEAD_SELECTOR).forEach(element => element.remove());
+}
+
+export function stripSeoTags(html: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    removeSeoTags(doc);
+    return doc.documentElement.outerHTML;
+}
+
+/** Pretty-prints JSON-LD; text that isn't valid JSON is returned unchanged so it can be fixed by hand. */
+export function formatJsonLd(jsonLd: string): string {
+    if (!jsonLd.trim()) return '';
+    try {
+        return JSON.stringify(JSON.parse(jsonLd), null, 2);
+    } catch {
+        return jsonLd;
+    }
+}
+
+export function normalizeBaseUrl(baseUrl: string): string {
+    return baseUrl.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Public URL of a page: the home page is the site root, other pages are their .html files
+ * (or routes without extension for framework projects).
+ */
+export function pageUrl(baseUrl: string, slug: string, extension = '.html'): string {
+    const base = normalizeBaseUrl(baseUrl);
+    return slug === 'index' ? `${base}/` : `${base}/${slug}${extension}`;
+}
+
+export function getPageSeo(seo: SeoSettings, page: SitePage): PageSeo {
+    return seo.pages[page.slug] ?? { title: page.title, description: '', canonicalUrl: '' };
+}
+
+/**
+ * Writes title, description, canonical URL, Open Graph, Twitter card and JSON-LD tags
+ * into the page's <head>, replacing any existing ones. `shareImageUrl` should be absolute.
+ */
+export function applySeoMetadata(doc: Document, seo: SeoSettings, page: SitePage, shareImageUrl: string | null) {
+    removeSeoTags(doc);
+    const pageSeo = getPageSeo(seo, page);
+    const canonicalUrl = pageSeo.canonicalUrl.trim() || (seo.baseUrl.trim() ? pageUrl(seo.baseUrl, page.slug) : '');
+
+    const title = doc.createElement('title');
+    title.textContent = pageSeo.title;
+    // Keep charset and viewport first, as browsers expect them early
+    const anchor = doc.head.querySelector('meta[name="viewport"]') ?? doc.head.querySelector('meta[charset]');
+    if (anchor) anchor.after(title); else doc.head.prepend(title);
+
+    const tags: HTMLElement[] = [];
+    const meta = (attribute: 'name' | 'property', key: string, value: string) => {
+        if (!value) return;
+        const element = doc.createElement('meta');
+        element.setAttribute(attribute, key);
+        element.setAttribute('content', value);
+        tags.push(element);
+    };
+
+    meta('name', 'description', pageSeo.description);
+    meta('name', 'keywords', seo.keywords);
+    if (canonicalUrl) {
+        const link = doc.createElement('link');
+        link.rel = 'canonical';
+        link.href = canonicalUrl;
+        tags.push(link);
+    }
+
+    meta('property', 'og:type', 'website');
+    meta('property', 'og:title', pageSeo.title);
+    meta('property', 'og:description', pageSeo.description);
+    meta('property', 'og:url', canonicalUrl);
+    meta('property', 'og:site_name', seo.siteName);
+    meta('property', 'og:image', shareImageUrl ?? '');
+    meta('name', 'twitter:card', shareImageUrl ? seo.twitterCard : 'summary');
+    meta('name', 'twitter:title', pageSeo.title);
+    meta('name', 'twitter:description', pageSeo.description);
+    meta('name', 'twitter:image', shareImageUrl ?? '');
+
+    if (page.slug === 'index' && seo.jsonLd.trim()) {
+        try {
+            const script = doc.createElement('script');
+            script.type = 'application/ld+json';
+            // Re-serialize so invalid JSON never reaches the page, and `</script>` can't end the tag early
+            script.textContent = JSON.stringify(JSON.parse(seo.jsonLd), null, 2).replace(/</g, '\\u003c');
+            tags.push(script);
+        } catch {
+            console.warn("Skipping invalid JSON-LD.");
+        }
+    }
+    title.after(...tags);
+}
+
+/**
+ * With `languages` (a multilingual export with one folder per language), every page is listed once per
+ * language, e.g. /fr/about.html, together with hreflang links to its other language versions.
+ */
+export function buildSitemap(baseUrl: string, pages: SitePage[], lastModified: Date, extension = '.html', languages: string[] = []): string {
+    const date = lastModified.toISOString().slice(0, 10);
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    const base = normalizeBaseUrl(baseUrl);
+    const folders = languages.length ? languages.map(language => `${base}/${language}`) : [base];
+    const urls = folders.flatMap(folder => pages.map(page => {
+        const alternates = languages.map((language, i) =>
+            `\n    <xhtml:link rel="alternate" hreflang="${language}" href="${escape(pageUrl(folders[i], page.slug, extension))}"/>`);
+        return `  <url>
+    <loc>${escape(pageUrl(folder, page.slug, extension))}</loc>${alternates.join('')}
+    <lastmod>${date}</lastmod>
+    <priority>${page.slug === 'index' ? '1.0' : '0.8'}</priority>
+  </url>`;
+    }));
+    const xhtmlNamespace = languages.length ? ' xmlns:xhtml="http://www.w3.org/1999/xhtml"' : '';
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"${xhtmlNamespace}>
+${urls.join('\n')}
+</urlset>
+`;
+}
+
+export function buildRobotsTxt(baseUrl: string): string {
+    const lines = ['User-agent: *', 'Allow: /'];
+    if (baseUrl.trim()) lines.push('', `Sitemap: ${normalizeBaseUrl(baseUrl)}/sitemap.xml`);
+    return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface SitePage {
+    /** File name without extension; the home page is always "index". */
+    slug: string;
+    title: string;
+    /** Complete HTML document of the page (without the shared stylesheet). */
+    html: string;
+}
+
+export interface MultiPageWebsiteData {
+    sharedCss: string;
+    headerHtml: string;
+    footerHtml: string;
+    pages: { slug: string; title: string; mainHtml: string }[];
+}
+
+/** Suggested page list per value of the `page-type` select. */
+export const DEFAULT_PAGES_BY_TYPE: Record<string, string[]> = {
+    'Landing Page': ['Home', 'Features', 'Pricing', 'Contact'],
+    'Portfolio': ['Home', 'Projects', 'About', 'Contact'],
+    'Blog Post': ['Home', 'Article', 'About'],
+    'Product Page': ['Home', 'Product', 'FAQ', 'Contact'],
+    'Company Site': ['Home', 'About Us', 'Services', 'Contact'],
+};
+
+export function slugify(value: string): string {
+    const slug = value
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+    return slug || 'page';
+}
+
+/** Turns a list of page names into unique slugs, making the first page the "index" page. */
+export function planPages(names: string[]): { slug: string; title: string }[] {
+    const used = new Set<string>();
+    return names.map((title, i) => {
+        let slug = i === 0 ? 'index' : slugify(title);
+        let suffix = 2;
+        while (used.has(slug)) {
+            slug = `${slugify(title)}-${suffix++}`;
+        }
+        used.add(slug);
+        return { slug, title };
+    });
+}
+
+/**
+ * Builds one full HTML document per page from the shared layout returned by the model.
+ * Every page gets the same stylesheet, header (navigation) and footer.
+ */
+export function assembleSitePages(data: MultiPageWebsiteData, language: string, siteTitle: string): SitePage[] {
+    const slugs = new Set(data.pages.map(p => p.slug));
+    return data.pages.map(page => {
+        const html = `<!DOCTYPE html>
+<html lang="${languageCode(language)}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${page.title} | ${siteTitle}</title>
+    <style>
+${data.sharedCss}
+    </style>
+</head>
+<body>
+${data.headerHtml}
+<main>
+${page.mainHtml}
+</main>
+${data.footerHtml}
+</body>
+</html>`;
+        return { slug: page.slug, title: page.title, html: fixPageLinks(html, slugs) };
+    });
+}
+
+/**
+ * Rewrites in-page anchors that point at another page (e.g. `#about` when an "about" page exists)
+ * to the page file, so navigation works between files instead of within one document.
+ */
+export function fixPageLinks(html: string, slugs: Set<string>): string {
+    return html.replace(/href=(["'])#([\w-]+)\1/g, (match, quote, anchor) => {
+        const slug = anchor === 'home' ? 'index' : anchor;
+        return slugs.has(slug) ? `href=${quote}${slug}.html${quote}` : match;
+    });
+}
+
+/**
+ * Copies the top-level `<header>` and `<footer>` of the given page into every other page,
+ * so the navigation stays shared after manual edits.
+ */
+export function syncSharedLayout(pages: SitePage[], sourceIndex: number): SitePage[] {
+    if (pages.length < 2) return pages;
+    const parser = new DOMParser();
+    const source = parser.parseFromString(pages[sourceIndex].html, 'text/html');
+    const header = source.body.querySelector(':scope > header');
+    const footer = source.body.querySelector(':scope > footer');
+
+    return pages.map((page, i) => {
+        if (i === sourceIndex) return page;
+        const doc = parser.parseFromString(page.html, 'text/html');
+        const targetHeader = doc.body.querySelector(':scope > header');
+        const targetFooter = doc.body.querySelector(':scope > footer');
+        if (header && targetHeader) targetHeader.outerHTML = header.outerHTML;
+        if (footer && targetFooter) targetFooter.outerHTML = footer.outerHTML;
+        return { ...page, html: doc.documentElement.outerHTML };
+    });
+}
+
+const CLASSIC_SCRIPT_TYPES = ['', 'text/javascript', 'application/javascript'];
+
+/**
+ * Moves inline scripts out of the pages so they can be edited as one JavaScript file.
+ * Pages share their scripts (they live in the shared footer), so the first page's are kept.
+ * Scripts with a src, modules and data blocks such as JSON-LD stay in the HTML.
+ */
+export function separateInlineScripts(pages: SitePage[]): { pages: SitePage[]; js: string } {
+    const parser = new DOMParser();
+    let js = '';
+    const result = pages.map((page, i) => {
+        const doc = parser.parseFromString(page.html, 'text/html');
+        const scripts = Array.from(doc.querySelectorAll('script:not([src])'))
+            .filter(script => CLASSIC_SCRIPT_TYPES.includes((script.getAttribute('type') ?? '').trim().toLowerCase()));
+        if (scripts.length === 0) return page;
+        if (i === 0) js = scripts.map(script => script.textContent?.trim() ?? '').filter(Boolean).join('\n\n');
+        scripts.forEach(script => script.remove());
+        return { ...page, html: doc.documentElement.outerHTML };
+    });
+    return { pages: result, js: js ? `${js}\n` : '' };
+}
+
+/**
+ * Languages a site can be generated and translated into. `name` is the value of the language select and
+ * is used in prompts; `label` and `switcherLabel` are shown in the site's own language switcher.
+ */
+export const SITE_LANGUAGES = [
+    { name: 'German', code: 'de', label: 'Deutsch', switcherLabel: 'Sprache' },
+    { name: 'English', code: 'en', label: 'English', switcherLabel: 'Language' },
+    { name: 'Spanish', code: 'es', label: 'Español', switcherLabel: 'Idioma' },
+    { name: 'French', code: 'fr', label: 'Français', switcherLabel: 'Langue' },
+    { name: 'Italian', code: 'it', label: 'Italiano', switcherLabel: 'Lingua' },
+];
+
+export function languageCode(language: string): string {
+    return SITE_LANGUAGES.find(entry => entry.name === language)?.code ?? 'en';
+}
+
+/** The language select value for a language code, e.g. "French" for "fr"; unknown codes give English. */
+export function languageName(code: string): string {
+    return SITE_LANGUAGES.find(entry => entry.code === code)?.name ?? 'English';
+}
+
+/** The name of the language in that language, for switchers. */
+export function languageLabel(code: string): string {
+    return SITE_LANGUAGES.find(entry => entry.code === code)?.label ?? code.toUpperCase();
+}
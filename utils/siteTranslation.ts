@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SitePage, SITE_LANGUAGES, languageCode, languageLabel } from "./sitePages";
+import type { SeoSettings } from "./seo";
+
+/**
+ * The texts of the site in one extra language. Pages are only stored in the primary language:
+ * a translated page is derived by swapping its texts, so layout, images and element ids stay shared.
+ */
+export interface SiteTranslation {
+    /** Language name as in the language select, e.g. "French". */
+    language: string;
+    /** Translations keyed by the source text, with whitespace collapsed. */
+    texts: Record<string, string>;
+}
+
+/** Attributes whose values are read by visitors or screen readers. */
+const TRANSLATABLE_ATTRIBUTES = ['alt', 'title', 'placeholder', 'aria-label'];
+const SKIPPED_ELEMENTS = 'script, style, noscript, code, pre, svg';
+
+/** Styles for the injected language switcher; uses the design tokens where the site defines them. */
+export const LANGUAGE_SWITCHER_CSS = `.language-switcher { display: flex; gap: 0.5rem; font-size: 0.875rem; }
+.language-switcher a { color: var(--color-text, inherit); text-decoration: none; opacity: 0.7; }
+.language-switcher a:hover, .language-switcher a[aria-current="true"] { opacity: 1; text-decoration: underline; }`;
+
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function isTranslatable(text: string): boolean {
+    return /\p{L}/u.test(text);
+}
+
+/** Calls `visit` for every translatable text node and attribute in the body, with a setter for the translation. */
+function forEachText(doc: Document, visit: (text: string, replace: (translation: string) => void) => void) {
+    const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const textNode = node as Text;
+        if (textNode.parentElement?.closest(SKIPPED_ELEMENTS)) continue;
+        const value = textNode.data;
+        const text = normalizeText(value);
+        if (!isTranslatable(text)) continue;
+        visit(text, translation => {
+            // Keep the surrounding whitespace, it separates the text from inline elements next to it
+            textNode.data = value.match(/^\s*/)![0] + translation + value.match(/\s*$/)![0];
+        });
+    }
+    const selector = TRANSLATABLE_ATTRIBUTES.map(attribute => `[${attribute}]`).join(', ');
+    doc.body.querySelectorAll(selector).forEach(element => {
+        if (element.closest(SKIPPED_ELEMENTS)) return;
+        TRANSLATABLE_ATTRIBUTES.forEach(attribute => {
+            const text = normalizeText(element.getAttribute(attribute) ?? '');
+            if (isTranslatable(text)) visit(text, translation => element.setAttribute(attribute, translation));
+        });
+    });
+}
+
+/** All distinct texts of the site that need a translation: page content, page titles and their SEO metadata. */
+export function collectTranslatableTexts(pages: SitePage[], seo: SeoSettings | null): string[] {
+    const texts = new Set<string>();
+    const add = (text: string) => {
+        const normalized = normalizeText(text);
+        if (isTranslatable(normalized)) texts.add(normalized);
+    };
+    const parser = new DOMParser();
+    pages.forEach(page => {
+        forEachText(parser.parseFromString(page.html, 'text/html'), add);
+        add(page.title);
+        const pageSeo = seo?.pages[page.slug];
+        if (pageSeo) {
+            add(pageSeo.title);
+            add(pageSeo.description);
+        }
+    });
+    return [...texts];
+}
+
+/** Texts that were added or changed since the translation was made. */
+export function findMissingTexts(pages: SitePage[], seo: SeoSettings | null, translation: SiteTranslation): string[] {
+    return collectTranslatableTexts(pages, seo).filter(text => !(text in translation.texts));
+}
+
+function translateText(text: string, texts: Record<string, string>): string {
+    return texts[normalizeText(text)] ?? text;
+}
+
+/** The page HTML in the given language; texts without a translation stay in the primary language. */
+export function translateHtml(html: string, translation: SiteTranslation): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    forEachText(doc, (text, replace) => {
+        const translated = translation.texts[text];
+        if (translated) replace(translated);
+    });
+    doc.documentElement.lang = languageCode(translation.language);
+    return doc.documentElement.outerHTML;
+}
+
+export function localizePages(pages: SitePage[], translation: SiteTranslation): SitePage[] {
+    return pages.map(page => ({
+        ...page,
+        title: translateText(page.title, translation.texts),
+        html: translateHtml(page.html, translation),
+    }));
+}
+
+/**
+ * SEO settings for a translated copy of the site. Canonical URL overrides are dropped,
+ * as they point at the primary language.
+ */
+export function localizeSeo(seo: SeoSettings, translation: SiteTranslation): SeoSettings {
+    return {
+        ...seo,
+        pages: Object.fromEntries(Object.entries(seo.pages).map(([slug, pageSeo]) => [slug, {
+            title: translateText(pageSeo.title, translation.texts),
+            description: translateText(pageSeo.description, translation.texts),
+            canonicalUrl: '',
+        }])),
+    };
+}
+
+/** The `lang` of the page's `<html>` element, i.e. the primary language of the site. */
+export function pageLanguageCode(html: string): string {
+    return html.match(/<html[^>]*\slang=["']?([\w-]+)/i)?.[1].toLowerCase() ?? 'en';
+}
+
+export interface LanguageAlternate {
+    code: string;
+    /** Link target of the switcher, usually relative. */
+    href: string;
+    /** Target of the hreflang link; absolute when the site's base URL is known. */
+    alternateHref: string;
+}
+
+/**
+ * Adds `hreflang` links for every language version of the page to the `<head>` and a language
+ * switcher to the end of the top-level `<header>` (or the top of the body if there is none).
+ * The first alternate is the primary language and doubles as `x-default`.
+ */
+export function addLanguageLinks(doc: Document, currentCode: string, alternates: LanguageAlternate[]) {
+    doc.head.querySelectorAll('link[rel="alternate"][hreflang]').forEach(link => link.remove());
+    doc.body.querySelectorAll('.language-switcher').forEach(nav => nav.remove());
+
+    const links = [...alternates.map(alternate => [alternate.code, alternate.alternateHref]), ['x-default', alternates[0].alternateHref]];
+    links.forEach(([hreflang, href]) => {
+        const link = doc.createElement('link');
+        link.rel = 'alternate';
+        link.hreflang = hreflang;
+        link.href = href;
+        doc.head.appendChild(link);
+    });
+
+    const current = SITE_LANGUAGES.find(language => language.code === currentCode);
+    const nav = doc.createElement('nav');
+    nav.className = 'language-switcher';
+    nav.setAttribute('aria-label', current?.switcherLabel ?? 'Language');
+    alternates.forEach(alternate => {
+        const link = doc.createElement('a');
+        link.href = alternate.href;
+        link.hreflang = alternate.code;
+        link.lang = alternate.code;
+        link.textContent = languageLabel(alternate.code);
+        if (alternate.code === currentCode) link.setAttribute('aria-current', 'true');
+        nav.appendChild(link);
+    });
+    const header = doc.body.querySelector(':scope > header');
+    if (header) header.appendChild(nav); else doc.body.prepend(nav);
+}
+
+/** Root page of a multilingual export: forwards to the primary language and lists all versions. */
+export function buildLanguageRedirect(codes: string[]): string {
+    const links = codes.map(code => `        <li><a href="${code}/index.html" hreflang="${code}" lang="${code}">${languageLabel(code)}</a></li>`);
+    return `<!DOCTYPE html>
+<html lang="${codes[0]}">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="refresh" content="0; url=${codes[0]}/index.html">
+    <title>${codes.map(code => code.toUpperCase()).join(' / ')}</title>
+</head>
+<body>
+    <ul>
+${links.join('\n')}
+    </ul>
+</body>
+</html>
+`;
+}